@@ -1,4 +1,5 @@
 import { createApp } from './app';
+import { attachGameEventSocket } from './routes/gameEvents';
 import { gameSessionService } from './services/GameSessionService';
 
 const PORT = process.env.PORT || 3000;
@@ -6,11 +7,15 @@ const PORT = process.env.PORT || 3000;
 const app = createApp();
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 PolyEmpire API Server running on http://localhost:${PORT}`);
   console.log(`📡 API endpoints available at http://localhost:${PORT}/api`);
+  console.log(`🔌 Game events available at ws://localhost:${PORT}/api/games/:id/events`);
 });
 
+// Push game events to subscribed players over WebSockets
+attachGameEventSocket(server);
+
 // Periodic cleanup of old games
 setInterval(async () => {
   await gameSessionService.cleanup();
@@ -0,0 +1,40 @@
+import type { Request, Response, NextFunction } from 'express';
+import { authService } from '../services/AuthService';
+
+/**
+ * Require a player token (`Authorization: Bearer <token>`) for the game in the route's :id
+ * The authenticated player is available to the handler through getPlayerId()
+ */
+export function requirePlayerToken(
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction,
+): void {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+  if (!token) {
+    res.status(401).json({ success: false, error: 'Missing player token' });
+    return;
+  }
+
+  const claims = authService.verifyToken(token);
+  if (!claims) {
+    res.status(401).json({ success: false, error: 'Invalid player token' });
+    return;
+  }
+
+  if (claims.sessionId !== req.params.id) {
+    res.status(403).json({ success: false, error: 'Token is for a different game' });
+    return;
+  }
+
+  res.locals.playerId = claims.playerId;
+  next();
+}
+
+/**
+ * The player authenticated by requirePlayerToken
+ */
+export function getPlayerId(res: Response): number {
+  return res.locals.playerId as number;
+}
@@ -1,8 +1,22 @@
 import type {
   GameSession as IGameSession,
+  GameResult,
   PlayerInfo,
   Intent,
+  VictorySettings,
+  War,
 } from '@shared/types';
+import { createVictorySettings } from '@engine/gameplay/victory';
+
+/**
+ * Server-side session state that is not part of the API shape.
+ * Persistent repositories save this alongside the session row.
+ */
+export interface GameSessionServerState {
+  lastStateUpdate: string;
+  playersEndedTurn: number[];
+  wars: War[];
+}
 
 /**
  * Internal game session model with additional server-side state
@@ -18,15 +32,17 @@ export class GameSessionModel implements IGameSession {
   public updatedAt: string;
   public mapWidth?: number; // Map dimensions - set when game is created
   public mapHeight?: number;
+  public mapSeed?: number; // Seed the session's map is generated from
+  public victory: VictorySettings; // How the game can be won - checked after each turn
+  public result?: GameResult; // How the game ended, once it's finished
 
   // Server-side only fields
-  private actionHistory: Array<{ playerId: number; intent: Intent; timestamp: string }> = [];
+  private actionHistory: Array<{ seq: number; playerId: number; intent: Intent; timestamp: string }> = [];
   private lastStateUpdate: string = new Date().toISOString();
-  private lastEntityCount: number = 0; // Track entity count to detect changes
   // Track which players have ended their turn this round
   private playersEndedTurn = new Set<number>();
   // Track wars between players (for hybrid turn system)
-  private wars: Array<{ player1Id: number; player2Id: number; declaredAt: string; isActive: boolean }> = [];
+  private wars: War[] = [];
 
   constructor(
     id: string,
@@ -36,6 +52,8 @@ export class GameSessionModel implements IGameSession {
     creatorCivId: string,
     mapWidth?: number,
     mapHeight?: number,
+    mapSeed?: number,
+    victory: VictorySettings = createVictorySettings(),
   ) {
     this.id = id;
     this.name = name;
@@ -55,6 +73,8 @@ export class GameSessionModel implements IGameSession {
     this.updatedAt = new Date().toISOString();
     this.mapWidth = mapWidth;
     this.mapHeight = mapHeight;
+    this.mapSeed = mapSeed;
+    this.victory = victory;
   }
 
   /**
@@ -91,8 +111,9 @@ export class GameSessionModel implements IGameSession {
    * Record an action (for in-memory tracking)
    * Note: The repository also stores actions, this is for quick access
    */
-  recordAction(playerId: number, intent: Intent): void {
+  recordAction(seq: number, playerId: number, intent: Intent): void {
     this.actionHistory.push({
+      seq,
       playerId,
       intent,
       timestamp: new Date().toISOString(),
@@ -102,11 +123,11 @@ export class GameSessionModel implements IGameSession {
   }
 
   /**
-   * Get actions since a timestamp (for in-memory access)
+   * Get actions after a sequence number (for in-memory access)
    * Note: The repository is the source of truth, this is for quick access
    */
-  getActionsSince(timestamp: string): Array<{ playerId: number; intent: Intent; timestamp: string }> {
-    return this.actionHistory.filter(action => action.timestamp > timestamp);
+  getActionsAfter(seq: number): Array<{ seq: number; playerId: number; intent: Intent; timestamp: string }> {
+    return this.actionHistory.filter(action => action.seq > seq);
   }
 
   /**
@@ -194,7 +215,7 @@ export class GameSessionModel implements IGameSession {
       this.advanceToNextPlayer();
       
       // Check if we've completed a full round (all players have had their turn)
-      const activePlayers = this.players.filter(p => p.isConnected).map(p => p.id);
+      const activePlayers = this.getActivePlayerIds();
       if (this.currentPlayerId === activePlayers[0]) {
         // We've cycled back to the first player - advance the turn
         this.advanceTurn();
@@ -207,7 +228,7 @@ export class GameSessionModel implements IGameSession {
       this.updatedAt = new Date().toISOString();
 
       // Check if all active players have ended their turn
-      const activePlayers = this.players.filter(p => p.isConnected).map(p => p.id);
+      const activePlayers = this.getActivePlayerIds();
       const allEnded = activePlayers.every(id => this.playersEndedTurn.has(id));
 
       if (allEnded) {
@@ -220,6 +241,38 @@ export class GameSessionModel implements IGameSession {
     }
   }
 
+  /**
+   * Players who take turns: connected and not eliminated
+   */
+  private getActivePlayerIds(): number[] {
+    return this.players.filter(p => p.isConnected && !p.isEliminated).map(p => p.id);
+  }
+
+  /**
+   * Mark a player as out of the game (they lost all their cities and units)
+   */
+  eliminatePlayer(playerId: number): void {
+    const player = this.players.find(p => p.id === playerId);
+    if (player) {
+      player.isEliminated = true;
+      this.playersEndedTurn.delete(playerId);
+      // In sequential mode the turn passes on
+      if (this.currentPlayerId === playerId && this.getActivePlayerIds().length > 0) {
+        this.advanceToNextPlayer();
+      }
+      this.updatedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * End the game (a victory condition was met)
+   */
+  finish(result: GameResult): void {
+    this.status = 'finished';
+    this.result = result;
+    this.updatedAt = new Date().toISOString();
+  }
+
   /**
    * Advance to the next turn (called when all players have ended their turn)
    */
@@ -231,7 +284,7 @@ export class GameSessionModel implements IGameSession {
     // In sequential mode (war), set to first player
     // In simultaneous mode, currentPlayerId can be any player (not strictly used)
     if (this.hasActiveHumanWars()) {
-      const activePlayers = this.players.filter(p => p.isConnected).map(p => p.id).sort();
+      const activePlayers = this.getActivePlayerIds().sort();
       if (activePlayers.length > 0) {
         this.currentPlayerId = activePlayers[0];
       }
@@ -245,7 +298,7 @@ export class GameSessionModel implements IGameSession {
    * Advance to the next player's turn (sequential mode only)
    */
   private advanceToNextPlayer(): void {
-    const activePlayers = this.players.filter(p => p.isConnected).map(p => p.id).sort();
+    const activePlayers = this.getActivePlayerIds().sort();
     const currentIndex = activePlayers.indexOf(this.currentPlayerId);
     const nextIndex = (currentIndex + 1) % activePlayers.length;
     this.currentPlayerId = activePlayers[nextIndex];
@@ -272,13 +325,54 @@ export class GameSessionModel implements IGameSession {
   getLastStateUpdate(): string {
     return this.lastStateUpdate;
   }
-  
-  getLastEntityCount(): number {
-    return this.lastEntityCount;
+
+  /**
+   * Get the server-side state for persistence
+   */
+  getServerState(): GameSessionServerState {
+    return {
+      lastStateUpdate: this.lastStateUpdate,
+      playersEndedTurn: this.getPlayersEndedTurn(),
+      wars: this.wars.map(war => ({ ...war })),
+    };
   }
-  
-  setLastEntityCount(count: number): void {
-    this.lastEntityCount = count;
+
+  /**
+   * Rebuild a session from persisted data (used by durable repositories)
+   */
+  static restore(session: IGameSession, state: GameSessionServerState): GameSessionModel {
+    const game = new GameSessionModel(
+      session.id,
+      session.name,
+      0,
+      '',
+      '',
+      session.mapWidth,
+      session.mapHeight,
+      session.mapSeed,
+      session.victory,
+    );
+    game.result = session.result;
+    game.players = session.players.map(p => ({ ...p }));
+    game.currentTurn = session.currentTurn;
+    game.currentPlayerId = session.currentPlayerId;
+    game.status = session.status;
+    game.createdAt = session.createdAt;
+    game.updatedAt = session.updatedAt;
+    game.lastStateUpdate = state.lastStateUpdate;
+    game.playersEndedTurn = new Set(state.playersEndedTurn);
+    game.wars = state.wars.map(war => ({ ...war }));
+    return game;
+  }
+
+  /**
+   * A copy that shares no state with this session (see InMemoryGameSessionRepository)
+   */
+  clone(): GameSessionModel {
+    return GameSessionModel.restore(
+      structuredClone({ ...this.toJSON(), mapWidth: this.mapWidth, mapHeight: this.mapHeight, mapSeed: this.mapSeed }),
+      this.getServerState(),
+    );
   }
 
   /**
@@ -294,6 +388,8 @@ export class GameSessionModel implements IGameSession {
       status: this.status,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      victory: this.victory,
+      result: this.result,
     };
   }
 
@@ -307,7 +403,7 @@ export class GameSessionModel implements IGameSession {
       playersEndedTurn: this.getPlayersEndedTurn(),
       allPlayersEnded: isSequentialMode 
         ? false // Not applicable in sequential mode
-        : this.players.filter(p => p.isConnected).every(p => this.playersEndedTurn.has(p.id)),
+        : this.getActivePlayerIds().every(id => this.playersEndedTurn.has(id)),
       isSequentialMode,
       wars: this.wars.filter(w => w.isActive),
     };
@@ -1,6 +1,18 @@
 import type { GameSessionModel } from '../models/GameSession';
 import type { Intent } from '@shared/types';
 
+/**
+ * An action as recorded for a session
+ * seq numbers start at 1 and increase by one per recorded action within a session
+ */
+export interface RecordedAction {
+  seq: number;
+  playerId: number;
+  intent: Intent;
+  timestamp: string;
+  visibleTo?: number[]; // Players who saw the action happen (undefined = everyone)
+}
+
 /**
  * Repository interface for game session storage
  * This abstraction allows us to easily switch between:
@@ -39,12 +51,30 @@ export interface IGameSessionRepository {
 
   /**
    * Record an action for a game session
+   * Returns the sequence number assigned to it
+   */
+  recordAction(
+    sessionId: string,
+    playerId: number,
+    intent: Intent,
+    timestamp: string,
+    visibleTo?: number[],
+  ): Promise<number>;
+
+  /**
+   * Get actions with a sequence number greater than afterSeq, in order
+   */
+  getActionsAfter(sessionId: string, afterSeq: number): Promise<RecordedAction[]>;
+
+  /**
+   * Sequence number of the latest recorded action (0 if there are none)
    */
-  recordAction(sessionId: string, playerId: number, intent: Intent, timestamp: string): Promise<void>;
+  getLatestSeq(sessionId: string): Promise<number>;
 
   /**
-   * Get actions since a timestamp
+   * Run work atomically - if it throws, nothing it wrote through this repository
+   * (or a state repository sharing the same storage) is kept
    */
-  getActionsSince(sessionId: string, since: string): Promise<Array<{ playerId: number; intent: Intent; timestamp: string }>>;
+  transaction<T>(work: () => Promise<T>): Promise<T>;
 }
 
@@ -0,0 +1,80 @@
+import type { ResearchState } from '@shared/types';
+import type { ServerEntity } from '../services/GameStateService';
+
+/**
+ * What one player has seen: the tiles they ever revealed and the last-known state of enemy cities
+ */
+export interface PlayerVisibilitySnapshot {
+  playerId: number;
+  revealed: number[]; // Indices (ty * width + tx) of revealed tiles
+  knownCities: ServerEntity[];
+}
+
+/**
+ * A player's civilization-level production stockpile
+ */
+export interface PlayerStockpile {
+  playerId: number;
+  production: number;
+}
+
+/**
+ * A player's research (see research.ts)
+ */
+export interface PlayerResearch {
+  playerId: number;
+  research: ResearchState;
+}
+
+/**
+ * When an entity came into or went out of a player's view (see EntityVersionTracker)
+ */
+export interface PlayerViewEntry {
+  id: number; // Entity id
+  visible: boolean;
+  deleted?: boolean; // Went out of view because it was destroyed
+  version: number; // State version it came into or went out of view at
+  type: ServerEntity['type'];
+}
+
+/**
+ * Entity versions of a session, for computing what changed since a state version
+ */
+export interface EntityVersionsSnapshot {
+  version: number; // The session's state version
+  entities: Array<{ id: number; version: number }>; // Version each entity last changed at
+  views: Array<{ playerId: number; entries: PlayerViewEntry[] }>;
+}
+
+/**
+ * Persisted authoritative state for one game session
+ */
+export interface GameStateSnapshot {
+  entities: ServerEntity[];
+  nextEntityId: number;
+  visibility: PlayerVisibilitySnapshot[];
+  stockpiles: PlayerStockpile[];
+  research?: PlayerResearch[]; // Missing for sessions saved before research
+  versions?: EntityVersionsSnapshot; // Missing for sessions saved before versions were tracked
+}
+
+/**
+ * Repository interface for server entity storage
+ * Mirrors IGameSessionRepository so both can live in the same backend
+ */
+export interface IGameStateRepository {
+  /**
+   * Load the state of a session (null if nothing was saved yet)
+   */
+  load(sessionId: string): Promise<GameStateSnapshot | null>;
+
+  /**
+   * Replace the saved state of a session
+   */
+  save(sessionId: string, state: GameStateSnapshot): Promise<void>;
+
+  /**
+   * Delete the saved state of a session
+   */
+  delete(sessionId: string): Promise<void>;
+}
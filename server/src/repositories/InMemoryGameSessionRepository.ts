@@ -1,4 +1,4 @@
-import type { IGameSessionRepository } from './IGameSessionRepository';
+import type { IGameSessionRepository, RecordedAction } from './IGameSessionRepository';
 import { GameSessionModel } from '../models/GameSession';
 import type { Intent } from '@shared/types';
 
@@ -6,22 +6,25 @@ import type { Intent } from '@shared/types';
  * In-memory implementation of game session repository
  * Similar to H2 in-memory mode - fast, no setup, but data is lost on restart
  * Perfect for development and testing
+ *
+ * Keeps copies of the sessions, so changes only count once they're saved with update() and
+ * a rolled back transaction can put the saved sessions back
  */
 export class InMemoryGameSessionRepository implements IGameSessionRepository {
   private sessions = new Map<string, GameSessionModel>();
-  private actionHistory = new Map<string, Array<{ playerId: number; intent: Intent; timestamp: string }>>();
+  private actionHistory = new Map<string, RecordedAction[]>(); // sessionId -> actions in seq order
 
   async create(game: GameSessionModel): Promise<void> {
-    this.sessions.set(game.id, game);
+    this.sessions.set(game.id, game.clone());
     this.actionHistory.set(game.id, []);
   }
 
   async findById(sessionId: string): Promise<GameSessionModel | null> {
-    return this.sessions.get(sessionId) || null;
+    return this.sessions.get(sessionId)?.clone() || null;
   }
 
   async update(game: GameSessionModel): Promise<void> {
-    this.sessions.set(game.id, game);
+    this.sessions.set(game.id, game.clone());
   }
 
   async delete(sessionId: string): Promise<void> {
@@ -30,18 +33,49 @@ export class InMemoryGameSessionRepository implements IGameSessionRepository {
   }
 
   async findAll(): Promise<GameSessionModel[]> {
-    return Array.from(this.sessions.values());
+    return Array.from(this.sessions.values(), game => game.clone());
   }
 
-  async recordAction(sessionId: string, playerId: number, intent: Intent, timestamp: string): Promise<void> {
+  async recordAction(
+    sessionId: string,
+    playerId: number,
+    intent: Intent,
+    timestamp: string,
+    visibleTo?: number[],
+  ): Promise<number> {
     const actions = this.actionHistory.get(sessionId) || [];
-    actions.push({ playerId, intent, timestamp });
+    const seq = actions.length + 1;
+    actions.push({ seq, playerId, intent, timestamp, visibleTo });
     this.actionHistory.set(sessionId, actions);
+    return seq;
   }
 
-  async getActionsSince(sessionId: string, since: string): Promise<Array<{ playerId: number; intent: Intent; timestamp: string }>> {
+  async getActionsAfter(sessionId: string, afterSeq: number): Promise<RecordedAction[]> {
+    // Actions are stored in seq order starting at 1, so seq n is at index n - 1
     const actions = this.actionHistory.get(sessionId) || [];
-    return actions.filter(action => action.timestamp > since);
+    return actions.slice(Math.max(0, afterSeq));
+  }
+
+  async getLatestSeq(sessionId: string): Promise<number> {
+    return this.actionHistory.get(sessionId)?.length ?? 0;
   }
-}
 
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    // Stored sessions are never changed in place and actions are only appended,
+    // so the maps' entries and the action counts are enough to restore them
+    const sessions = new Map(this.sessions);
+    const actionHistory = new Map(this.actionHistory);
+    const actionCounts = new Map(Array.from(this.actionHistory, ([id, actions]) => [id, actions.length]));
+    try {
+      return await work();
+    } catch (error) {
+      // Drop sessions and actions saved by the failed work
+      this.sessions = sessions;
+      this.actionHistory = actionHistory;
+      for (const [id, count] of actionCounts) {
+        this.actionHistory.get(id)!.splice(count);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import type { GameStateSnapshot, IGameStateRepository } from './IGameStateRepository';
+
+/**
+ * In-memory implementation of game state repository
+ * Keeps deep copies so the last saved state can be restored when an action is rolled back
+ */
+export class InMemoryGameStateRepository implements IGameStateRepository {
+  private states = new Map<string, GameStateSnapshot>();
+
+  async load(sessionId: string): Promise<GameStateSnapshot | null> {
+    const state = this.states.get(sessionId);
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(sessionId: string, state: GameStateSnapshot): Promise<void> {
+    this.states.set(sessionId, structuredClone(state));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.states.delete(sessionId);
+  }
+}
@@ -1,100 +1,392 @@
+import Database from 'better-sqlite3';
+import type { IGameSessionRepository, RecordedAction } from './IGameSessionRepository';
+import { GameSessionModel } from '../models/GameSession';
+import type { GameResult, GameSession, Intent, VictorySettings } from '@shared/types';
+
+interface SessionRow {
+  id: string;
+  name: string;
+  current_turn: number;
+  current_player_id: number;
+  status: GameSession['status'];
+  created_at: string;
+  updated_at: string;
+  map_width: number | null;
+  map_height: number | null;
+  map_seed: number | null;
+  victory: string | null; // VictorySettings (JSON)
+  result: string | null; // GameResult (JSON), once finished
+  last_state_update: string;
+}
+
+interface PlayerRow {
+  player_id: number;
+  name: string;
+  civilization_id: string;
+  is_connected: number;
+  is_human: number;
+  is_eliminated: number;
+}
+
+interface WarRow {
+  player1_id: number;
+  player2_id: number;
+  declared_at: string;
+  is_active: number;
+}
+
+interface ActionRow {
+  seq: number;
+  player_id: number;
+  intent: string;
+  timestamp: string;
+  visible_to: string | null;
+}
+
 /**
  * SQLite implementation of game session repository
- * 
+ *
  * Similar to H2 in Java - file-based database, zero configuration
- * Perfect for development and small deployments
- * 
- * To use this:
- * 1. Install: npm install better-sqlite3
- * 2. Uncomment the code below
- * 3. Swap repository in GameSessionService constructor
- * 
- * Example:
- * ```typescript
- * import Database from 'better-sqlite3';
- * const db = new Database('games.db');
- * 
- * // Create tables
- * db.exec(`
- *   CREATE TABLE IF NOT EXISTS game_sessions (
- *     id TEXT PRIMARY KEY,
- *     name TEXT NOT NULL,
- *     current_turn INTEGER NOT NULL,
- *     current_player_id INTEGER NOT NULL,
- *     status TEXT NOT NULL,
- *     created_at TEXT NOT NULL,
- *     updated_at TEXT NOT NULL,
- *     data TEXT NOT NULL  -- JSON serialized game state
- *   );
- *   
- *   CREATE TABLE IF NOT EXISTS players (
- *     id INTEGER PRIMARY KEY,
- *     session_id TEXT NOT NULL,
- *     player_id INTEGER NOT NULL,
- *     name TEXT NOT NULL,
- *     civilization_id TEXT NOT NULL,
- *     is_connected INTEGER NOT NULL,
- *     FOREIGN KEY (session_id) REFERENCES game_sessions(id)
- *   );
- *   
- *   CREATE TABLE IF NOT EXISTS actions (
- *     id INTEGER PRIMARY KEY AUTOINCREMENT,
- *     session_id TEXT NOT NULL,
- *     player_id INTEGER NOT NULL,
- *     intent TEXT NOT NULL,  -- JSON serialized intent
- *     timestamp TEXT NOT NULL,
- *     FOREIGN KEY (session_id) REFERENCES game_sessions(id)
- *   );
- * `);
- * ```
+ * Sessions survive server restarts; pass ':memory:' for a throwaway database
  */
+export class SqliteGameSessionRepository implements IGameSessionRepository {
+  private db: Database.Database;
 
-import type { IGameSessionRepository } from './IGameSessionRepository';
-import { GameSessionModel } from '../models/GameSession';
-import type { Intent } from '@shared/types';
+  constructor(dbPath: string = 'games.db') {
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.initializeTables();
+  }
 
-/**
- * SQLite repository implementation
- * Uncomment and implement when ready to use SQLite
- */
-export class SqliteGameSessionRepository implements IGameSessionRepository {
-  // private db: Database;
+  private initializeTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS game_sessions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        current_turn INTEGER NOT NULL,
+        current_player_id INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        map_width INTEGER,
+        map_height INTEGER,
+        map_seed INTEGER,
+        victory TEXT,
+        result TEXT,
+        last_state_update TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS players (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        player_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        civilization_id TEXT NOT NULL,
+        is_connected INTEGER NOT NULL,
+        is_human INTEGER NOT NULL,
+        is_eliminated INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (session_id, player_id)
+      );
 
-  // constructor(dbPath: string = 'games.db') {
-  //   this.db = new Database(dbPath);
-  //   this.initializeTables();
-  // }
+      CREATE TABLE IF NOT EXISTS wars (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        player1_id INTEGER NOT NULL,
+        player2_id INTEGER NOT NULL,
+        declared_at TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        PRIMARY KEY (session_id, position)
+      );
+
+      CREATE TABLE IF NOT EXISTS ended_turns (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        player_id INTEGER NOT NULL,
+        PRIMARY KEY (session_id, player_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        seq INTEGER,
+        player_id INTEGER NOT NULL,
+        intent TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        visible_to TEXT
+      );
+    `);
+
+    // Columns added after the first release
+    this.ensureColumn('game_sessions', 'map_seed', 'INTEGER');
+    this.ensureColumn('game_sessions', 'victory', 'TEXT');
+    this.ensureColumn('game_sessions', 'result', 'TEXT');
+    this.ensureColumn('players', 'is_eliminated', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('actions', 'visible_to', 'TEXT');
+    if (this.ensureColumn('actions', 'seq', 'INTEGER')) {
+      // Number existing actions per session in the order they were recorded
+      this.db.exec(`
+        UPDATE actions SET seq = (
+          SELECT COUNT(*) FROM actions AS earlier
+          WHERE earlier.session_id = actions.session_id AND earlier.id <= actions.id
+        )
+      `);
+    }
+
+    // Actions are read by (session, seq); the old timestamp cursor index is no longer used
+    this.db.exec(`
+      DROP INDEX IF EXISTS idx_actions_session_timestamp;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_actions_session_seq ON actions (session_id, seq);
+    `);
+  }
 
-  // private initializeTables(): void {
-  //   // Implementation here
-  // }
+  /**
+   * Add a column to an existing table if it's missing; returns whether it was added
+   */
+  private ensureColumn(table: string, column: string, definition: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (columns.some(c => c.name === column)) {
+      return false;
+    }
+    this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
 
   async create(game: GameSessionModel): Promise<void> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO game_sessions (
+            id, name, current_turn, current_player_id, status, created_at, updated_at,
+            map_width, map_height, map_seed, victory, result, last_state_update
+          ) VALUES (
+            @id, @name, @currentTurn, @currentPlayerId, @status, @createdAt, @updatedAt,
+            @mapWidth, @mapHeight, @mapSeed, @victory, @result, @lastStateUpdate
+          )`,
+        )
+        .run(this.toSessionParams(game));
+      this.saveChildren(game);
+    })();
   }
 
   async findById(sessionId: string): Promise<GameSessionModel | null> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+    const row = this.db.prepare('SELECT * FROM game_sessions WHERE id = ?').get(sessionId) as SessionRow | undefined;
+    return row ? this.toModel(row) : null;
   }
 
   async update(game: GameSessionModel): Promise<void> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+    this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `UPDATE game_sessions SET
+            name = @name,
+            current_turn = @currentTurn,
+            current_player_id = @currentPlayerId,
+            status = @status,
+            created_at = @createdAt,
+            updated_at = @updatedAt,
+            map_width = @mapWidth,
+            map_height = @mapHeight,
+            map_seed = @mapSeed,
+            victory = @victory,
+            result = @result,
+            last_state_update = @lastStateUpdate
+          WHERE id = @id`,
+        )
+        .run(this.toSessionParams(game));
+      if (result.changes === 0) {
+        throw new Error('Game not found');
+      }
+      this.saveChildren(game);
+    })();
   }
 
   async delete(sessionId: string): Promise<void> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+    // Child rows are removed by ON DELETE CASCADE
+    this.db.prepare('DELETE FROM game_sessions WHERE id = ?').run(sessionId);
   }
 
   async findAll(): Promise<GameSessionModel[]> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+    const rows = this.db.prepare('SELECT * FROM game_sessions ORDER BY created_at').all() as SessionRow[];
+    return rows.map(row => this.toModel(row));
   }
 
-  async recordAction(sessionId: string, playerId: number, intent: Intent, timestamp: string): Promise<void> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+  async recordAction(
+    sessionId: string,
+    playerId: number,
+    intent: Intent,
+    timestamp: string,
+    visibleTo?: number[],
+  ): Promise<number> {
+    // Reading the latest seq and inserting run back to back - better-sqlite3 is synchronous
+    const seq = this.getLatestSeqSync(sessionId) + 1;
+    this.db
+      .prepare(
+        'INSERT INTO actions (session_id, seq, player_id, intent, timestamp, visible_to) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .run(sessionId, seq, playerId, JSON.stringify(intent), timestamp, visibleTo ? JSON.stringify(visibleTo) : null);
+    return seq;
   }
 
-  async getActionsSince(sessionId: string, since: string): Promise<Array<{ playerId: number; intent: Intent; timestamp: string }>> {
-    throw new Error('SQLite repository not yet implemented. Use InMemoryGameSessionRepository for now.');
+  async getActionsAfter(sessionId: string, afterSeq: number): Promise<RecordedAction[]> {
+    const rows = this.db
+      .prepare(
+        'SELECT seq, player_id, intent, timestamp, visible_to FROM actions WHERE session_id = ? AND seq > ? ORDER BY seq',
+      )
+      .all(sessionId, afterSeq) as ActionRow[];
+    return rows.map(row => ({
+      seq: row.seq,
+      playerId: row.player_id,
+      intent: JSON.parse(row.intent) as Intent,
+      timestamp: row.timestamp,
+      visibleTo: row.visible_to ? (JSON.parse(row.visible_to) as number[]) : undefined,
+    }));
   }
-}
 
+  async getLatestSeq(sessionId: string): Promise<number> {
+    return this.getLatestSeqSync(sessionId);
+  }
+
+  private getLatestSeqSync(sessionId: string): number {
+    const row = this.db
+      .prepare('SELECT MAX(seq) AS seq FROM actions WHERE session_id = ?')
+      .get(sessionId) as { seq: number | null };
+    return row.seq ?? 0;
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    // better-sqlite3 is synchronous, so no other request can interleave while work runs
+    // as long as it only awaits repositories backed by this database
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = await work();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      if (this.db.inTransaction) {
+        this.db.exec('ROLLBACK');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The underlying database, for repositories that share this file
+   */
+  get database(): Database.Database {
+    return this.db;
+  }
+
+  /**
+   * Close the underlying database handle
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private toSessionParams(game: GameSessionModel) {
+    const state = game.getServerState();
+    return {
+      id: game.id,
+      name: game.name,
+      currentTurn: game.currentTurn,
+      currentPlayerId: game.currentPlayerId,
+      status: game.status,
+      createdAt: game.createdAt,
+      updatedAt: game.updatedAt,
+      mapWidth: game.mapWidth ?? null,
+      mapHeight: game.mapHeight ?? null,
+      mapSeed: game.mapSeed ?? null,
+      victory: JSON.stringify(game.victory),
+      result: game.result ? JSON.stringify(game.result) : null,
+      lastStateUpdate: state.lastStateUpdate,
+    };
+  }
+
+  /**
+   * Replace players, wars and ended turns for a session (must run inside a transaction)
+   */
+  private saveChildren(game: GameSessionModel): void {
+    const state = game.getServerState();
+
+    this.db.prepare('DELETE FROM players WHERE session_id = ?').run(game.id);
+    const insertPlayer = this.db.prepare(
+      `INSERT INTO players (session_id, player_id, position, name, civilization_id, is_connected, is_human, is_eliminated)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    game.players.forEach((player, index) => {
+      insertPlayer.run(
+        game.id,
+        player.id,
+        index,
+        player.name,
+        player.civilizationId,
+        player.isConnected ? 1 : 0,
+        player.isHuman === false ? 0 : 1,
+        player.isEliminated ? 1 : 0,
+      );
+    });
+
+    this.db.prepare('DELETE FROM wars WHERE session_id = ?').run(game.id);
+    const insertWar = this.db.prepare(
+      `INSERT INTO wars (session_id, position, player1_id, player2_id, declared_at, is_active)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    state.wars.forEach((war, index) => {
+      insertWar.run(game.id, index, war.player1Id, war.player2Id, war.declaredAt, war.isActive ? 1 : 0);
+    });
+
+    this.db.prepare('DELETE FROM ended_turns WHERE session_id = ?').run(game.id);
+    const insertEndedTurn = this.db.prepare('INSERT INTO ended_turns (session_id, player_id) VALUES (?, ?)');
+    for (const playerId of state.playersEndedTurn) {
+      insertEndedTurn.run(game.id, playerId);
+    }
+  }
+
+  private toModel(row: SessionRow): GameSessionModel {
+    const players = this.db
+      .prepare('SELECT * FROM players WHERE session_id = ? ORDER BY position')
+      .all(row.id) as PlayerRow[];
+    const wars = this.db
+      .prepare('SELECT * FROM wars WHERE session_id = ? ORDER BY position')
+      .all(row.id) as WarRow[];
+    const endedTurns = this.db
+      .prepare('SELECT player_id FROM ended_turns WHERE session_id = ?')
+      .all(row.id) as Array<{ player_id: number }>;
+
+    return GameSessionModel.restore(
+      {
+        id: row.id,
+        name: row.name,
+        players: players.map(p => ({
+          id: p.player_id,
+          name: p.name,
+          civilizationId: p.civilization_id,
+          isConnected: p.is_connected === 1,
+          isHuman: p.is_human === 1,
+          isEliminated: p.is_eliminated === 1,
+        })),
+        currentTurn: row.current_turn,
+        currentPlayerId: row.current_player_id,
+        status: row.status,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        mapWidth: row.map_width ?? undefined,
+        mapHeight: row.map_height ?? undefined,
+        mapSeed: row.map_seed ?? undefined,
+        // Sessions from before victory conditions can be won every way
+        victory: row.victory ? (JSON.parse(row.victory) as VictorySettings) : undefined,
+        result: row.result ? (JSON.parse(row.result) as GameResult) : undefined,
+      },
+      {
+        lastStateUpdate: row.last_state_update,
+        playersEndedTurn: endedTurns.map(t => t.player_id),
+        wars: wars.map(w => ({
+          player1Id: w.player1_id,
+          player2Id: w.player2_id,
+          declaredAt: w.declared_at,
+          isActive: w.is_active === 1,
+        })),
+      },
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import type Database from 'better-sqlite3';
+import type { EntityVersionsSnapshot, GameStateSnapshot, IGameStateRepository } from './IGameStateRepository';
+import type { ResearchState } from '@shared/types';
+import type { ServerEntity } from '../services/GameStateService';
+
+interface VisibilityRow {
+  player_id: number;
+  revealed: string;
+  known_cities: string;
+}
+
+interface EntityRow {
+  entity_id: number;
+  owner_id: number;
+  civ_id: string;
+  type: ServerEntity['type'];
+  tx: number;
+  ty: number;
+  data: string;
+}
+
+/**
+ * SQLite implementation of game state repository
+ * Uses the SqliteGameSessionRepository database so entity writes join its transactions
+ * and are removed together with their session
+ */
+export class SqliteGameStateRepository implements IGameStateRepository {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS entity_counters (
+        session_id TEXT PRIMARY KEY REFERENCES game_sessions(id) ON DELETE CASCADE,
+        next_entity_id INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS entities (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        entity_id INTEGER NOT NULL,
+        owner_id INTEGER NOT NULL,
+        civ_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        tx INTEGER NOT NULL,
+        ty INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (session_id, entity_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS player_visibility (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        player_id INTEGER NOT NULL,
+        revealed TEXT NOT NULL,
+        known_cities TEXT NOT NULL,
+        PRIMARY KEY (session_id, player_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS entity_versions (
+        session_id TEXT PRIMARY KEY REFERENCES game_sessions(id) ON DELETE CASCADE,
+        versions TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS player_stockpiles (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        player_id INTEGER NOT NULL,
+        production INTEGER NOT NULL,
+        PRIMARY KEY (session_id, player_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS player_research (
+        session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+        player_id INTEGER NOT NULL,
+        research TEXT NOT NULL,
+        PRIMARY KEY (session_id, player_id)
+      );
+    `);
+  }
+
+  async load(sessionId: string): Promise<GameStateSnapshot | null> {
+    const counter = this.db
+      .prepare('SELECT next_entity_id FROM entity_counters WHERE session_id = ?')
+      .get(sessionId) as { next_entity_id: number } | undefined;
+    if (!counter) {
+      return null;
+    }
+
+    const rows = this.db
+      .prepare('SELECT * FROM entities WHERE session_id = ? ORDER BY entity_id')
+      .all(sessionId) as EntityRow[];
+    const visibilityRows = this.db
+      .prepare('SELECT player_id, revealed, known_cities FROM player_visibility WHERE session_id = ? ORDER BY player_id')
+      .all(sessionId) as VisibilityRow[];
+    const stockpileRows = this.db
+      .prepare('SELECT player_id, production FROM player_stockpiles WHERE session_id = ? ORDER BY player_id')
+      .all(sessionId) as Array<{ player_id: number; production: number }>;
+    const researchRows = this.db
+      .prepare('SELECT player_id, research FROM player_research WHERE session_id = ? ORDER BY player_id')
+      .all(sessionId) as Array<{ player_id: number; research: string }>;
+    const versionsRow = this.db
+      .prepare('SELECT versions FROM entity_versions WHERE session_id = ?')
+      .get(sessionId) as { versions: string } | undefined;
+    return {
+      nextEntityId: counter.next_entity_id,
+      entities: rows.map(row => ({
+        id: row.entity_id,
+        ownerId: row.owner_id,
+        civId: row.civ_id,
+        type: row.type,
+        position: { tx: row.tx, ty: row.ty },
+        data: JSON.parse(row.data) as Record<string, unknown>,
+      })),
+      visibility: visibilityRows.map(row => ({
+        playerId: row.player_id,
+        revealed: JSON.parse(row.revealed) as number[],
+        knownCities: JSON.parse(row.known_cities) as ServerEntity[],
+      })),
+      stockpiles: stockpileRows.map(row => ({ playerId: row.player_id, production: row.production })),
+      research: researchRows.map(row => ({ playerId: row.player_id, research: JSON.parse(row.research) as ResearchState })),
+      versions: versionsRow ? (JSON.parse(versionsRow.versions) as EntityVersionsSnapshot) : undefined,
+    };
+  }
+
+  async save(sessionId: string, state: GameStateSnapshot): Promise<void> {
+    // Joins the caller's transaction if one is open, otherwise runs in its own
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO entity_counters (session_id, next_entity_id) VALUES (?, ?)
+           ON CONFLICT (session_id) DO UPDATE SET next_entity_id = excluded.next_entity_id`,
+        )
+        .run(sessionId, state.nextEntityId);
+
+      this.db.prepare('DELETE FROM entities WHERE session_id = ?').run(sessionId);
+      const insertEntity = this.db.prepare(
+        `INSERT INTO entities (session_id, entity_id, owner_id, civ_id, type, tx, ty, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      for (const entity of state.entities) {
+        insertEntity.run(
+          sessionId,
+          entity.id,
+          entity.ownerId,
+          entity.civId,
+          entity.type,
+          entity.position.tx,
+          entity.position.ty,
+          JSON.stringify(entity.data),
+        );
+      }
+
+      this.db.prepare('DELETE FROM player_visibility WHERE session_id = ?').run(sessionId);
+      const insertVisibility = this.db.prepare(
+        'INSERT INTO player_visibility (session_id, player_id, revealed, known_cities) VALUES (?, ?, ?, ?)',
+      );
+      for (const visibility of state.visibility) {
+        insertVisibility.run(
+          sessionId,
+          visibility.playerId,
+          JSON.stringify(visibility.revealed),
+          JSON.stringify(visibility.knownCities),
+        );
+      }
+
+      this.db.prepare('DELETE FROM player_stockpiles WHERE session_id = ?').run(sessionId);
+      const insertStockpile = this.db.prepare(
+        'INSERT INTO player_stockpiles (session_id, player_id, production) VALUES (?, ?, ?)',
+      );
+      for (const stockpile of state.stockpiles) {
+        insertStockpile.run(sessionId, stockpile.playerId, stockpile.production);
+      }
+
+      this.db.prepare('DELETE FROM player_research WHERE session_id = ?').run(sessionId);
+      const insertResearch = this.db.prepare(
+        'INSERT INTO player_research (session_id, player_id, research) VALUES (?, ?, ?)',
+      );
+      for (const { playerId, research } of state.research ?? []) {
+        insertResearch.run(sessionId, playerId, JSON.stringify(research));
+      }
+
+      this.db.prepare('DELETE FROM entity_versions WHERE session_id = ?').run(sessionId);
+      if (state.versions) {
+        this.db
+          .prepare('INSERT INTO entity_versions (session_id, versions) VALUES (?, ?)')
+          .run(sessionId, JSON.stringify(state.versions));
+      }
+    })();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM entity_versions WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM player_research WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM player_stockpiles WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM player_visibility WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM entities WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM entity_counters WHERE session_id = ?').run(sessionId);
+    })();
+  }
+}
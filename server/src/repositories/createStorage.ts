@@ -0,0 +1,50 @@
+import type { IGameSessionRepository } from './IGameSessionRepository';
+import type { IGameStateRepository } from './IGameStateRepository';
+import { InMemoryGameSessionRepository } from './InMemoryGameSessionRepository';
+import { InMemoryGameStateRepository } from './InMemoryGameStateRepository';
+import { SqliteGameSessionRepository } from './SqliteGameSessionRepository';
+import { SqliteGameStateRepository } from './SqliteGameStateRepository';
+
+/**
+ * Session and entity repositories backed by the same storage
+ */
+export interface GameStorage {
+  sessions: IGameSessionRepository;
+  states: IGameStateRepository;
+}
+
+/**
+ * Pick the storage backend from the environment
+ * GAME_REPOSITORY=memory (default) | sqlite, SQLITE_DB_PATH sets the database file
+ */
+export function createStorageFromEnv(env: NodeJS.ProcessEnv = process.env): GameStorage {
+  const kind = (env.GAME_REPOSITORY || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      return {
+        sessions: new InMemoryGameSessionRepository(),
+        states: new InMemoryGameStateRepository(),
+      };
+    case 'sqlite': {
+      const sessions = new SqliteGameSessionRepository(env.SQLITE_DB_PATH || 'games.db');
+      return {
+        sessions,
+        states: new SqliteGameStateRepository(sessions.database),
+      };
+    }
+    default:
+      throw new Error(`Unknown GAME_REPOSITORY "${kind}" (expected "memory" or "sqlite")`);
+  }
+}
+
+let defaultStorage: GameStorage | null = null;
+
+/**
+ * Storage shared by the service singletons, created on first use
+ */
+export function getDefaultStorage(): GameStorage {
+  if (!defaultStorage) {
+    defaultStorage = createStorageFromEnv();
+  }
+  return defaultStorage;
+}
@@ -0,0 +1,133 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { GameEvent } from '@shared/types';
+import { gameSessionService } from '../services/GameSessionService';
+import { gameStateService } from '../services/GameStateService';
+import { gameEventService } from '../services/GameEventService';
+import { mapService } from '../services/MapService';
+import { authService, type PlayerClaims } from '../services/AuthService';
+
+const EVENTS_PATH = /^\/api\/games\/([^/]+)\/events$/;
+const HEARTBEAT_INTERVAL = 30 * 1000; // Drop sockets that miss a ping for this long
+
+/**
+ * WebSocket /api/games/:id/events?token=<player token>
+ * Pushes actions, turn advances, entity changes and session updates to a player
+ * (browsers can't set headers on WebSockets, so the token comes in the query string)
+ *
+ * On connect the player gets the current session and entities, so a client that
+ * reconnects (or falls back from polling) is caught up without a separate request
+ */
+export function attachGameEventSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    const match = EVENTS_PATH.exec(url.pathname);
+    if (!match) {
+      socket.destroy();
+      return;
+    }
+
+    const sessionId = decodeURIComponent(match[1]);
+    const claims = authService.verifyToken(url.searchParams.get('token') || '');
+
+    authorize(sessionId, claims)
+      .then(status => {
+        if (status !== 200 || !claims) {
+          rejectUpgrade(socket, status);
+          return;
+        }
+        const { playerId } = claims;
+        wss.handleUpgrade(req, socket, head, ws => {
+          alive.set(ws, true);
+          ws.on('pong', () => alive.set(ws, true));
+          subscribe(ws, sessionId, playerId).catch(error => {
+            console.error(`Failed to subscribe player ${playerId} to ${sessionId}:`, error);
+            ws.close(1011, 'Subscription failed');
+          });
+        });
+      })
+      .catch(error => {
+        console.error('WebSocket upgrade failed:', error);
+        rejectUpgrade(socket, 500);
+      });
+  });
+
+  // Heartbeat: terminate sockets whose peer stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        continue;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+/**
+ * HTTP status for a subscription request (200 if the token's player may subscribe)
+ */
+async function authorize(sessionId: string, claims: PlayerClaims | null): Promise<number> {
+  if (!claims) {
+    return 401;
+  }
+  if (claims.sessionId !== sessionId) {
+    return 403;
+  }
+  const game = await gameSessionService.getGame(sessionId);
+  if (!game) {
+    return 404;
+  }
+  if (!game.players.some(p => p.id === claims.playerId)) {
+    return 403;
+  }
+  return 200;
+}
+
+async function subscribe(ws: WebSocket, sessionId: string, playerId: number): Promise<void> {
+  const send = (event: GameEvent) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(event));
+    }
+  };
+
+  const unsubscribe = gameEventService.subscribe(sessionId, playerId, send);
+  ws.on('close', unsubscribe);
+
+  // Catch the player up with the current state
+  const game = await gameSessionService.getGame(sessionId);
+  if (!game) {
+    ws.close(1008, 'Game not found');
+    return;
+  }
+  mapService.loadMap(game);
+  await gameStateService.load(sessionId);
+  send({ type: 'sessionUpdated', sessionId, session: game.getExtendedInfo() });
+  send({
+    type: 'entitiesChanged',
+    sessionId,
+    seq: await gameSessionService.getLatestSeq(sessionId),
+    version: gameStateService.getStateVersion(sessionId),
+    fullState: gameStateService.serializeGameState(sessionId, playerId),
+    timestamp: game.getLastStateUpdate(),
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number): void {
+  const reasons: Record<number, string> = {
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    500: 'Internal Server Error',
+  };
+  socket.write(`HTTP/1.1 ${status} ${reasons[status]}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
@@ -1,9 +1,15 @@
 import { Router, type Request, type Response } from 'express';
 import { gameSessionService } from '../services/GameSessionService';
 import { ActionValidator } from '../services/ActionValidator';
+import { RuleViolationError } from '../services/RuleViolationError';
+import { authService } from '../services/AuthService';
+import { MAX_MAP_SEED, MAX_MAP_SIZE, MIN_MAP_SIZE, isMapSeed, isMapSize } from '../services/MapService';
+import { requirePlayerToken, getPlayerId } from '../middleware/auth';
+import { isVictorySettings } from '@engine/gameplay/victory';
 import type {
   CreateGameRequest,
   CreateGameResponse,
+  GameMap,
   JoinGameRequest,
   JoinGameResponse,
   SubmitActionRequest,
@@ -24,19 +30,36 @@ router.post('/', async (req: Request<{}, CreateGameResponse, CreateGameRequest>,
     if (!name || !playerName || !civilizationId) {
       return res.status(400).json({ error: 'Missing required fields' } as any);
     }
+    if (req.body.victory !== undefined && !isVictorySettings(req.body.victory)) {
+      return res.status(400).json({ error: 'Invalid victory settings' } as any);
+    }
+    // The map is generated right away from these, so nothing unbounded or non-numeric gets through
+    const { mapWidth, mapHeight, mapSeed } = req.body;
+    if ((mapWidth !== undefined && !isMapSize(mapWidth)) || (mapHeight !== undefined && !isMapSize(mapHeight))) {
+      return res
+        .status(400)
+        .json({ error: `Map width and height must be whole numbers from ${MIN_MAP_SIZE} to ${MAX_MAP_SIZE}` } as any);
+    }
+    if (mapSeed !== undefined && !isMapSeed(mapSeed)) {
+      return res.status(400).json({ error: `Map seed must be a whole number from 0 to ${MAX_MAP_SEED}` } as any);
+    }
 
-    const { sessionId, playerId, game } = await gameSessionService.createGame(
+    const { sessionId, playerId, game, map } = await gameSessionService.createGame(
       name,
       playerName,
       civilizationId,
-      req.body.mapWidth,
-      req.body.mapHeight,
+      mapWidth,
+      mapHeight,
+      mapSeed,
+      req.body.victory && { conditions: [...req.body.victory.conditions], turnLimit: req.body.victory.turnLimit },
     );
 
     res.json({
       sessionId,
       playerId,
+      token: authService.issueToken(sessionId, playerId),
       game: game.toJSON(),
+      map,
     });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message } as any);
@@ -63,6 +86,22 @@ router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
   }
 });
 
+/**
+ * GET /api/games/:id/map
+ * Get the session's map
+ */
+router.get('/:id/map', async (req: Request<{ id: string }, GameMap>, res: Response) => {
+  try {
+    const map = await gameSessionService.getMap(req.params.id);
+    if (!map) {
+      return res.status(404).json({ error: 'Game not found' } as any);
+    }
+    res.json(map);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message } as any);
+  }
+});
+
 /**
  * POST /api/games/:id/join
  * Join an existing game
@@ -78,18 +117,14 @@ router.post(
         return res.status(400).json({ error: 'Missing required fields' } as any);
       }
 
-      // mapWidth and mapHeight are optional - server uses stored dimensions from game creation
-      const { playerId, game } = await gameSessionService.joinGame(
-        id,
-        playerName,
-        civilizationId,
-        req.body.mapWidth,
-        req.body.mapHeight,
-      );
+      // The map comes from the session - joining players receive it in the response
+      const { playerId, game, map } = await gameSessionService.joinGame(id, playerName, civilizationId);
 
       res.json({
         playerId,
+        token: authService.issueToken(id, playerId),
         game: game.toJSON(),
+        map,
       });
     } catch (error) {
       const message = (error as Error).message;
@@ -106,34 +141,25 @@ router.post(
 
 /**
  * POST /api/games/:id/actions
- * Submit a game action
+ * Submit a game action as the player the token was issued to
  */
 router.post(
   '/:id/actions',
+  requirePlayerToken,
   async (req: Request<{ id: string }, ActionResponse, SubmitActionRequest>, res: Response) => {
     try {
       const { id } = req.params;
-      const { playerId, intent } = req.body;
+      const { intent } = req.body;
+      const playerId = getPlayerId(res);
 
-      if (playerId === undefined || !intent) {
+      if (!intent) {
         return res.status(400).json({
           success: false,
           error: 'Missing required fields',
+          code: 'INVALID_PAYLOAD',
         });
       }
 
-      // Validate intent structure
-      const validation = ActionValidator.validate(intent);
-      if (!validation.valid) {
-        return res.status(400).json({
-          success: false,
-          error: validation.error,
-        });
-      }
-
-      // Submit action
-      await gameSessionService.submitAction(id, playerId, intent);
-
       const game = await gameSessionService.getGame(id);
       if (!game) {
         return res.status(404).json({
@@ -142,41 +168,83 @@ router.post(
         });
       }
 
+      // Validate intent structure (malformed requests get a specific code)
+      const validation = ActionValidator.validate(intent, game);
+      if (!validation.valid) {
+        return res.status(400).json({
+          success: false,
+          error: validation.error,
+          code: validation.code,
+        });
+      }
+
+      // Submit action - the game rules reject it with a RuleViolationError
+      const applied = await gameSessionService.submitAction(id, playerId, intent);
+
+      const updatedGame = await gameSessionService.getGame(id);
       res.json({
         success: true,
-        turn: game.currentTurn,
+        combat: applied.type === 'Attack' ? applied.result : undefined,
+        turn: updatedGame?.currentTurn ?? game.currentTurn,
       });
     } catch (error) {
-      const message = (error as Error).message;
-      res.status(400).json({
+      if (error instanceof RuleViolationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          code: 'RULE_VIOLATION',
+        });
+      }
+      // Anything else (e.g. storage failing) is the server's fault, not the move's
+      console.error(`Failed to submit an action to ${req.params.id}:`, error);
+      res.status(500).json({
         success: false,
-        error: message,
+        error: 'Internal server error',
       });
     }
   },
 );
 
 /**
- * GET /api/games/:id/state
- * Get game state updates (with polling support)
+ * GET /api/games/:id/state?afterSeq=<seq>&afterVersion=<version>
+ * Get game state updates (with polling support) - requires a player token
+ * Returns the actions recorded after afterSeq and the entity changes after afterVersion, plus the
+ * latest seq and version to pass next time; without afterVersion (or with fullState=true) returns
+ * the full entity state instead
+ * Only the actions and entities the player can see are included, plus last-known enemy cities
  */
-router.get('/:id/state', async (req: Request<{ id: string }, GameStateUpdate>, res: Response) => {
+router.get('/:id/state', requirePlayerToken, async (req: Request<{ id: string }, GameStateUpdate>, res: Response) => {
   try {
     const { id } = req.params;
-    const since = req.query.since as string | undefined;
+    const afterSeqParam = req.query.afterSeq as string | undefined;
+    const afterVersionParam = req.query.afterVersion as string | undefined;
     const requestFullState = req.query.fullState === 'true' || req.query.fullState === true;
 
+    const afterSeq = afterSeqParam !== undefined ? Number(afterSeqParam) : undefined;
+    if (afterSeq !== undefined && (!Number.isInteger(afterSeq) || afterSeq < 0)) {
+      return res.status(400).json({ error: 'afterSeq must be a non-negative integer' } as any);
+    }
+    const afterVersion = afterVersionParam !== undefined ? Number(afterVersionParam) : undefined;
+    if (afterVersion !== undefined && (!Number.isInteger(afterVersion) || afterVersion < 0)) {
+      return res.status(400).json({ error: 'afterVersion must be a non-negative integer' } as any);
+    }
+
     const game = await gameSessionService.getGame(id);
     if (!game) {
       return res.status(404).json({ error: 'Game not found' } as any);
     }
 
-    // If fullState is requested, pass empty string to getStateUpdates to trigger full state
-    const sinceTimestamp = requestFullState ? '' : (since || game.getLastStateUpdate());
-    const { actions, lastUpdate, fullState } = await gameSessionService.getStateUpdates(id, sinceTimestamp);
+    // If fullState is requested, leave out the cursors to trigger a full resync
+    const { actions, seq, version, lastUpdate, fullState, delta } = await gameSessionService.getStateUpdates(
+      id,
+      getPlayerId(res),
+      requestFullState ? undefined : afterSeq,
+      requestFullState ? undefined : afterVersion,
+    );
 
     // If no updates, return 304 Not Modified
-    if (actions.length === 0 && since && !fullState) {
+    const entitiesChanged = !delta || delta.created.length + delta.updated.length + delta.deleted.length > 0;
+    if (actions.length === 0 && afterSeq !== undefined && !entitiesChanged) {
       return res.status(304).send();
     }
 
@@ -188,7 +256,10 @@ router.get('/:id/state', async (req: Request<{ id: string }, GameStateUpdate>, r
       turn: game.currentTurn,
       currentPlayerId: game.currentPlayerId,
       actions: intentActions,
+      seq,
+      version,
       fullState,
+      delta,
       timestamp: lastUpdate,
     });
   } catch (error) {
@@ -199,17 +270,18 @@ router.get('/:id/state', async (req: Request<{ id: string }, GameStateUpdate>, r
 /**
  * POST /api/games/:id/war
  * Declare war between two players (triggers sequential turn mode)
+ * The token's player is one side, the body's opponentId the other
  */
-router.post('/:id/war', async (req: Request<{ id: string }>, res: Response) => {
+router.post('/:id/war', requirePlayerToken, async (req: Request<{ id: string }>, res: Response) => {
   try {
     const { id } = req.params;
-    const { player1Id, player2Id } = req.body;
+    const { opponentId } = req.body;
 
-    if (player1Id === undefined || player2Id === undefined) {
-      return res.status(400).json({ error: 'Missing player IDs' } as any);
+    if (opponentId === undefined) {
+      return res.status(400).json({ error: 'Missing opponent ID' } as any);
     }
 
-    await gameSessionService.declareWar(id, player1Id, player2Id);
+    await gameSessionService.declareWar(id, getPlayerId(res), opponentId);
     const game = await gameSessionService.getGame(id);
 
     res.json({
@@ -224,17 +296,18 @@ router.post('/:id/war', async (req: Request<{ id: string }>, res: Response) => {
 /**
  * DELETE /api/games/:id/war
  * End war between two players (returns to simultaneous turn mode)
+ * The token's player is one side, the body's opponentId the other
  */
-router.delete('/:id/war', async (req: Request<{ id: string }>, res: Response) => {
+router.delete('/:id/war', requirePlayerToken, async (req: Request<{ id: string }>, res: Response) => {
   try {
     const { id } = req.params;
-    const { player1Id, player2Id } = req.body;
+    const { opponentId } = req.body;
 
-    if (player1Id === undefined || player2Id === undefined) {
-      return res.status(400).json({ error: 'Missing player IDs' } as any);
+    if (opponentId === undefined) {
+      return res.status(400).json({ error: 'Missing opponent ID' } as any);
     }
 
-    await gameSessionService.endWar(id, player1Id, player2Id);
+    await gameSessionService.endWar(id, getPlayerId(res), opponentId);
     const game = await gameSessionService.getGame(id);
 
     res.json({
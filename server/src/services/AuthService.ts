@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * What a player token proves: who the player is and which game they're in
+ */
+export interface PlayerClaims {
+  sessionId: string;
+  playerId: number;
+}
+
+/**
+ * Issues and verifies signed per-player tokens
+ *
+ * A token is `<payload>.<signature>`: the base64url JSON claims and their HMAC-SHA256.
+ * Set AUTH_TOKEN_SECRET so tokens stay valid across restarts (and across replicas);
+ * without it a random secret is generated and tokens only last as long as the process
+ */
+export class AuthService {
+  private secret: Buffer;
+
+  constructor(secret?: string) {
+    if (secret) {
+      this.secret = Buffer.from(secret);
+    } else {
+      console.warn('AUTH_TOKEN_SECRET is not set - player tokens will not survive a server restart');
+      this.secret = randomBytes(32);
+    }
+  }
+
+  /**
+   * Issue a token for a player in a game
+   */
+  issueToken(sessionId: string, playerId: number): string {
+    const payload = Buffer.from(JSON.stringify({ sid: sessionId, pid: playerId })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Verify a token and return its claims (null if it is malformed or the signature doesn't match)
+   */
+  verifyToken(token: string): PlayerClaims | null {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      if (typeof claims.sid !== 'string' || typeof claims.pid !== 'number') {
+        return null;
+      }
+      return { sessionId: claims.sid, playerId: claims.pid };
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+// Singleton instance
+export const authService = new AuthService(process.env.AUTH_TOKEN_SECRET);
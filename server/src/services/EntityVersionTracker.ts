@@ -0,0 +1,139 @@
+import type { EntityVersionsSnapshot, PlayerViewEntry } from '../repositories/IGameStateRepository';
+import type { ServerEntity } from './GameStateService';
+
+/**
+ * Versions of one session's entities, for sending players only what changed
+ *
+ * Every commit that changes anything bumps the session's state version. Each entity remembers the
+ * version it last changed at, and each player's view remembers when an entity came into or went out
+ * of their sight (or was destroyed while they saw it), so a player's changes since any version can be
+ * worked out without knowing what their client holds
+ */
+export class EntityVersionTracker {
+  private version: number;
+  private entityVersions = new Map<number, number>(); // entityId -> version it last changed at
+  private committed = new Map<number, string>(); // entityId -> state at the last commit (JSON)
+  private views = new Map<number, Map<number, PlayerViewEntry>>(); // playerId -> entityId -> view entry
+
+  constructor(entities: ServerEntity[], saved?: EntityVersionsSnapshot) {
+    this.version = saved?.version ?? 0;
+    for (const entity of entities) {
+      this.committed.set(entity.id, JSON.stringify(entity));
+    }
+    for (const { id, version } of saved?.entities ?? []) {
+      this.entityVersions.set(id, version);
+    }
+    for (const { playerId, entries } of saved?.views ?? []) {
+      this.views.set(playerId, new Map(entries.map(entry => [entry.id, entry])));
+    }
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Record what changed since the last commit
+   * visibleByPlayer holds the entity ids each player currently sees (their own included)
+   */
+  commit(entities: ServerEntity[], visibleByPlayer: Map<number, Set<number>>): void {
+    const next = this.version + 1;
+    const current = new Map(entities.map(e => [e.id, e]));
+    let changed = false;
+
+    for (const entity of entities) {
+      const state = JSON.stringify(entity);
+      if (this.committed.get(entity.id) !== state) {
+        this.committed.set(entity.id, state);
+        this.entityVersions.set(entity.id, next);
+        changed = true;
+      }
+    }
+    for (const id of Array.from(this.committed.keys())) {
+      if (!current.has(id)) {
+        this.committed.delete(id);
+        this.entityVersions.delete(id);
+        changed = true;
+      }
+    }
+
+    for (const [playerId, visible] of visibleByPlayer) {
+      const view = this.getView(playerId);
+      for (const id of visible) {
+        const entry = view.get(id);
+        const type = current.get(id)!.type;
+        if (!entry || !entry.visible) {
+          view.set(id, { id, visible: true, version: next, type });
+          changed = true;
+        } else {
+          entry.type = type; // A settler that became a city keeps its id
+        }
+      }
+      for (const entry of view.values()) {
+        if (entry.visible && !visible.has(entry.id)) {
+          const entity = current.get(entry.id);
+          view.set(entry.id, {
+            id: entry.id,
+            visible: false,
+            deleted: !entity || undefined,
+            version: next,
+            type: entity?.type ?? entry.type,
+          });
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      this.version = next;
+    }
+  }
+
+  /**
+   * What a player saw change after a version (null if the version is ahead of this session's)
+   * - created: entities that came into their view (new, or back in sight)
+   * - updated: entities they kept seeing that changed
+   * - deleted: entities destroyed in sight, and units that went out of sight
+   * Cities and buildings that went out of sight aren't listed - players keep their last-known state
+   */
+  getDelta(
+    playerId: number,
+    sinceVersion: number,
+    entities: Map<number, ServerEntity>,
+  ): { created: ServerEntity[]; updated: ServerEntity[]; deleted: number[] } | null {
+    if (sinceVersion > this.version) {
+      return null;
+    }
+    const delta = { created: [] as ServerEntity[], updated: [] as ServerEntity[], deleted: [] as number[] };
+    for (const entry of this.getView(playerId).values()) {
+      const entity = entities.get(entry.id);
+      if (entry.visible && entity) {
+        if (entry.version > sinceVersion) {
+          delta.created.push(entity);
+        } else if ((this.entityVersions.get(entry.id) ?? 0) > sinceVersion) {
+          delta.updated.push(entity);
+        }
+      } else if (entry.version > sinceVersion && (entry.deleted || entry.type === 'unit')) {
+        delta.deleted.push(entry.id);
+      }
+    }
+    return delta;
+  }
+
+  toSnapshot(): EntityVersionsSnapshot {
+    return {
+      version: this.version,
+      entities: Array.from(this.entityVersions, ([id, version]) => ({ id, version })),
+      views: Array.from(this.views, ([playerId, view]) => ({ playerId, entries: Array.from(view.values()) })),
+    };
+  }
+
+  private getView(playerId: number): Map<number, PlayerViewEntry> {
+    let view = this.views.get(playerId);
+    if (!view) {
+      view = new Map();
+      this.views.set(playerId, view);
+    }
+    return view;
+  }
+}
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { TerrainRegistry } from '@engine/map/Terrain';
+import type { Terrain } from '@engine/map/Terrain';
+import { CivilizationRegistry, mergeUnitData } from '@engine/civilization/Civilization';
+import type { BaseUnitData, Civilization } from '@engine/civilization/Civilization';
+import { JsonGameData } from '@engine/gameplay/gameData';
+import type { GameDataProvider, TechsData } from '@engine/gameplay/gameData';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Where the client's data files live: GAME_DATA_DIR, the repo's public/data in development,
+ * or the frontend build (dist/data) in production
+ */
+const DATA_DIR_CANDIDATES = [
+  process.env.GAME_DATA_DIR,
+  path.join(__dirname, '../../../public/data'),
+  path.join(__dirname, '../../dist/data'),
+].filter((dir): dir is string => !!dir);
+
+/**
+ * A unit type from units.json
+ */
+export interface UnitTypeData extends BaseUnitData {
+  productionCost?: number;
+  requiredTech?: string; // Tech a player needs before producing this unit
+}
+
+/**
+ * A building type from buildings.json
+ */
+export interface BuildingTypeData {
+  name: string;
+  productionCost: number;
+  yields?: { food?: number; production?: number; gold?: number; science?: number };
+  cityBonus?: { populationGrowth?: number };
+  population?: number; // Population this building adds to the city
+  terrainRequirements?: string[]; // Terrain types this building can be built on (any if empty)
+  requiredTech?: string; // Tech a player needs before building this
+}
+
+/**
+ * Loads the game data files shared with the client (terrains, units, buildings, techs, civilizations)
+ * Each file is read once and cached
+ */
+export class GameDataService {
+  private terrainRegistry: TerrainRegistry | null = null;
+  private civilizationRegistry: CivilizationRegistry | null = null;
+  private gameData: GameDataProvider | null = null;
+  private files = new Map<string, unknown>(); // fileName -> parsed contents
+
+  /**
+   * Get the terrain registry (terrains.json)
+   */
+  getTerrainRegistry(): TerrainRegistry {
+    if (!this.terrainRegistry) {
+      this.terrainRegistry = new TerrainRegistry(
+        this.readJson<Record<string, Omit<Terrain, 'id'>>>('terrains.json'),
+      );
+    }
+    return this.terrainRegistry;
+  }
+
+  /**
+   * Get the civilization registry (civilizations.json)
+   */
+  getCivilizationRegistry(): CivilizationRegistry {
+    if (!this.civilizationRegistry) {
+      this.civilizationRegistry = new CivilizationRegistry(
+        this.readJson<Record<string, Omit<Civilization, 'id'>>>('civilizations.json'),
+      );
+    }
+    return this.civilizationRegistry;
+  }
+
+  /**
+   * Get a unit type with the civilization's overrides applied (undefined if there is no such unit)
+   */
+  getUnitType(unitType: string, civId: string): UnitTypeData | undefined {
+    const base = this.readJson<Record<string, UnitTypeData>>('units.json')[unitType];
+    if (!base) {
+      return undefined;
+    }
+    const override = this.getCivilizationRegistry().get(civId)?.units?.[unitType];
+    return { ...mergeUnitData(base, override), productionCost: base.productionCost, requiredTech: base.requiredTech };
+  }
+
+  /**
+   * Get a building type (undefined if there is no such building)
+   */
+  getBuildingType(buildingType: string): BuildingTypeData | undefined {
+    return this.readJson<Record<string, BuildingTypeData>>('buildings.json')[buildingType];
+  }
+
+  /**
+   * Units, buildings and techs for the shared rules (e.g. research.ts), as the client's GameScene loads them
+   */
+  getGameData(): GameDataProvider {
+    if (!this.gameData) {
+      this.gameData = new JsonGameData(
+        this.readJson<Record<string, UnitTypeData>>('units.json'),
+        this.readJson<Record<string, BuildingTypeData>>('buildings.json'),
+        this.readJson<TechsData>('techs.json'),
+      );
+    }
+    return this.gameData;
+  }
+
+  /**
+   * Ids of every unit type in units.json
+   */
+  getUnitTypeIds(): ReadonlySet<string> {
+    return new Set(Object.keys(this.readJson<Record<string, UnitTypeData>>('units.json')));
+  }
+
+  /**
+   * Ids of every building type in buildings.json
+   */
+  getBuildingTypeIds(): ReadonlySet<string> {
+    return new Set(Object.keys(this.readJson<Record<string, BuildingTypeData>>('buildings.json')));
+  }
+
+  /**
+   * Ids of every tech in techs.json
+   */
+  getTechTypeIds(): ReadonlySet<string> {
+    return new Set(this.getGameData().getTechTypes());
+  }
+
+  private readJson<T>(fileName: string): T {
+    const cached = this.files.get(fileName);
+    if (cached) {
+      return cached as T;
+    }
+    for (const dir of DATA_DIR_CANDIDATES) {
+      const filePath = path.join(dir, fileName);
+      if (fs.existsSync(filePath)) {
+        const contents = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+        this.files.set(fileName, contents);
+        return contents;
+      }
+    }
+    throw new Error(`Game data file ${fileName} not found (looked in ${DATA_DIR_CANDIDATES.join(', ')})`);
+  }
+}
+
+// Singleton instance
+export const gameDataService = new GameDataService();
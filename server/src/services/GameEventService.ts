@@ -0,0 +1,75 @@
+import type { GameEvent } from '@shared/types';
+
+export type GameEventListener = (event: GameEvent) => void;
+
+interface Subscription {
+  playerId: number;
+  listener: GameEventListener;
+}
+
+/**
+ * Publishes game events to the players subscribed to a session
+ * Transport-agnostic - the WebSocket endpoint (routes/gameEvents.ts) is one subscriber
+ */
+export class GameEventService {
+  private subscriptions = new Map<string, Set<Subscription>>(); // sessionId -> subscriptions
+
+  /**
+   * Subscribe a player to a session's events
+   * Returns a function that removes the subscription
+   */
+  subscribe(sessionId: string, playerId: number, listener: GameEventListener): () => void {
+    let sessionSubscriptions = this.subscriptions.get(sessionId);
+    if (!sessionSubscriptions) {
+      sessionSubscriptions = new Set();
+      this.subscriptions.set(sessionId, sessionSubscriptions);
+    }
+    const subscription = { playerId, listener };
+    sessionSubscriptions.add(subscription);
+
+    return () => {
+      sessionSubscriptions!.delete(subscription);
+      if (sessionSubscriptions!.size === 0 && this.subscriptions.get(sessionId) === sessionSubscriptions) {
+        this.subscriptions.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Send an event to every player subscribed to its session
+   */
+  publish(event: GameEvent): void {
+    this.publishTo(event.sessionId, () => event);
+  }
+
+  /**
+   * Send each player subscribed to a session their own version of an event
+   * eventFor returns what that player may see, or null to send them nothing
+   */
+  publishTo(sessionId: string, eventFor: (playerId: number) => GameEvent | null): void {
+    const sessionSubscriptions = this.subscriptions.get(sessionId);
+    if (!sessionSubscriptions) {
+      return;
+    }
+    for (const { playerId, listener } of Array.from(sessionSubscriptions)) {
+      try {
+        const event = eventFor(playerId);
+        if (event) {
+          listener(event);
+        }
+      } catch (error) {
+        console.error(`Failed to deliver event to player ${playerId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of players currently subscribed to a session
+   */
+  getSubscriberCount(sessionId: string): number {
+    return this.subscriptions.get(sessionId)?.size ?? 0;
+  }
+}
+
+// Singleton instance
+export const gameEventService = new GameEventService();
@@ -1,93 +1,111 @@
 import { GameSessionModel } from '../models/GameSession';
-import type { Intent } from '@shared/types';
+import type { EntityDelta, GameMap, GameStateUpdate, Intent, VictorySettings } from '@shared/types';
 import { v4 as uuidv4 } from 'uuid';
-import type { IGameSessionRepository } from '../repositories/IGameSessionRepository';
-import { InMemoryGameSessionRepository } from '../repositories/InMemoryGameSessionRepository';
+import type { IGameSessionRepository, RecordedAction } from '../repositories/IGameSessionRepository';
+import { getDefaultStorage } from '../repositories/createStorage';
 import { gameStateService } from './GameStateService';
+import { gameEventService } from './GameEventService';
+import { DEFAULT_MAP_SIZE, mapService } from './MapService';
+import { RuleViolationError } from './RuleViolationError';
+import { createActionRng } from '@engine/math/rng';
+import { checkVictory, createVictorySettings, isEliminated } from '@engine/gameplay/victory';
 
 /**
  * Service for managing game sessions
  * 
  * Uses the Repository pattern for easy database switching:
- * - InMemoryGameSessionRepository (current) - like H2 in-memory, fast, no setup
- * - SqliteGameSessionRepository (future) - like H2 file mode, file-based, persistent
+ * - InMemoryGameSessionRepository (default) - like H2 in-memory, fast, no setup
+ * - SqliteGameSessionRepository - like H2 file mode, file-based, persistent
  * - PostgresGameSessionRepository (future) - production database
  * 
- * To switch: Just change the repository in the constructor!
+ * To switch: set GAME_REPOSITORY, or pass a repository to the constructor
  */
 export class GameSessionService {
   private repository: IGameSessionRepository;
   private nextPlayerId = 1;
 
   constructor(repository?: IGameSessionRepository) {
-    // Default to in-memory for development (like H2 in-memory mode)
-    // Swap this to SqliteGameSessionRepository or PostgresGameSessionRepository when ready
-    this.repository = repository || new InMemoryGameSessionRepository();
+    // Default comes from GAME_REPOSITORY (in-memory unless configured otherwise)
+    this.repository = repository || getDefaultStorage().sessions;
   }
 
   /**
    * Create a new game session
+   * The map size and seed must already be checked (isMapSize, isMapSeed) - the map is generated from them
    */
   async createGame(
     name: string,
     playerName: string,
     civilizationId: string,
-    mapWidth: number = 50,
-    mapHeight: number = 50,
-  ): Promise<{ sessionId: string; playerId: number; game: GameSessionModel }> {
+    mapWidth: number = DEFAULT_MAP_SIZE,
+    mapHeight: number = DEFAULT_MAP_SIZE,
+    mapSeed: number = Math.floor(Math.random() * 0x7fffffff),
+    victory: VictorySettings = createVictorySettings(),
+  ): Promise<{ sessionId: string; playerId: number; game: GameSessionModel; map: GameMap }> {
     const sessionId = uuidv4();
     const playerId = this.nextPlayerId++;
 
-    // Store map dimensions in the game session
-    const game = new GameSessionModel(sessionId, name, playerId, playerName, civilizationId, mapWidth, mapHeight);
-    await this.repository.create(game);
-
-    // Initialize game state with starting positions using the stored map dimensions
-    const startingPositions = this.generateStartingPositionsForSession(
-      game,
-      game.mapWidth || mapWidth,
-      game.mapHeight || mapHeight,
+    // Store map dimensions and seed in the game session - the map is generated from them
+    const game = new GameSessionModel(
+      sessionId,
+      name,
+      playerId,
+      playerName,
+      civilizationId,
+      mapWidth,
+      mapHeight,
+      mapSeed,
+      victory,
     );
-    gameStateService.initializeGameState(game, startingPositions);
-    
-    // Verify entities were created and update entity count
-    const entities = gameStateService.getEntities(sessionId);
-    game.setLastEntityCount(entities.length);
 
-    return { sessionId, playerId, game };
+    try {
+      await this.repository.transaction(async () => {
+        await this.repository.create(game);
+
+        // Initialize game state with starting positions on the session's map
+        const startingPositions = this.generateStartingPositionsForSession(game);
+        gameStateService.initializeGameState(game, startingPositions);
+        gameStateService.updateVisibility(sessionId, game.players.map(p => p.id));
+        await this.repository.update(game);
+        await gameStateService.save(sessionId);
+      });
+    } catch (error) {
+      gameStateService.evict(sessionId);
+      mapService.evict(sessionId);
+      throw error;
+    }
+
+    return { sessionId, playerId, game, map: mapService.getGameMap(game) };
   }
 
   /**
-   * Generate starting positions for all players in a session
+   * Starting positions for all players in a session
+   * Taken from the start tiles generated with the map, so they are stable as players join
+   * and every player can reach the others
    */
   private generateStartingPositionsForSession(
     game: GameSessionModel,
-    mapWidth: number,
-    mapHeight: number,
   ): Array<{ playerId: number; position: { tx: number; ty: number } }> {
-    // Simple circular placement for now
-    // In production, you'd use the actual map data and terrain
-    const positions: Array<{ playerId: number; position: { tx: number; ty: number } }> = [];
-    const centerX = Math.floor(mapWidth / 2);
-    const centerY = Math.floor(mapHeight / 2);
-    const radius = Math.min(mapWidth, mapHeight) * 0.3;
-
-    game.players.forEach((player, index) => {
-      const angle = (index * 2 * Math.PI) / game.players.length;
-      const tx = Math.floor(centerX + radius * Math.cos(angle));
-      const ty = Math.floor(centerY + radius * Math.sin(angle));
-      
-      // Clamp to valid bounds
-      const clampedTx = Math.max(2, Math.min(mapWidth - 3, tx));
-      const clampedTy = Math.max(2, Math.min(mapHeight - 3, ty));
-
-      positions.push({
-        playerId: player.id,
-        position: { tx: clampedTx, ty: clampedTy },
-      });
-    });
+    const starts = mapService.getStartTiles(game);
+    return game.players.map((player, index) => ({
+      playerId: player.id,
+      position: { ...starts[index % starts.length] },
+    }));
+  }
 
-    return positions;
+  /**
+   * Get the map of a session
+   */
+  async getMap(sessionId: string): Promise<GameMap | null> {
+    const game = await this.repository.findById(sessionId);
+    return game ? mapService.getGameMap(game) : null;
+  }
+
+  /**
+   * Sequence number of a session's latest action (0 if none)
+   */
+  async getLatestSeq(sessionId: string): Promise<number> {
+    return await this.repository.getLatestSeq(sessionId);
   }
 
   /**
@@ -99,15 +117,13 @@ export class GameSessionService {
 
   /**
    * Join an existing game
-   * Note: mapWidth and mapHeight are ignored - we use the dimensions stored when the game was created
+   * The map comes from the session (its stored size and seed), not from the client
    */
   async joinGame(
     sessionId: string,
     playerName: string,
     civilizationId: string,
-    mapWidth?: number, // Ignored - use stored dimensions from game
-    mapHeight?: number, // Ignored - use stored dimensions from game
-  ): Promise<{ playerId: number; game: GameSessionModel }> {
+  ): Promise<{ playerId: number; game: GameSessionModel; map: GameMap }> {
     const game = await this.repository.findById(sessionId);
     if (!game) {
       throw new Error('Game not found');
@@ -117,70 +133,79 @@ export class GameSessionService {
       throw new Error('Game has finished');
     }
 
-    // Use the map dimensions stored in the game session (set when game was created)
-    const gameMapWidth = game.mapWidth || 20;
-    const gameMapHeight = game.mapHeight || 12;
+    // Player IDs must stay unique within the game, even if the counter restarted with the server
+    const playerId = Math.max(this.nextPlayerId, ...game.players.map(p => p.id + 1));
+    this.nextPlayerId = playerId + 1;
+    game.addPlayer(playerId, playerName, civilizationId);
 
-    // Validate that client's map dimensions match (optional check - could throw error if mismatch)
-    if (mapWidth && mapHeight && (mapWidth !== gameMapWidth || mapHeight !== gameMapHeight)) {
-      console.warn(
-        `[GameSessionService.joinGame] Map dimension mismatch! Client: ${mapWidth}x${mapHeight}, Game: ${gameMapWidth}x${gameMapHeight}. Using game dimensions.`,
-      );
-    }
+    await gameStateService.load(sessionId);
+    const fromVersion = gameStateService.getStateVersion(sessionId);
+    try {
+      await this.repository.transaction(async () => {
+        // If game state hasn't been initialized yet, initialize it now
+        const existingEntities = gameStateService.getEntities(sessionId);
+        if (existingEntities.length === 0) {
+          // Generate starting positions for all players including the new one
+          const startingPositions = this.generateStartingPositionsForSession(game);
+          gameStateService.initializeGameState(game, startingPositions);
+        } else {
+          // Add starting unit for the new player on the session's map
+          const startingPositions = this.generateStartingPositionsForSession(game);
+          const newPlayerPosition = startingPositions.find(p => p.playerId === playerId);
+          gameStateService.initializePlayer(sessionId, playerId, civilizationId);
+          if (newPlayerPosition) {
+            gameStateService.createEntity(
+              sessionId,
+              playerId,
+              civilizationId,
+              'unit',
+              newPlayerPosition.position,
+              {
+                unitType: 'settler',
+                mp: 2,
+                maxMp: 2,
+                health: 100,
+                maxHealth: 100,
+                sight: 2,
+              },
+            );
+          }
+        }
 
-    const playerId = this.nextPlayerId++;
-    game.addPlayer(playerId, playerName, civilizationId);
-    
-    // If game state hasn't been initialized yet, initialize it now
-    const existingEntities = gameStateService.getEntities(sessionId);
-    if (existingEntities.length === 0) {
-      // Generate starting positions for all players including the new one
-      const startingPositions = this.generateStartingPositionsForSession(game, gameMapWidth, gameMapHeight);
-      gameStateService.initializeGameState(game, startingPositions);
-      // Update entity count
-      const allEntities = gameStateService.getEntities(sessionId);
-      game.setLastEntityCount(allEntities.length);
-    } else {
-      // Add starting unit for the new player using the game's stored map dimensions
-      const startingPositions = this.generateStartingPositionsForSession(game, gameMapWidth, gameMapHeight);
-      const newPlayerPosition = startingPositions.find(p => p.playerId === playerId);
-      if (newPlayerPosition) {
-        gameStateService.createEntity(
-          sessionId,
-          playerId,
-          civilizationId,
-          'unit',
-          newPlayerPosition.position,
-          {
-            unitType: 'settler',
-            mp: 2,
-            maxMp: 2,
-            health: 100,
-            maxHealth: 100,
-            sight: 2,
-          },
-        );
-        // Entity count will be updated on next getStateUpdates call, which will trigger full state sync
-      }
+        gameStateService.updateVisibility(sessionId, game.players.map(p => p.id));
+        await this.repository.update(game);
+        await gameStateService.save(sessionId);
+      });
+    } catch (error) {
+      gameStateService.evict(sessionId);
+      throw error;
     }
-    
-    await this.repository.update(game);
 
-    return { playerId, game };
+    this.publishSessionState(game, await this.repository.getLatestSeq(sessionId), new Date().toISOString(), fromVersion);
+    return { playerId, game, map: mapService.getGameMap(game) };
   }
 
   /**
    * Submit an action to a game
+   * Throws a RuleViolationError if the player can't act now or the game rules don't allow the action
+   * @returns The action as applied and recorded - a MoveTo or Attack carries its result
    */
-  async submitAction(sessionId: string, playerId: number, intent: Intent): Promise<void> {
+  async submitAction(sessionId: string, playerId: number, intent: Intent): Promise<Intent> {
     const game = await this.repository.findById(sessionId);
     if (!game) {
       throw new Error('Game not found');
     }
 
-    // Validate player exists
-    if (!game.players.some(p => p.id === playerId)) {
-      throw new Error('Player not in game');
+    // Validate player exists and is still playing
+    const player = game.players.find(p => p.id === playerId);
+    if (!player) {
+      throw new RuleViolationError('Player not in game');
+    }
+    if (game.status === 'finished') {
+      throw new RuleViolationError('Game has finished');
+    }
+    if (player.isEliminated) {
+      throw new RuleViolationError('You have been eliminated');
     }
 
     const isSequentialMode = game.hasActiveHumanWars();
@@ -188,78 +213,194 @@ export class GameSessionService {
     // For sequential mode (war), check if it's the player's turn
     if (isSequentialMode) {
       if (game.currentPlayerId !== playerId) {
-        throw new Error('Not your turn');
+        throw new RuleViolationError('Not your turn');
       }
     } else {
       // For simultaneous mode, check if player has already ended their turn
       if (intent.type === 'EndTurn') {
         if (game.hasPlayerEndedTurn(playerId)) {
-          throw new Error('You have already ended your turn this round');
+          throw new RuleViolationError('You have already ended your turn this round');
         }
       } else {
         // For other actions, check if player has already ended their turn
         if (game.hasPlayerEndedTurn(playerId)) {
-          throw new Error('Cannot perform actions after ending your turn');
+          throw new RuleViolationError('Cannot perform actions after ending your turn');
         }
       }
     }
 
-    // Apply action to authoritative game state
-    gameStateService.applyAction(sessionId, playerId, intent);
-
-    // Record the action
+    // The action, the session and the entity mutations are saved together or not at all
+    mapService.loadMap(game);
+    await gameStateService.load(sessionId);
+    const fromVersion = gameStateService.getStateVersion(sessionId);
     const timestamp = new Date().toISOString();
-    await this.repository.recordAction(sessionId, playerId, intent, timestamp);
-    // Also update in-memory model for quick access
-    game.recordAction(playerId, intent);
-
-    // Handle turn advancement for EndTurn
-    if (intent.type === 'EndTurn') {
-      const turnAdvanced = game.playerEndTurn(playerId);
-      if (turnAdvanced) {
-        // All players have ended their turn - turn has advanced
-        // The turn advancement is handled in playerEndTurn
+    let seq = 0;
+    let applied = intent;
+    let turnAdvanced = false;
+    let visibleTo: number[] | undefined;
+    try {
+      await this.repository.transaction(async () => {
+        // Where the action happens, before and after it - other players only learn of it if they see either
+        const tilesBefore = gameStateService.getActionTiles(sessionId, intent);
+
+        // Apply action to authoritative game state
+        // Its random numbers come from the session's seed and the seq it's recorded under, so they can be replayed
+        const nextSeq = (await this.repository.getLatestSeq(sessionId)) + 1;
+        applied = gameStateService.applyAction(
+          sessionId,
+          playerId,
+          intent,
+          createActionRng(game.mapSeed ?? 0, nextSeq),
+        );
+
+        // Handle turn advancement for EndTurn
+        if (intent.type === 'EndTurn') {
+          turnAdvanced = game.playerEndTurn(playerId);
+          if (turnAdvanced) {
+            // All players have ended their turn - turn has advanced
+            // Restore movement and continue multi-turn moves for the new turn
+            gameStateService.beginTurn(sessionId);
+            this.checkVictory(game);
+          }
+        }
+
+        gameStateService.updateVisibility(sessionId, game.players.map(p => p.id));
+        visibleTo = this.getActionVisibility(
+          sessionId,
+          game,
+          playerId,
+          [...tilesBefore, ...gameStateService.getActionTiles(sessionId, intent)],
+        );
+
+        // Record the action
+        seq = await this.repository.recordAction(sessionId, playerId, applied, timestamp, visibleTo);
+        // Also update in-memory model for quick access
+        game.recordAction(seq, playerId, applied);
+
+        // Update game state
+        await this.repository.update(game);
+        await gameStateService.save(sessionId);
+      });
+    } catch (error) {
+      gameStateService.evict(sessionId);
+      throw error;
+    }
+
+    // Push the committed action to the other players who saw it happen
+    gameEventService.publishTo(sessionId, subscriberId =>
+      subscriberId !== playerId && (!visibleTo || visibleTo.includes(subscriberId))
+        ? { type: 'action', sessionId, seq, playerId, intent: applied, timestamp }
+        : null,
+    );
+    if (turnAdvanced) {
+      gameEventService.publish({
+        type: 'turnAdvanced',
+        sessionId,
+        turn: game.currentTurn,
+        currentPlayerId: game.currentPlayerId,
+        timestamp,
+      });
+    }
+    this.publishSessionState(game, seq, timestamp, fromVersion);
+    return applied;
+  }
+
+  /**
+   * After a turn: mark players who lost everything as eliminated, and finish the game
+   * if one of its victory conditions is met (see victory.ts - the same rules single-player uses)
+   */
+  private checkVictory(game: GameSessionModel): void {
+    const world = gameStateService.getVictoryWorld(game.id, game.players);
+    for (const player of game.players) {
+      if (!player.isEliminated && isEliminated(world, player.id)) {
+        game.eliminatePlayer(player.id);
       }
     }
 
-    // Update game state
-    await this.repository.update(game);
+    const result = checkVictory(game.victory, game.currentTurn, world);
+    if (result) {
+      game.finish(result);
+    }
   }
 
   /**
-   * Get game state updates since a timestamp
+   * Players who may learn of an action: the actor, plus anyone who sees one of its tiles
+   * Actions without tiles (e.g. EndTurn) are public - undefined means everyone
    */
-  async getStateUpdates(sessionId: string, since: string): Promise<{
-    actions: Array<{ playerId: number; intent: Intent; timestamp: string }>;
+  private getActionVisibility(
+    sessionId: string,
+    game: GameSessionModel,
+    playerId: number,
+    tiles: Array<{ tx: number; ty: number }>,
+  ): number[] | undefined {
+    if (tiles.length === 0) {
+      return undefined;
+    }
+    return game.players
+      .map(p => p.id)
+      .filter(id => id === playerId || tiles.some(tile => gameStateService.canPlayerSee(sessionId, id, tile)));
+  }
+
+  /**
+   * Push what changed in a session's entities since fromVersion (as each player saw it) and the
+   * session info to its subscribed players
+   */
+  private publishSessionState(game: GameSessionModel, seq: number, timestamp: string, fromVersion: number): void {
+    const version = gameStateService.getStateVersion(game.id);
+    gameEventService.publishTo(game.id, playerId => {
+      const delta = gameStateService.serializeDelta(game.id, playerId, fromVersion);
+      return {
+        type: 'entitiesChanged',
+        sessionId: game.id,
+        seq,
+        version,
+        ...(delta ? { delta } : { fullState: gameStateService.serializeGameState(game.id, playerId) }),
+        timestamp,
+      };
+    });
+    gameEventService.publish({ type: 'sessionUpdated', sessionId: game.id, session: game.getExtendedInfo() });
+  }
+
+  /**
+   * Get game state updates for a player after an action sequence number and entity state version
+   * Without afterSeq (first request or explicit resync) no actions are returned - the full state
+   * already reflects them, and `seq` tells the client where to continue from
+   * Without afterVersion (or one that can't be continued from) the full state is returned, otherwise
+   * the entity changes since then; `version` tells the client where to continue from
+   * Both are filtered by the player's fog of war: only actions they saw happen, only entities they see
+   */
+  async getStateUpdates(sessionId: string, playerId: number, afterSeq?: number, afterVersion?: number): Promise<{
+    actions: RecordedAction[];
+    seq: number;
+    version: number;
     lastUpdate: string;
-    fullState?: ReturnType<typeof gameStateService.serializeGameState>;
+    fullState?: GameStateUpdate['fullState'];
+    delta?: EntityDelta;
   }> {
     const game = await this.repository.findById(sessionId);
     if (!game) {
       throw new Error('Game not found');
     }
 
-    const actions = await this.repository.getActionsSince(sessionId, since || '');
-    
-    // Include full state if:
-    // 1. This is the first request (no since timestamp)
-    // 2. Explicitly requested with fullState=true
-    // 3. Entities have changed (new entities added/removed) - detected by comparing entity count
-    const lastEntityCount = game.getLastEntityCount();
-    const currentEntityCount = gameStateService.getEntityCount(sessionId);
-    const entitiesChanged = lastEntityCount !== currentEntityCount;
-    
-    // Update the stored entity count
-    game.setLastEntityCount(currentEntityCount);
-    
-    const includeFullState = !since || since === '' || entitiesChanged;
-    
-    const fullState = includeFullState ? gameStateService.serializeGameState(sessionId) : undefined;
-    
+    const seq = await this.repository.getLatestSeq(sessionId);
+    // A cursor past the latest action (e.g. the server lost its in-memory history) can't be continued
+    const resync = afterSeq === undefined || afterSeq > seq;
+    const actions = resync
+      ? []
+      : (await this.repository.getActionsAfter(sessionId, afterSeq)).filter(
+          a => a.playerId === playerId || !a.visibleTo || a.visibleTo.includes(playerId),
+        );
+    mapService.loadMap(game);
+    await gameStateService.load(sessionId);
+
+    const delta =
+      afterVersion !== undefined ? gameStateService.serializeDelta(sessionId, playerId, afterVersion) : null;
     return {
       actions,
+      seq,
+      version: gameStateService.getStateVersion(sessionId),
       lastUpdate: game.getLastStateUpdate(),
-      fullState,
+      ...(delta ? { delta } : { fullState: gameStateService.serializeGameState(sessionId, playerId) }),
     };
   }
 
@@ -279,6 +420,7 @@ export class GameSessionService {
 
     game.declareWar(player1Id, player2Id);
     await this.repository.update(game);
+    gameEventService.publish({ type: 'sessionUpdated', sessionId, session: game.getExtendedInfo() });
   }
 
   /**
@@ -292,10 +434,12 @@ export class GameSessionService {
 
     game.endWar(player1Id, player2Id);
     await this.repository.update(game);
+    gameEventService.publish({ type: 'sessionUpdated', sessionId, session: game.getExtendedInfo() });
   }
 
   /**
-   * Clean up old/finished games (for memory management)
+   * Clean up finished games (for memory management)
+   * Players get a day to look at the final standings - nothing changes a game once it's finished
    */
   async cleanup(): Promise<void> {
     const now = Date.now();
@@ -303,8 +447,10 @@ export class GameSessionService {
 
     const allGames = await this.repository.findAll();
     for (const game of allGames) {
-      const gameAge = now - new Date(game.createdAt).getTime();
-      if (game.status === 'finished' && gameAge > maxAge) {
+      const finishedFor = now - new Date(game.updatedAt).getTime();
+      if (game.status === 'finished' && finishedFor > maxAge) {
+        await gameStateService.cleanup(game.id);
+        mapService.evict(game.id);
         await this.repository.delete(game.id);
       }
     }
@@ -1,5 +1,33 @@
-import type { Intent } from '@shared/types';
+import type { EntityDelta, GameStateUpdate, Intent, ResearchState, SyncedEntity } from '@shared/types';
+import type { TilePoint } from '@engine/math/iso';
+import { findPath } from '@engine/pathfinding/astar';
+import { calculateMovementBudget } from '@engine/pathfinding/movementBudget';
+import {
+  canPlaceBuilding,
+  findBuildingPlacement,
+  processTurnEconomy,
+  type EconomyCity,
+} from '@engine/gameplay/economy';
+import {
+  areAdjacent,
+  canCaptureCity,
+  findCityBuildings,
+  resolveCityCombat,
+  resolveCombat,
+  type DefendingCity,
+} from '@engine/gameplay/combat';
+import { createResearchState, getMissingTechReason, setResearch } from '@engine/gameplay/research';
+import { canRazeCity, type VictoryWorld } from '@engine/gameplay/victory';
+import type { ProductionItem } from '@engine/gameplay/components';
+import type { SeededRNG } from '@engine/math/rng';
 import { GameSessionModel } from '../models/GameSession';
+import type { IGameStateRepository, PlayerVisibilitySnapshot } from '../repositories/IGameStateRepository';
+import { getDefaultStorage } from '../repositories/createStorage';
+import { mapService } from './MapService';
+import { gameDataService } from './GameDataService';
+import { VisibilityTracker } from './VisibilityTracker';
+import { EntityVersionTracker } from './EntityVersionTracker';
+import { RuleViolationError } from './RuleViolationError';
 
 /**
  * Represents a game entity on the server
@@ -16,10 +44,82 @@ export interface ServerEntity {
 /**
  * Service for managing the authoritative game state on the server
  * This is the source of truth for all entities, positions, and game state
+ *
+ * Entities are worked on in a per-session cache; call load() before reading a session,
+ * save() to persist it, and evict() to throw away unsaved changes
  */
 export class GameStateService {
   private entities = new Map<string, Map<number, ServerEntity>>(); // sessionId -> entityId -> entity
   private nextEntityId = new Map<string, number>(); // sessionId -> nextId
+  private visibility = new Map<string, VisibilityTracker>(); // sessionId -> fog of war per player
+  private savedVisibility = new Map<string, PlayerVisibilitySnapshot[]>(); // Loaded, tracker not built yet
+  private stockpiles = new Map<string, Map<number, number>>(); // sessionId -> playerId -> production
+  private research = new Map<string, Map<number, ResearchState>>(); // sessionId -> playerId -> research
+  private versions = new Map<string, EntityVersionTracker>(); // sessionId -> entity versions as of the last save
+  private repository: IGameStateRepository;
+
+  constructor(repository: IGameStateRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Load a session's saved state into the cache (no-op if already cached)
+   */
+  async load(sessionId: string): Promise<void> {
+    if (this.entities.has(sessionId)) {
+      return;
+    }
+    const state = await this.repository.load(sessionId);
+    if (!state) {
+      return;
+    }
+    this.entities.set(sessionId, new Map(state.entities.map(e => [e.id, e])));
+    this.nextEntityId.set(sessionId, state.nextEntityId);
+    this.savedVisibility.set(sessionId, state.visibility ?? []);
+    this.stockpiles.set(sessionId, new Map((state.stockpiles ?? []).map(s => [s.playerId, s.production])));
+    this.research.set(sessionId, new Map((state.research ?? []).map(r => [r.playerId, r.research])));
+    this.versions.set(sessionId, new EntityVersionTracker(state.entities, state.versions));
+  }
+
+  /**
+   * Persist a session's cached state, bumping its state version if entities changed
+   * Needs the session's map (mapService.loadMap)
+   */
+  async save(sessionId: string): Promise<void> {
+    const entities = this.getEntities(sessionId);
+    const visibility = this.getVisibility(sessionId);
+    const versions = this.getVersions(sessionId);
+    versions.commit(
+      entities,
+      new Map(
+        visibility.getPlayerIds().map(playerId => [
+          playerId,
+          new Set(visibility.filterEntities(playerId, entities).map(e => e.id)),
+        ]),
+      ),
+    );
+    await this.repository.save(sessionId, {
+      entities,
+      nextEntityId: this.nextEntityId.get(sessionId) || 1,
+      visibility: visibility.toSnapshot(),
+      stockpiles: Array.from(this.getStockpiles(sessionId), ([playerId, production]) => ({ playerId, production })),
+      research: Array.from(this.getResearchStates(sessionId), ([playerId, research]) => ({ playerId, research })),
+      versions: versions.toSnapshot(),
+    });
+  }
+
+  /**
+   * Drop unsaved changes - the next load() reads the last saved state
+   */
+  evict(sessionId: string): void {
+    this.entities.delete(sessionId);
+    this.nextEntityId.delete(sessionId);
+    this.visibility.delete(sessionId);
+    this.savedVisibility.delete(sessionId);
+    this.stockpiles.delete(sessionId);
+    this.research.delete(sessionId);
+    this.versions.delete(sessionId);
+  }
 
   /**
    * Initialize game state for a session (create starting units)
@@ -28,6 +128,8 @@ export class GameStateService {
     const sessionId = session.id;
     this.entities.set(sessionId, new Map());
     this.nextEntityId.set(sessionId, 1);
+    this.stockpiles.set(sessionId, new Map());
+    this.research.set(sessionId, new Map());
 
     // Create starting settler for each player
     startingPositions.forEach(({ playerId, position }) => {
@@ -55,9 +157,41 @@ export class GameStateService {
       };
 
       this.entities.get(sessionId)!.set(entityId, entity);
+      this.initializePlayer(sessionId, playerId, player.civilizationId);
     });
   }
 
+  /**
+   * Give a player their civilization's starting production (one-time, like the client's
+   * CivilizationProductionSystem.initializeCivilization) - no-op if they already have a stockpile
+   */
+  initializePlayer(sessionId: string, playerId: number, civId: string): void {
+    const stockpiles = this.getStockpiles(sessionId);
+    if (!stockpiles.has(playerId)) {
+      stockpiles.set(playerId, gameDataService.getCivilizationRegistry().get(civId)?.startingProduction || 0);
+    }
+  }
+
+  /**
+   * A player's production stockpile
+   */
+  getProduction(sessionId: string, playerId: number): number {
+    return this.getStockpiles(sessionId).get(playerId) ?? 0;
+  }
+
+  /**
+   * A player's research (nothing researched if they haven't started)
+   */
+  getResearch(sessionId: string, playerId: number): ResearchState {
+    const research = this.getResearchStates(sessionId);
+    let state = research.get(playerId);
+    if (!state) {
+      state = createResearchState();
+      research.set(playerId, state);
+    }
+    return state;
+  }
+
   /**
    * Get all entities for a session
    */
@@ -85,67 +219,602 @@ export class GameStateService {
 
   /**
    * Apply an action/intent to the game state
+   * Throws a RuleViolationError (messages are prefixed with the action type) if the rules don't allow it
+   * @param rng - The action's random stream (see createActionRng)
+   * @returns The action as applied - a MoveTo or Attack carries its result
    */
-  applyAction(sessionId: string, playerId: number, intent: Intent): void {
+  applyAction(sessionId: string, playerId: number, intent: Intent, rng: SeededRNG): Intent {
     const sessionEntities = this.entities.get(sessionId);
-    if (!sessionEntities) return;
+    if (!sessionEntities) return intent;
 
     switch (intent.type) {
       case 'MoveTo': {
         const entityId = intent.payload.entity;
         const entity = sessionEntities.get(entityId);
-        if (!entity) {
-          console.warn(`[GameStateService] MoveTo: Entity ${entityId} not found for player ${playerId} in session ${sessionId}`);
-          return;
+        if (!entity || entity.type !== 'unit') {
+          throw new RuleViolationError(`MoveTo: unit ${entityId} not found`);
         }
         if (entity.ownerId !== playerId) {
-          console.error(`[GameStateService] MoveTo: Ownership mismatch! Entity ${entityId} is owned by player ${entity.ownerId}, but player ${playerId} tried to move it`);
-          return;
-        }
-        // Validate movement points
-        const mp = (entity.data.mp as number) || 0;
-        if (mp > 0) {
-          entity.position = intent.payload.target;
-          // Deduct movement points
-          entity.data.mp = Math.max(0, mp - 1);
-        } else {
-          console.warn(`[GameStateService] MoveTo: Entity ${entityId} has no movement points (mp=${mp})`);
+          throw new RuleViolationError(`MoveTo: unit ${entityId} is not yours`);
         }
-        break;
+        if (entity.data.newlyPurchased) {
+          throw new RuleViolationError(`MoveTo: unit ${entityId} was just purchased and can act next turn`);
+        }
+        this.moveUnit(sessionId, entity, intent.payload.target);
+        // Other players see where the unit ended up (it may stop short of an occupied tile)
+        return {
+          ...intent,
+          result: {
+            position: { ...entity.position },
+            mp: (entity.data.mp as number) || 0,
+            path: (entity.data.path as TilePoint[] | undefined) || [],
+          },
+        };
       }
       case 'FoundCity': {
         const entity = sessionEntities.get(intent.payload.entity);
-        if (entity && entity.ownerId === playerId && entity.type === 'unit' && entity.data.unitType === 'settler') {
-          // Convert settler to city
-          entity.type = 'city';
-          entity.data = {
-            population: 1,
-            food: 0,
-            production: 0,
-            gold: 0,
-          };
+        if (!entity || entity.type !== 'unit') {
+          throw new RuleViolationError(`FoundCity: unit ${intent.payload.entity} not found`);
         }
+        if (entity.ownerId !== playerId) {
+          throw new RuleViolationError(`FoundCity: unit ${entity.id} is not yours`);
+        }
+        if (entity.data.unitType !== 'settler') {
+          throw new RuleViolationError(`FoundCity: unit ${entity.id} is not a settler`);
+        }
+        if (entity.data.newlyPurchased) {
+          throw new RuleViolationError(`FoundCity: unit ${entity.id} was just purchased and can act next turn`);
+        }
+        const { tx, ty } = entity.position;
+        if (this.getEntities(sessionId).some(e => e.type === 'city' && e.position.tx === tx && e.position.ty === ty)) {
+          throw new RuleViolationError(`FoundCity: there is already a city at (${tx}, ${ty})`);
+        }
+
+        // A player's first city is their capital
+        const hasCapital = this.getEntities(sessionId).some(e => e.type === 'city' && e.data.capitalOf === playerId);
+
+        // Convert settler to city
+        entity.type = 'city';
+        entity.data = {
+          population: 1,
+          food: 0,
+          damage: 0,
+          capitalOf: hasCapital ? null : playerId,
+          production: 0,
+          gold: 0,
+        };
         break;
       }
       case 'Attack': {
         const attacker = sessionEntities.get(intent.payload.attacker);
         const target = sessionEntities.get(intent.payload.target);
-        if (attacker && target && attacker.ownerId === playerId) {
-          // Apply damage
-          const targetHealth = (target.data.health as number) || 100;
-          const attackerAttack = (attacker.data.attack as number) || 10;
-          const newHealth = Math.max(0, targetHealth - attackerAttack);
-          target.data.health = newHealth;
-          
-          // Remove entity if dead
-          if (newHealth <= 0) {
-            sessionEntities.delete(intent.payload.target);
+        if (!attacker || attacker.type !== 'unit') {
+          throw new RuleViolationError(`Attack: unit ${intent.payload.attacker} not found`);
+        }
+        if (attacker.ownerId !== playerId) {
+          throw new RuleViolationError(`Attack: unit ${attacker.id} is not yours`);
+        }
+        if (!attacker.data.canAttack) {
+          throw new RuleViolationError(`Attack: unit ${attacker.id} can't attack`);
+        }
+        if (attacker.data.newlyPurchased) {
+          throw new RuleViolationError(`Attack: unit ${attacker.id} was just purchased and can act next turn`);
+        }
+        if (((attacker.data.mp as number) || 0) <= 0) {
+          throw new RuleViolationError(`Attack: unit ${attacker.id} has no movement left this turn`);
+        }
+        if (!target || (target.type !== 'unit' && target.type !== 'city') || target.ownerId === playerId) {
+          throw new RuleViolationError(`Attack: no enemy unit or city ${intent.payload.target} to attack`);
+        }
+        if (!areAdjacent(attacker.position, target.position)) {
+          throw new RuleViolationError(`Attack: ${target.type} ${target.id} is not next to unit ${attacker.id}`);
+        }
+
+        // The same rules and dice as the client's CombatSystem; the result is sent with the action
+        if (target.type === 'city') {
+          const result = resolveCityCombat(
+            { attack: (attacker.data.attack as number) ?? 0 },
+            this.getDefendingCity(sessionId, target),
+            rng,
+          );
+          target.data.damage = ((target.data.damage as number) || 0) + result.damage;
+          attacker.data.mp = Math.max(0, ((attacker.data.mp as number) ?? 0) - 1);
+          return { ...intent, result };
+        }
+        const result = resolveCombat(
+          { attack: (attacker.data.attack as number) ?? 0 },
+          { defense: (target.data.defense as number) ?? 0, health: (target.data.health as number) ?? 0 },
+          rng,
+        );
+        target.data.health = result.defenderHealth;
+        if (result.defenderDestroyed) {
+          sessionEntities.delete(target.id);
+        }
+        attacker.data.mp = Math.max(0, ((attacker.data.mp as number) ?? 0) - 1);
+        return { ...intent, result };
+      }
+      case 'CaptureCity': {
+        const unit = sessionEntities.get(intent.payload.unit);
+        const city = sessionEntities.get(intent.payload.city);
+        if (!unit || unit.type !== 'unit') {
+          throw new RuleViolationError(`CaptureCity: unit ${intent.payload.unit} not found`);
+        }
+        if (unit.ownerId !== playerId) {
+          throw new RuleViolationError(`CaptureCity: unit ${unit.id} is not yours`);
+        }
+        if (!city || city.type !== 'city') {
+          throw new RuleViolationError(`CaptureCity: city ${intent.payload.city} not found`);
+        }
+        const check = canCaptureCity(
+          {
+            ownerId: unit.ownerId,
+            canAttack: !!unit.data.canAttack,
+            mp: (unit.data.mp as number) || 0,
+            position: unit.position,
+          },
+          { ownerId: city.ownerId, position: city.position, ...this.getDefendingCity(sessionId, city) },
+        );
+        if (!check.canCapture) {
+          throw new RuleViolationError(`CaptureCity: ${check.reason}`);
+        }
+        if (this.getUnitAt(sessionId, city.position, unit.id)) {
+          throw new RuleViolationError(`CaptureCity: a unit is defending city ${city.id}`);
+        }
+        const razeCheck = canRazeCity({ capitalOf: (city.data.capitalOf as number | null | undefined) ?? null });
+        if (intent.payload.raze && !razeCheck.canRaze) {
+          throw new RuleViolationError(`CaptureCity: ${razeCheck.reason}`);
+        }
+
+        // The city's buildings (and so its borders) go with it, or are destroyed with it
+        const buildings = this.getCityBuildings(sessionId, city);
+        if (intent.payload.raze) {
+          for (const building of [city, ...buildings]) {
+            sessionEntities.delete(building.id);
+          }
+        } else {
+          for (const entity of [city, ...buildings]) {
+            entity.ownerId = unit.ownerId;
+            entity.civId = unit.civId;
           }
+          city.data.damage = 0;
+        }
+
+        // The unit moves in and is done for the turn
+        unit.position = { ...city.position };
+        unit.data.mp = 0;
+        unit.data.path = [];
+        break;
+      }
+      case 'ProduceUnit': {
+        const { cityEntity, unitType } = intent.payload;
+        const city = this.getOwnedCity(sessionId, playerId, cityEntity, intent.type);
+        const unitData = gameDataService.getUnitType(unitType, city.civId);
+        if (!unitData) {
+          throw new RuleViolationError(`ProduceUnit: unknown unit type "${unitType}"`);
+        }
+        this.requireTech(sessionId, playerId, unitData.requiredTech, intent.type);
+        this.spendProduction(sessionId, playerId, unitData.productionCost || 50, intent.type);
+
+        // Purchased units appear at the city and can't act until next turn
+        const data = this.createUnitData(unitType, city.civId)!;
+        this.createEntity(sessionId, playerId, city.civId, 'unit', { ...city.position }, { ...data, newlyPurchased: true });
+        break;
+      }
+      case 'ProduceBuilding': {
+        const { cityEntity, buildingType } = intent.payload;
+        const city = this.getOwnedCity(sessionId, playerId, cityEntity, intent.type);
+        const buildingData = gameDataService.getBuildingType(buildingType);
+        if (!buildingData) {
+          throw new RuleViolationError(`ProduceBuilding: unknown building type "${buildingType}"`);
+        }
+        this.requireTech(sessionId, playerId, buildingData.requiredTech, intent.type);
+        const { cities, buildings } = this.getBuildingPlacementState(sessionId);
+        const tile = findBuildingPlacement(
+          mapService.getMap(sessionId),
+          cities,
+          cities.find(c => c.entity === city)!,
+          buildings,
+          buildingData.terrainRequirements,
+        );
+        if (!tile) {
+          throw new RuleViolationError(`ProduceBuilding: no tile in the city's borders can hold ${buildingType}`);
+        }
+        this.spendProduction(sessionId, playerId, buildingData.productionCost || 50, intent.type);
+        this.placeBuilding(sessionId, city, buildingType, tile);
+        break;
+      }
+      case 'BuildBuilding': {
+        const { cityEntity, buildingType, tx, ty } = intent.payload;
+        const city = this.getOwnedCity(sessionId, playerId, cityEntity, intent.type);
+        const buildingData = gameDataService.getBuildingType(buildingType);
+        if (!buildingData) {
+          throw new RuleViolationError(`BuildBuilding: unknown building type "${buildingType}"`);
+        }
+        this.requireTech(sessionId, playerId, buildingData.requiredTech, intent.type);
+        const { cities, buildings } = this.getBuildingPlacementState(sessionId);
+        const placement = canPlaceBuilding(
+          mapService.getMap(sessionId),
+          cities,
+          cities.find(c => c.entity === city)!,
+          buildings,
+          { tx, ty },
+          buildingData.terrainRequirements,
+        );
+        if (!placement.canBuild) {
+          throw new RuleViolationError(`BuildBuilding: cannot build ${buildingType} at (${tx}, ${ty}): ${placement.reason}`);
+        }
+        this.spendProduction(sessionId, playerId, buildingData.productionCost || 50, intent.type);
+        this.placeBuilding(sessionId, city, buildingType, { tx, ty });
+        break;
+      }
+      case 'SetResearch': {
+        try {
+          setResearch(gameDataService.getGameData(), this.getResearch(sessionId, playerId), intent.payload.techId);
+        } catch (error) {
+          throw new RuleViolationError(`SetResearch: ${(error as Error).message}`);
         }
         break;
       }
       // Other actions can be handled here
     }
+    return intent;
+  }
+
+  /**
+   * Get a city the player owns, or throw (messages are prefixed with the action type)
+   */
+  private getOwnedCity(sessionId: string, playerId: number, cityEntity: number, action: string): ServerEntity {
+    const city = this.getEntity(sessionId, cityEntity);
+    if (!city || city.type !== 'city') {
+      throw new RuleViolationError(`${action}: city ${cityEntity} not found`);
+    }
+    if (city.ownerId !== playerId) {
+      throw new RuleViolationError(`${action}: city ${cityEntity} is not yours`);
+    }
+    return city;
+  }
+
+  /**
+   * Take production from the player's stockpile, or throw if they can't afford it
+   */
+  private spendProduction(sessionId: string, playerId: number, cost: number, action: string): void {
+    const stockpiles = this.getStockpiles(sessionId);
+    const available = stockpiles.get(playerId) ?? 0;
+    if (available < cost) {
+      throw new RuleViolationError(`${action}: not enough production (need ${cost}, have ${available})`);
+    }
+    stockpiles.set(playerId, available - cost);
+  }
+
+  /**
+   * Throw if the player hasn't researched a tech something requires (see research.ts)
+   */
+  private requireTech(sessionId: string, playerId: number, requiredTech: string | undefined, action: string): void {
+    const reason = getMissingTechReason(gameDataService.getGameData(), this.getResearch(sessionId, playerId), requiredTech);
+    if (reason) {
+      throw new RuleViolationError(`${action}: ${reason}`);
+    }
+  }
+
+  /**
+   * Cities (with their borders) and building tiles, for the shared placement rules
+   */
+  private getBuildingPlacementState(sessionId: string): {
+    cities: Array<{ entity: ServerEntity; position: TilePoint; population: number }>;
+    buildings: Array<{ position: TilePoint }>;
+  } {
+    const entities = this.getEntities(sessionId);
+    return {
+      cities: entities
+        .filter(e => e.type === 'city')
+        .map(entity => ({ entity, position: entity.position, population: (entity.data.population as number) || 1 })),
+      buildings: entities.filter(e => e.type === 'building').map(entity => ({ position: entity.position })),
+    };
+  }
+
+  /**
+   * The buildings that belong to a city (see findCityBuildings)
+   */
+  private getCityBuildings(sessionId: string, city: ServerEntity): ServerEntity[] {
+    const entities = this.getEntities(sessionId);
+    const { cities } = this.getBuildingPlacementState(sessionId);
+    const buildings = entities.filter(e => e.type === 'building');
+    return findCityBuildings(cities, cities.find(c => c.entity === city)!, buildings);
+  }
+
+  /**
+   * A city as the shared combat rules see it (see getCityCombatStats)
+   */
+  private getDefendingCity(sessionId: string, city: ServerEntity): DefendingCity {
+    return {
+      population: (city.data.population as number) || 1,
+      buildings: this.getCityBuildings(sessionId, city).length,
+      damage: (city.data.damage as number) || 0,
+    };
+  }
+
+  /**
+   * Create a purchased building; buildings that add population grow the city right away
+   */
+  private placeBuilding(sessionId: string, city: ServerEntity, buildingType: string, tile: TilePoint): void {
+    this.createEntity(sessionId, city.ownerId, city.civId, 'building', { ...tile }, { buildingType });
+    const population = gameDataService.getBuildingType(buildingType)?.population;
+    if (population) {
+      city.data.population = ((city.data.population as number) || 1) + population;
+    }
+  }
+
+  /**
+   * The session as the victory rules see it (see victory.ts)
+   */
+  getVictoryWorld(sessionId: string, players: Array<{ id: number; civilizationId: string }>): VictoryWorld {
+    const entities = this.getEntities(sessionId);
+    const research = this.getResearchStates(sessionId);
+    return {
+      players: players.map(player => ({ playerId: player.id, civId: player.civilizationId })),
+      cities: entities
+        .filter(e => e.type === 'city')
+        .map(city => ({
+          ownerId: city.ownerId,
+          population: (city.data.population as number) || 1,
+          capitalOf: (city.data.capitalOf as number | null | undefined) ?? null,
+        })),
+      units: entities.filter(e => e.type === 'unit').map(unit => ({ ownerId: unit.ownerId })),
+      buildings: entities.filter(e => e.type === 'building').map(building => ({ ownerId: building.ownerId })),
+      techs: Object.fromEntries(Array.from(research, ([playerId, state]) => [playerId, state.researched.length])),
+    };
+  }
+
+  /**
+   * Start of a new turn: run the turn's economy (see economy.ts - the same rules the client uses),
+   * then continue any leftover paths
+   */
+  beginTurn(sessionId: string): void {
+    const map = mapService.getMap(sessionId);
+    this.processEconomy(sessionId);
+
+    for (const entity of this.getEntities(sessionId)) {
+      if (entity.type !== 'unit') continue;
+
+      const path = (entity.data.path as TilePoint[] | undefined) || [];
+      if (path.length === 0) continue;
+
+      // The map or other units may have changed since the order was given
+      const blocked = path.some(step => {
+        const terrain = map.getTerrainAt(step.tx, step.ty);
+        return !terrain || terrain.blocked || terrain.moveCost < 0;
+      });
+      if (blocked) {
+        entity.data.path = [];
+        continue;
+      }
+      this.advanceAlongPath(sessionId, entity, [entity.position, ...path]);
+    }
+  }
+
+  /**
+   * Growth, yields, production stockpiles, research and production queues for every player, plus MP restore
+   * City data keeps its stockpile in food/production/gold, its queue in productionQueue/productionProgress
+   */
+  private processEconomy(sessionId: string): void {
+    const map = mapService.getMap(sessionId);
+    const entities = this.getEntities(sessionId);
+
+    const cities = entities
+      .filter(e => e.type === 'city')
+      .map(entity => ({
+        entity,
+        ownerId: entity.ownerId,
+        civId: entity.civId,
+        position: entity.position,
+        population: (entity.data.population as number) || 1,
+        baseFood: gameDataService.getCivilizationRegistry().get(entity.civId)?.cityYields?.food,
+        level: (entity.data.level as number) || 1,
+        resources: {
+          food: (entity.data.food as number) || 0,
+          production: (entity.data.production as number) || 0,
+          gold: (entity.data.gold as number) || 0,
+          science: 0, // Goes straight to the owner's research
+        },
+        productionQueue: {
+          queue: (entity.data.productionQueue as ProductionItem[] | undefined) ?? [],
+          currentProgress: (entity.data.productionProgress as number) || 0,
+        },
+      }));
+    const units = entities
+      .filter(e => e.type === 'unit')
+      .map(entity => ({
+        entity,
+        ownerId: entity.ownerId,
+        civId: entity.civId,
+        mp: (entity.data.mp as number) || 0,
+        maxMp: (entity.data.maxMp as number) || 0,
+        newlyPurchased: !!entity.data.newlyPurchased,
+      }));
+    const buildings = entities
+      .filter(e => e.type === 'building')
+      .map(entity => ({
+        position: entity.position,
+        yields: gameDataService.getBuildingType(entity.data.buildingType as string)?.yields ?? {},
+      }));
+
+    processTurnEconomy(
+      map,
+      { cities, buildings, units, stockpiles: this.getStockpiles(sessionId), research: this.getResearchStates(sessionId) },
+      {
+        startingProduction: civId => gameDataService.getCivilizationRegistry().get(civId)?.startingProduction || 0,
+        gameData: gameDataService.getGameData(),
+        onProductionComplete: (city, item) => {
+          if (item.type === 'unit') {
+            this.produceUnit(sessionId, city, item.name);
+          } else {
+            this.produceBuilding(sessionId, city, item.name, cities, buildings);
+          }
+        },
+      },
+    );
+
+    for (const { entity, level, population, resources, productionQueue } of cities) {
+      entity.data.level = level;
+      entity.data.population = population;
+      entity.data.food = resources.food;
+      entity.data.production = resources.production;
+      entity.data.gold = resources.gold;
+      entity.data.productionQueue = productionQueue.queue;
+      entity.data.productionProgress = productionQueue.currentProgress;
+    }
+    for (const { entity, mp } of units) {
+      entity.data.mp = mp;
+      delete entity.data.newlyPurchased;
+    }
+  }
+
+  /**
+   * Create a unit a city finished producing, on the city's tile
+   */
+  private produceUnit(sessionId: string, city: EconomyCity, unitType: string): void {
+    const data = this.createUnitData(unitType, city.civId);
+    if (!data) {
+      console.warn(`[GameStateService] Unknown unit type "${unitType}" produced in session ${sessionId}`);
+      return;
+    }
+    this.createEntity(sessionId, city.ownerId, city.civId, 'unit', { ...city.position }, data);
+  }
+
+  /**
+   * Place a building a city finished producing (see findBuildingPlacement)
+   * Buildings that add population grow the city right away
+   */
+  private produceBuilding(
+    sessionId: string,
+    city: EconomyCity,
+    buildingType: string,
+    cities: EconomyCity[],
+    buildings: Array<{ position: TilePoint; yields: { food?: number; production?: number; gold?: number; science?: number } }>,
+  ): void {
+    const buildingData = gameDataService.getBuildingType(buildingType);
+    if (!buildingData) {
+      console.warn(`[GameStateService] Unknown building type "${buildingType}" produced in session ${sessionId}`);
+      return;
+    }
+    const tile = findBuildingPlacement(
+      mapService.getMap(sessionId),
+      cities,
+      city,
+      buildings,
+      buildingData.terrainRequirements,
+    );
+    if (!tile) {
+      console.warn(`[GameStateService] No tile to place ${buildingType} for city at (${city.position.tx}, ${city.position.ty})`);
+      return;
+    }
+
+    this.createEntity(sessionId, city.ownerId, city.civId, 'building', tile, { buildingType });
+    buildings.push({ position: tile, yields: buildingData.yields ?? {} });
+    if (buildingData.population) {
+      city.population += buildingData.population;
+    }
+  }
+
+  /**
+   * Unit data for a new unit from units.json with the civilization's overrides (null for unknown types)
+   */
+  createUnitData(unitType: string, civId: string): Record<string, unknown> | null {
+    const unit = gameDataService.getUnitType(unitType, civId);
+    if (!unit) {
+      return null;
+    }
+    return {
+      unitType,
+      mp: unit.mp,
+      maxMp: unit.mp,
+      health: unit.health,
+      maxHealth: unit.maxHealth,
+      sight: unit.sightRange,
+      attack: unit.attack,
+      defense: unit.defense,
+      canAttack: unit.canAttack,
+    };
+  }
+
+  private getStockpiles(sessionId: string): Map<number, number> {
+    let stockpiles = this.stockpiles.get(sessionId);
+    if (!stockpiles) {
+      stockpiles = new Map();
+      this.stockpiles.set(sessionId, stockpiles);
+    }
+    return stockpiles;
+  }
+
+  private getResearchStates(sessionId: string): Map<number, ResearchState> {
+    let research = this.research.get(sessionId);
+    if (!research) {
+      research = new Map();
+      this.research.set(sessionId, research);
+    }
+    return research;
+  }
+
+  /**
+   * Validate and apply a move order using the shared A* and movement budget.
+   * The unit moves as far as its MP allows; the rest of the path is kept for later turns.
+   */
+  private moveUnit(sessionId: string, entity: ServerEntity, target: TilePoint): void {
+    const map = mapService.getMap(sessionId);
+    if (target.tx < 0 || target.ty < 0 || target.tx >= map.width || target.ty >= map.height) {
+      throw new RuleViolationError(`MoveTo: target (${target.tx}, ${target.ty}) is outside the map`);
+    }
+    if (entity.position.tx === target.tx && entity.position.ty === target.ty) {
+      entity.data.path = [];
+      return;
+    }
+    if (this.getUnitAt(sessionId, target, entity.id)) {
+      throw new RuleViolationError(`MoveTo: target (${target.tx}, ${target.ty}) is occupied`);
+    }
+    // Enemy cities are attacked and captured, not walked into
+    const city = this.getEntities(sessionId).find(
+      e => e.type === 'city' && e.position.tx === target.tx && e.position.ty === target.ty,
+    );
+    if (city && city.ownerId !== entity.ownerId) {
+      throw new RuleViolationError(`MoveTo: target (${target.tx}, ${target.ty}) is an enemy city`);
+    }
+
+    const path = findPath(entity.position, target, map);
+    if (!path) {
+      throw new RuleViolationError(`MoveTo: target (${target.tx}, ${target.ty}) is unreachable`);
+    }
+    this.advanceAlongPath(sessionId, entity, path);
+  }
+
+  /**
+   * Spend the unit's MP along a path (which starts at its current tile) and store what's left
+   */
+  private advanceAlongPath(sessionId: string, entity: ServerEntity, path: TilePoint[]): void {
+    const map = mapService.getMap(sessionId);
+    const mp = (entity.data.mp as number) || 0;
+    const { consumedSteps } = calculateMovementBudget(path, mp, map);
+
+    // Never end the move on a tile held by another unit - stop on the last free tile instead
+    let stepsTaken = consumedSteps.length;
+    while (stepsTaken > 0 && this.getUnitAt(sessionId, consumedSteps[stepsTaken - 1].pos, entity.id)) {
+      stepsTaken--;
+    }
+
+    if (stepsTaken > 0) {
+      const spent = consumedSteps.slice(0, stepsTaken).reduce((total, step) => total + step.cost, 0);
+      const stop = consumedSteps[stepsTaken - 1].pos;
+      entity.position = { tx: stop.tx, ty: stop.ty };
+      entity.data.mp = mp - spent;
+    }
+
+    // path[0] is the starting tile, so the unit now stands on path[stepsTaken]
+    entity.data.path = path.slice(stepsTaken + 1).map(step => ({ tx: step.tx, ty: step.ty }));
+  }
+
+  private getUnitAt(sessionId: string, position: TilePoint, excludeId: number): ServerEntity | undefined {
+    return this.getEntities(sessionId).find(
+      e => e.type === 'unit' && e.id !== excludeId && e.position.tx === position.tx && e.position.ty === position.ty,
+    );
   }
 
   /**
@@ -179,46 +848,123 @@ export class GameStateService {
   }
   
   /**
-   * Get the count of entities for a session (useful for detecting changes)
+   * Recompute what each player sees - call after changing entities and before save()
+   * Needs the session's map (mapService.loadMap)
    */
-  getEntityCount(sessionId: string): number {
-    return this.getEntities(sessionId).length;
+  updateVisibility(sessionId: string, playerIds: number[]): void {
+    this.getVisibility(sessionId).update(this.getEntities(sessionId), playerIds);
   }
 
   /**
-   * Serialize game state for transmission
+   * Tiles an action concerns (where its unit or city stands) - used to decide who may see it
+   * Actions without a unit or city (e.g. EndTurn) return no tiles
    */
-  serializeGameState(sessionId: string): {
-    entities: Array<{
-      id: number;
-      ownerId: number;
-      civId: string;
-      type: string;
-      position: { tx: number; ty: number };
-      data: Record<string, unknown>;
-    }>;
-  } {
-    const entities = this.getEntities(sessionId);
+  getActionTiles(sessionId: string, intent: Intent): TilePoint[] {
+    const positionOf = (entityId: number) => this.getEntity(sessionId, entityId)?.position;
+    const tiles: Array<TilePoint | undefined> = [];
+    switch (intent.type) {
+      case 'MoveTo':
+      case 'FoundCity':
+        tiles.push(positionOf(intent.payload.entity));
+        break;
+      case 'Attack':
+        tiles.push(positionOf(intent.payload.attacker), positionOf(intent.payload.target));
+        break;
+      case 'CaptureCity':
+        tiles.push(positionOf(intent.payload.unit), positionOf(intent.payload.city));
+        break;
+      case 'ProduceUnit':
+      case 'ProduceBuilding':
+        tiles.push(positionOf(intent.payload.cityEntity));
+        break;
+      case 'BuildBuilding':
+        tiles.push(positionOf(intent.payload.cityEntity), { tx: intent.payload.tx, ty: intent.payload.ty });
+        break;
+    }
+    return tiles.filter((tile): tile is TilePoint => !!tile).map(tile => ({ ...tile }));
+  }
+
+  /**
+   * Whether a tile is currently in a player's sight (as of the last updateVisibility)
+   */
+  canPlayerSee(sessionId: string, playerId: number, tile: TilePoint): boolean {
+    return this.getVisibility(sessionId).canSee(playerId, tile);
+  }
+
+  /**
+   * Serialize the game state a player may see for transmission: their own entities,
+   * others' entities in their sight, and last-known snapshots of enemy cities out of sight
+   */
+  serializeGameState(sessionId: string, playerId: number): NonNullable<GameStateUpdate['fullState']> {
+    const visibility = this.getVisibility(sessionId);
     return {
-      entities: entities.map(e => ({
-        id: e.id,
-        ownerId: e.ownerId,
-        civId: e.civId,
-        type: e.type,
-        position: e.position,
-        data: e.data,
-      })),
+      entities: visibility.filterEntities(playerId, this.getEntities(sessionId)).map(serializeEntity),
+      knownCities: visibility.getKnownCities(playerId).map(serializeEntity),
+      production: this.getProduction(sessionId, playerId),
+      research: this.getResearch(sessionId, playerId),
+    };
+  }
+
+  /**
+   * The session's state version as of the last save()
+   */
+  getStateVersion(sessionId: string): number {
+    return this.getVersions(sessionId).getVersion();
+  }
+
+  /**
+   * Serialize the entity changes a player saw since a state version, as of the last save()
+   * Returns null if the version can't be continued from (it is ahead of the session's) - send the full state
+   */
+  serializeDelta(sessionId: string, playerId: number, sinceVersion: number): EntityDelta | null {
+    const entities = this.entities.get(sessionId) ?? new Map<number, ServerEntity>();
+    const delta = this.getVersions(sessionId).getDelta(playerId, sinceVersion, entities);
+    if (!delta) {
+      return null;
+    }
+    return {
+      fromVersion: sinceVersion,
+      created: delta.created.map(serializeEntity),
+      updated: delta.updated.map(serializeEntity),
+      deleted: delta.deleted,
+      production: this.getProduction(sessionId, playerId),
+      research: this.getResearch(sessionId, playerId),
     };
   }
 
   /**
    * Clean up game state for a session
    */
-  cleanup(sessionId: string): void {
-    this.entities.delete(sessionId);
-    this.nextEntityId.delete(sessionId);
+  async cleanup(sessionId: string): Promise<void> {
+    this.evict(sessionId);
+    await this.repository.delete(sessionId);
+  }
+
+  private getVisibility(sessionId: string): VisibilityTracker {
+    let tracker = this.visibility.get(sessionId);
+    if (!tracker) {
+      const saved = this.savedVisibility.get(sessionId) ?? [];
+      tracker = new VisibilityTracker(mapService.getMap(sessionId), saved);
+      // Only revealed tiles are saved - what is in sight now follows from the entities
+      const entities = this.getEntities(sessionId);
+      const playerIds = new Set([...saved.map(v => v.playerId), ...entities.map(e => e.ownerId)]);
+      tracker.update(entities, Array.from(playerIds));
+      this.visibility.set(sessionId, tracker);
+    }
+    return tracker;
   }
 
+  private getVersions(sessionId: string): EntityVersionTracker {
+    let tracker = this.versions.get(sessionId);
+    if (!tracker) {
+      // A new session - nothing was committed yet
+      tracker = new EntityVersionTracker([]);
+      this.versions.set(sessionId, tracker);
+    }
+    return tracker;
+  }
+
+  // Clients create server entities with these IDs - they must stay below the client World's LOCAL_ENTITY_ID_START
   private getNextEntityId(sessionId: string): number {
     const current = this.nextEntityId.get(sessionId) || 1;
     this.nextEntityId.set(sessionId, current + 1);
@@ -226,6 +972,17 @@ export class GameStateService {
   }
 }
 
+function serializeEntity(e: ServerEntity): SyncedEntity {
+  return {
+    id: e.id,
+    ownerId: e.ownerId,
+    civId: e.civId,
+    type: e.type,
+    position: e.position,
+    data: e.data,
+  };
+}
+
 // Singleton instance
-export const gameStateService = new GameStateService();
+export const gameStateService = new GameStateService(getDefaultStorage().states);
 
@@ -0,0 +1,100 @@
+import { MapData } from '@engine/map/MapData';
+import { generateMapLayout, type GeneratedMap } from '@engine/map/MapGenerator';
+import type { TilePoint } from '@engine/math/iso';
+import type { GameMap } from '@shared/types';
+import type { GameSessionModel } from '../models/GameSession';
+import { gameDataService } from './GameDataService';
+
+export const DEFAULT_MAP_SIZE = 50;
+export const MIN_MAP_SIZE = 10;
+export const MAX_MAP_SIZE = 128; // Maps are generated synchronously, so a huge one would stall the server
+export const MAX_MAP_SEED = 0xffffffff; // Seeds are 32-bit (see SeededRNG)
+const MAX_PLAYERS = 8; // Start tiles generated per map
+
+/**
+ * Whether data (e.g. from a request) is a usable map width or height: a whole number of tiles
+ * from MIN_MAP_SIZE to MAX_MAP_SIZE
+ */
+export function isMapSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_MAP_SIZE && (value as number) <= MAX_MAP_SIZE;
+}
+
+/**
+ * Whether data (e.g. from a request) is a usable map seed: a whole number that fits in 32 bits
+ */
+export function isMapSeed(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_MAP_SEED;
+}
+
+/**
+ * Owns the map of every session. Maps are generated (see MapGenerator) from the seed stored
+ * on the session, so they only need to be regenerated (not stored) after a restart.
+ */
+export class MapService {
+  private maps = new Map<string, { layout: GeneratedMap; definition: GameMap; data: MapData }>(); // sessionId -> map
+
+  /**
+   * Build (or fetch from cache) the map for a session from its stored seed and size
+   */
+  loadMap(game: GameSessionModel): MapData {
+    return this.loadEntry(game).data;
+  }
+
+  /**
+   * Get the map definition sent to clients
+   */
+  getGameMap(game: GameSessionModel): GameMap {
+    return this.loadEntry(game).definition;
+  }
+
+  /**
+   * Start tiles for the session's players, in join order (all reachable from each other)
+   */
+  getStartTiles(game: GameSessionModel): TilePoint[] {
+    return this.loadEntry(game).layout.starts;
+  }
+
+  /**
+   * Get the map of a session that was already loaded with loadMap()
+   */
+  getMap(sessionId: string): MapData {
+    const entry = this.maps.get(sessionId);
+    if (!entry) {
+      throw new Error(`Map for session ${sessionId} is not loaded`);
+    }
+    return entry.data;
+  }
+
+  /**
+   * Forget a session's map
+   */
+  evict(sessionId: string): void {
+    this.maps.delete(sessionId);
+  }
+
+  private loadEntry(game: GameSessionModel): { layout: GeneratedMap; definition: GameMap; data: MapData } {
+    let entry = this.maps.get(game.id);
+    if (!entry) {
+      const layout = generateMapLayout(game.mapSeed ?? 0, {
+        // Sessions from before maps were stored have no size
+        width: game.mapWidth ?? DEFAULT_MAP_SIZE,
+        height: game.mapHeight ?? DEFAULT_MAP_SIZE,
+        startCount: MAX_PLAYERS,
+      });
+      const definition: GameMap = {
+        width: layout.width,
+        height: layout.height,
+        start: layout.start,
+        tiles: layout.tiles,
+        seed: layout.seed,
+      };
+      const data = new MapData(layout.width, layout.height, layout.start, layout.tiles, gameDataService.getTerrainRegistry());
+      entry = { layout, definition, data };
+      this.maps.set(game.id, entry);
+    }
+    return entry;
+  }
+}
+
+// Singleton instance
+export const mapService = new MapService();
@@ -0,0 +1,10 @@
+/**
+ * A well-formed action the game rules don't allow (not your unit, not enough production, ...)
+ * The actions route answers these with 400 RULE_VIOLATION; any other error is a server fault
+ */
+export class RuleViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleViolationError';
+  }
+}
@@ -0,0 +1,119 @@
+import { FogOfWar } from '@engine/map/FogOfWar';
+import type { MapData } from '@engine/map/MapData';
+import type { TilePoint } from '@engine/math/iso';
+import type { PlayerVisibilitySnapshot } from '../repositories/IGameStateRepository';
+import type { ServerEntity } from './GameStateService';
+
+const DEFAULT_UNIT_SIGHT = 2;
+
+/**
+ * Server-side fog of war for one session
+ *
+ * Uses the engine's FogOfWar with the same sight rules as the client's FogSystem
+ * (units see `sight` tiles, cities see as far as their population) and remembers
+ * the last state each player saw of enemy cities
+ */
+export class VisibilityTracker {
+  private fog: FogOfWar;
+  private knownCities = new Map<number, Map<number, ServerEntity>>(); // playerId -> cityId -> last seen
+  private playerIds = new Set<number>();
+
+  constructor(map: MapData, saved: PlayerVisibilitySnapshot[] = []) {
+    this.fog = new FogOfWar(map);
+    for (const { playerId, revealed, knownCities } of saved) {
+      this.playerIds.add(playerId);
+      const grid = new Array<boolean>(this.fog.width * this.fog.height).fill(false);
+      revealed.forEach(index => (grid[index] = true));
+      this.fog.setRevealed(playerId, grid);
+      this.knownCities.set(playerId, new Map(knownCities.map(city => [city.id, city])));
+    }
+  }
+
+  /**
+   * Recompute what every player sees and refresh their last-known enemy cities
+   */
+  update(entities: ServerEntity[], playerIds: number[]): void {
+    for (const playerId of playerIds) {
+      this.playerIds.add(playerId);
+      const own = entities.filter(e => e.ownerId === playerId);
+      this.fog.recompute(
+        playerId,
+        own.filter(e => e.type === 'unit').map(e => ({
+          pos: e.position,
+          sight: (e.data.sight as number | undefined) ?? DEFAULT_UNIT_SIGHT,
+        })),
+        own.filter(e => e.type === 'city').map(e => ({
+          pos: e.position,
+          sight: (e.data.population as number | undefined) || 1,
+        })),
+      );
+
+      const known = this.getKnownCityMap(playerId);
+      // Forget cities that are gone (or changed hands to this player) where the player can see
+      for (const [cityId, city] of known) {
+        if (this.canSee(playerId, city.position)) {
+          const current = entities.find(e => e.id === cityId && e.type === 'city');
+          if (!current || current.ownerId === playerId) {
+            known.delete(cityId);
+          }
+        }
+      }
+      // Remember enemy cities in sight as they are now
+      for (const city of entities) {
+        if (city.type === 'city' && city.ownerId !== playerId && this.canSee(playerId, city.position)) {
+          known.set(city.id, structuredClone(city));
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether a tile is currently in the player's sight
+   */
+  canSee(playerId: number, tile: TilePoint): boolean {
+    return this.fog.isVisible(tile.tx, tile.ty, playerId);
+  }
+
+  /**
+   * The entities a player may know about: their own, plus others on tiles they currently see
+   */
+  filterEntities(playerId: number, entities: ServerEntity[]): ServerEntity[] {
+    return entities.filter(e => e.ownerId === playerId || this.canSee(playerId, e.position));
+  }
+
+  /**
+   * Last-known snapshots of enemy cities the player saw before but can't see right now
+   */
+  getKnownCities(playerId: number): ServerEntity[] {
+    return Array.from(this.getKnownCityMap(playerId).values()).filter(
+      city => !this.canSee(playerId, city.position),
+    );
+  }
+
+  /**
+   * Players whose sight is tracked
+   */
+  getPlayerIds(): number[] {
+    return Array.from(this.playerIds);
+  }
+
+  toSnapshot(): PlayerVisibilitySnapshot[] {
+    return Array.from(this.playerIds, playerId => ({
+      playerId,
+      revealed: this.fog
+        .getRevealed(playerId)
+        .map((revealed, index) => (revealed ? index : -1))
+        .filter(index => index >= 0),
+      knownCities: Array.from(this.getKnownCityMap(playerId).values()),
+    }));
+  }
+
+  private getKnownCityMap(playerId: number): Map<number, ServerEntity> {
+    let known = this.knownCities.get(playerId);
+    if (!known) {
+      known = new Map();
+      this.knownCities.set(playerId, known);
+    }
+    return known;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AuthService } from '../services/AuthService';
+import { gameSessionService } from '../services/GameSessionService';
+import { gameStateService } from '../services/GameStateService';
+import { startTestServer, type TestServer } from './helpers/api';
+
+describe('AuthService', () => {
+  const auth = new AuthService('secret');
+
+  it('should verify the tokens it issued', () => {
+    expect(auth.verifyToken(auth.issueToken('session-1', 2))).toEqual({ sessionId: 'session-1', playerId: 2 });
+  });
+
+  it('should reject a token signed with another secret', () => {
+    expect(auth.verifyToken(new AuthService('other').issueToken('session-1', 2))).toBeNull();
+  });
+
+  it('should reject a token whose claims were changed', () => {
+    const [, signature] = auth.issueToken('session-1', 2).split('.');
+    const [payload] = auth.issueToken('session-1', 1).split('.');
+
+    expect(auth.verifyToken(`${payload}.${signature}`)).toBeNull();
+  });
+
+  it.each(['', 'abc', 'a.b', 'a.b.c'])('should reject the malformed token "%s"', token => {
+    expect(auth.verifyToken(token)).toBeNull();
+  });
+});
+
+describe('requirePlayerToken', () => {
+  let api: TestServer;
+  let sessionId: string;
+  let annToken: string;
+  let bobToken: string;
+  let otherSessionToken: string;
+
+  beforeAll(async () => {
+    api = await startTestServer();
+    const newGame = { name: 'Test', playerName: 'Ann', civilizationId: 'romans', mapWidth: 12, mapHeight: 12 };
+    ({ sessionId, token: annToken } = (await api.request('POST', '/api/games', newGame)).body);
+    bobToken = (await api.request('POST', `/api/games/${sessionId}/join`, { playerName: 'Bob', civilizationId: 'greeks' }))
+      .body.token;
+    otherSessionToken = (await api.request('POST', '/api/games', newGame)).body.token;
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const tampered = () => {
+    // Bob's signature on Ann's claims
+    const [payload] = annToken.split('.');
+    const [, signature] = bobToken.split('.');
+    return `${payload}.${signature}`;
+  };
+
+  const routes: Array<[string, string, unknown]> = [
+    ['POST', 'actions', { intent: { type: 'EndTurn' } }],
+    ['GET', 'state', undefined],
+    ['POST', 'war', { opponentId: 1 }],
+  ];
+
+  describe.each(routes)('%s /:id/%s', (method, route, body) => {
+    const request = (token?: string) => api.request(method, `/api/games/${sessionId}/${route}`, body, token);
+
+    it('should reject a request without a token', async () => {
+      expect(await request()).toMatchObject({ status: 401, body: { error: 'Missing player token' } });
+    });
+
+    it('should reject a forged token', async () => {
+      expect(await request('forged.token')).toMatchObject({ status: 401, body: { error: 'Invalid player token' } });
+    });
+
+    it('should reject a tampered token', async () => {
+      expect(await request(tampered())).toMatchObject({ status: 401, body: { error: 'Invalid player token' } });
+    });
+
+    it('should reject a token issued for another session', async () => {
+      expect(await request(otherSessionToken)).toMatchObject({
+        status: 403,
+        body: { error: 'Token is for a different game' },
+      });
+    });
+  });
+
+  it("should end the turn of the token's player, not the one in the body", async () => {
+    const { status } = await api.request(
+      'POST',
+      `/api/games/${sessionId}/actions`,
+      { playerId: 1, intent: { type: 'EndTurn' } },
+      bobToken,
+    );
+
+    expect(status).toBe(200);
+    const game = await gameSessionService.getGame(sessionId);
+    expect(game!.hasPlayerEndedTurn(2)).toBe(true);
+    expect(game!.hasPlayerEndedTurn(1)).toBe(false);
+  });
+
+  it("should return the state the token's player can see", async () => {
+    const { status, body } = await api.request(
+      'GET',
+      `/api/games/${sessionId}/state?playerId=1&fullState=true`,
+      undefined,
+      bobToken,
+    );
+
+    expect(status).toBe(200);
+    expect(body.fullState).toEqual(JSON.parse(JSON.stringify(gameStateService.serializeGameState(sessionId, 2))));
+    expect(body.fullState.entities.some((e: { ownerId: number }) => e.ownerId === 2)).toBe(true);
+  });
+
+  it("should declare war on behalf of the token's player, not the one in the body", async () => {
+    const { status, body } = await api.request(
+      'POST',
+      `/api/games/${sessionId}/war`,
+      { playerId: 1, opponentId: 1 },
+      bobToken,
+    );
+
+    expect(status).toBe(200);
+    expect(body.game.wars).toEqual([expect.objectContaining({ player1Id: 2, player2Id: 1, isActive: true })]);
+  });
+});
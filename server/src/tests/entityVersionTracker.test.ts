@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryGameSessionRepository } from '../repositories/InMemoryGameSessionRepository';
+import { EntityVersionTracker } from '../services/EntityVersionTracker';
+import { GameSessionService } from '../services/GameSessionService';
+import type { ServerEntity } from '../services/GameStateService';
+
+describe('EntityVersionTracker', () => {
+  let tracker: EntityVersionTracker;
+  let settler: ServerEntity;
+  let enemyUnit: ServerEntity;
+  let enemyCity: ServerEntity;
+
+  const entity = (id: number, ownerId: number, type: ServerEntity['type']): ServerEntity => ({
+    id,
+    ownerId,
+    civId: 'romans',
+    type,
+    position: { tx: id, ty: 0 },
+    data: {},
+  });
+
+  /**
+   * Commit the entities with player 1 seeing the given ones (plus their own)
+   */
+  const commit = (entities: ServerEntity[], seenByPlayer1: ServerEntity[] = []) =>
+    tracker.commit(
+      entities,
+      new Map([[1, new Set([...entities.filter(e => e.ownerId === 1), ...seenByPlayer1].map(e => e.id))]]),
+    );
+  const deltaSince = (version: number) =>
+    tracker.getDelta(1, version, new Map([settler, enemyUnit, enemyCity].map(e => [e.id, e])));
+
+  beforeEach(() => {
+    tracker = new EntityVersionTracker([]);
+    settler = entity(1, 1, 'unit');
+    enemyUnit = entity(2, 2, 'unit');
+    enemyCity = entity(3, 2, 'city');
+    commit([settler, enemyUnit, enemyCity], [enemyUnit, enemyCity]);
+  });
+
+  it('should report entities that came into view as created', () => {
+    expect(tracker.getVersion()).toBe(1);
+    expect(deltaSince(0)).toEqual({ created: [settler, enemyUnit, enemyCity], updated: [], deleted: [] });
+    expect(deltaSince(1)).toEqual({ created: [], updated: [], deleted: [] });
+  });
+
+  it('should report entities that changed in view as updated', () => {
+    settler.position = { tx: 4, ty: 0 };
+    commit([settler, enemyUnit, enemyCity], [enemyUnit, enemyCity]);
+
+    expect(tracker.getVersion()).toBe(2);
+    expect(deltaSince(1)).toEqual({ created: [], updated: [settler], deleted: [] });
+    // A client that never saw the settler still gets it as created
+    expect(deltaSince(0)!.created).toContain(settler);
+  });
+
+  it('should not bump the version when nothing changed', () => {
+    commit([settler, enemyUnit, enemyCity], [enemyUnit, enemyCity]);
+
+    expect(tracker.getVersion()).toBe(1);
+  });
+
+  it('should report entities destroyed in view as deleted', () => {
+    commit([settler, enemyCity], [enemyCity]);
+
+    expect(deltaSince(1)).toEqual({ created: [], updated: [], deleted: [enemyUnit.id] });
+  });
+
+  it('should report a unit that left sight as deleted but keep a city that did', () => {
+    commit([settler, enemyUnit, enemyCity]);
+
+    expect(deltaSince(1)).toEqual({ created: [], updated: [], deleted: [enemyUnit.id] });
+  });
+
+  it('should keep the id of a settler that became a city', () => {
+    settler.type = 'city';
+    commit([settler, enemyUnit, enemyCity], [enemyUnit, enemyCity]);
+
+    expect(deltaSince(1)).toEqual({ created: [], updated: [settler], deleted: [] });
+
+    // Taken - out of the player's view now, but a city is kept as last known
+    settler.ownerId = 2;
+    commit([settler, enemyUnit, enemyCity], [enemyUnit, enemyCity]);
+
+    expect(deltaSince(2)).toEqual({ created: [], updated: [], deleted: [] });
+  });
+
+  it('should return null for a version ahead of the session', () => {
+    expect(deltaSince(2)).toBeNull();
+  });
+
+  it('should continue from its snapshot', () => {
+    const restored = new EntityVersionTracker([settler, enemyUnit, enemyCity], tracker.toSnapshot());
+    tracker = restored;
+
+    enemyUnit.position = { tx: 5, ty: 0 };
+    commit([settler, enemyUnit, enemyCity], [enemyUnit, enemyCity]);
+
+    expect(restored.getVersion()).toBe(2);
+    expect(deltaSince(1)).toEqual({ created: [], updated: [enemyUnit], deleted: [] });
+  });
+});
+
+describe('GameSessionService state updates', () => {
+  let service: GameSessionService;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    service = new GameSessionService(new InMemoryGameSessionRepository());
+    ({ sessionId } = await service.createGame('Test', 'Ann', 'romans', 20, 20, 1));
+  });
+
+  it('should send the changes since a version the session has', async () => {
+    const { version } = await service.getStateUpdates(sessionId, 1);
+
+    const update = await service.getStateUpdates(sessionId, 1, 0, version);
+
+    expect(update.delta).toMatchObject({ fromVersion: version, created: [], updated: [], deleted: [] });
+    expect(update.fullState).toBeUndefined();
+  });
+
+  it('should send the full state for a version ahead of the session', async () => {
+    const { version, fullState } = await service.getStateUpdates(sessionId, 1);
+
+    const update = await service.getStateUpdates(sessionId, 1, 0, version + 1);
+
+    expect(update.delta).toBeUndefined();
+    expect(update.version).toBe(version);
+    expect(update.fullState).toEqual(fullState);
+  });
+});
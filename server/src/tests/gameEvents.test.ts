@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { WebSocket, type WebSocketServer } from 'ws';
+import type { GameEvent } from '@shared/types';
+import { attachGameEventSocket } from '../routes/gameEvents';
+import { GameEventService } from '../services/GameEventService';
+import { startTestServer, type TestServer } from './helpers/api';
+
+describe('Game event socket', () => {
+  let api: TestServer;
+  let wss: WebSocketServer;
+  let sessionId: string;
+  let token: string;
+  let otherSessionToken: string;
+
+  beforeAll(async () => {
+    api = await startTestServer();
+    wss = attachGameEventSocket(api.server);
+
+    const newGame = { name: 'Test', playerName: 'Ann', civilizationId: 'romans', mapWidth: 12, mapHeight: 12 };
+    ({ sessionId, token } = (await api.request('POST', '/api/games', newGame)).body);
+    otherSessionToken = (await api.request('POST', '/api/games', newGame)).body.token;
+  });
+
+  afterAll(async () => {
+    for (const client of wss.clients) {
+      client.terminate();
+    }
+    await new Promise<void>(resolve => wss.close(() => resolve()));
+    await api.close();
+  });
+
+  const eventsUrl = (query: string) => `${api.url.replace(/^http/, 'ws')}/api/games/${sessionId}/events${query}`;
+
+  /**
+   * HTTP status the upgrade was rejected with
+   */
+  const rejectedStatus = (query: string) =>
+    new Promise<number>((resolve, reject) => {
+      const socket = new WebSocket(eventsUrl(query));
+      socket.on('unexpected-response', (_req, res) => resolve(res.statusCode!));
+      socket.on('open', () => {
+        socket.close();
+        reject(new Error('Upgrade was accepted'));
+      });
+      socket.on('error', () => {});
+    });
+
+  it.each([
+    ['no token', '', 401],
+    ['a forged token', '?token=forged', 401],
+  ])('should reject an upgrade with %s', async (_case, query, status) => {
+    expect(await rejectedStatus(query)).toBe(status);
+  });
+
+  it('should reject an upgrade with a token issued for another session', async () => {
+    expect(await rejectedStatus(`?token=${encodeURIComponent(otherSessionToken)}`)).toBe(403);
+  });
+
+  it('should catch a player up with the session and their entities on connect', async () => {
+    const socket = new WebSocket(eventsUrl(`?token=${encodeURIComponent(token)}`));
+    const events: GameEvent[] = [];
+    await new Promise<void>((resolve, reject) => {
+      socket.on('message', data => {
+        events.push(JSON.parse(data.toString()));
+        if (events.length === 2) resolve();
+      });
+      socket.on('error', reject);
+    });
+    socket.close();
+
+    expect(events.map(e => e.type)).toEqual(['sessionUpdated', 'entitiesChanged']);
+    expect(events[0]).toMatchObject({ sessionId, session: { id: sessionId } });
+    const entitiesChanged = events[1] as Extract<GameEvent, { type: 'entitiesChanged' }>;
+    expect(entitiesChanged.delta).toBeUndefined();
+    expect(entitiesChanged.fullState!.entities).toEqual([
+      expect.objectContaining({ ownerId: 1, data: expect.objectContaining({ unitType: 'settler' }) }),
+    ]);
+  });
+});
+
+describe('GameEventService', () => {
+  it('should deliver a player-specific event only to that player', () => {
+    const events = new GameEventService();
+    const ann = vi.fn();
+    const bob = vi.fn();
+    events.subscribe('session-1', 1, ann);
+    events.subscribe('session-1', 2, bob);
+    const event: GameEvent = { type: 'turnAdvanced', sessionId: 'session-1', turn: 2, currentPlayerId: 1, timestamp: 'a' };
+
+    events.publishTo('session-1', playerId => (playerId === 2 ? event : null));
+
+    expect(ann).not.toHaveBeenCalled();
+    expect(bob).toHaveBeenCalledWith(event);
+  });
+
+  it('should stop delivering to a player who unsubscribed', () => {
+    const events = new GameEventService();
+    const listener = vi.fn();
+    const unsubscribe = events.subscribe('session-1', 1, listener);
+
+    unsubscribe();
+    events.publish({ type: 'turnAdvanced', sessionId: 'session-1', turn: 2, currentPlayerId: 1, timestamp: 'a' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(events.getSubscriberCount('session-1')).toBe(0);
+  });
+});
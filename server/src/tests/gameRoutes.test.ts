@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startTestServer, type TestServer } from './helpers/api';
+
+describe('Game routes', () => {
+  let api: TestServer;
+
+  beforeAll(async () => {
+    api = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const createGame = (map: Record<string, unknown>) =>
+    api.request('POST', '/api/games', { name: 'Test', playerName: 'Ann', civilizationId: 'romans', ...map });
+
+  it('should generate and store the map size and seed it was asked for', async () => {
+    const { status, body } = await createGame({ mapWidth: 12, mapHeight: 10, mapSeed: 42 });
+
+    expect(status).toBe(200);
+    expect(body.map).toMatchObject({ width: 12, height: 10, seed: 42 });
+    expect((await api.request('GET', `/api/games/${body.sessionId}/map`)).body).toMatchObject({ width: 12, height: 10 });
+  });
+
+  it.each([
+    ['a size that is too large', { mapWidth: 100000 }, 'Map width and height must be whole numbers from 10 to 128'],
+    ['a size of 0', { mapHeight: 0 }, 'Map width and height must be whole numbers from 10 to 128'],
+    ['a size that is not a number', { mapWidth: '20' }, 'Map width and height must be whole numbers from 10 to 128'],
+    ['a fractional size', { mapWidth: 20.5 }, 'Map width and height must be whole numbers from 10 to 128'],
+    ['a negative seed', { mapSeed: -1 }, 'Map seed must be a whole number from 0 to 4294967295'],
+    ['a seed that is not a number', { mapSeed: 'abc' }, 'Map seed must be a whole number from 0 to 4294967295'],
+  ])('should reject %s', async (_case, map, error) => {
+    expect(await createGame(map)).toEqual({ status: 400, body: { error } });
+  });
+});
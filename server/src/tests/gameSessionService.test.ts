@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryGameSessionRepository } from '../repositories/InMemoryGameSessionRepository';
+import { GameSessionService } from '../services/GameSessionService';
+import { gameStateService } from '../services/GameStateService';
+
+describe('GameSessionService', () => {
+  let service: GameSessionService;
+  let sessionId: string;
+  let playerId: number;
+
+  beforeEach(async () => {
+    service = new GameSessionService(new InMemoryGameSessionRepository());
+    ({ sessionId, playerId } = await service.createGame('Test', 'Ann', 'romans', 20, 20, 1));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const failNextSave = () => vi.spyOn(gameStateService, 'save').mockRejectedValueOnce(new Error('Disk full'));
+
+  it('should leave the game as it was when saving a joining player fails', async () => {
+    failNextSave();
+
+    await expect(service.joinGame(sessionId, 'Bob', 'greeks')).rejects.toThrow('Disk full');
+
+    const game = await service.getGame(sessionId);
+    expect(game!.players.map(p => p.name)).toEqual(['Ann']);
+    await gameStateService.load(sessionId);
+    expect(gameStateService.getEntities(sessionId).map(e => e.ownerId)).toEqual([playerId]);
+  });
+
+  it('should leave the game as it was when saving an action fails', async () => {
+    const [settler] = gameStateService.getPlayerEntities(sessionId, playerId);
+    failNextSave();
+
+    await expect(
+      service.submitAction(sessionId, playerId, { type: 'FoundCity', payload: { entity: settler.id } }),
+    ).rejects.toThrow('Disk full');
+    failNextSave();
+    await expect(service.submitAction(sessionId, playerId, { type: 'EndTurn' })).rejects.toThrow('Disk full');
+
+    const game = await service.getGame(sessionId);
+    expect(game!.currentTurn).toBe(1);
+    expect(game!.hasPlayerEndedTurn(playerId)).toBe(false);
+    expect(await service.getLatestSeq(sessionId)).toBe(0);
+    await gameStateService.load(sessionId);
+    expect(gameStateService.getEntity(sessionId, settler.id)!.type).toBe('unit');
+  });
+});
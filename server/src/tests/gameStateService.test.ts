@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Intent } from '@shared/types';
+import { MapData } from '@engine/map/MapData';
+import { createActionRng } from '@engine/math/rng';
+import { GameSessionModel } from '../models/GameSession';
+import { InMemoryGameStateRepository } from '../repositories/InMemoryGameStateRepository';
+import { gameDataService } from '../services/GameDataService';
+import { GameStateService, type ServerEntity } from '../services/GameStateService';
+import { mapService } from '../services/MapService';
+import { RuleViolationError } from '../services/RuleViolationError';
+
+describe('GameStateService', () => {
+  const sessionId = 'session-1';
+
+  let service: GameStateService;
+  let attacker: number;
+  let target: number;
+
+  beforeEach(() => {
+    service = new GameStateService(new InMemoryGameStateRepository());
+    const session = new GameSessionModel(sessionId, 'Test', 1, 'Ann', 'romans');
+    session.addPlayer(2, 'Bob', 'greeks');
+    service.initializeGameState(session, []);
+
+    // One attack's worth of movement left
+    attacker = service.createEntity(sessionId, 1, 'romans', 'unit', { tx: 2, ty: 2 }, {
+      ...service.createUnitData('scout', 'romans'),
+      mp: 1,
+    });
+    target = service.createEntity(sessionId, 2, 'greeks', 'unit', { tx: 3, ty: 2 }, service.createUnitData('scout', 'greeks')!);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const attack = (seq: number) =>
+    service.applyAction(sessionId, 1, { type: 'Attack', payload: { attacker, target } }, createActionRng(7, seq));
+
+  it('should reject a second attack once the unit has no movement left', () => {
+    expect(attack(1)).toMatchObject({ type: 'Attack', result: { defenderDestroyed: false } });
+    const health = service.getEntity(sessionId, target)!.data.health;
+
+    expect(() => attack(2)).toThrow(RuleViolationError);
+    expect(() => attack(2)).toThrow('has no movement left');
+    expect(service.getEntity(sessionId, target)!.data.health).toBe(health);
+  });
+
+  it('should reject an attack by a unit bought this turn', () => {
+    service.getEntity(sessionId, attacker)!.data.newlyPurchased = true;
+    const health = service.getEntity(sessionId, target)!.data.health;
+
+    expect(() => attack(1)).toThrow('was just purchased');
+    expect(service.getEntity(sessionId, target)!.data.health).toBe(health);
+  });
+
+  describe('FoundCity', () => {
+    let settler: number;
+
+    beforeEach(() => {
+      const data = service.createUnitData('settler', 'romans')!;
+      settler = service.createEntity(sessionId, 1, 'romans', 'unit', { tx: 5, ty: 5 }, data);
+    });
+
+    const foundCity = (entity: number, playerId = 1) =>
+      service.applyAction(sessionId, playerId, { type: 'FoundCity', payload: { entity } }, createActionRng(7, 1));
+
+    it('should turn a settler into the player\'s capital', () => {
+      foundCity(settler);
+
+      expect(service.getEntity(sessionId, settler)).toMatchObject({
+        type: 'city',
+        data: { population: 1, capitalOf: 1 },
+      });
+    });
+
+    it('should reject a unit that is not a settler', () => {
+      expect(() => foundCity(attacker)).toThrow(RuleViolationError);
+      expect(() => foundCity(attacker)).toThrow('is not a settler');
+      expect(service.getEntity(sessionId, attacker)!.type).toBe('unit');
+    });
+
+    it('should reject another player\'s settler', () => {
+      expect(() => foundCity(settler, 2)).toThrow('is not yours');
+      expect(service.getEntity(sessionId, settler)!.type).toBe('unit');
+    });
+
+    it('should reject a settler bought this turn', () => {
+      service.getEntity(sessionId, settler)!.data.newlyPurchased = true;
+
+      expect(() => foundCity(settler)).toThrow('was just purchased');
+      expect(service.getEntity(sessionId, settler)!.type).toBe('unit');
+    });
+
+    it('should reject a tile that already has a city', () => {
+      service.createEntity(sessionId, 2, 'greeks', 'city', { tx: 5, ty: 5 }, { population: 1 });
+
+      expect(() => foundCity(settler)).toThrow('there is already a city at (5, 5)');
+      expect(service.getEntity(sessionId, settler)!.type).toBe('unit');
+    });
+  });
+
+  it('should return where a move stopped short of an occupied tile', () => {
+    // A single row of plains, so the path is the row itself
+    vi.spyOn(mapService, 'getMap').mockReturnValue(
+      new MapData(4, 1, { tx: 0, ty: 0 }, new Array(4).fill('plains'), gameDataService.getTerrainRegistry()),
+    );
+    const mover = service.createEntity(sessionId, 1, 'romans', 'unit', { tx: 0, ty: 0 }, {
+      ...service.createUnitData('scout', 'romans'),
+      mp: 2,
+    });
+    service.createEntity(sessionId, 1, 'romans', 'unit', { tx: 2, ty: 0 }, service.createUnitData('scout', 'romans')!);
+
+    const applied = service.applyAction(
+      sessionId,
+      1,
+      { type: 'MoveTo', payload: { entity: mover, target: { tx: 3, ty: 0 } } },
+      createActionRng(7, 1),
+    );
+
+    expect(applied).toMatchObject({
+      type: 'MoveTo',
+      result: { position: { tx: 1, ty: 0 }, mp: 1, path: [{ tx: 2, ty: 0 }, { tx: 3, ty: 0 }] },
+    });
+    expect(service.getEntity(sessionId, mover)!.position).toEqual({ tx: 1, ty: 0 });
+  });
+});
+
+describe('GameStateService production', () => {
+  const sessionId = 'session-1';
+  const annCity = 1; // At (2, 2), with forest at (3, 2) in its borders
+  const annOtherCity = 2; // At (6, 2), no forest in its borders
+
+  let service: GameStateService;
+
+  beforeEach(async () => {
+    // Plains with a single forest tile
+    const tiles = new Array(8 * 8).fill('plains');
+    tiles[2 * 8 + 3] = 'forest';
+    vi.spyOn(mapService, 'getMap').mockReturnValue(
+      new MapData(8, 8, { tx: 0, ty: 0 }, tiles, gameDataService.getTerrainRegistry()),
+    );
+
+    const city = (id: number, ownerId: number, tx: number, ty: number): ServerEntity => ({
+      id,
+      ownerId,
+      civId: ownerId === 1 ? 'romans' : 'greeks',
+      type: 'city',
+      position: { tx, ty },
+      data: { population: 1, food: 0, damage: 0, capitalOf: null, production: 0, gold: 0 },
+    });
+    const repository = new InMemoryGameStateRepository();
+    await repository.save(sessionId, {
+      entities: [city(annCity, 1, 2, 2), city(annOtherCity, 1, 6, 2), city(3, 2, 6, 6)],
+      nextEntityId: 4,
+      visibility: [],
+      stockpiles: [{ playerId: 1, production: 60 }],
+      research: [{ playerId: 1, research: { researched: ['agriculture', 'carpentry'], current: null, progress: 0 } }],
+    });
+    service = new GameStateService(repository);
+    await service.load(sessionId);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const apply = (intent: Intent) => service.applyAction(sessionId, 1, intent, createActionRng(7, 1));
+  const produceUnit = (unitType: string) => apply({ type: 'ProduceUnit', payload: { cityEntity: annCity, unitType } });
+  const produceBuilding = (buildingType: string, cityEntity = annCity) =>
+    apply({ type: 'ProduceBuilding', payload: { cityEntity, buildingType } });
+  const buildBuilding = (buildingType: string, tx: number, ty: number) =>
+    apply({ type: 'BuildBuilding', payload: { cityEntity: annCity, buildingType, tx, ty } });
+  const entitiesOfType = (type: ServerEntity['type']) => service.getEntities(sessionId).filter(e => e.type === type);
+
+  it('should buy a unit that appears at the city and acts next turn', () => {
+    produceUnit('scout');
+
+    expect(entitiesOfType('unit')).toEqual([
+      expect.objectContaining({
+        ownerId: 1,
+        position: { tx: 2, ty: 2 },
+        data: expect.objectContaining({ newlyPurchased: true }),
+      }),
+    ]);
+    expect(service.getProduction(sessionId, 1)).toBe(30);
+  });
+
+  it('should reject a unit the stockpile cannot pay for', () => {
+    produceUnit('settler');
+
+    expect(() => produceUnit('scout')).toThrow(RuleViolationError);
+    expect(() => produceUnit('scout')).toThrow('ProduceUnit: not enough production (need 30, have 10)');
+    expect(entitiesOfType('unit')).toHaveLength(1);
+    expect(service.getProduction(sessionId, 1)).toBe(10);
+  });
+
+  it('should reject a building the stockpile cannot pay for', () => {
+    produceUnit('settler');
+
+    expect(() => produceBuilding('farm')).toThrow('ProduceBuilding: not enough production (need 30, have 10)');
+    expect(() => buildBuilding('farm', 1, 1)).toThrow('BuildBuilding: not enough production (need 30, have 10)');
+    expect(entitiesOfType('building')).toEqual([]);
+    expect(service.getProduction(sessionId, 1)).toBe(10);
+  });
+
+  it("should put a produced building on a tile in the city's borders with the terrain it needs", () => {
+    produceBuilding('lumberMill');
+
+    expect(entitiesOfType('building')).toEqual([
+      expect.objectContaining({ position: { tx: 3, ty: 2 }, data: { buildingType: 'lumberMill' } }),
+    ]);
+  });
+
+  it("should reject a produced building no tile in the city's borders has the terrain for", () => {
+    expect(() => produceBuilding('lumberMill', annOtherCity)).toThrow(
+      "ProduceBuilding: no tile in the city's borders can hold lumberMill",
+    );
+    expect(entitiesOfType('building')).toEqual([]);
+    expect(service.getProduction(sessionId, 1)).toBe(60);
+  });
+
+  it('should build on a chosen tile with the terrain the building needs', () => {
+    expect(() => buildBuilding('lumberMill', 1, 1)).toThrow(
+      'BuildBuilding: cannot build lumberMill at (1, 1): Building requires terrain: forest',
+    );
+
+    buildBuilding('lumberMill', 3, 2);
+
+    expect(entitiesOfType('building')).toEqual([expect.objectContaining({ position: { tx: 3, ty: 2 } })]);
+    expect(service.getProduction(sessionId, 1)).toBe(10);
+  });
+
+  it.each([
+    ['outside the city borders', 4, 4, 'Tile is not within city borders'],
+    ["in another player's city borders", 6, 5, 'Tile is not within city borders'],
+    ['left of the map', -1, 2, 'Tile is outside the map'],
+    ['below the map', 2, 8, 'Tile is outside the map'],
+  ])('should reject building on a tile %s', (_case, tx, ty, reason) => {
+    expect(() => buildBuilding('farm', tx, ty)).toThrow(
+      `BuildBuilding: cannot build farm at (${tx}, ${ty}): ${reason}`,
+    );
+    expect(entitiesOfType('building')).toEqual([]);
+    expect(service.getProduction(sessionId, 1)).toBe(60);
+  });
+});
@@ -0,0 +1,36 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createApp } from '../../app';
+
+/**
+ * The API on a free local port, for tests that go through the routes
+ */
+export interface TestServer {
+  server: Server;
+  url: string; // e.g. http://127.0.0.1:53124
+  request: (method: string, path: string, body?: unknown, token?: string) => Promise<{ status: number; body: any }>;
+  close: () => Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const server = createApp().listen(0, '127.0.0.1');
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    server,
+    url,
+    request: async (method, path, body, token) => {
+      const response = await fetch(url + path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() };
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GameSessionModel } from '../models/GameSession';
+import type { GameStateSnapshot } from '../repositories/IGameStateRepository';
+import { InMemoryGameSessionRepository } from '../repositories/InMemoryGameSessionRepository';
+import { InMemoryGameStateRepository } from '../repositories/InMemoryGameStateRepository';
+import { SqliteGameSessionRepository } from '../repositories/SqliteGameSessionRepository';
+import { SqliteGameStateRepository } from '../repositories/SqliteGameStateRepository';
+import { createStorageFromEnv } from '../repositories/createStorage';
+
+describe('SQLite storage', () => {
+  let sessions: SqliteGameSessionRepository;
+  let states: SqliteGameStateRepository;
+  let game: GameSessionModel;
+
+  const state: GameStateSnapshot = {
+    entities: [
+      { id: 1, ownerId: 1, civId: 'romans', type: 'unit', position: { tx: 2, ty: 3 }, data: { unitType: 'settler', mp: 2 } },
+    ],
+    nextEntityId: 2,
+    visibility: [{ playerId: 1, revealed: [0, 1, 5], knownCities: [] }],
+    stockpiles: [{ playerId: 1, production: 12 }],
+    research: [{ playerId: 1, research: { researched: ['agriculture'], current: null, progress: 0 } }],
+    versions: { version: 3, entities: [{ id: 1, version: 3 }], views: [] },
+  };
+
+  beforeEach(async () => {
+    sessions = new SqliteGameSessionRepository(':memory:');
+    states = new SqliteGameStateRepository(sessions.database);
+
+    game = new GameSessionModel('session-1', 'Test', 1, 'Ann', 'romans', 20, 20, 7);
+    game.addPlayer(2, 'Bob', 'greeks');
+    game.declareWar(1, 2);
+    await sessions.create(game);
+  });
+
+  afterEach(() => {
+    sessions.close();
+  });
+
+  it('should read back a saved session with its players, wars and ended turns', async () => {
+    game.playerEndTurn(1);
+    await sessions.update(game);
+
+    const loaded = await sessions.findById('session-1');
+
+    expect(loaded!.toJSON()).toMatchObject(game.toJSON());
+    expect({ mapWidth: loaded!.mapWidth, mapHeight: loaded!.mapHeight, mapSeed: loaded!.mapSeed }).toEqual({
+      mapWidth: 20,
+      mapHeight: 20,
+      mapSeed: 7,
+    });
+    expect(loaded!.getServerState()).toEqual(game.getServerState());
+    expect(await sessions.findAll()).toHaveLength(1);
+    expect(await sessions.findById('missing')).toBeNull();
+  });
+
+  it('should number recorded actions per session', async () => {
+    expect(await sessions.recordAction('session-1', 1, { type: 'EndTurn' }, 'a', [1])).toBe(1);
+    expect(await sessions.recordAction('session-1', 2, { type: 'EndTurn' }, 'b')).toBe(2);
+
+    expect(await sessions.getLatestSeq('session-1')).toBe(2);
+    expect(await sessions.getActionsAfter('session-1', 1)).toEqual([
+      { seq: 2, playerId: 2, intent: { type: 'EndTurn' }, timestamp: 'b', visibleTo: undefined },
+    ]);
+  });
+
+  it('should read back saved entities, visibility, stockpiles, research and versions', async () => {
+    expect(await states.load('session-1')).toBeNull();
+
+    await states.save('session-1', state);
+
+    expect(await states.load('session-1')).toEqual(state);
+  });
+
+  it('should drop the state of a deleted session', async () => {
+    await states.save('session-1', state);
+
+    await sessions.delete('session-1');
+
+    expect(await sessions.findById('session-1')).toBeNull();
+    expect(await states.load('session-1')).toBeNull();
+  });
+
+  it('should keep nothing written in a transaction that throws', async () => {
+    await expect(
+      sessions.transaction(async () => {
+        const changed = (await sessions.findById('session-1'))!;
+        changed.playerEndTurn(1);
+        await sessions.update(changed);
+        await sessions.recordAction('session-1', 1, { type: 'EndTurn' }, 'a');
+        await states.save('session-1', state);
+        throw new Error('Disk full');
+      }),
+    ).rejects.toThrow('Disk full');
+
+    expect((await sessions.findById('session-1'))!.hasPlayerEndedTurn(1)).toBe(false);
+    expect(await sessions.getLatestSeq('session-1')).toBe(0);
+    expect(await states.load('session-1')).toBeNull();
+  });
+
+  it('should keep what a transaction wrote once it completes', async () => {
+    await sessions.transaction(async () => {
+      await sessions.recordAction('session-1', 1, { type: 'EndTurn' }, 'a');
+      await states.save('session-1', state);
+    });
+
+    expect(await sessions.getLatestSeq('session-1')).toBe(1);
+    expect(await states.load('session-1')).toEqual(state);
+  });
+});
+
+describe('createStorageFromEnv', () => {
+  it('should keep games in memory by default', () => {
+    const storage = createStorageFromEnv({});
+
+    expect(storage.sessions).toBeInstanceOf(InMemoryGameSessionRepository);
+    expect(storage.states).toBeInstanceOf(InMemoryGameStateRepository);
+  });
+
+  it('should store sessions and entities in the same SQLite database', async () => {
+    const storage = createStorageFromEnv({ GAME_REPOSITORY: 'SQLite', SQLITE_DB_PATH: ':memory:' });
+    const sessions = storage.sessions as SqliteGameSessionRepository;
+
+    try {
+      expect(sessions).toBeInstanceOf(SqliteGameSessionRepository);
+      expect(storage.states).toBeInstanceOf(SqliteGameStateRepository);
+
+      // The entities table references the sessions table, so it only accepts entities of a stored session
+      await sessions.create(new GameSessionModel('session-1', 'Test', 1, 'Ann', 'romans'));
+      await storage.states.save('session-1', { entities: [], nextEntityId: 1, visibility: [], stockpiles: [] });
+      expect(await storage.states.load('session-1')).toMatchObject({ nextEntityId: 1 });
+    } finally {
+      sessions.close();
+    }
+  });
+
+  it('should reject an unknown backend', () => {
+    expect(() => createStorageFromEnv({ GAME_REPOSITORY: 'postgres' })).toThrow('Unknown GAME_REPOSITORY "postgres"');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { GameEvent } from '@shared/types';
+import { MapData } from '@engine/map/MapData';
+import { InMemoryGameSessionRepository } from '../repositories/InMemoryGameSessionRepository';
+import { gameDataService } from '../services/GameDataService';
+import { gameEventService } from '../services/GameEventService';
+import { GameSessionService } from '../services/GameSessionService';
+import { gameStateService, type ServerEntity } from '../services/GameStateService';
+import { mapService } from '../services/MapService';
+import { VisibilityTracker } from '../services/VisibilityTracker';
+
+const createPlainsMap = (size: number) =>
+  new MapData(size, size, { tx: 0, ty: 0 }, new Array(size * size).fill('plains'), gameDataService.getTerrainRegistry());
+
+describe('VisibilityTracker', () => {
+  const map = createPlainsMap(20);
+  const unit = (id: number, ownerId: number, tx: number, ty: number): ServerEntity => ({
+    id,
+    ownerId,
+    civId: 'romans',
+    type: 'unit',
+    position: { tx, ty },
+    data: { sight: 2 },
+  });
+  const city = (id: number, ownerId: number, tx: number, ty: number, population = 1): ServerEntity => ({
+    id,
+    ownerId,
+    civId: 'greeks',
+    type: 'city',
+    position: { tx, ty },
+    data: { population },
+  });
+
+  let tracker: VisibilityTracker;
+
+  beforeEach(() => {
+    tracker = new VisibilityTracker(map);
+  });
+
+  it("should leave out other players' entities outside the player's sight", () => {
+    const entities = [unit(1, 1, 2, 2), unit(2, 2, 3, 2), unit(3, 2, 15, 15), city(4, 2, 2, 4)];
+
+    tracker.update(entities, [1, 2]);
+
+    expect(tracker.filterEntities(1, entities).map(e => e.id)).toEqual([1, 2, 4]);
+    expect(tracker.filterEntities(2, entities).map(e => e.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should remember an enemy city as it was last seen', () => {
+    const scout = unit(1, 1, 2, 2);
+    const enemyCity = city(2, 2, 3, 3);
+    tracker.update([scout, enemyCity], [1]);
+
+    scout.position = { tx: 15, ty: 15 };
+    enemyCity.data.population = 4;
+    tracker.update([scout, enemyCity], [1]);
+
+    expect(tracker.filterEntities(1, [scout, enemyCity])).toEqual([scout]);
+    expect(tracker.getKnownCities(1)).toEqual([city(2, 2, 3, 3, 1)]);
+  });
+
+  it('should forget a last-known city the player sees is gone', () => {
+    const scout = unit(1, 1, 2, 2);
+    tracker.update([scout, city(2, 2, 3, 3)], [1]);
+    scout.position = { tx: 15, ty: 15 };
+    tracker.update([scout, city(2, 2, 3, 3)], [1]);
+
+    scout.position = { tx: 2, ty: 2 };
+    tracker.update([scout], [1]);
+
+    expect(tracker.getKnownCities(1)).toEqual([]);
+    expect(tracker.toSnapshot()[0].knownCities).toEqual([]);
+  });
+
+  it('should restore revealed tiles and last-known cities from its snapshot', () => {
+    const scout = unit(1, 1, 2, 2);
+    tracker.update([scout, city(2, 2, 3, 3), unit(3, 2, 10, 10)], [1, 2]);
+    scout.position = { tx: 15, ty: 15 };
+    tracker.update([scout, city(2, 2, 3, 3), unit(3, 2, 10, 10)], [1, 2]);
+
+    const restored = new VisibilityTracker(map, tracker.toSnapshot());
+
+    expect(restored.toSnapshot()).toEqual(tracker.toSnapshot());
+    expect(restored.getPlayerIds()).toEqual([1, 2]);
+    expect(restored.getKnownCities(1)).toEqual([city(2, 2, 3, 3)]);
+  });
+});
+
+describe('GameSessionService visibility', () => {
+  let service: GameSessionService;
+  let sessionId: string;
+  let annSettler: ServerEntity;
+  let bobCity: number;
+  let bobScout: number;
+
+  beforeEach(async () => {
+    vi.spyOn(mapService, 'getMap').mockReturnValue(createPlainsMap(30));
+    service = new GameSessionService(new InMemoryGameSessionRepository());
+    ({ sessionId } = await service.createGame('Test', 'Ann', 'romans', 30, 30, 1));
+    await service.joinGame(sessionId, 'Bob', 'greeks');
+
+    // Ann sees Bob's city next to her settler, but not his scout or settler across the map
+    await gameStateService.load(sessionId);
+    [annSettler] = gameStateService.getPlayerEntities(sessionId, 1);
+    annSettler.position = { tx: 2, ty: 2 };
+    gameStateService.getPlayerEntities(sessionId, 2)[0].position = { tx: 27, ty: 27 };
+    bobCity = gameStateService.createEntity(sessionId, 2, 'greeks', 'city', { tx: 3, ty: 2 }, { population: 1 });
+    bobScout = gameStateService.createEntity(
+      sessionId,
+      2,
+      'greeks',
+      'unit',
+      { tx: 20, ty: 20 },
+      gameStateService.createUnitData('scout', 'greeks')!,
+    );
+    gameStateService.updateVisibility(sessionId, [1, 2]);
+    await gameStateService.save(sessionId);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const entityIds = (entities: Array<{ id: number }> = []) => entities.map(e => e.id).sort((a, b) => a - b);
+
+  it('should send only the entities the player can see', async () => {
+    const { fullState } = await service.getStateUpdates(sessionId, 1);
+
+    expect(entityIds(fullState!.entities)).toEqual([annSettler.id, bobCity]);
+    expect(fullState!.knownCities).toEqual([]);
+  });
+
+  it('should keep enemy moves out of sight from the player', async () => {
+    const annEvents: GameEvent[] = [];
+    const unsubscribe = gameEventService.subscribe(sessionId, 1, event => annEvents.push(event));
+    const move = { type: 'MoveTo' as const, payload: { entity: bobScout, target: { tx: 21, ty: 20 } } };
+
+    try {
+      await service.submitAction(sessionId, 2, move);
+    } finally {
+      unsubscribe();
+    }
+
+    expect((await service.getStateUpdates(sessionId, 1, 0)).actions).toEqual([]);
+    expect((await service.getStateUpdates(sessionId, 2, 0)).actions).toEqual([
+      expect.objectContaining({ playerId: 2, intent: expect.objectContaining({ type: 'MoveTo' }) }),
+    ]);
+    expect(annEvents.map(e => e.type)).not.toContain('action');
+    const entitiesChanged = annEvents.find(e => e.type === 'entitiesChanged');
+    expect(entitiesChanged).toMatchObject({ delta: { created: [], updated: [], deleted: [] } });
+  });
+
+  it('should keep the last-known state of an enemy city out of sight', async () => {
+    annSettler.position = { tx: 15, ty: 15 };
+    gameStateService.getEntity(sessionId, bobCity)!.data.population = 3;
+    gameStateService.updateVisibility(sessionId, [1, 2]);
+    await gameStateService.save(sessionId);
+
+    const { fullState } = await service.getStateUpdates(sessionId, 1);
+
+    expect(entityIds(fullState!.entities)).toEqual([annSettler.id]);
+    expect(fullState!.knownCities).toEqual([
+      expect.objectContaining({ id: bobCity, ownerId: 2, data: { population: 1 } }),
+    ]);
+  });
+});
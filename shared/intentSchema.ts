@@ -0,0 +1,181 @@
+import type { ActionErrorCode, Intent } from './types';
+
+/**
+ * Runtime schema for every Intent variant
+ * Used by the server (ActionValidator) on every submitted action and by the client
+ * (NetworkIntentQueue) before sending one, so both reject malformed intents the same way
+ */
+
+/**
+ * What a payload field holds:
+ * - entity: an entity id (non-negative integer)
+ * - entityOrNull: an entity id or null
+ * - tile: { tx, ty } on the map
+ * - tileX / tileY: a column / row on the map
+ * - unitType / buildingType / techId: an id from units.json / buildings.json / techs.json
+ * - boolean: true or false
+ */
+export type IntentFieldKind =
+  | 'entity'
+  | 'entityOrNull'
+  | 'tile'
+  | 'tileX'
+  | 'tileY'
+  | 'unitType'
+  | 'buildingType'
+  | 'techId'
+  | 'boolean';
+
+type PayloadSchema<I> = I extends { payload: infer P } ? { [F in keyof P]-?: IntentFieldKind } : null;
+
+/**
+ * Payload fields of each intent type (null for intents without a payload)
+ * Typed so that adding an Intent variant or a payload field without a schema entry doesn't compile
+ */
+export const INTENT_SCHEMA: { [K in Intent['type']]: PayloadSchema<Extract<Intent, { type: K }>> } = {
+  SelectEntity: { entity: 'entityOrNull' },
+  MoveTo: { entity: 'entity', target: 'tile' },
+  EndTurn: null,
+  EnterMoveMode: null,
+  CancelMoveMode: null,
+  FoundCity: { entity: 'entity' },
+  ProduceUnit: { cityEntity: 'entity', unitType: 'unitType' },
+  ProduceBuilding: { cityEntity: 'entity', buildingType: 'buildingType' },
+  BuildBuilding: { cityEntity: 'entity', buildingType: 'buildingType', tx: 'tileX', ty: 'tileY' },
+  Attack: { attacker: 'entity', target: 'entity' },
+  SetResearch: { techId: 'techId' },
+  CaptureCity: { unit: 'entity', city: 'entity', raze: 'boolean' },
+};
+
+/**
+ * What the validator checks against, when known
+ * Coordinates are only bounds-checked with map dimensions, type ids only with the type lists
+ */
+export interface IntentSchemaContext {
+  mapWidth?: number;
+  mapHeight?: number;
+  unitTypes?: ReadonlySet<string>;
+  buildingTypes?: ReadonlySet<string>;
+  techTypes?: ReadonlySet<string>;
+}
+
+export type IntentValidationResult =
+  | { valid: true }
+  | { valid: false; code: ActionErrorCode; error: string };
+
+/**
+ * Check that a value is a well-formed Intent
+ */
+export function validateIntent(intent: unknown, context: IntentSchemaContext = {}): IntentValidationResult {
+  if (!isObject(intent) || typeof intent.type !== 'string') {
+    return invalid('INVALID_PAYLOAD', 'Invalid intent: missing type');
+  }
+  if (!Object.prototype.hasOwnProperty.call(INTENT_SCHEMA, intent.type)) {
+    return invalid('UNKNOWN_INTENT_TYPE', `Unknown intent type: ${intent.type}`);
+  }
+
+  const schema = INTENT_SCHEMA[intent.type as Intent['type']] as Record<string, IntentFieldKind> | null;
+  if (!schema) {
+    return { valid: true };
+  }
+  if (!isObject(intent.payload)) {
+    return invalid('INVALID_PAYLOAD', `${intent.type} intent: missing payload`);
+  }
+
+  for (const [field, kind] of Object.entries(schema)) {
+    const result = validateField(intent.payload[field], kind, context);
+    if (!result.valid) {
+      return invalid(result.code, `${intent.type} intent: ${field} ${result.error}`);
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Whether a rejection means the request itself was malformed (as opposed to breaking a game rule)
+ */
+export function isMalformedIntentError(code: ActionErrorCode | undefined): boolean {
+  return code !== undefined && code !== 'RULE_VIOLATION';
+}
+
+/**
+ * Entity ids a well-formed intent refers to
+ */
+export function getIntentEntityIds(intent: Intent): number[] {
+  const schema = INTENT_SCHEMA[intent.type] as Record<string, IntentFieldKind> | null;
+  if (!schema || !('payload' in intent)) {
+    return [];
+  }
+  const payload = intent.payload as Record<string, unknown>;
+  return Object.entries(schema)
+    .filter(([, kind]) => kind === 'entity' || kind === 'entityOrNull')
+    .map(([field]) => payload[field])
+    .filter((id): id is number => typeof id === 'number');
+}
+
+function validateField(value: unknown, kind: IntentFieldKind, context: IntentSchemaContext): IntentValidationResult {
+  switch (kind) {
+    case 'entity':
+      return isEntityId(value) ? { valid: true } : invalid('INVALID_PAYLOAD', 'must be an entity id');
+    case 'entityOrNull':
+      return value === null || isEntityId(value)
+        ? { valid: true }
+        : invalid('INVALID_PAYLOAD', 'must be an entity id or null');
+    case 'tile': {
+      if (!isObject(value)) {
+        return invalid('INVALID_PAYLOAD', 'must be a tile ({ tx, ty })');
+      }
+      const x = validateField(value.tx, 'tileX', context);
+      return x.valid ? validateField(value.ty, 'tileY', context) : x;
+    }
+    case 'tileX':
+    case 'tileY': {
+      if (typeof value !== 'number') {
+        return invalid('INVALID_PAYLOAD', 'must be a number');
+      }
+      if (!Number.isInteger(value)) {
+        return invalid('INVALID_COORDINATES', `must be an integer (got ${value})`);
+      }
+      const size = kind === 'tileX' ? context.mapWidth : context.mapHeight;
+      if (value < 0 || (size !== undefined && value >= size)) {
+        return invalid('OUT_OF_MAP', `${value} is outside the map`);
+      }
+      return { valid: true };
+    }
+    case 'unitType':
+      if (typeof value !== 'string' || value === '') {
+        return invalid('INVALID_PAYLOAD', 'must be a unit type');
+      }
+      return context.unitTypes && !context.unitTypes.has(value)
+        ? invalid('UNKNOWN_UNIT_TYPE', `"${value}" is not a unit type`)
+        : { valid: true };
+    case 'buildingType':
+      if (typeof value !== 'string' || value === '') {
+        return invalid('INVALID_PAYLOAD', 'must be a building type');
+      }
+      return context.buildingTypes && !context.buildingTypes.has(value)
+        ? invalid('UNKNOWN_BUILDING_TYPE', `"${value}" is not a building type`)
+        : { valid: true };
+    case 'techId':
+      if (typeof value !== 'string' || value === '') {
+        return invalid('INVALID_PAYLOAD', 'must be a tech');
+      }
+      return context.techTypes && !context.techTypes.has(value)
+        ? invalid('UNKNOWN_TECH', `"${value}" is not a tech`)
+        : { valid: true };
+    case 'boolean':
+      return typeof value === 'boolean' ? { valid: true } : invalid('INVALID_PAYLOAD', 'must be true or false');
+  }
+}
+
+function invalid(code: ActionErrorCode, error: string): IntentValidationResult {
+  return { valid: false, code, error };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isEntityId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
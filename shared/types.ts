@@ -21,9 +21,19 @@ export interface SelectEntityIntent {
   payload: SelectEntityPayload;
 }
 
+/**
+ * Where a move left the unit (see GameStateService.moveUnit on the server)
+ */
+export interface MoveResult {
+  position: { tx: number; ty: number };
+  mp: number; // Movement left
+  path: Array<{ tx: number; ty: number }>; // The rest of the path, continued on later turns
+}
+
 export interface MoveToIntent {
   type: 'MoveTo';
   payload: MoveToPayload;
+  result?: MoveResult; // Set by the server once it applied the move - clients show it rather than recomputing it
 }
 
 export interface EndTurnIntent {
@@ -58,13 +68,29 @@ export interface BuildBuildingIntent {
   payload: { cityEntity: number; buildingType: string; tx: number; ty: number };
 }
 
+/**
+ * The outcome of an attack (see resolveCombat in src/engine/gameplay/combat.ts)
+ */
+export interface CombatResult {
+  damage: number;
+  defenderHealth: number; // The defender's health after the attack
+  defenderDestroyed: boolean;
+}
+
 export interface AttackIntent {
   type: 'Attack';
   payload: { attacker: number; target: number };
+  result?: CombatResult; // Set by the server once it resolved the attack - clients show it rather than rolling their own
+}
+
+export interface SetResearchIntent {
+  type: 'SetResearch';
+  payload: { techId: string };
 }
 
-export interface TurnBeganIntent {
-  type: 'TurnBegan';
+export interface CaptureCityIntent {
+  type: 'CaptureCity';
+  payload: { unit: number; city: number; raze: boolean }; // Raze destroys the city instead of taking it
 }
 
 // Union type for all intents
@@ -79,7 +105,40 @@ export type Intent =
   | ProduceBuildingIntent
   | BuildBuildingIntent
   | AttackIntent
-  | TurnBeganIntent;
+  | SetResearchIntent
+  | CaptureCityIntent;
+
+/**
+ * Why an action was rejected
+ * Malformed requests (see shared/intentSchema.ts) never reach the game rules:
+ * - UNKNOWN_INTENT_TYPE: the intent type doesn't exist
+ * - INVALID_PAYLOAD: a field is missing or has the wrong type
+ * - INVALID_COORDINATES: a tile coordinate isn't an integer
+ * - OUT_OF_MAP: a tile is outside the map
+ * - UNKNOWN_UNIT_TYPE / UNKNOWN_BUILDING_TYPE / UNKNOWN_TECH: not in units.json / buildings.json / techs.json
+ * RULE_VIOLATION means the intent was well-formed but the game state doesn't allow it
+ * (not your turn, not your unit, not enough production, ...)
+ */
+export type ActionErrorCode =
+  | 'UNKNOWN_INTENT_TYPE'
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_COORDINATES'
+  | 'OUT_OF_MAP'
+  | 'UNKNOWN_UNIT_TYPE'
+  | 'UNKNOWN_BUILDING_TYPE'
+  | 'UNKNOWN_TECH'
+  | 'RULE_VIOLATION';
+
+/**
+ * Terrain layout of a game map (same shape as public/data/map.json)
+ */
+export interface GameMap {
+  width: number;
+  height: number;
+  start: { tx: number; ty: number };
+  tiles: string[]; // Terrain ids, indexed by ty * width + tx
+  seed?: number; // Seed the map was generated from
+}
 
 /**
  * Represents a game session/room
@@ -95,11 +154,14 @@ export interface GameSession {
   updatedAt: string;
   mapWidth?: number; // Map dimensions stored when game is created
   mapHeight?: number;
+  mapSeed?: number; // Seed the session's map is generated from
   // Extended info (optional, for detailed turn status)
   playersEndedTurn?: number[]; // Players who have ended their turn this round
   allPlayersEnded?: boolean; // Whether all players have ended their turn
   isSequentialMode?: boolean; // Whether turns are sequential (war) or simultaneous
   wars?: Array<{ player1Id: number; player2Id: number; declaredAt: string; isActive: boolean }>; // Active wars
+  victory?: VictorySettings; // How the game can be won, chosen when it was created
+  result?: GameResult; // How the game ended, once it's finished
 }
 
 /**
@@ -111,6 +173,7 @@ export interface PlayerInfo {
   civilizationId: string;
   isConnected: boolean;
   isHuman?: boolean; // Whether this is a human player (vs AI/bot)
+  isEliminated?: boolean; // Lost all cities and units - out of the game
 }
 
 /**
@@ -129,7 +192,7 @@ export interface War {
 export interface PlayerConnection {
   playerId: number;
   sessionId: string;
-  token?: string; // For authentication
+  token?: string; // Player token issued on create/join
 }
 
 /**
@@ -138,6 +201,8 @@ export interface PlayerConnection {
 export interface ActionResponse {
   success: boolean;
   error?: string;
+  code?: ActionErrorCode; // Why the action was rejected
+  combat?: CombatResult; // How an accepted Attack was resolved
   gameState?: SerializedGameState;
   turn?: number;
 }
@@ -160,6 +225,75 @@ export interface SerializedEntity {
   components: Record<string, unknown>;
 }
 
+/**
+ * An entity as the server sends it to clients
+ */
+export interface SyncedEntity {
+  id: number;
+  ownerId: number;
+  civId: string;
+  type: string;
+  position: { tx: number; ty: number };
+  data: Record<string, unknown>;
+}
+
+/**
+ * Entity changes a player saw between two state versions
+ */
+export interface EntityDelta {
+  fromVersion: number; // Applies to a client holding this version
+  created: SyncedEntity[]; // Came into the player's view (new, or back in sight)
+  updated: SyncedEntity[]; // Changed while in the player's view
+  deleted: number[]; // Destroyed, or units that went out of sight (last-known cities stay)
+  production?: number; // The player's civilization production stockpile
+  research?: ResearchState; // The player's research
+}
+
+/**
+ * Ways to win a game (see src/engine/gameplay/victory.ts):
+ * - domination: be the last player holding their own capital
+ * - score: have the best score once the turn limit has been played
+ * - elimination: be the last player with cities or units left
+ */
+export type VictoryCondition = 'domination' | 'score' | 'elimination';
+
+/**
+ * The victory conditions a game is played with
+ */
+export interface VictorySettings {
+  conditions: VictoryCondition[];
+  turnLimit: number; // Last turn of a game with score victory
+}
+
+/**
+ * A player's place in a game's final standings
+ */
+export interface PlayerStanding {
+  playerId: number;
+  civId: string;
+  score: number;
+  eliminated: boolean;
+}
+
+/**
+ * How a game ended
+ */
+export interface GameResult {
+  winnerId: number | null; // null if nobody won (a tie on score)
+  condition: VictoryCondition; // The condition that ended the game
+  turn: number; // Turn the game ended on
+  standings: PlayerStanding[]; // Best first
+}
+
+/**
+ * A civilization's research (see src/engine/gameplay/research.ts)
+ */
+export interface ResearchState {
+  current: string | null; // Tech being researched
+  progress: number; // Science put into the current tech
+  researched: string[]; // Techs researched, in the order they were finished
+}
+
 /**
  * Game state update received from server
  */
@@ -168,19 +302,68 @@ export interface GameStateUpdate {
   turn: number;
   currentPlayerId: number;
   actions: Intent[]; // Actions that occurred since last update
+  seq: number; // Sequence number of the latest action - pass as afterSeq to get the next ones
+  version: number; // Entity state version - pass as afterVersion to get the changes since
   fullState?: {
-    entities: Array<{
-      id: number;
-      ownerId: number;
-      civId: string;
-      type: string;
-      position: { tx: number; ty: number };
-      data: Record<string, unknown>;
-    }>;
-  }; // Full state if needed
+    entities: SyncedEntity[]; // Entities the player can see (their own and others in sight)
+    knownCities?: SyncedEntity[]; // Last-known state of enemy cities seen before but out of sight now
+    production?: number; // The player's civilization production stockpile
+    research?: ResearchState; // The player's research
+  }; // Full state on first load or when asked for
+  delta?: EntityDelta; // Otherwise the entity changes since afterVersion
+  timestamp: string;
+}
+
+/**
+ * An action another player submitted
+ */
+export interface ActionEvent {
+  type: 'action';
+  sessionId: string;
+  seq: number; // Per-session action sequence number
+  playerId: number;
+  intent: Intent;
+  timestamp: string;
+}
+
+/**
+ * All players ended their turn and a new turn began
+ */
+export interface TurnAdvancedEvent {
+  type: 'turnAdvanced';
+  sessionId: string;
+  turn: number;
+  currentPlayerId: number;
+  timestamp: string;
+}
+
+/**
+ * Entities changed on the server - carries what the player saw change, or the full state on connect
+ */
+export interface EntitiesChangedEvent {
+  type: 'entitiesChanged';
+  sessionId: string;
+  seq: number; // The state includes all actions up to this sequence number
+  version: number; // Entity state version after the change
+  fullState?: NonNullable<GameStateUpdate['fullState']>; // On connect
+  delta?: EntityDelta; // After each committed change
   timestamp: string;
 }
 
+/**
+ * Session info changed (players joined, turn status, wars)
+ */
+export interface SessionUpdatedEvent {
+  type: 'sessionUpdated';
+  sessionId: string;
+  session: GameSession;
+}
+
+/**
+ * Events pushed to players over the game's WebSocket (/api/games/:id/events)
+ */
+export type GameEvent = ActionEvent | TurnAdvancedEvent | EntitiesChangedEvent | SessionUpdatedEvent;
+
 /**
  * Request to create a new game
  */
@@ -190,6 +373,8 @@ export interface CreateGameRequest {
   civilizationId: string;
   mapWidth?: number;
   mapHeight?: number;
+  mapSeed?: number; // Optional - reuse a seed to reproduce a map
+  victory?: VictorySettings; // Defaults to every victory condition (see src/engine/gameplay/victory.ts)
 }
 
 /**
@@ -198,7 +383,9 @@ export interface CreateGameRequest {
 export interface CreateGameResponse {
   sessionId: string;
   playerId: number;
+  token: string; // Player token - send as `Authorization: Bearer <token>`
   game: GameSession;
+  map: GameMap;
 }
 
 /**
@@ -214,14 +401,16 @@ export interface JoinGameRequest {
  */
 export interface JoinGameResponse {
   playerId: number;
+  token: string; // Player token - send as `Authorization: Bearer <token>`
   game: GameSession;
+  map: GameMap;
 }
 
 /**
  * Request to submit an action
+ * The acting player comes from the request's player token
  */
 export interface SubmitActionRequest {
-  playerId: number;
   intent: Intent;
 }
 
@@ -43,6 +43,13 @@ export const COMBAT = {
   DAMAGE_NUMBER_OFFSET_Y: -40, // Vertical offset for damage numbers above units
   DAMAGE_NUMBER_COLOR: 0xff0000, // Red color for damage numbers
   DAMAGE_NUMBER_FONT_SIZE: '24px',
+  // Cities: health and defense grow with population and the buildings within their borders
+  CITY_BASE_HEALTH: 20,
+  CITY_HEALTH_PER_POPULATION: 5,
+  CITY_HEALTH_PER_BUILDING: 5,
+  CITY_BASE_DEFENSE: 3,
+  CITY_DEFENSE_PER_POPULATION: 1,
+  CITY_DEFENSE_PER_BUILDING: 1,
 };
 
 // --- Resource & Production Settings ---
@@ -52,11 +59,67 @@ export const RESOURCES = {
   // City base yields (yields from the city tile itself)
   CITY_BASE_PRODUCTION: 0, // Base production from city center
   CITY_BASE_GOLD: 0, // Base gold from city center
+  CITY_BASE_FOOD: 2, // Food from the city center when its civilization doesn't set cityYields.food
   // Production per citizen
   PRODUCTION_PER_CITIZEN: 2, // Production points each citizen contributes per turn
+  SCIENCE_PER_CITIZEN: 1, // Science each citizen contributes per turn
+  // Food and growth
+  FOOD_PER_CITIZEN: 2, // Food each citizen eats per turn
+  FOOD_GROWTH_BASE: 10, // Food a city of 1 needs stockpiled to grow
+  FOOD_GROWTH_STEP: 5, // Extra food needed for each citizen after the first
+};
+
+// --- Victory Settings ---
+export const VICTORY = {
+  DEFAULT_TURN_LIMIT: 200, // Last turn of a game with score victory, unless chosen otherwise
+  TURN_LIMIT_CHOICES: [100, 200, 300], // Turn limits offered when creating a game
+  // Score: what a player's civilization is worth
+  SCORE_PER_CITY: 10,
+  SCORE_PER_POPULATION: 3,
+  SCORE_PER_BUILDING: 2,
+  SCORE_PER_TECH: 5,
+};
+
+// --- Computer Players ---
+// How computer players (single player) weigh their options, by difficulty (see AIController)
+export const AI = {
+  DEFAULT_DIFFICULTY: 'normal' as const,
+  MIN_CITY_DISTANCE: 3, // Cities aren't founded closer than this to another city
+  SITE_RADIUS: 2, // Tiles around a city site that count towards its value
+  DEFENSE_RADIUS: 2, // Enemy units this close to one of its cities are always fought
+  DIFFICULTIES: {
+    easy: {
+      SITE_SEARCH_RADIUS: 2, // How far a settler looks for a better city site
+      FOOD_WEIGHT: 1, // What a site's food is worth against its production and gold
+      MAX_CITIES: 3, // Stops training settlers at this many cities
+      UNITS_PER_CITY: 1, // Military units it keeps for each city
+      ATTACK_STRENGTH_RATIO: 2, // Goes to war with a neighbour only when this many times stronger
+      FOCUS_WEAKEST: false, // Whether it picks off the most damaged target instead of the first one found
+    },
+    normal: {
+      SITE_SEARCH_RADIUS: 4,
+      FOOD_WEIGHT: 1.5,
+      MAX_CITIES: 5,
+      UNITS_PER_CITY: 1,
+      ATTACK_STRENGTH_RATIO: 1.5,
+      FOCUS_WEAKEST: true,
+    },
+    hard: {
+      SITE_SEARCH_RADIUS: 6,
+      FOOD_WEIGHT: 2,
+      MAX_CITIES: 8,
+      UNITS_PER_CITY: 2,
+      ATTACK_STRENGTH_RATIO: 1.2,
+      FOCUS_WEAKEST: true,
+    },
+  },
 };
 
 // --- Game Defaults ---
 export const DEFAULT_CIVILIZATION_ID = 'romans'; // Default civilization ID
 export const HUMAN_PLAYER_ID = 0; // Default player ID for the human player (used for initialization)
 // Note: Systems should use gameState.currentPlayerId instead of this constant for multiplayer support
+
+// --- Save Games ---
+export const AUTOSAVE_INTERVAL_TURNS = 5; // Single-player games are autosaved every N turns
+export const AUTOSAVE_SLOT = 'Autosave'; // Save slot autosaves overwrite
@@ -0,0 +1,543 @@
+import { World, Entity } from '@engine/ecs';
+import * as Components from '@engine/gameplay/components';
+import { GameDataProvider } from '@engine/gameplay/gameData';
+import { getAvailableTechs, getMissingTechReason } from '@engine/gameplay/research';
+import { areAdjacent, canCaptureCity, getCityHealth } from '@engine/gameplay/combat';
+import type { CivilizationProductionSystem, ResearchSystem } from '@engine/gameplay/systems';
+import { MapData } from '@engine/map/MapData';
+import { TilePoint } from '@engine/math/iso';
+import { chebyshevDistance, getNeighbors, manhattanDistance } from '@engine/math/grid';
+import { findPath } from '@engine/pathfinding/astar';
+import { Intent } from '@/state/IntentQueue';
+import { BuildingFactory } from '@/utils/buildingFactory';
+import { CityBorders } from '@/utils/cityBorders';
+import { CityCombat, CityCombatState } from '@/utils/cityCombat';
+import { AI } from '@config/game';
+
+/**
+ * How well a computer player plays (see AI.DIFFICULTIES)
+ */
+export type AIDifficulty = keyof typeof AI.DIFFICULTIES;
+
+/**
+ * Every difficulty, easiest first
+ */
+export const AI_DIFFICULTIES = Object.keys(AI.DIFFICULTIES) as AIDifficulty[];
+
+type AITuning = (typeof AI.DIFFICULTIES)[AIDifficulty];
+
+/**
+ * A computer player's view of the world for one decision
+ */
+interface AIContext {
+  playerId: number;
+  civId: string;
+  tuning: AITuning;
+  cities: Entity[]; // Its cities
+  units: Entity[]; // Its units
+}
+
+const SETTLER_TYPE = 'settler';
+const EXPLORE_SPREAD = 2; // Scouts don't explore within this many tiles of each other's targets
+const PATH_ATTEMPTS = 5; // Destinations tried, best first, before giving up on reaching one
+
+/**
+ * Decides what computer players do, one action at a time, as the same intents a human would push
+ * (AISystem queues them and the gameplay systems apply them with their usual checks).
+ *
+ * Each turn a computer player picks research, has each of its cities produce, each settler found
+ * (or head for) a city site and each military unit capture, attack, close in on the neighbour it's
+ * at war with, or explore - then ends its turn. Every decision looks at the world as it is after the
+ * previous one, so a unit can take a city another unit just beat.
+ */
+export class AIController {
+  private mapData: MapData;
+  private gameData: GameDataProvider;
+  private production: CivilizationProductionSystem;
+  private research: ResearchSystem;
+
+  // What the current player has done this turn
+  private turnKey: string | null = null;
+  private acted = new Set<Entity>();
+  private researchPicked = false;
+  private warTarget: number | null = null;
+  private claimedSites: TilePoint[] = []; // City sites settlers are heading for
+  private claimedTargets: TilePoint[] = []; // Tiles units are exploring
+
+  // Tiles each computer player has seen (tile indices), by player ID - not saved, a loaded game starts from what they see
+  private explored = new Map<number, Set<number>>();
+
+  constructor(
+    mapData: MapData,
+    gameData: GameDataProvider,
+    production: CivilizationProductionSystem,
+    research: ResearchSystem,
+  ) {
+    this.mapData = mapData;
+    this.gameData = gameData;
+    this.production = production;
+    this.research = research;
+  }
+
+  /**
+   * Decides a computer player's next action this turn.
+   * @returns Its intent - EndTurn once the player has nothing left to do
+   */
+  nextIntent(
+    world: World,
+    player: { playerId: number; civId: string },
+    turn: number,
+    difficulty: AIDifficulty,
+  ): Intent {
+    const context: AIContext = {
+      ...player,
+      tuning: AI.DIFFICULTIES[difficulty],
+      cities: this.getOwned(world, player.playerId, Components.City),
+      units: this.getOwned(world, player.playerId, Components.Unit),
+    };
+
+    const turnKey = `${turn}:${player.playerId}`;
+    if (this.turnKey !== turnKey) {
+      this.startTurn(world, context);
+      this.turnKey = turnKey;
+    }
+
+    return (
+      this.pickResearch(context) ??
+      this.nextCityIntent(world, context) ??
+      this.nextUnitIntent(world, context) ?? { type: 'EndTurn' }
+    );
+  }
+
+  /**
+   * Forgets last turn's plans, remembers what the player's units and cities can see and picks who to fight
+   */
+  private startTurn(world: World, context: AIContext): void {
+    this.acted.clear();
+    this.researchPicked = false;
+    this.claimedSites = [];
+    this.claimedTargets = [];
+
+    let explored = this.explored.get(context.playerId);
+    if (!explored) {
+      explored = new Set();
+      this.explored.set(context.playerId, explored);
+    }
+    for (const entity of [...context.units, ...context.cities]) {
+      const position = world.getComponent(entity, Components.TransformTile)!;
+      const sight = world.getComponent(entity, Components.Unit)?.sight
+        ?? world.getComponent(entity, Components.City)!.getSightRange();
+      for (const tile of this.getTilesAround(position, sight)) {
+        explored.add(this.getTileIndex(tile));
+      }
+    }
+
+    this.warTarget = this.findWarTarget(world, context);
+  }
+
+  // --- Research ---
+
+  /**
+   * Starts researching the cheapest tech available, once per turn if nothing is being researched
+   */
+  private pickResearch(context: AIContext): Intent | null {
+    if (this.researchPicked) return null;
+    this.researchPicked = true;
+
+    const research = this.research.getResearch(context.civId);
+    if (research.current) return null;
+
+    const cost = (techId: string) => this.gameData.getTechData(techId)?.cost ?? Infinity;
+    const [techId] = getAvailableTechs(this.gameData, research).sort((a, b) => cost(a) - cost(b));
+    return techId ? { type: 'SetResearch', payload: { techId } } : null;
+  }
+
+  // --- Cities ---
+
+  /**
+   * Has the next city that hasn't produced this turn buy something
+   */
+  private nextCityIntent(world: World, context: AIContext): Intent | null {
+    for (const city of context.cities) {
+      if (this.acted.has(city)) continue;
+      this.acted.add(city);
+
+      const intent = this.chooseProduction(world, context, city);
+      if (intent) return intent;
+    }
+    return null;
+  }
+
+  /**
+   * Military units until it has enough for its cities, then settlers until it has as many cities as it
+   * wants, then the building worth the most for its cost. Production is saved up for the unit it needs.
+   */
+  private chooseProduction(world: World, context: AIContext, city: Entity): Intent | null {
+    const budget = this.production.getProduction(context.civId);
+    const units = context.units.map(entity => ({
+      unit: world.getComponent(entity, Components.Unit)!,
+      type: world.getComponent(entity, Components.UnitType)?.type,
+    }));
+    const military = units.filter(({ unit }) => unit.canAttack).length;
+    const settlers = units.filter(({ type }) => type === SETTLER_TYPE).length;
+
+    let unitType: string | null = null;
+    if (military < context.cities.length * context.tuning.UNITS_PER_CITY) {
+      unitType = this.getBestMilitaryUnit(context.civId);
+    } else if (settlers === 0 && context.cities.length < context.tuning.MAX_CITIES && this.isUnlocked(context.civId, SETTLER_TYPE)) {
+      unitType = SETTLER_TYPE;
+    }
+    if (unitType) {
+      const cost = this.gameData.getUnitData(unitType)?.productionCost || 50; // ProduceUnitSystem's default
+      return cost <= budget ? { type: 'ProduceUnit', payload: { cityEntity: city, unitType } } : null;
+    }
+
+    const buildingType = this.getBestBuilding(world, context.civId, city, budget);
+    return buildingType ? { type: 'ProduceBuilding', payload: { cityEntity: city, buildingType } } : null;
+  }
+
+  /**
+   * The strongest unit that can attack the civilization can produce
+   */
+  private getBestMilitaryUnit(civId: string): string | null {
+    const strength = (unitType: string) => {
+      const data = this.gameData.getUnitData(unitType)!;
+      return data.attack + data.defense;
+    };
+    const unitTypes = this.gameData
+      .getUnitTypes()
+      .filter(unitType => this.gameData.getUnitData(unitType)!.canAttack && this.isUnlocked(civId, unitType));
+    return unitTypes.sort((a, b) => strength(b) - strength(a))[0] ?? null;
+  }
+
+  /**
+   * The affordable building with the most yields (and citizens) for its cost that has room in the city
+   */
+  private getBestBuilding(world: World, civId: string, city: Entity, budget: number): string | null {
+    const research = this.research.getResearch(civId);
+    const cityTiles = CityBorders.getCityTiles(world, this.mapData, city);
+
+    let best: { buildingType: string; value: number } | null = null;
+    for (const buildingType of this.gameData.getBuildingTypes()) {
+      const data = this.gameData.getBuildingData(buildingType)!;
+      const cost = data.productionCost || 50;
+      if (cost > budget || getMissingTechReason(this.gameData, research, data.requiredTech)) continue;
+
+      const hasRoom = cityTiles.some(tile =>
+        BuildingFactory.canBuildOnTile(world, this.mapData, buildingType, tile.tx, tile.ty, city, this.gameData).canBuild,
+      );
+      if (!hasRoom) continue;
+
+      const yields = Object.values(data.yields ?? {}).reduce((total, amount) => total + (amount ?? 0), 0);
+      const value = (yields + (data.population ?? 0)) / cost;
+      if (value > 0 && (!best || value > best.value)) {
+        best = { buildingType, value };
+      }
+    }
+    return best?.buildingType ?? null;
+  }
+
+  /**
+   * Whether the civilization has the tech a unit type needs
+   */
+  private isUnlocked(civId: string, unitType: string): boolean {
+    const data = this.gameData.getUnitData(unitType);
+    return !!data && !getMissingTechReason(this.gameData, this.research.getResearch(civId), data.requiredTech);
+  }
+
+  // --- Units ---
+
+  /**
+   * Has the next unit that hasn't acted this turn do something
+   */
+  private nextUnitIntent(world: World, context: AIContext): Intent | null {
+    for (const entity of context.units) {
+      if (this.acted.has(entity)) continue;
+      this.acted.add(entity);
+
+      const unit = world.getComponent(entity, Components.Unit)!;
+      if (unit.mp <= 0 || world.hasComponent(entity, Components.NewlyPurchased)) continue;
+
+      const position = world.getComponent(entity, Components.TransformTile)!;
+      const intent = world.getComponent(entity, Components.UnitType)?.type === SETTLER_TYPE
+        ? this.chooseSettlerAction(world, context, entity, position)
+        : unit.canAttack
+          ? this.chooseMilitaryAction(world, context, entity, unit, position)
+          : null;
+      if (intent) return intent;
+    }
+    return null;
+  }
+
+  /**
+   * A settler founds the player's first city where it stands, and later ones at the best site it can find
+   */
+  private chooseSettlerAction(world: World, context: AIContext, settler: Entity, position: TilePoint): Intent | null {
+    const cityPositions = this.getCityPositions(world);
+    if (context.cities.length === 0 && this.canFoundCityAt(position, cityPositions)) {
+      return { type: 'FoundCity', payload: { entity: settler } };
+    }
+
+    const site = this.findCitySite(context, position, cityPositions);
+    if (!site) {
+      // Nowhere to settle nearby - look further away
+      return this.explore(context, settler, position);
+    }
+    this.claimedSites.push(site);
+    return site.tx === position.tx && site.ty === position.ty
+      ? { type: 'FoundCity', payload: { entity: settler } }
+      : { type: 'MoveTo', payload: { entity: settler, target: site } };
+  }
+
+  /**
+   * The best reachable city site within the settler's search radius: the site's yields (food weighted by
+   * difficulty), less the tiles it takes to get there
+   */
+  private findCitySite(context: AIContext, from: TilePoint, cityPositions: TilePoint[]): TilePoint | null {
+    const { SITE_SEARCH_RADIUS, FOOD_WEIGHT } = context.tuning;
+    const sites = this.getTilesAround(from, SITE_SEARCH_RADIUS)
+      .filter(tile => this.canFoundCityAt(tile, [...cityPositions, ...this.claimedSites]))
+      .map(tile => ({ tile, score: this.getSiteValue(tile, FOOD_WEIGHT) - manhattanDistance(from, tile) }))
+      .sort((a, b) => b.score - a.score);
+    return this.findReachable(from, sites.map(site => site.tile));
+  }
+
+  /**
+   * What the tiles around a site yield
+   */
+  private getSiteValue(site: TilePoint, foodWeight: number): number {
+    return this.getTilesAround(site, AI.SITE_RADIUS).reduce((total, tile) => {
+      const yields = this.mapData.getTerrainAt(tile.tx, tile.ty)?.yields;
+      return yields ? total + yields.food * foodWeight + yields.prod + yields.gold : total;
+    }, 0);
+  }
+
+  /**
+   * A city can be founded on open ground, not too close to another city
+   */
+  private canFoundCityAt(tile: TilePoint, cityPositions: TilePoint[]): boolean {
+    return this.isPassable(tile) && cityPositions.every(city => chebyshevDistance(tile, city) >= AI.MIN_CITY_DISTANCE);
+  }
+
+  /**
+   * A military unit takes a beaten enemy city next to it, attacks the weakest (or first) enemy next to it that
+   * it's fighting, closes in on the nearest city of the neighbour it's at war with, or explores
+   */
+  private chooseMilitaryAction(
+    world: World,
+    context: AIContext,
+    entity: Entity,
+    unit: Components.Unit,
+    position: TilePoint,
+  ): Intent | null {
+    const enemyCities = world
+      .view(Components.City, Components.Owner)
+      .map(city => ({ entity: city, state: CityCombat.getState(world, city)! }))
+      .filter(({ state }) => state.ownerId !== context.playerId);
+
+    for (const city of enemyCities) {
+      const check = canCaptureCity(
+        { ownerId: context.playerId, canAttack: unit.canAttack, mp: unit.mp, position },
+        city.state,
+      );
+      if (check.canCapture && !this.isOccupied(world, city.state.position)) {
+        return { type: 'CaptureCity', payload: { unit: entity, city: city.entity, raze: false } };
+      }
+    }
+
+    const target = this.chooseAttackTarget(world, context, position, enemyCities);
+    if (target !== null) {
+      return { type: 'Attack', payload: { attacker: entity, target } };
+    }
+
+    if (this.warTarget !== null) {
+      const targetCities = enemyCities.filter(({ state }) => state.ownerId === this.warTarget);
+      const nearest = this.findNearest(position, targetCities.map(({ state }) => state.position));
+      if (nearest) {
+        if (areAdjacent(position, nearest)) return null; // Waits next to it for the defenders to fall
+        const approaches = getNeighbors(nearest.tx, nearest.ty, this.mapData.getDimensions())
+          .filter(tile => this.isPassable(tile) && !this.isOccupied(world, tile))
+          .sort((a, b) => manhattanDistance(position, a) - manhattanDistance(position, b));
+        const approach = this.findReachable(position, approaches);
+        if (approach) {
+          return { type: 'MoveTo', payload: { entity, target: approach } };
+        }
+      }
+    }
+
+    return this.explore(context, entity, position);
+  }
+
+  /**
+   * The enemy next to a unit it should attack: units and cities of the neighbour it's at war with,
+   * and units that come close to its cities. Cities already beaten are left to be captured.
+   */
+  private chooseAttackTarget(
+    world: World,
+    context: AIContext,
+    position: TilePoint,
+    enemyCities: Array<{ entity: Entity; state: CityCombatState }>,
+  ): Entity | null {
+    const ownCities = this.getPositions(world, context.cities);
+    const targets: Array<{ entity: Entity; health: number }> = [];
+
+    for (const enemy of world.view(Components.Unit, Components.Owner, Components.TransformTile)) {
+      const ownerId = world.getComponent(enemy, Components.Owner)!.playerId;
+      const enemyPosition = world.getComponent(enemy, Components.TransformTile)!;
+      if (ownerId === context.playerId || !areAdjacent(position, enemyPosition)) continue;
+
+      const threatensCity = ownCities.some(city => chebyshevDistance(city, enemyPosition) <= AI.DEFENSE_RADIUS);
+      if (ownerId === this.warTarget || threatensCity) {
+        targets.push({ entity: enemy, health: world.getComponent(enemy, Components.Unit)!.health });
+      }
+    }
+    for (const { entity, state } of enemyCities) {
+      const health = getCityHealth(state);
+      if (state.ownerId === this.warTarget && health > 0 && areAdjacent(position, state.position)) {
+        targets.push({ entity, health });
+      }
+    }
+
+    if (context.tuning.FOCUS_WEAKEST) {
+      targets.sort((a, b) => a.health - b.health);
+    }
+    return targets[0]?.entity ?? null;
+  }
+
+  /**
+   * The neighbour to go to war with: the one with the city nearest to the player's cities (or units),
+   * among those whose military the player's outnumbers by the difficulty's ATTACK_STRENGTH_RATIO
+   */
+  private findWarTarget(world: World, context: AIContext): number | null {
+    const strength = this.getMilitaryStrength(world);
+    const own = strength.get(context.playerId) ?? 0;
+    if (own === 0) return null;
+
+    const home = this.getPositions(world, context.cities.length > 0 ? context.cities : context.units);
+    let target: { playerId: number; distance: number } | null = null;
+    for (const city of world.view(Components.City, Components.Owner, Components.TransformTile)) {
+      const ownerId = world.getComponent(city, Components.Owner)!.playerId;
+      if (ownerId === context.playerId || (strength.get(ownerId) ?? 0) * context.tuning.ATTACK_STRENGTH_RATIO > own) continue;
+
+      const position = world.getComponent(city, Components.TransformTile)!;
+      const distance = Math.min(...home.map(tile => manhattanDistance(tile, position)));
+      if (!target || distance < target.distance) {
+        target = { playerId: ownerId, distance };
+      }
+    }
+    return target?.playerId ?? null;
+  }
+
+  /**
+   * Every player's military strength: attack and defense of the units that can attack, by their health
+   */
+  private getMilitaryStrength(world: World): Map<number, number> {
+    const strength = new Map<number, number>();
+    for (const entity of world.view(Components.Unit, Components.Owner)) {
+      const unit = world.getComponent(entity, Components.Unit)!;
+      if (!unit.canAttack) continue;
+      const playerId = world.getComponent(entity, Components.Owner)!.playerId;
+      strength.set(playerId, (strength.get(playerId) ?? 0) + ((unit.attack + unit.defense) * unit.health) / unit.maxHealth);
+    }
+    return strength;
+  }
+
+  /**
+   * Sends a unit to the nearest tile the player hasn't seen, away from where its other units are exploring
+   */
+  private explore(context: AIContext, entity: Entity, position: TilePoint): Intent | null {
+    const explored = this.explored.get(context.playerId)!;
+    const { width, height } = this.mapData.getDimensions();
+
+    const unexplored: TilePoint[] = [];
+    for (let ty = 0; ty < height; ty++) {
+      for (let tx = 0; tx < width; tx++) {
+        const tile = { tx, ty };
+        if (
+          !explored.has(this.getTileIndex(tile)) &&
+          this.isPassable(tile) &&
+          this.claimedTargets.every(target => chebyshevDistance(tile, target) > EXPLORE_SPREAD)
+        ) {
+          unexplored.push(tile);
+        }
+      }
+    }
+    unexplored.sort((a, b) => manhattanDistance(position, a) - manhattanDistance(position, b));
+
+    const target = this.findReachable(position, unexplored);
+    if (!target) return null;
+    this.claimedTargets.push(target);
+    return { type: 'MoveTo', payload: { entity, target } };
+  }
+
+  // --- Map helpers ---
+
+  /**
+   * The first of the destinations (in order of preference) a unit can get to
+   */
+  private findReachable(from: TilePoint, destinations: TilePoint[]): TilePoint | null {
+    for (const destination of destinations.slice(0, PATH_ATTEMPTS)) {
+      if ((destination.tx === from.tx && destination.ty === from.ty) || findPath(from, destination, this.mapData)) {
+        return destination;
+      }
+    }
+    return null;
+  }
+
+  private isPassable(tile: TilePoint): boolean {
+    const terrain = this.mapData.getTerrainAt(tile.tx, tile.ty);
+    return !!terrain && !terrain.blocked && terrain.moveCost >= 0;
+  }
+
+  private isOccupied(world: World, tile: TilePoint): boolean {
+    return world.view(Components.Unit, Components.TransformTile).some(entity => {
+      const position = world.getComponent(entity, Components.TransformTile)!;
+      return position.tx === tile.tx && position.ty === tile.ty;
+    });
+  }
+
+  private findNearest(from: TilePoint, tiles: TilePoint[]): TilePoint | null {
+    return tiles.reduce<TilePoint | null>(
+      (nearest, tile) => (!nearest || manhattanDistance(from, tile) < manhattanDistance(from, nearest) ? tile : nearest),
+      null,
+    );
+  }
+
+  /**
+   * Tiles on the map within a square radius of a tile (Chebyshev distance), the tile itself included
+   */
+  private getTilesAround(center: TilePoint, radius: number): TilePoint[] {
+    const { width, height } = this.mapData.getDimensions();
+    const tiles: TilePoint[] = [];
+    for (let ty = Math.max(0, center.ty - radius); ty <= Math.min(height - 1, center.ty + radius); ty++) {
+      for (let tx = Math.max(0, center.tx - radius); tx <= Math.min(width - 1, center.tx + radius); tx++) {
+        tiles.push({ tx, ty });
+      }
+    }
+    return tiles;
+  }
+
+  private getTileIndex(tile: TilePoint): number {
+    return tile.ty * this.mapData.width + tile.tx;
+  }
+
+  private getCityPositions(world: World): TilePoint[] {
+    return this.getPositions(world, world.view(Components.City, Components.TransformTile));
+  }
+
+  private getPositions(world: World, entities: Entity[]): TilePoint[] {
+    return entities.map(entity => {
+      const { tx, ty } = world.getComponent(entity, Components.TransformTile)!;
+      return { tx, ty };
+    });
+  }
+
+  /**
+   * A player's entities that have a component (e.g. their cities or units), with a position
+   */
+  private getOwned(world: World, playerId: number, component: typeof Components.City | typeof Components.Unit): Entity[] {
+    return world
+      .view(component, Components.Owner, Components.TransformTile)
+      .filter(entity => world.getComponent(entity, Components.Owner)!.playerId === playerId);
+  }
+}
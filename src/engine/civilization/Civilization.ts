@@ -28,6 +28,7 @@ export interface Civilization {
   name: string; // Display name, e.g., "Romans"
   color: string; // Hex color for UI/borders, e.g., "0xff0000"
   startingProduction?: number; // Starting production per turn for this civilization
+  cityYields?: { food?: number; production?: number; gold?: number }; // City center yields (only food is used so far)
   units?: Record<string, UnitOverride>; // Unit type overrides (e.g., "settler": { name: "Colonist" })
   sprites?: CivilizationSprites; // Sprite overrides
 }
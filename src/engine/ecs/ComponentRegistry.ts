@@ -0,0 +1,125 @@
+import { Component } from './Component';
+import { ComponentClass } from './Entity';
+
+/**
+ * How a component type is identified and (de)serialized
+ */
+export interface ComponentRegistration<T extends Component = Component> {
+  /**
+   * Stable id the component is stored and saved under.
+   * Unlike the class name it survives minification - never change it once saves or clients depend on it.
+   */
+  id: string;
+  /**
+   * Turns a component into plain JSON data (default: a deep copy of its fields)
+   */
+  serialize?: (component: T) => Record<string, unknown>;
+  /**
+   * Rebuilds a component from its serialized data (default: the fields assigned onto a new instance)
+   */
+  deserialize?: (data: Record<string, unknown>) => T;
+}
+
+/**
+ * Maps component classes to stable string ids, with serialize/deserialize hooks per type.
+ * Registration fails on duplicate ids or classes, so two types never share storage.
+ */
+export class ComponentRegistry {
+  private byClass = new Map<ComponentClass<Component>, ComponentRegistration>();
+  private byId = new Map<string, { componentClass: ComponentClass<Component>; registration: ComponentRegistration }>();
+
+  /**
+   * Registers a component class under a stable id
+   * @throws If the id or the class is already registered
+   */
+  register<T extends Component>(componentClass: ComponentClass<T>, registration: ComponentRegistration<T>): void {
+    if (!registration.id) {
+      throw new Error(`Component ${componentClass.name} needs a non-empty id`);
+    }
+    const existing = this.byId.get(registration.id);
+    if (existing) {
+      throw new Error(`Component id "${registration.id}" is already registered (by ${existing.componentClass.name})`);
+    }
+    if (this.byClass.has(componentClass)) {
+      throw new Error(`Component ${componentClass.name} is already registered as "${this.byClass.get(componentClass)!.id}"`);
+    }
+    // Hooks are only ever called with components of this class
+    const stored = registration as unknown as ComponentRegistration;
+    this.byClass.set(componentClass, stored);
+    this.byId.set(registration.id, { componentClass, registration: stored });
+  }
+
+  isRegistered(componentClass: ComponentClass<Component>): boolean {
+    return this.byClass.has(componentClass);
+  }
+
+  /**
+   * Gets the id a component class is registered under
+   * @throws If the class isn't registered
+   */
+  getId(componentClass: ComponentClass<Component>): string {
+    const registration = this.byClass.get(componentClass);
+    if (!registration) {
+      throw new Error(`Component ${componentClass.name} isn't registered (see registerComponent)`);
+    }
+    return registration.id;
+  }
+
+  /**
+   * Gets the id of a component instance's class
+   * @throws If the class isn't registered
+   */
+  getIdOf(component: Component): string {
+    return this.getId(component.constructor as ComponentClass<Component>);
+  }
+
+  /**
+   * Gets the class registered under an id, or undefined
+   */
+  getClass(id: string): ComponentClass<Component> | undefined {
+    return this.byId.get(id)?.componentClass;
+  }
+
+  /**
+   * Turns a component into plain JSON data with its type's serialize hook
+   */
+  serialize(component: Component): Record<string, unknown> {
+    const registration = this.byClass.get(component.constructor as ComponentClass<Component>);
+    if (!registration) {
+      throw new Error(`Component ${component.constructor.name} isn't registered (see registerComponent)`);
+    }
+    return registration.serialize ? registration.serialize(component) : structuredClone({ ...component });
+  }
+
+  /**
+   * Rebuilds a component from the data serialize() produced
+   * @throws If nothing is registered under the id
+   */
+  deserialize(id: string, data: Record<string, unknown>): Component {
+    const entry = this.byId.get(id);
+    if (!entry) {
+      throw new Error(`Unknown component type "${id}"`);
+    }
+    const { componentClass, registration } = entry;
+    if (registration.deserialize) {
+      return registration.deserialize(data);
+    }
+    return Object.assign(Object.create(componentClass.prototype), structuredClone(data));
+  }
+}
+
+/**
+ * The registry Worlds use unless given another one
+ */
+export const componentRegistry = new ComponentRegistry();
+
+/**
+ * Registers a component class with the default registry
+ * @throws If the id or the class is already registered
+ */
+export function registerComponent<T extends Component>(
+  componentClass: ComponentClass<T>,
+  registration: ComponentRegistration<T>,
+): void {
+  componentRegistry.register(componentClass, registration);
+}
@@ -1,15 +1,28 @@
+import { TurnPhase, TurnPhaseSlot } from './TurnPipeline';
 import { World } from './World';
 
 /**
  * A System processes entities that have a certain set of components.
- * Logic is implemented in the `update` method.
+ * Per-frame logic is implemented in the `update` method, per-turn logic in `runTurnPhase`.
  */
 export abstract class System {
   public world!: World;
 
+  /**
+   * The turn phases this system runs in (see TurnPipeline) - registered when it's added to a World
+   */
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [];
+
   /**
    * This method is called on every frame by the World.
    * @param dt - The time delta since the last update, in milliseconds.
    */
-  public abstract update(dt: number): void;
+  public update(_dt: number): void {}
+
+  /**
+   * Called once per turn transition for each phase in `turnPhases`.
+   * @param phase - The phase being run.
+   * @param turn - The turn being entered.
+   */
+  public runTurnPhase(_phase: TurnPhase, _turn: number): void {}
 }
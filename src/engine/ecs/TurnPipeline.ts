@@ -0,0 +1,78 @@
+/**
+ * The phases of a turn transition, in the order they run:
+ * - income: start-of-turn yields flow into city and civilization stockpiles
+ * - production: production queues advance and finished items are created
+ * - growth: cities feed their citizens, grow or starve, and level up
+ * - upkeep: units recover for the new turn
+ * - endOfTurn: the transition's state is settled (fog, notifications, checks)
+ */
+export const TURN_PHASES = ['income', 'production', 'growth', 'upkeep', 'endOfTurn'] as const;
+
+export type TurnPhase = (typeof TURN_PHASES)[number];
+
+/**
+ * Where a step runs in the pipeline: its phase, and its order within the phase (lowest first)
+ */
+export interface TurnPhaseSlot {
+  id: string; // Names the step in errors and debugging - explicit, since class names don't survive minification
+  phase: TurnPhase;
+  order: number;
+}
+
+/**
+ * Work done once per turn transition
+ */
+export interface TurnPhaseStep extends TurnPhaseSlot {
+  run: (turn: number) => void;
+}
+
+/**
+ * Runs turn processing in explicit phases instead of relying on system order.
+ * Steps register per phase with a declared order; each transition runs every step exactly once.
+ */
+export class TurnPipeline {
+  private steps: TurnPhaseStep[] = [];
+  private lastTurn: number | null = null;
+
+  /**
+   * Adds a step to a phase
+   * @throws If the phase already has a step with the same id or order
+   */
+  register(step: TurnPhaseStep): void {
+    if (!TURN_PHASES.includes(step.phase)) {
+      throw new Error(`Unknown turn phase "${step.phase}" for ${step.id}`);
+    }
+    if (this.steps.some(s => s.phase === step.phase && s.id === step.id)) {
+      throw new Error(`${step.id} is already registered in the ${step.phase} phase`);
+    }
+    const clash = this.steps.find(s => s.phase === step.phase && s.order === step.order);
+    if (clash) {
+      throw new Error(`${step.id} and ${clash.id} both run at order ${step.order} of the ${step.phase} phase`);
+    }
+    this.steps.push(step);
+  }
+
+  /**
+   * The registered steps in the order a transition runs them
+   */
+  getSteps(): readonly TurnPhaseStep[] {
+    return [...this.steps].sort(
+      (a, b) => TURN_PHASES.indexOf(a.phase) - TURN_PHASES.indexOf(b.phase) || a.order - b.order,
+    );
+  }
+
+  /**
+   * Runs the transition into a turn, unless it already ran for this turn or a later one
+   * @returns Whether the transition ran
+   */
+  run(turn: number): boolean {
+    if (this.lastTurn !== null && turn <= this.lastTurn) {
+      return false;
+    }
+    this.lastTurn = turn;
+    for (const step of this.getSteps()) {
+      step.run(turn);
+    }
+    return true;
+  }
+}
@@ -1,25 +1,91 @@
 import { Component } from './Component';
+import { ComponentRegistry, componentRegistry } from './ComponentRegistry';
 import { ComponentClass, ComponentMap, Entity } from './Entity';
 import { System } from './System';
+import { TurnPipeline } from './TurnPipeline';
+
+/**
+ * The first ID in the range the World assigns itself (createEntity).
+ * IDs below it are assigned externally (createEntityWithId) - in multiplayer these are the server's entity IDs,
+ * so the client and server refer to an entity by the same ID. Local-only entities (tiles, single-player
+ * games, entities created ahead of the server) live in the reserved range and never clash with them.
+ */
+export const LOCAL_ENTITY_ID_START = 1_000_000_000;
+
+/**
+ * Whether an entity ID was assigned by the World itself rather than externally.
+ */
+export function isLocalEntityId(entity: Entity): boolean {
+  return entity >= LOCAL_ENTITY_ID_START;
+}
 
 /**
  * The World is the main container for all entities, components, and systems.
  * It manages the game state and orchestrates updates.
+ * Component storage is keyed by the ids component classes are registered under (see ComponentRegistry).
  */
 export class World {
-  private nextEntityId = 0;
+  private nextEntityId = LOCAL_ENTITY_ID_START;
   private entities = new Set<Entity>();
   private components = new Map<string, Map<Entity, Component>>();
   private systems: System[] = [];
+  public readonly turnPipeline = new TurnPipeline();
+
+  constructor(public readonly registry: ComponentRegistry = componentRegistry) {}
 
   // --- Entity Management ---
 
+  /**
+   * Creates an entity with an ID from the local range.
+   */
   public createEntity(): Entity {
     const entity = this.nextEntityId++;
     this.entities.add(entity);
     return entity;
   }
 
+  /**
+   * Creates an entity with an externally assigned ID (e.g. the server's).
+   * The ID must be a non-negative integer below LOCAL_ENTITY_ID_START that isn't in use.
+   */
+  public createEntityWithId(entity: Entity): Entity {
+    if (!Number.isInteger(entity) || entity < 0 || isLocalEntityId(entity)) {
+      throw new Error(`Invalid external entity ID ${entity} (must be an integer from 0 to ${LOCAL_ENTITY_ID_START - 1})`);
+    }
+    if (this.entities.has(entity)) {
+      throw new Error(`Entity ${entity} already exists`);
+    }
+    this.entities.add(entity);
+    return entity;
+  }
+
+  /**
+   * Recreates an entity with the ID it was saved with, from either range.
+   * createEntity() continues after the highest restored local ID.
+   */
+  public restoreEntity(entity: Entity): Entity {
+    if (!isLocalEntityId(entity)) {
+      return this.createEntityWithId(entity);
+    }
+    if (this.entities.has(entity)) {
+      throw new Error(`Entity ${entity} already exists`);
+    }
+    this.entities.add(entity);
+    this.nextEntityId = Math.max(this.nextEntityId, entity + 1);
+    return entity;
+  }
+
+  public hasEntity(entity: Entity): boolean {
+    return this.entities.has(entity);
+  }
+
+  /**
+   * The ID the next createEntity() call will assign.
+   */
+  public peekNextEntityId(): Entity {
+    return this.nextEntityId;
+  }
+
   public destroyEntity(entity: Entity): void {
     if (!this.entities.has(entity)) return;
 
@@ -35,26 +101,40 @@ export class World {
     entity: Entity,
     component: T,
   ): void {
-    const componentName = component.constructor.name;
-    if (!this.components.has(componentName)) {
-      this.components.set(componentName, new Map());
+    const componentId = this.registry.getIdOf(component);
+    if (!this.components.has(componentId)) {
+      this.components.set(componentId, new Map());
     }
-    this.components.get(componentName)!.set(entity, component);
+    this.components.get(componentId)!.set(entity, component);
   }
 
   public getComponent<T extends Component>(
     entity: Entity,
     componentClass: ComponentClass<T>,
   ): T | undefined {
-    const componentMap = this.components.get(componentClass.name);
+    const componentMap = this.components.get(this.registry.getId(componentClass));
     return componentMap?.get(entity) as T | undefined;
   }
 
+  /**
+   * Retrieves all components of an entity.
+   */
+  public getComponents(entity: Entity): Component[] {
+    const components: Component[] = [];
+    for (const componentMap of this.components.values()) {
+      const component = componentMap.get(entity);
+      if (component) {
+        components.push(component);
+      }
+    }
+    return components;
+  }
+
   public hasComponent<T extends Component>(
     entity: Entity,
     componentClass: ComponentClass<T>,
   ): boolean {
-    const componentMap = this.components.get(componentClass.name);
+    const componentMap = this.components.get(this.registry.getId(componentClass));
     return componentMap?.has(entity) ?? false;
   }
 
@@ -62,7 +142,7 @@ export class World {
     entity: Entity,
     componentClass: ComponentClass<T>,
   ): void {
-    this.components.get(componentClass.name)?.delete(entity);
+    this.components.get(this.registry.getId(componentClass))?.delete(entity);
   }
 
   // --- System & View Management ---
@@ -70,6 +150,23 @@ export class World {
   public addSystem(system: System): void {
     this.systems.push(system);
     system.world = this;
+    for (const { id, phase, order } of system.turnPhases) {
+      this.turnPipeline.register({
+        id,
+        phase,
+        order,
+        run: turn => system.runTurnPhase(phase, turn),
+      });
+    }
+  }
+
+  /**
+   * Runs the turn transition into `turn` (every system's turn phases, in pipeline order).
+   * Does nothing if it already ran for this turn or a later one.
+   * @returns Whether the transition ran
+   */
+  public advanceTurn(turn: number): boolean {
+    return this.turnPipeline.run(turn);
   }
 
   /**
@@ -87,19 +184,20 @@ export class World {
 
     // Find the smallest component map to iterate over
     let smallestMapSize = Infinity;
-    let smallestMapName: string | null = null;
+    let smallestMapId: string | null = null;
 
     for (const cls of componentClasses) {
-      const map = this.components.get(cls.name);
+      const componentId = this.registry.getId(cls);
+      const map = this.components.get(componentId);
       if (map && map.size < smallestMapSize) {
         smallestMapSize = map.size;
-        smallestMapName = cls.name;
+        smallestMapId = componentId;
       }
     }
 
-    if (!smallestMapName) return [];
+    if (!smallestMapId) return [];
 
-    const primaryMap = this.components.get(smallestMapName)!;
+    const primaryMap = this.components.get(smallestMapId)!;
 
     // Iterate over the smallest set and check for other components
     for (const entity of primaryMap.keys()) {
@@ -1,4 +1,7 @@
 export * from './Component';
+export * from './ComponentRegistry';
 export * from './Entity';
 export * from './System';
+export * from './TurnPipeline';
 export * from './World';
+export * from './serialization';
@@ -0,0 +1,59 @@
+import { Entity } from './Entity';
+import { World } from './World';
+
+/**
+ * An entity and its component data, keyed by registered component id
+ */
+export interface SerializedWorldEntity {
+  id: Entity;
+  components: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Serializes the entities of a world to plain JSON data, with each component type's serialize hook.
+ * Only components whose ids are in `componentIds` are kept; entities left without any are skipped.
+ */
+export function serializeWorld(
+  world: World,
+  componentIds: readonly string[],
+  filter: (entity: Entity) => boolean = () => true,
+): SerializedWorldEntity[] {
+  const saved = new Set(componentIds);
+  const entities: SerializedWorldEntity[] = [];
+  for (const entity of world.view()) {
+    if (!filter(entity)) continue;
+
+    const components: SerializedWorldEntity['components'] = {};
+    for (const component of world.getComponents(entity)) {
+      const componentId = world.registry.getIdOf(component);
+      if (saved.has(componentId)) {
+        components[componentId] = world.registry.serialize(component);
+      }
+    }
+    if (Object.keys(components).length > 0) {
+      entities.push({ id: entity, components });
+    }
+  }
+  return entities;
+}
+
+/**
+ * Recreates serialized entities in a world with their original IDs, with each component type's deserialize hook.
+ * @throws If a component id isn't registered (before any entity is created)
+ */
+export function deserializeWorld(world: World, entities: SerializedWorldEntity[]): void {
+  for (const { id, components } of entities) {
+    for (const componentId of Object.keys(components)) {
+      if (!world.registry.getClass(componentId)) {
+        throw new Error(`Unknown component type "${componentId}" on entity ${id}`);
+      }
+    }
+  }
+
+  for (const { id, components } of entities) {
+    world.restoreEntity(id);
+    for (const [componentId, data] of Object.entries(components)) {
+      world.addComponent(id, world.registry.deserialize(componentId, data));
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { Entity } from '@engine/ecs';
+
+/**
+ * A listener for an engine event
+ */
+export type EventListener<T extends unknown[] = never[]> = (...args: T) => void;
+
+/**
+ * What systems use to announce what happened, so renderers, the UI or an AI can react to it.
+ * Phaser's EventEmitter (e.g. `game.events`) satisfies it, and EngineEventBus implements it without Phaser.
+ *
+ * Events the engine emits:
+ * - `ui-update`: game state the UI shows has changed
+ * - `unit-damaged` (UnitDamagedEvent): a unit took damage in combat
+ * - `unit-destroyed` (UnitDestroyedEvent): a unit is about to be removed from the world
+ * - `tech-researched` (TechResearchedEvent): a civilization finished researching a tech
+ * - `city-damaged` (CityDamagedEvent): a city took damage in combat
+ * - `city-captured` (CityCapturedEvent): a city changed hands or was razed
+ * - `game-over` (GameResult, see victory.ts): a victory condition was met and the game has ended
+ */
+export interface EventBus {
+  on<T extends unknown[]>(event: string, listener: EventListener<T>, context?: unknown): unknown;
+  off<T extends unknown[]>(event: string, listener?: EventListener<T>, context?: unknown): unknown;
+  emit(event: string, ...args: unknown[]): boolean;
+}
+
+export interface UnitDamagedEvent {
+  entity: Entity;
+  damage: number;
+  position: { tx: number; ty: number }; // Where the unit stood when it was hit
+}
+
+export interface UnitDestroyedEvent {
+  entity: Entity;
+}
+
+export interface CityDamagedEvent {
+  entity: Entity;
+  damage: number;
+  position: { tx: number; ty: number }; // Where the city stands
+}
+
+export interface CityCapturedEvent {
+  entity: Entity; // Still in the world when razed, like UnitDestroyedEvent
+  previousOwnerId: number;
+  newOwnerId: number;
+  razed: boolean;
+}
+
+export interface TechResearchedEvent {
+  civId: string;
+  techId: string;
+}
+
+interface Subscription {
+  listener: EventListener<unknown[]>;
+  context?: unknown;
+}
+
+/**
+ * A minimal event bus for running the engine without Phaser (the server, tests, an AI)
+ */
+export class EngineEventBus implements EventBus {
+  private listeners = new Map<string, Subscription[]>();
+
+  on<T extends unknown[]>(event: string, listener: EventListener<T>, context?: unknown): this {
+    const subscriptions = this.listeners.get(event) ?? [];
+    subscriptions.push({ listener: listener as EventListener<unknown[]>, context });
+    this.listeners.set(event, subscriptions);
+    return this;
+  }
+
+  /**
+   * Removes a listener (all listeners of the event if none is given)
+   */
+  off<T extends unknown[]>(event: string, listener?: EventListener<T>, context?: unknown): this {
+    if (!listener) {
+      this.listeners.delete(event);
+      return this;
+    }
+    const remaining = (this.listeners.get(event) ?? []).filter(
+      s => s.listener !== listener || (context !== undefined && s.context !== context),
+    );
+    this.listeners.set(event, remaining);
+    return this;
+  }
+
+  /**
+   * Calls the event's listeners in the order they were added
+   * @returns Whether the event had listeners
+   */
+  emit(event: string, ...args: unknown[]): boolean {
+    // Copied so listeners can unsubscribe while the event is dispatched
+    const subscriptions = [...(this.listeners.get(event) ?? [])];
+    for (const { listener, context } of subscriptions) {
+      listener.apply(context, args);
+    }
+    return subscriptions.length > 0;
+  }
+}
@@ -0,0 +1,127 @@
+import type { CombatResult } from '@shared/types';
+import { COMBAT } from '@config/game';
+import { TilePoint } from '@engine/math/iso';
+import { SeededRNG } from '@engine/math/rng';
+import { findOwningCity, type YieldingCity } from './economy';
+
+/**
+ * Combat rules, shared by the client's CombatSystem / CaptureCitySystem and the server's Attack / CaptureCity handlers.
+ *
+ * Like economy.ts this works on plain data, and the only randomness comes from the RNG it's given:
+ * the same stats and the same stream (see createActionRng) always give the same result.
+ */
+
+export interface AttackerStats {
+  attack: number;
+}
+
+export interface DefenderStats {
+  defense: number;
+  health: number;
+}
+
+/**
+ * A city under attack: its defense comes from its citizens and the buildings within its borders
+ */
+export interface DefendingCity {
+  population: number;
+  buildings: number; // Buildings within its borders (see findCityBuildings)
+  damage: number; // Damage taken so far
+}
+
+/**
+ * Resolves one attack: how much damage the defender takes and whether it survives.
+ * Defense reduces damage: damage = attack * (1 - defense / (defense + attack)), plus or minus
+ * COMBAT.DAMAGE_VARIANCE at random, and at least COMBAT.MIN_DAMAGE.
+ */
+export function resolveCombat(attacker: AttackerStats, defender: DefenderStats, rng: SeededRNG): CombatResult {
+  const totalStrength = attacker.attack + defender.defense;
+  const defenseReduction = totalStrength > 0 ? defender.defense / totalStrength : 1;
+  const baseDamage = attacker.attack * (1 - defenseReduction);
+
+  // Random between (1 - variance) and (1 + variance)
+  const randomFactor = 1 + (rng.nextFloat() * 2 - 1) * COMBAT.DAMAGE_VARIANCE;
+  const damage = Math.max(COMBAT.MIN_DAMAGE, Math.round(baseDamage * randomFactor));
+
+  const defenderHealth = Math.max(0, defender.health - damage);
+  return { damage, defenderHealth, defenderDestroyed: defenderHealth <= 0 };
+}
+
+/**
+ * A city's full health and its defense (see COMBAT.CITY_*)
+ */
+export function getCityCombatStats(city: Omit<DefendingCity, 'damage'>): { maxHealth: number; defense: number } {
+  return {
+    maxHealth:
+      COMBAT.CITY_BASE_HEALTH +
+      city.population * COMBAT.CITY_HEALTH_PER_POPULATION +
+      city.buildings * COMBAT.CITY_HEALTH_PER_BUILDING,
+    defense:
+      COMBAT.CITY_BASE_DEFENSE +
+      city.population * COMBAT.CITY_DEFENSE_PER_POPULATION +
+      city.buildings * COMBAT.CITY_DEFENSE_PER_BUILDING,
+  };
+}
+
+/**
+ * A city's health left after the damage it took
+ */
+export function getCityHealth(city: DefendingCity): number {
+  return Math.max(0, getCityCombatStats(city).maxHealth - city.damage);
+}
+
+/**
+ * Resolves one attack on a city, like resolveCombat. A city isn't destroyed at 0 health:
+ * it's left defenceless, for a melee unit to capture or raze (see canCaptureCity).
+ * Add `result.damage` to the city's damage to apply it.
+ */
+export function resolveCityCombat(attacker: AttackerStats, city: DefendingCity, rng: SeededRNG): CombatResult {
+  const health = getCityHealth(city);
+  const result = resolveCombat(attacker, { defense: getCityCombatStats(city).defense, health }, rng);
+  return { ...result, damage: health - result.defenderHealth, defenderDestroyed: false };
+}
+
+/**
+ * The buildings that belong to a city: those within its borders (see findOwningCity).
+ * They count towards its defense and change hands with it.
+ */
+export function findCityBuildings<C extends YieldingCity, B extends { position: TilePoint }>(
+  cities: Iterable<C>,
+  city: C,
+  buildings: Iterable<B>,
+): B[] {
+  return Array.from(buildings).filter(building => findOwningCity(cities, building.position) === city);
+}
+
+/**
+ * Checks whether a unit may move into a city and take (or raze) it: it must be a melee unit
+ * (one that can attack) with movement left, next to an enemy city that has no health left.
+ */
+export function canCaptureCity(
+  unit: { ownerId: number; canAttack: boolean; mp: number; position: TilePoint },
+  city: DefendingCity & { ownerId: number; position: TilePoint },
+): { canCapture: boolean; reason?: string } {
+  if (!unit.canAttack) {
+    return { canCapture: false, reason: 'Only melee units can capture cities' };
+  }
+  if (unit.ownerId === city.ownerId) {
+    return { canCapture: false, reason: 'The city is already yours' };
+  }
+  if (unit.mp <= 0) {
+    return { canCapture: false, reason: 'The unit has no movement left' };
+  }
+  if (!areAdjacent(unit.position, city.position)) {
+    return { canCapture: false, reason: 'The city is not next to the unit' };
+  }
+  if (getCityHealth(city) > 0) {
+    return { canCapture: false, reason: 'The city still has health left' };
+  }
+  return { canCapture: true };
+}
+
+/**
+ * Whether two tiles are next to each other (4-way neighbors) - units only fight their neighbors
+ */
+export function areAdjacent(a: TilePoint, b: TilePoint): boolean {
+  return Math.abs(a.tx - b.tx) + Math.abs(a.ty - b.ty) === 1;
+}
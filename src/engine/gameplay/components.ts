@@ -1,3 +1,4 @@
+import { registerComponent } from '@engine/ecs';
 import { TilePoint, Point } from '@engine/math/iso';
 
 // --- Position Components ---
@@ -107,6 +108,8 @@ export class City {
   constructor(
     public population: number = 1, // Current total population
     public level: number = 1, // Current city level (starts at 1)
+    public damage: number = 0, // Damage taken in combat - its health is getCityHealth in combat.ts
+    public capitalOf: number | null = null, // Player whose capital this is (their first city), kept if captured
   ) {}
 
   /**
@@ -176,14 +179,18 @@ export class Resources {
   constructor(
     public production: number = 0, // Production stockpile
     public gold: number = 0, // Gold stockpile
+    public food: number = 0, // Food stockpile - the city grows when it reaches the growth threshold
+    public science: number = 0, // Science collected this turn - goes to the civilization's research
   ) {}
 
   /**
    * Adds resources to the stockpile.
    */
-  add(production: number, gold: number): void {
+  add(production: number, gold: number, food: number = 0, science: number = 0): void {
     this.production += production;
     this.gold += gold;
+    this.food += food;
+    this.science += science;
   }
 
   /**
@@ -251,7 +258,7 @@ export interface ProductionItem {
 export class Building {
   constructor(
     public buildingType: string, // e.g., 'granary', 'lumberMill'
-    public yields: { food?: number; production?: number; gold?: number } = {}, // Yields from this building
+    public yields: { food?: number; production?: number; gold?: number; science?: number } = {}, // Yields from this building
     public cityBonus: { populationGrowth?: number } = {}, // Bonuses to the owning city
   ) {}
 }
@@ -293,3 +300,22 @@ export class ProductionQueue {
     return this.queue.length === 0;
   }
 }
+
+// --- Registration ---
+// Stable ids the World stores components under and saves use - never change one once saves depend on it
+
+registerComponent(TransformTile, { id: 'TransformTile' });
+registerComponent(ScreenPos, { id: 'ScreenPos' });
+registerComponent(Unit, { id: 'Unit' });
+registerComponent(UnitType, { id: 'UnitType' });
+registerComponent(NewlyPurchased, { id: 'NewlyPurchased' });
+registerComponent(Tile, { id: 'Tile' });
+registerComponent(Selectable, { id: 'Selectable' });
+registerComponent(Selected, { id: 'Selected' });
+registerComponent(Owner, { id: 'Owner' });
+registerComponent(CivilizationComponent, { id: 'CivilizationComponent' });
+registerComponent(City, { id: 'City' });
+registerComponent(Resources, { id: 'Resources' });
+registerComponent(CivilizationResources, { id: 'CivilizationResources' });
+registerComponent(Building, { id: 'Building' });
+registerComponent(ProductionQueue, { id: 'ProductionQueue' });
@@ -0,0 +1,395 @@
+import { RESOURCES } from '@config/game';
+import { chebyshevDistance } from '@engine/math/grid';
+import { TilePoint } from '@engine/math/iso';
+import { MapData } from '@engine/map/MapData';
+import { City, ProductionItem } from './components';
+import { GameDataProvider } from './gameData';
+import { advanceResearch, createResearchState, type ResearchState } from './research';
+
+/**
+ * Per-turn economy rules, shared by the client's systems and the server's turn processing.
+ *
+ * Everything here works on plain data (no ECS world, no Phaser), so the client systems
+ * (`YieldSystem`, `BuildingYieldSystem`, `CivilizationProductionSystem`, `ProductionSystem`,
+ * `CityGrowthSystem`, `ResearchSystem`, `TurnSystem`) and the server compute exactly the same stockpiles.
+ */
+
+export interface Yields {
+  food: number;
+  production: number;
+  gold: number;
+  science: number;
+}
+
+/**
+ * The parts of a city the yield rules need.
+ */
+export interface YieldingCity {
+  position: TilePoint;
+  population: number;
+  baseFood?: number; // Food from the city tile itself - its civilization's cityYields.food
+}
+
+/**
+ * A production queue: the items to build and the progress on the first one.
+ * `ProductionQueue` (the ECS component) has this shape.
+ */
+export interface ProductionQueueState {
+  queue: ProductionItem[];
+  currentProgress: number;
+}
+
+/**
+ * Gets the tiles a city can work with their yields.
+ * A city works tiles within its sight range (its population), by Chebyshev distance.
+ */
+export function getWorkableTiles(
+  mapData: MapData,
+  city: YieldingCity,
+): Array<{ tx: number; ty: number; yields: Yields }> {
+  const workableTiles: Array<{ tx: number; ty: number; yields: Yields }> = [];
+  const range = city.population;
+  const { width, height } = mapData.getDimensions();
+
+  for (let dx = -range; dx <= range; dx++) {
+    for (let dy = -range; dy <= range; dy++) {
+      const tx = city.position.tx + dx;
+      const ty = city.position.ty + dy;
+      if (tx < 0 || tx >= width || ty < 0 || ty >= height) continue;
+
+      const terrain = mapData.getTerrainAt(tx, ty);
+      if (!terrain || !terrain.yields) continue;
+
+      workableTiles.push({
+        tx,
+        ty,
+        yields: {
+          food: terrain.yields.food || 0,
+          production: terrain.yields.prod || 0,
+          gold: terrain.yields.gold || 0,
+          science: 0, // Science comes from citizens and buildings, not terrain
+        },
+      });
+    }
+  }
+
+  return workableTiles;
+}
+
+/**
+ * Calculates the yields of the tiles a city works.
+ * Each population point works one tile, best tiles (food + production + gold) first.
+ */
+export function calculateWorkedTileYields(mapData: MapData, city: YieldingCity): Yields {
+  const yields: Yields = { food: 0, production: 0, gold: 0, science: 0 };
+  const total = ({ food, production, gold }: Yields) => food + production + gold;
+  const sortedTiles = getWorkableTiles(mapData, city).sort((a, b) => total(b.yields) - total(a.yields));
+
+  const tilesToWork = Math.min(city.population, sortedTiles.length);
+  for (let i = 0; i < tilesToWork; i++) {
+    yields.food += sortedTiles[i].yields.food;
+    yields.production += sortedTiles[i].yields.production;
+    yields.gold += sortedTiles[i].yields.gold;
+  }
+
+  return yields;
+}
+
+/**
+ * Calculates what a city adds to its stockpile at the start of a turn (not counting buildings):
+ * worked tiles, the base city yields and production and science from each citizen.
+ * Food is what the city grows before its citizens eat (see applyFoodGrowth).
+ */
+export function calculateCityTurnYields(mapData: MapData, city: YieldingCity): Yields {
+  const yields = calculateWorkedTileYields(mapData, city);
+  yields.food += city.baseFood ?? RESOURCES.CITY_BASE_FOOD;
+  yields.production += RESOURCES.CITY_BASE_PRODUCTION + city.population * RESOURCES.PRODUCTION_PER_CITIZEN;
+  yields.gold += RESOURCES.CITY_BASE_GOLD;
+  yields.science += city.population * RESOURCES.SCIENCE_PER_CITIZEN;
+  return yields;
+}
+
+/**
+ * Finds the city whose borders (sight range) contain a tile.
+ * When borders overlap the first city wins.
+ */
+export function findOwningCity<T extends YieldingCity>(cities: Iterable<T>, tile: TilePoint): T | null {
+  for (const city of cities) {
+    if (chebyshevDistance(tile, city.position) <= city.population) {
+      return city;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether a city may put a building on a tile: the tile must be within that city's borders,
+ * have no building yet and meet the building's terrain requirements (none means any terrain).
+ */
+export function canPlaceBuilding<T extends YieldingCity>(
+  mapData: MapData,
+  cities: T[],
+  city: T,
+  buildings: Array<{ position: TilePoint }>,
+  tile: TilePoint,
+  terrainRequirements: string[] = [],
+): { canBuild: boolean; reason?: string } {
+  const { width, height } = mapData.getDimensions();
+  if (tile.tx < 0 || tile.tx >= width || tile.ty < 0 || tile.ty >= height) {
+    return { canBuild: false, reason: 'Tile is outside the map' };
+  }
+  if (findOwningCity(cities, tile) !== city) {
+    return { canBuild: false, reason: 'Tile is not within city borders' };
+  }
+  if (buildings.some(b => b.position.tx === tile.tx && b.position.ty === tile.ty)) {
+    return { canBuild: false, reason: 'Tile already has a building' };
+  }
+  if (terrainRequirements.length > 0) {
+    const terrain = mapData.getTerrainAt(tile.tx, tile.ty);
+    if (!terrain || !terrainRequirements.includes(terrain.id)) {
+      return { canBuild: false, reason: `Building requires terrain: ${terrainRequirements.join(', ')}` };
+    }
+  }
+  return { canBuild: true };
+}
+
+/**
+ * Finds where a city puts a building it bought or finished producing: the city tile if possible,
+ * otherwise the first tile within its borders where canPlaceBuilding allows it.
+ */
+export function findBuildingPlacement<T extends YieldingCity>(
+  mapData: MapData,
+  cities: T[],
+  city: T,
+  buildings: Array<{ position: TilePoint }>,
+  terrainRequirements: string[] = [],
+): TilePoint | null {
+  const range = city.population;
+  const candidates: TilePoint[] = [{ tx: city.position.tx, ty: city.position.ty }];
+  for (let dx = -range; dx <= range; dx++) {
+    for (let dy = -range; dy <= range; dy++) {
+      candidates.push({ tx: city.position.tx + dx, ty: city.position.ty + dy });
+    }
+  }
+
+  return (
+    candidates.find(
+      tile => canPlaceBuilding(mapData, cities, city, buildings, tile, terrainRequirements).canBuild,
+    ) ?? null
+  );
+}
+
+/**
+ * Sums the yields of a list of buildings.
+ */
+export function sumBuildingYields(
+  buildings: Iterable<{ yields: { food?: number; production?: number; gold?: number; science?: number } }>,
+): Yields {
+  const yields: Yields = { food: 0, production: 0, gold: 0, science: 0 };
+  for (const building of buildings) {
+    yields.food += building.yields.food || 0;
+    yields.production += building.yields.production || 0;
+    yields.gold += building.yields.gold || 0;
+    yields.science += building.yields.science || 0;
+  }
+  return yields;
+}
+
+/**
+ * Puts production towards the current item of a queue.
+ * Returns how much production was used and the item that was completed (already dequeued), if any.
+ */
+export function advanceProductionQueue(
+  queue: ProductionQueueState,
+  availableProduction: number,
+): { spent: number; completed: ProductionItem | null } {
+  const currentItem = queue.queue[0];
+  if (!currentItem) {
+    return { spent: 0, completed: null };
+  }
+
+  const spent = Math.max(0, Math.min(availableProduction, currentItem.cost - queue.currentProgress));
+  queue.currentProgress += spent;
+
+  if (queue.currentProgress < currentItem.cost) {
+    return { spent, completed: null };
+  }
+
+  queue.queue.shift();
+  queue.currentProgress = 0;
+  return { spent, completed: currentItem };
+}
+
+/**
+ * Levels up a city for as long as its population meets the next level's requirement.
+ * Returns the number of levels gained.
+ */
+export function applyCityGrowth(city: { population: number; level: number }): number {
+  let levelsGained = 0;
+  while (city.population >= City.getPopulationRequirementForLevel(city.level + 1)) {
+    city.level += 1;
+    levelsGained++;
+  }
+  return levelsGained;
+}
+
+/**
+ * Food a city needs in its stockpile to grow from its current population to the next.
+ * Each citizen makes the next one cost RESOURCES.FOOD_GROWTH_STEP more than the last.
+ */
+export function getFoodGrowthThreshold(population: number): number {
+  return RESOURCES.FOOD_GROWTH_BASE + Math.max(0, population - 1) * RESOURCES.FOOD_GROWTH_STEP;
+}
+
+/**
+ * Feeds a city's citizens from its food stockpile, then grows or starves it:
+ * - Each citizen eats RESOURCES.FOOD_PER_CITIZEN
+ * - A stockpile that reaches the growth threshold adds a citizen, keeping what's left over
+ * - A stockpile that goes negative starves a citizen (never below 1) and is emptied
+ * Returns the population change (+1, -1 or 0).
+ */
+export function applyFoodGrowth(city: { population: number }, resources: { food: number }): number {
+  resources.food -= city.population * RESOURCES.FOOD_PER_CITIZEN;
+
+  if (resources.food < 0) {
+    resources.food = 0;
+    if (city.population <= 1) return 0;
+    city.population -= 1;
+    return -1;
+  }
+
+  const threshold = getFoodGrowthThreshold(city.population);
+  if (resources.food >= threshold) {
+    resources.food -= threshold;
+    city.population += 1;
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Gives a unit its full movement points for a new turn.
+ */
+export function restoreUnitForTurn(unit: { mp: number; maxMp: number }): void {
+  unit.mp = unit.maxMp;
+}
+
+// --- Whole-turn processing on plain data (used by the server) ---
+
+export interface EconomyCity extends YieldingCity {
+  ownerId: number;
+  civId: string;
+  level: number;
+  resources: Yields;
+  productionQueue: ProductionQueueState;
+}
+
+export interface EconomyBuilding {
+  position: TilePoint;
+  yields: { food?: number; production?: number; gold?: number; science?: number };
+}
+
+export interface EconomyUnit {
+  ownerId: number;
+  civId: string;
+  mp: number;
+  maxMp: number;
+  newlyPurchased?: boolean;
+}
+
+export interface TurnEconomyState {
+  cities: EconomyCity[];
+  buildings: EconomyBuilding[];
+  units: EconomyUnit[];
+  stockpiles: Map<number, number>; // ownerId -> production stockpile
+  research: Map<number, ResearchState>; // ownerId -> research
+}
+
+export interface TurnEconomyRules {
+  startingProduction: (civId: string) => number; // Production each civilization gets every turn
+  gameData: GameDataProvider; // Tech costs
+  onProductionComplete: (city: EconomyCity, item: ProductionItem) => void;
+}
+
+/**
+ * Runs the start-of-turn economy, in the same order as the client's systems:
+ * 1. Units get their movement back and newly purchased units may act
+ * 2. Cities collect yields from worked tiles, citizens and buildings
+ * 3. Each owner's stockpile gets their civilization's starting production plus all city production,
+ *    and their research all city science
+ * 4. City production queues spend from the owner's stockpile; completed items go to onProductionComplete
+ * 5. Cities feed their citizens, grow or starve, then level up
+ */
+export function processTurnEconomy(mapData: MapData, state: TurnEconomyState, rules: TurnEconomyRules): void {
+  for (const unit of state.units) {
+    restoreUnitForTurn(unit);
+    unit.newlyPurchased = false;
+  }
+
+  for (const city of state.cities) {
+    const yields = calculateCityTurnYields(mapData, city);
+    city.resources.food += yields.food;
+    city.resources.production += yields.production;
+    city.resources.gold += yields.gold;
+    city.resources.science += yields.science;
+  }
+
+  const buildingsByCity = new Map<EconomyCity, EconomyBuilding[]>();
+  for (const building of state.buildings) {
+    const city = findOwningCity(state.cities, building.position);
+    if (city) {
+      buildingsByCity.set(city, [...(buildingsByCity.get(city) ?? []), building]);
+    }
+  }
+  for (const [city, buildings] of buildingsByCity) {
+    const yields = sumBuildingYields(buildings);
+    city.resources.food += yields.food;
+    city.resources.production += yields.production;
+    city.resources.gold += yields.gold;
+    city.resources.science += yields.science;
+  }
+
+  // Every owner with a city or a unit collects production, once per turn
+  const owners = new Map<number, string>(); // ownerId -> civId
+  for (const { ownerId, civId } of [...state.cities, ...state.units]) {
+    if (!owners.has(ownerId)) {
+      owners.set(ownerId, civId);
+    }
+  }
+  for (const [ownerId, civId] of owners) {
+    let production = state.stockpiles.get(ownerId) ?? 0;
+    production += rules.startingProduction(civId);
+    for (const city of state.cities) {
+      if (city.ownerId === ownerId && city.resources.production > 0) {
+        production += city.resources.production;
+        city.resources.production = 0;
+      }
+    }
+    state.stockpiles.set(ownerId, production);
+
+    let science = 0;
+    for (const city of state.cities) {
+      if (city.ownerId === ownerId) {
+        science += city.resources.science;
+        city.resources.science = 0;
+      }
+    }
+    const research = state.research.get(ownerId) ?? createResearchState();
+    advanceResearch(rules.gameData, research, science);
+    state.research.set(ownerId, research);
+  }
+
+  for (const city of state.cities) {
+    const available = state.stockpiles.get(city.ownerId) ?? 0;
+    const { spent, completed } = advanceProductionQueue(city.productionQueue, available);
+    state.stockpiles.set(city.ownerId, available - spent);
+    if (completed) {
+      rules.onProductionComplete(city, completed);
+    }
+  }
+
+  for (const city of state.cities) {
+    applyFoodGrowth(city, city.resources);
+    applyCityGrowth(city);
+  }
+}
@@ -0,0 +1,102 @@
+import { BaseUnitData } from '@engine/civilization/Civilization';
+
+/**
+ * Unit data structure from units.json
+ */
+export interface UnitData extends BaseUnitData {
+  productionCost?: number;
+  requiredTech?: string; // Tech (from techs.json) a civilization needs before it can produce this unit
+}
+
+/**
+ * Units data structure from units.json
+ */
+export interface UnitsData {
+  [unitType: string]: UnitData;
+}
+
+/**
+ * Building data structure from buildings.json
+ */
+export interface BuildingData {
+  name: string;
+  productionCost: number;
+  yields?: { food?: number; production?: number; gold?: number; science?: number };
+  cityBonus?: { populationGrowth?: number };
+  population?: number; // Population this building adds to the city
+  terrainRequirements?: string[]; // Array of terrain types this building can be built on
+  requiredTech?: string; // Tech (from techs.json) a civilization needs before it can build this
+  description?: string;
+}
+
+/**
+ * Buildings data structure from buildings.json
+ */
+export interface BuildingsData {
+  [buildingType: string]: BuildingData;
+}
+
+/**
+ * Tech data structure from techs.json
+ */
+export interface TechData {
+  name: string;
+  cost: number; // Science needed to research it
+  prerequisites?: string[]; // Techs that must be researched first
+  description?: string;
+}
+
+/**
+ * Techs data structure from techs.json
+ */
+export interface TechsData {
+  [techId: string]: TechData;
+}
+
+/**
+ * Where the engine gets unit, building and tech types from.
+ * The client hands it the JSON Phaser loaded; the server and tests read the same files from disk.
+ */
+export interface GameDataProvider {
+  getUnitData(unitType: string): UnitData | undefined;
+  getBuildingData(buildingType: string): BuildingData | undefined;
+  getTechData(techId: string): TechData | undefined;
+  getUnitTypes(): string[];
+  getBuildingTypes(): string[];
+  getTechTypes(): string[];
+}
+
+/**
+ * Game data backed by the parsed contents of units.json, buildings.json and techs.json
+ */
+export class JsonGameData implements GameDataProvider {
+  constructor(
+    private units: UnitsData = {},
+    private buildings: BuildingsData = {},
+    private techs: TechsData = {},
+  ) {}
+
+  getUnitData(unitType: string): UnitData | undefined {
+    return this.units[unitType];
+  }
+
+  getBuildingData(buildingType: string): BuildingData | undefined {
+    return this.buildings[buildingType];
+  }
+
+  getTechData(techId: string): TechData | undefined {
+    return this.techs[techId];
+  }
+
+  getUnitTypes(): string[] {
+    return Object.keys(this.units);
+  }
+
+  getBuildingTypes(): string[] {
+    return Object.keys(this.buildings);
+  }
+
+  getTechTypes(): string[] {
+    return Object.keys(this.techs);
+  }
+}
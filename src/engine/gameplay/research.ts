@@ -0,0 +1,103 @@
+import type { ResearchState } from '@shared/types';
+import { GameDataProvider } from './gameData';
+
+/**
+ * Research rules, shared by the client's ResearchSystem and the server's turn processing.
+ *
+ * Like economy.ts this works on plain data: a civilization's ResearchState and the techs from techs.json.
+ * Each turn a civilization's science goes into the tech it's researching; units and buildings can
+ * require a tech (`requiredTech` in units.json / buildings.json).
+ */
+
+export type { ResearchState };
+
+/**
+ * Research of a civilization that hasn't researched anything yet
+ */
+export function createResearchState(): ResearchState {
+  return { current: null, progress: 0, researched: [] };
+}
+
+/**
+ * Whether a civilization has a tech (no tech is always had)
+ */
+export function hasTech(research: ResearchState, techId: string | undefined): boolean {
+  return !techId || research.researched.includes(techId);
+}
+
+/**
+ * Checks whether a civilization may start researching a tech:
+ * it must exist, not be researched yet and have all its prerequisites researched.
+ */
+export function canResearch(
+  gameData: GameDataProvider,
+  research: ResearchState,
+  techId: string,
+): { canResearch: boolean; reason?: string } {
+  const tech = gameData.getTechData(techId);
+  if (!tech) {
+    return { canResearch: false, reason: `Unknown tech "${techId}"` };
+  }
+  if (hasTech(research, techId)) {
+    return { canResearch: false, reason: `${tech.name} is already researched` };
+  }
+  const missing = (tech.prerequisites ?? []).filter(prerequisite => !hasTech(research, prerequisite));
+  if (missing.length > 0) {
+    const names = missing.map(id => gameData.getTechData(id)?.name ?? id);
+    return { canResearch: false, reason: `${tech.name} requires ${names.join(', ')}` };
+  }
+  return { canResearch: true };
+}
+
+/**
+ * Techs a civilization may start researching now, in techs.json order
+ */
+export function getAvailableTechs(gameData: GameDataProvider, research: ResearchState): string[] {
+  return gameData.getTechTypes().filter(techId => canResearch(gameData, research, techId).canResearch);
+}
+
+/**
+ * Starts researching a tech. The science already put in carries over to it.
+ * @throws If the tech can't be researched (see canResearch)
+ */
+export function setResearch(gameData: GameDataProvider, research: ResearchState, techId: string): void {
+  const check = canResearch(gameData, research, techId);
+  if (!check.canResearch) {
+    throw new Error(check.reason);
+  }
+  research.current = techId;
+}
+
+/**
+ * Puts a turn's science into the current tech.
+ * Returns the tech that was completed, if any; science beyond its cost is kept for the next one.
+ * Without a current tech the science is kept too, so picking one late loses nothing.
+ */
+export function advanceResearch(gameData: GameDataProvider, research: ResearchState, science: number): string | null {
+  research.progress += science;
+
+  const techId = research.current;
+  const tech = techId ? gameData.getTechData(techId) : undefined;
+  if (!techId || !tech || research.progress < tech.cost) {
+    return null;
+  }
+
+  research.researched.push(techId);
+  research.progress -= tech.cost;
+  research.current = null;
+  return techId;
+}
+
+/**
+ * Why a civilization can't produce something that requires a tech (null if it can)
+ */
+export function getMissingTechReason(
+  gameData: GameDataProvider,
+  research: ResearchState,
+  requiredTech: string | undefined,
+): string | null {
+  if (hasTech(research, requiredTech)) {
+    return null;
+  }
+  return `Requires ${gameData.getTechData(requiredTech!)?.name ?? requiredTech}`;
+}
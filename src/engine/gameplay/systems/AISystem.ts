@@ -0,0 +1,49 @@
+import { System } from '@engine/ecs';
+import { GameState } from '@/state/GameState';
+import { IntentQueue } from '@/state/IntentQueue';
+import { AIController } from '@engine/ai/AIController';
+
+/**
+ * Plays the computer players' turns in single player (GameState.ai).
+ * While one of them is the current player it queues one of their actions per frame, as decided by the
+ * AIController, and the gameplay systems apply it like a human's. Their last action is ending their turn.
+ * In multiplayer, skip - every player is human.
+ */
+export class AISystem extends System {
+  private intents: IntentQueue;
+  private gameState: GameState;
+  private controller: AIController;
+  private endedTurn: string | null = null; // The computer player's turn that was last ended (turn:playerId)
+
+  constructor(intents: IntentQueue, gameState: GameState, controller: AIController) {
+    super();
+    this.intents = intents;
+    this.gameState = gameState;
+    this.controller = controller;
+  }
+
+  update(_dt: number): void {
+    if (this.gameState.isMultiplayer || this.gameState.result) {
+      return;
+    }
+
+    const playerId = this.gameState.currentPlayerId;
+    const difficulty = this.gameState.ai[playerId];
+    const player = this.gameState.players.find(p => p.playerId === playerId);
+    if (!difficulty || !player) {
+      return;
+    }
+
+    // Wait for TurnSystem to pass the turn on
+    const turnKey = `${this.gameState.turn}:${playerId}`;
+    if (this.endedTurn === turnKey) {
+      return;
+    }
+
+    const intent = this.controller.nextIntent(this.world, player, this.gameState.turn, difficulty);
+    if (intent.type === 'EndTurn') {
+      this.endedTurn = turnKey;
+    }
+    this.intents.push(intent);
+  }
+}
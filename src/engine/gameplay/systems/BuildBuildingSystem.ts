@@ -3,38 +3,48 @@ import { IntentQueue, isIntent } from '@/state/IntentQueue';
 import { GameState } from '@/state/GameState';
 import * as Components from '../components';
 import { BuildingFactory } from '@/utils/buildingFactory';
-import { BuildingsData } from '@/utils/buildingFactory';
+import { GameDataProvider } from '../gameData';
+import { MapData } from '@engine/map/MapData';
 import { CivilizationProductionSystem } from './CivilizationProductionSystem';
+import { ResearchSystem } from './ResearchSystem';
+import { getMissingTechReason } from '../research';
 import { logger } from '@/utils/logger';
 import { DEFAULT_CIVILIZATION_ID } from '@config/game';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Handles building placement on tiles.
  * When a building is completed in production, it needs to be placed on a tile.
  * This system handles the BuildBuilding intent to place buildings.
  * Multiplayer-safe: checks ownership and spends production.
+ * Buildings that require a tech can only be built once the civilization has researched it.
  */
 export class BuildBuildingSystem extends System {
   private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
-  private gameScene: Phaser.Scene;
+  private events: EventBus;
+  private gameData: GameDataProvider;
   private gameState: GameState;
   private civilizationProductionSystem: CivilizationProductionSystem;
+  private mapData: MapData;
+  private researchSystem: ResearchSystem;
 
   constructor(
     intents: IntentQueue,
-    events: Phaser.Events.EventEmitter,
-    gameScene: Phaser.Scene,
+    events: EventBus,
+    gameData: GameDataProvider,
     gameState: GameState,
     civilizationProductionSystem: CivilizationProductionSystem,
+    mapData: MapData,
+    researchSystem: ResearchSystem,
   ) {
     super();
     this.intents = intents;
     this.events = events;
-    this.gameScene = gameScene;
+    this.gameData = gameData;
     this.gameState = gameState;
     this.civilizationProductionSystem = civilizationProductionSystem;
+    this.mapData = mapData;
+    this.researchSystem = researchSystem;
   }
 
   update(_dt: number): void {
@@ -67,8 +77,7 @@ export class BuildBuildingSystem extends System {
 
     // Get building data and production cost
     try {
-      const buildingsData = this.gameScene.cache.json.get('buildings') as BuildingsData;
-      const buildingData = buildingsData[buildingType];
+      const buildingData = this.gameData.getBuildingData(buildingType);
       if (!buildingData) {
         logger.warn(`Building type "${buildingType}" not found in buildings.json`);
         return;
@@ -80,6 +89,13 @@ export class BuildBuildingSystem extends System {
       const civilization = this.world.getComponent(cityEntity, Components.CivilizationComponent);
       const civId = civilization?.civId || DEFAULT_CIVILIZATION_ID;
 
+      // Check the civilization has the tech the building requires
+      const missingTech = getMissingTechReason(this.gameData, this.researchSystem.getResearch(civId), buildingData.requiredTech);
+      if (missingTech) {
+        logger.warn(`Cannot build ${buildingType}: ${missingTech}`);
+        return;
+      }
+
       // Check if we have enough production
       const availableProduction = this.civilizationProductionSystem.getProduction(civId);
       if (availableProduction < productionCost) {
@@ -88,20 +104,14 @@ export class BuildBuildingSystem extends System {
       }
 
       // Check if building can be built on this tile
-      const mapData = (this.gameScene as any).mapData;
-      if (!mapData) {
-        logger.warn('MapData not available in gameScene');
-        return;
-      }
-
       const canBuildOnTile = BuildingFactory.canBuildOnTile(
         this.world,
-        mapData,
+        this.mapData,
         buildingType,
         tx,
         ty,
         cityEntity,
-        this.gameScene,
+        this.gameData,
       );
 
       if (!canBuildOnTile.canBuild) {
@@ -117,10 +127,11 @@ export class BuildBuildingSystem extends System {
         // Skip population changes - server is authoritative
         const building = BuildingFactory.createBuilding(
           this.world,
+          this.mapData,
           buildingType,
           { tx, ty },
           cityEntity,
-          this.gameScene,
+          this.gameData,
           true, // Skip population change - server is authoritative
         );
         
@@ -141,10 +152,11 @@ export class BuildBuildingSystem extends System {
       // Create the building (population changes allowed in single-player)
       const building = BuildingFactory.createBuilding(
         this.world,
+        this.mapData,
         buildingType,
         { tx, ty },
         cityEntity,
-        this.gameScene,
+        this.gameData,
         false, // Allow population changes in single-player
       );
 
@@ -1,109 +1,62 @@
-import { System, Entity } from '@engine/ecs';
-import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { System, Entity, TurnPhaseSlot } from '@engine/ecs';
 import { GameState } from '@/state/GameState';
 import * as Components from '../components';
-import { logger } from '@/utils/logger';
-import Phaser from 'phaser';
+import { findOwningCity, sumBuildingYields } from '../economy';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
- * Applies building yields to cities.
- * Buildings can provide yields (food, production, gold) and city bonuses (population growth).
+ * Applies building yields to cities at the start of each turn (income phase, after tile yields).
+ * Buildings can provide yields (food, production, gold, science) and city bonuses (population growth).
+ * In multiplayer, the server runs the same rules (economy.ts) and yields come via state sync.
  */
 export class BuildingYieldSystem extends System {
-  private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'building-yields', phase: 'income', order: 20 }];
+
+  private events: EventBus;
   private gameState: GameState;
-  private lastProcessedTurn: number = -1;
 
-  constructor(intents: IntentQueue, events: Phaser.Events.EventEmitter, gameState: GameState) {
+  constructor(events: EventBus, gameState: GameState) {
     super();
-    this.intents = intents;
     this.events = events;
     this.gameState = gameState;
   }
 
-  update(_dt: number): void {
-    const turnBegan = this.intents.peek(isIntent('TurnBegan'));
-    if (!turnBegan) {
-      this.lastProcessedTurn = -1;
+  runTurnPhase(): void {
+    // In multiplayer, skip - the server is authoritative
+    if (this.gameState.isMultiplayer) {
       return;
     }
 
-    if (this.lastProcessedTurn === this.gameState.turn) {
-      return;
-    }
+    // Cities with their positions, in view order (the first city whose borders contain a building owns it)
+    const cities = this.world.view(Components.City, Components.TransformTile).map(cityEntity => ({
+      entity: cityEntity,
+      position: this.world.getComponent(cityEntity, Components.TransformTile)!,
+      population: this.world.getComponent(cityEntity, Components.City)!.population,
+    }));
 
-    // Get all buildings
-    const buildings = this.world.view(Components.Building, Components.TransformTile);
-    
     // Group buildings by their owning city
-    const buildingsByCity = new Map<Entity, Array<{ building: Components.Building; entity: Entity }>>();
-    
-    for (const buildingEntity of buildings) {
+    const buildingsByCity = new Map<Entity, Components.Building[]>();
+    for (const buildingEntity of this.world.view(Components.Building, Components.TransformTile)) {
       const building = this.world.getComponent(buildingEntity, Components.Building)!;
       const buildingPos = this.world.getComponent(buildingEntity, Components.TransformTile)!;
-      
-      // Find which city owns this tile (using city borders)
-      const owningCity = this.findOwningCity(buildingPos.tx, buildingPos.ty);
+
+      const owningCity = findOwningCity(cities, buildingPos);
       if (owningCity) {
-        if (!buildingsByCity.has(owningCity)) {
-          buildingsByCity.set(owningCity, []);
-        }
-        buildingsByCity.get(owningCity)!.push({ building, entity: buildingEntity });
+        buildingsByCity.set(owningCity.entity, [...(buildingsByCity.get(owningCity.entity) ?? []), building]);
       }
     }
 
     // Apply yields to each city
     for (const [cityEntity, cityBuildings] of buildingsByCity.entries()) {
       const resources = this.world.getComponent(cityEntity, Components.Resources);
-      const city = this.world.getComponent(cityEntity, Components.City);
-      
-      if (!resources || !city) continue;
-
-      let totalProduction = 0;
-      let totalGold = 0;
-
-      for (const { building } of cityBuildings) {
-        // Add yields
-        if (building.yields.production) totalProduction += building.yields.production;
-        if (building.yields.gold) totalGold += building.yields.gold;
-        
-        // Population growth bonuses removed - cities no longer grow automatically
-      }
+      if (!resources) continue;
 
-      if (totalProduction > 0 || totalGold > 0) {
-        resources.add(totalProduction, totalGold);
+      const yields = sumBuildingYields(cityBuildings);
+      if (yields.food > 0 || yields.production > 0 || yields.gold > 0 || yields.science > 0) {
+        resources.add(yields.production, yields.gold, yields.food, yields.science);
       }
     }
 
-    this.lastProcessedTurn = this.gameState.turn;
-
     this.events.emit('ui-update');
   }
-
-  /**
-   * Finds the city that owns a tile (within city borders).
-   */
-  private findOwningCity(tx: number, ty: number): Entity | null {
-    const cities = this.world.view(Components.City, Components.TransformTile);
-    
-    for (const cityEntity of cities) {
-      const city = this.world.getComponent(cityEntity, Components.City);
-      const transform = this.world.getComponent(cityEntity, Components.TransformTile);
-      
-      if (!city || !transform) continue;
-      
-      const sightRange = city.getSightRange();
-      const dx = Math.abs(transform.tx - tx);
-      const dy = Math.abs(transform.ty - ty);
-      const distance = Math.max(dx, dy); // Chebyshev distance
-      
-      if (distance <= sightRange) {
-        return cityEntity;
-      }
-    }
-    
-    return null;
-  }
 }
-
@@ -0,0 +1,120 @@
+import { System } from '@engine/ecs';
+import { GameState } from '@/state/GameState';
+import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import * as Components from '@engine/gameplay/components';
+import { canCaptureCity } from '../combat';
+import { canRazeCity } from '../victory';
+import { logger } from '@/utils/logger';
+import { CityCombat } from '@/utils/cityCombat';
+import { CityCapturedEvent, EventBus } from '@engine/events/EventBus';
+
+/**
+ * Handles a melee unit moving into an enemy city that has no health left (see canCaptureCity in combat.ts).
+ * The unit takes the city with its buildings, production queue and borders, or razes it
+ * (the city and its buildings are destroyed - capitals can't be). Either way the unit ends up on the city's tile with no movement left.
+ * In multiplayer the server applies the same rules and its state sync is authoritative.
+ */
+export class CaptureCitySystem extends System {
+  private intents: IntentQueue;
+  private events: EventBus;
+  private gameState: GameState;
+
+  constructor(intents: IntentQueue, events: EventBus, gameState: GameState) {
+    super();
+    this.intents = intents;
+    this.events = events;
+    this.gameState = gameState;
+  }
+
+  update(_dt: number): void {
+    const intent = this.intents.pop(isIntent('CaptureCity'));
+    if (!intent) return;
+
+    const { unit: unitEntity, city: cityEntity, raze } = intent.payload;
+
+    const unit = this.world.getComponent(unitEntity, Components.Unit);
+    const unitPos = this.world.getComponent(unitEntity, Components.TransformTile);
+    const unitOwner = this.world.getComponent(unitEntity, Components.Owner);
+    const city = CityCombat.getState(this.world, cityEntity);
+    if (!unit || !unitPos || !unitOwner || !city) {
+      logger.warn('CaptureCity intent received without a unit and a city');
+      return;
+    }
+
+    // In multiplayer, check if this unit belongs to the local player
+    // In single-player, check if it belongs to the current player
+    const canControl = this.gameState.isMultiplayer
+      ? unitOwner.playerId === this.gameState.localPlayerId
+      : this.gameState.isCurrentPlayer(unitOwner.playerId);
+    if (!canControl) {
+      logger.warn('CaptureCity intent received for unit not owned by current player');
+      return;
+    }
+
+    const check = canCaptureCity({ ownerId: unitOwner.playerId, canAttack: unit.canAttack, mp: unit.mp, position: unitPos }, city);
+    if (!check.canCapture) {
+      logger.warn(`Cannot capture city: ${check.reason}`);
+      return;
+    }
+    if (this.isDefended(city.position)) {
+      logger.warn('Cannot capture city: a unit is defending it');
+      return;
+    }
+    const razeCheck = canRazeCity(city);
+    if (raze && !razeCheck.canRaze) {
+      logger.warn(`Cannot raze city: ${razeCheck.reason}`);
+      return;
+    }
+
+    // Emitted while the city still exists, so listeners can read its components
+    const captured: CityCapturedEvent = {
+      entity: cityEntity,
+      previousOwnerId: city.ownerId,
+      newOwnerId: unitOwner.playerId,
+      razed: raze,
+    };
+    this.events.emit('city-captured', captured);
+
+    const buildings = CityCombat.getBuildings(this.world, cityEntity);
+    if (raze) {
+      for (const building of buildings) {
+        this.world.destroyEntity(building);
+      }
+      this.world.destroyEntity(cityEntity);
+      if (this.gameState.selectedEntity === cityEntity) {
+        this.gameState.selectedEntity = null;
+      }
+      logger.info(`City at (${city.position.tx}, ${city.position.ty}) razed`);
+    } else {
+      const civ = this.world.getComponent(unitEntity, Components.CivilizationComponent);
+      for (const entity of [cityEntity, ...buildings]) {
+        this.world.getComponent(entity, Components.Owner)!.playerId = unitOwner.playerId;
+        const entityCiv = this.world.getComponent(entity, Components.CivilizationComponent);
+        if (entityCiv && civ) {
+          entityCiv.civId = civ.civId;
+        }
+      }
+      // The new owner starts with the city at full health
+      this.world.getComponent(cityEntity, Components.City)!.damage = 0;
+      logger.info(`City at (${city.position.tx}, ${city.position.ty}) captured by player ${unitOwner.playerId}`);
+    }
+
+    // The unit moves in and is done for the turn
+    unitPos.tx = city.position.tx;
+    unitPos.ty = city.position.ty;
+    unit.mp = 0;
+    unit.path = [];
+
+    this.events.emit('ui-update');
+  }
+
+  /**
+   * Whether a unit stands on the city's tile
+   */
+  private isDefended(position: { tx: number; ty: number }): boolean {
+    return this.world.view(Components.Unit, Components.TransformTile).some(entity => {
+      const transform = this.world.getComponent(entity, Components.TransformTile)!;
+      return transform.tx === position.tx && transform.ty === position.ty;
+    });
+  }
+}
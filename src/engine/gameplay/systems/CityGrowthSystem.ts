@@ -1,14 +1,18 @@
-import { System } from '@engine/ecs';
-import { City, TransformTile } from '../components';
+import { System, TurnPhaseSlot } from '@engine/ecs';
+import { City, Resources, TransformTile } from '../components';
+import { applyCityGrowth, applyFoodGrowth } from '../economy';
 import { GameState } from '@/state/GameState';
 import { logger } from '@/utils/logger';
 
 /**
- * Handles city level growth based on population.
- * Cities level up when their population meets the cumulative requirement for the next level.
- * In multiplayer, city level-ups are server-authoritative and come via state sync.
+ * Handles city growth once per turn (growth phase, after the turn's food was collected).
+ * Citizens eat from the city's food stockpile: a full stockpile adds a citizen, an empty one starves one.
+ * Cities then level up when their population meets the cumulative requirement for the next level.
+ * In multiplayer, city growth is server-authoritative and comes via state sync.
  */
 export class CityGrowthSystem extends System {
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'city-growth', phase: 'growth', order: 10 }];
+
   private gameState: GameState;
 
   constructor(gameState: GameState) {
@@ -16,21 +20,30 @@ export class CityGrowthSystem extends System {
     this.gameState = gameState;
   }
 
-  update(_dt: number): void {
-    // In multiplayer, skip local level-up checks - server is authoritative
-    // City level-ups will come through server state updates
+  runTurnPhase(): void {
+    // In multiplayer, skip local growth - server is authoritative
+    // Population and level changes will come through server state updates
     if (this.gameState.isMultiplayer) {
       return;
     }
 
-    // Single-player: process city level-ups locally
+    // Single-player: grow cities locally
     const cities = this.world.view(City, TransformTile);
     for (const cityEntity of cities) {
       const city = this.world.getComponent(cityEntity, City)!;
-      
-      // Check if city can level up based on population
-      if (city.tryLevelUp()) {
-        const transform = this.world.getComponent(cityEntity, TransformTile)!;
+      const transform = this.world.getComponent(cityEntity, TransformTile)!;
+
+      // Feed the citizens, then grow or starve (same rules as the server's turn processing)
+      const resources = this.world.getComponent(cityEntity, Resources);
+      const populationChange = resources ? applyFoodGrowth(city, resources) : 0;
+      if (populationChange > 0) {
+        logger.info(`City at (${transform.tx}, ${transform.ty}) grew to population ${city.population}`);
+      } else if (populationChange < 0) {
+        logger.info(`City at (${transform.tx}, ${transform.ty}) is starving (population: ${city.population})`);
+      }
+
+      // Level up as far as the population allows (same rule as the server's turn processing)
+      if (applyCityGrowth(city) > 0) {
         logger.info(`City at (${transform.tx}, ${transform.ty}) leveled up to level ${city.level} (population: ${city.population})`);
       }
     }
@@ -1,33 +1,31 @@
-import { System, Entity } from '@engine/ecs';
-import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { System, Entity, TurnPhaseSlot } from '@engine/ecs';
 import { GameState } from '@/state/GameState';
 import * as Components from '../components';
 import { CivilizationRegistry } from '@engine/civilization/Civilization';
-import { logger } from '@/utils/logger';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Manages civilization-level production.
- * Aggregates production from all cities and adds starting production per turn.
+ * Aggregates production from all cities and adds starting production per turn
+ * (last in the income phase, once tile and building yields are in the city stockpiles).
+ * In multiplayer, the server runs the same rules (economy.ts) and the stockpile comes via state sync.
  */
 export class CivilizationProductionSystem extends System {
-  private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'civilization-production', phase: 'income', order: 30 }];
+
+  private events: EventBus;
   private civilizationRegistry: CivilizationRegistry;
   private gameState: GameState;
   
   // Track civilization production by civId
   private civilizationProduction: Map<string, number> = new Map();
-  private lastProcessedTurn: number = -1;
 
   constructor(
-    intents: IntentQueue,
-    events: Phaser.Events.EventEmitter,
+    events: EventBus,
     civilizationRegistry: CivilizationRegistry,
     gameState: GameState,
   ) {
     super();
-    this.intents = intents;
     this.events = events;
     this.civilizationRegistry = civilizationRegistry;
     this.gameState = gameState;
@@ -40,6 +38,13 @@ export class CivilizationProductionSystem extends System {
     return this.civilizationProduction.get(civId) || 0;
   }
 
+  /**
+   * Gets the production stockpile of every civilization, by civId (e.g. for saving).
+   */
+  public getAllProduction(): Record<string, number> {
+    return Object.fromEntries(this.civilizationProduction);
+  }
+
   /**
    * Adds production to a civilization.
    */
@@ -48,6 +53,13 @@ export class CivilizationProductionSystem extends System {
     this.civilizationProduction.set(civId, current + amount);
   }
 
+  /**
+   * Replaces a civilization's production (e.g. with the server's stockpile in multiplayer).
+   */
+  public setProduction(civId: string, amount: number): void {
+    this.civilizationProduction.set(civId, amount);
+  }
+
   /**
    * Spends production from a civilization.
    */
@@ -74,19 +86,9 @@ export class CivilizationProductionSystem extends System {
     this.civilizationProduction.set(civId, startingProduction);
   }
 
-  update(_dt: number): void {
-    const turnBegan = this.intents.peek(isIntent('TurnBegan'));
-    if (!turnBegan) {
-      return;
-    }
-
-    // Only process once per turn
-    if (this.lastProcessedTurn === this.gameState.turn) {
-      return;
-    }
-    
-    if (this.lastProcessedTurn !== -1 && this.lastProcessedTurn >= this.gameState.turn) {
-      logger.warn(`CivilizationProductionSystem: Turn processing out of sync`);
+  runTurnPhase(): void {
+    // In multiplayer, skip - the server is authoritative
+    if (this.gameState.isMultiplayer) {
       return;
     }
 
@@ -153,8 +155,6 @@ export class CivilizationProductionSystem extends System {
       }
     }
 
-    this.lastProcessedTurn = this.gameState.turn;
-
     this.events.emit('ui-update');
   }
 }
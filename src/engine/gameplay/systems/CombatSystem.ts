@@ -1,30 +1,34 @@
 import { System, Entity } from '@engine/ecs';
 import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { GameState } from '@/state/GameState';
 import * as Components from '../components';
-import { COMBAT } from '@config/game';
+import { createActionRng } from '@engine/math/rng';
+import { areAdjacent, resolveCityCombat, resolveCombat } from '../combat';
+import type { CombatResult } from '@shared/types';
 import { logger } from '@/utils/logger';
-import Phaser from 'phaser';
+import { CityCombat } from '@/utils/cityCombat';
+import { CityDamagedEvent, EventBus, UnitDamagedEvent, UnitDestroyedEvent } from '@engine/events/EventBus';
 
 /**
- * Handles combat between units.
- * When a unit attacks another, damage is calculated and applied.
- * Units with 0 health are destroyed.
+ * Handles combat: units attacking units or enemy cities.
+ * When a unit attacks, damage is resolved by the shared combat rules (combat.ts) and applied.
+ * Units with 0 health are destroyed; cities with 0 health are left for a melee unit to take (CaptureCitySystem).
+ * Damage numbers and sprite cleanup are left to the renderer (unit-damaged / city-damaged / unit-destroyed events).
  */
 export class CombatSystem extends System {
   private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
-  private gameScene: Phaser.Scene;
-  private damageNumbers: Map<Entity, Phaser.GameObjects.Text> = new Map();
+  private events: EventBus;
+  private gameState: GameState;
 
   constructor(
     intents: IntentQueue,
-    events: Phaser.Events.EventEmitter,
-    gameScene: Phaser.Scene,
+    events: EventBus,
+    gameState: GameState,
   ) {
     super();
     this.intents = intents;
     this.events = events;
-    this.gameScene = gameScene;
+    this.gameState = gameState;
   }
 
   update(_dt: number): void {
@@ -33,6 +37,20 @@ export class CombatSystem extends System {
 
     const { attacker, target } = attack.payload;
 
+    // Resolved by the server - every client shows its result
+    if (attack.result) {
+      this.applyResult(attacker, target, attack.result);
+      return;
+    }
+    // In multiplayer the server rolls the dice; the result comes back with its response (see NetworkIntentQueue)
+    if (this.gameState.isMultiplayer) return;
+
+    // Cities are attacked by their own rules
+    if (this.world.hasComponent(target, Components.City)) {
+      this.attackCity(attacker, target);
+      return;
+    }
+
     // Verify both entities are units
     const attackerUnit = this.world.getComponent(attacker, Components.Unit);
     const targetUnit = this.world.getComponent(target, Components.Unit);
@@ -57,106 +75,88 @@ export class CombatSystem extends System {
       return;
     }
 
-    // Check adjacency (4-way neighbors)
-    const dx = Math.abs(attackerPos.tx - targetPos.tx);
-    const dy = Math.abs(attackerPos.ty - targetPos.ty);
-    const isAdjacent = (dx === 1 && dy === 0) || (dx === 0 && dy === 1);
-
-    if (!isAdjacent) {
+    if (!areAdjacent(attackerPos, targetPos)) {
       logger.warn('Cannot attack: units are not adjacent');
       return;
     }
 
-    // Calculate damage
-    const damage = this.calculateDamage(attackerUnit.attack, targetUnit.defense);
-
-    // Apply damage
-    targetUnit.health = Math.max(0, targetUnit.health - damage);
-
-    // Show damage number
-    this.showDamageNumber(target, damage);
+    // Each attack draws from its own stream of the game's seed
+    this.gameState.actionSeq += 1;
+    const rng = createActionRng(this.gameState.seed, this.gameState.actionSeq);
+    this.applyResult(attacker, target, resolveCombat(attackerUnit, targetUnit, rng));
+  }
 
-    logger.debug(
-      `Unit attacked: ${damage} damage dealt. Target health: ${targetUnit.health}/${targetUnit.maxHealth}`,
-    );
+  /**
+   * Resolves a unit's attack on an enemy city next to it.
+   */
+  private attackCity(attacker: Entity, target: Entity): void {
+    const attackerUnit = this.world.getComponent(attacker, Components.Unit);
+    const attackerPos = this.world.getComponent(attacker, Components.TransformTile);
+    const attackerOwner = this.world.getComponent(attacker, Components.Owner);
+    const city = CityCombat.getState(this.world, target);
 
-    // Check if target is dead
-    if (targetUnit.health <= 0) {
-      this.destroyUnit(target);
+    if (!attackerUnit || !attackerPos || !attackerOwner || !city) {
+      logger.warn('Attack intent received for a city without a unit to attack it');
+      return;
+    }
+    if (!attackerUnit.canAttack) {
+      logger.warn('Unit cannot attack');
+      return;
+    }
+    if (city.ownerId === attackerOwner.playerId) {
+      logger.warn('Cannot attack your own city');
+      return;
+    }
+    if (!areAdjacent(attackerPos, city.position)) {
+      logger.warn('Cannot attack: city is not adjacent');
+      return;
     }
 
-    // Attacker loses MP (attacking costs movement)
-    attackerUnit.mp = Math.max(0, attackerUnit.mp - 1);
-
-    this.events.emit('ui-update');
+    this.gameState.actionSeq += 1;
+    const rng = createActionRng(this.gameState.seed, this.gameState.actionSeq);
+    this.applyResult(attacker, target, resolveCityCombat(attackerUnit, city, rng));
   }
 
   /**
-   * Calculates damage based on attack and defense stats.
-   * Uses configuration-driven variance for randomness.
+   * Applies the result of an attack: damage (and death) to the target, movement spent by the attacker.
    */
-  private calculateDamage(attack: number, defense: number): number {
-    // Base damage is attack value
-    // Defense reduces damage: damage = attack * (1 - defense / (defense + attack))
-    const defenseReduction = defense / (defense + attack);
-    const baseDamage = attack * (1 - defenseReduction);
-
-    // Add random variance
-    const variance = COMBAT.DAMAGE_VARIANCE;
-    const randomFactor = 1 + (Math.random() * 2 - 1) * variance; // Random between (1-variance) and (1+variance)
-    const damage = Math.max(COMBAT.MIN_DAMAGE, Math.round(baseDamage * randomFactor));
-
-    return damage;
-  }
+  private applyResult(attacker: Entity, target: Entity, result: CombatResult): void {
+    const targetCity = this.world.getComponent(target, Components.City);
+    const cityPos = this.world.getComponent(target, Components.TransformTile);
+    if (targetCity && cityPos) {
+      targetCity.damage += result.damage;
+
+      const damaged: CityDamagedEvent = { entity: target, damage: result.damage, position: { tx: cityPos.tx, ty: cityPos.ty } };
+      this.events.emit('city-damaged', damaged);
+      logger.debug(`City attacked: ${result.damage} damage dealt. Health left: ${result.defenderHealth}`);
+    }
 
-  /**
-   * Shows a damage number above the unit briefly.
-   */
-  private showDamageNumber(unitEntity: Entity, damage: number): void {
-    // Get unit sprite position
-    interface GameSceneWithSprites {
-      unitSprites?: Map<Entity, Phaser.GameObjects.Sprite>;
+    const targetUnit = this.world.getComponent(target, Components.Unit);
+    const targetPos = this.world.getComponent(target, Components.TransformTile);
+    if (targetUnit && targetPos) {
+      targetUnit.health = result.defenderHealth;
+
+      // Let the renderer show a damage number
+      const damaged: UnitDamagedEvent = { entity: target, damage: result.damage, position: { tx: targetPos.tx, ty: targetPos.ty } };
+      this.events.emit('unit-damaged', damaged);
+
+      logger.debug(
+        `Unit attacked: ${result.damage} damage dealt. Target health: ${targetUnit.health}/${targetUnit.maxHealth}`,
+      );
+
+      // Check if target is dead
+      if (result.defenderDestroyed) {
+        this.destroyUnit(target);
+      }
     }
-    const gameScene = this.gameScene as GameSceneWithSprites;
-    const unitSprite = gameScene.unitSprites?.get(unitEntity);
-    if (!unitSprite) return;
-
-    // Remove existing damage number if any
-    const existing = this.damageNumbers.get(unitEntity);
-    if (existing) {
-      existing.destroy();
+
+    // Attacker loses MP (attacking costs movement)
+    const attackerUnit = this.world.getComponent(attacker, Components.Unit);
+    if (attackerUnit) {
+      attackerUnit.mp = Math.max(0, attackerUnit.mp - 1);
     }
 
-    // Create damage number text
-    const damageText = this.gameScene.add.text(
-      unitSprite.x,
-      unitSprite.y + COMBAT.DAMAGE_NUMBER_OFFSET_Y,
-      `-${damage}`,
-      {
-        fontSize: COMBAT.DAMAGE_NUMBER_FONT_SIZE,
-        color: `#${COMBAT.DAMAGE_NUMBER_COLOR.toString(16).padStart(6, '0')}`,
-        fontFamily: 'Arial',
-        stroke: '#000000',
-        strokeThickness: 3,
-      },
-    );
-    damageText.setOrigin(0.5, 0.5);
-    damageText.setDepth(unitSprite.y + 1000); // Above everything
-
-    this.damageNumbers.set(unitEntity, damageText);
-
-    // Animate and remove after duration
-    this.gameScene.tweens.add({
-      targets: damageText,
-      y: damageText.y - 30,
-      alpha: 0,
-      duration: COMBAT.DAMAGE_NUMBER_DURATION,
-      ease: 'Power2',
-      onComplete: () => {
-        damageText.destroy();
-        this.damageNumbers.delete(unitEntity);
-      },
-    });
+    this.events.emit('ui-update');
   }
 
   /**
@@ -166,25 +166,14 @@ export class CombatSystem extends System {
     logger.debug('Unit destroyed');
     
     // Remove from game state if selected
-    interface GameSceneWithState {
-      gameState?: { selectedEntity: Entity | null; moveMode: boolean };
-      unitSprites?: Map<Entity, Phaser.GameObjects.Sprite>;
-    }
-    const gameScene = this.gameScene as GameSceneWithState;
-    
-    if (gameScene.gameState && gameScene.gameState.selectedEntity === entity) {
-      gameScene.gameState.selectedEntity = null;
-      gameScene.gameState.moveMode = false;
+    if (this.gameState.selectedEntity === entity) {
+      this.gameState.selectedEntity = null;
+      this.gameState.moveMode = false;
     }
 
-    // Clean up unit sprite immediately
-    if (gameScene.unitSprites) {
-      const sprite = gameScene.unitSprites.get(entity);
-      if (sprite) {
-        sprite.destroy();
-        gameScene.unitSprites.delete(entity);
-      }
-    }
+    // Emitted while the entity still exists, so listeners can read its components
+    const destroyed: UnitDestroyedEvent = { entity };
+    this.events.emit('unit-destroyed', destroyed);
 
     // Destroy the entity
     this.world.destroyEntity(entity);
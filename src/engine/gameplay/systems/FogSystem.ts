@@ -1,35 +1,33 @@
-import { System } from '@engine/ecs';
+import { System, TurnPhaseSlot } from '@engine/ecs';
 import { FogOfWar } from '@engine/map/FogOfWar';
-import { IntentQueue, isIntent } from '@/state/IntentQueue';
-import { GameState } from '@/state/GameState';
 import { Owner, TransformTile, Unit, City } from '../components';
 
 /**
  * Manages Fog of War updates.
- * It listens for `TurnBegan` intents or detects unit movement, then triggers
- * a recomputation of the visible tiles. Also includes cities in fog computation.
+ * It recomputes the visible tiles after each turn transition (end-of-turn phase, once units
+ * were produced and cities grew) or when it detects unit movement. Also includes cities in fog computation.
  */
 export class FogSystem extends System {
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'fog', phase: 'endOfTurn', order: 10 }];
+
   private fogOfWar: FogOfWar;
-  private intents: IntentQueue;
-  private gameState: GameState;
   private lastUnitPositions = new Map<number, string>();
   private lastCityPopulations = new Map<number, number>();
-  private hasComputedInitialFog = false;
+  private recomputeRequested = true; // Also computes the initial fog
 
-  constructor(fogOfWar: FogOfWar, intents: IntentQueue, gameState: GameState) {
+  constructor(fogOfWar: FogOfWar) {
     super();
     this.fogOfWar = fogOfWar;
-    this.intents = intents;
-    this.gameState = gameState;
+  }
+
+  runTurnPhase(): void {
+    this.recomputeRequested = true;
   }
 
   update(_dt: number): void {
-    // Pop the intent to consume it (prevents infinite recomputation)
-    const turnBegan = this.intents.pop(isIntent('TurnBegan'));
     const units = this.world.view(Unit, TransformTile, Owner);
     const cities = this.world.view(City, TransformTile, Owner);
-    let needsRecompute = !!turnBegan || !this.hasComputedInitialFog;
+    let needsRecompute = this.recomputeRequested;
 
     // Check if any unit has moved since the last check
     // Also clean up positions for entities that no longer exist
@@ -118,7 +116,7 @@ export class FogSystem extends System {
         );
       }
 
-      this.hasComputedInitialFog = true;
+      this.recomputeRequested = false;
     }
   }
 }
@@ -3,18 +3,19 @@ import { GameState } from '@/state/GameState';
 import { IntentQueue, isIntent } from '@/state/IntentQueue';
 import * as Components from '@engine/gameplay/components';
 import { logger } from '@/utils/logger';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Handles city founding by settlers.
  * When a settler founds a city, it is consumed (destroyed) and a city is created at that location.
+ * A player's first city becomes their capital (see victory.ts).
  */
 export class FoundCitySystem extends System {
   private intents: IntentQueue;
   private gameState: GameState;
-  private events: Phaser.Events.EventEmitter;
+  private events: EventBus;
 
-  constructor(intents: IntentQueue, gameState: GameState, events: Phaser.Events.EventEmitter) {
+  constructor(intents: IntentQueue, gameState: GameState, events: EventBus) {
     super();
     this.intents = intents;
     this.gameState = gameState;
@@ -62,10 +63,16 @@ export class FoundCitySystem extends System {
     // Get the settler's civilization (if any)
     const civilization = this.world.getComponent(entity, Components.CivilizationComponent);
 
+    // A player's first city is their capital
+    const hasCapital = this.world
+      .view(Components.City)
+      .some(entity => this.world.getComponent(entity, Components.City)!.capitalOf === owner.playerId);
+
     // Create a city entity at this location
     const city = this.world.createEntity();
     this.world.addComponent(city, new Components.TransformTile(transform.tx, transform.ty));
-    this.world.addComponent(city, new Components.City(1, 1)); // Start with population 1, level 1
+    // Start with population 1, level 1
+    this.world.addComponent(city, new Components.City(1, 1, 0, hasCapital ? null : owner.playerId));
     this.world.addComponent(city, new Components.Owner(owner.playerId));
     this.world.addComponent(city, new Components.Resources(0, 0, 0)); // Start with no resources
     this.world.addComponent(city, new Components.ProductionQueue()); // Empty production queue
@@ -2,7 +2,7 @@ import { System } from '@engine/ecs';
 import { Owner, NewlyPurchased } from '../components';
 import { GameState } from '@/state/GameState';
 import { IntentQueue, isIntent } from '@/state/IntentQueue';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Handles move mode state changes.
@@ -13,9 +13,9 @@ import Phaser from 'phaser';
 export class MoveModeSystem extends System {
   private intents: IntentQueue;
   private gameState: GameState;
-  private events: Phaser.Events.EventEmitter;
+  private events: EventBus;
 
-  constructor(intents: IntentQueue, gameState: GameState, events: Phaser.Events.EventEmitter) {
+  constructor(intents: IntentQueue, gameState: GameState, events: EventBus) {
     super();
     this.intents = intents;
     this.gameState = gameState;
@@ -6,7 +6,7 @@ import { GameState } from '@/state/GameState';
 import { Owner, TransformTile, Unit, NewlyPurchased } from '../components';
 import { FogOfWar } from '@engine/map/FogOfWar';
 import { isTileInBounds } from '@engine/math/grid';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Processes `MoveTo` intents by calculating a path for the selected unit.
@@ -18,9 +18,9 @@ export class PathRequestSystem extends System {
   private mapData: MapData;
   private fogOfWar: FogOfWar;
   private gameState: GameState;
-  private events: Phaser.Events.EventEmitter;
+  private events: EventBus;
 
-  constructor(intents: IntentQueue, mapData: MapData, fogOfWar: FogOfWar, gameState: GameState, events: Phaser.Events.EventEmitter) {
+  constructor(intents: IntentQueue, mapData: MapData, fogOfWar: FogOfWar, gameState: GameState, events: EventBus) {
     super();
     this.intents = intents;
     this.mapData = mapData;
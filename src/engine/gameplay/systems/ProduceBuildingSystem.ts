@@ -2,41 +2,48 @@ import { System } from '@engine/ecs';
 import { IntentQueue, isIntent } from '@/state/IntentQueue';
 import { GameState } from '@/state/GameState';
 import * as Components from '../components';
-import { BuildingsData, BuildingFactory } from '@/utils/buildingFactory';
+import { BuildingFactory } from '@/utils/buildingFactory';
+import { GameDataProvider } from '../gameData';
 import { logger } from '@/utils/logger';
 import { CivilizationProductionSystem } from './CivilizationProductionSystem';
+import { ResearchSystem } from './ResearchSystem';
+import { getMissingTechReason } from '../research';
 import { MapData } from '@engine/map/MapData';
 import { CityBorders } from '@/utils/cityBorders';
 import { DEFAULT_CIVILIZATION_ID } from '@config/game';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Handles building production requests from cities.
  * Spends production immediately and creates buildings right away.
+ * Buildings that require a tech can only be produced once the civilization has researched it.
  */
 export class ProduceBuildingSystem extends System {
   private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
-  private gameScene: Phaser.Scene;
+  private events: EventBus;
+  private gameData: GameDataProvider;
   private gameState: GameState;
   private civilizationProductionSystem: CivilizationProductionSystem;
   private mapData: MapData;
+  private researchSystem: ResearchSystem;
 
   constructor(
     intents: IntentQueue,
-    events: Phaser.Events.EventEmitter,
-    gameScene: Phaser.Scene,
+    events: EventBus,
+    gameData: GameDataProvider,
     gameState: GameState,
     civilizationProductionSystem: CivilizationProductionSystem,
     mapData: MapData,
+    researchSystem: ResearchSystem,
   ) {
     super();
     this.intents = intents;
     this.events = events;
-    this.gameScene = gameScene;
+    this.gameData = gameData;
     this.gameState = gameState;
     this.civilizationProductionSystem = civilizationProductionSystem;
     this.mapData = mapData;
+    this.researchSystem = researchSystem;
   }
 
   update(_dt: number): void {
@@ -70,8 +77,7 @@ export class ProduceBuildingSystem extends System {
 
     // Get base building data to get production cost
     try {
-      const buildingsData = this.gameScene.cache.json.get('buildings') as BuildingsData;
-      const baseBuildingData = buildingsData[buildingType];
+      const baseBuildingData = this.gameData.getBuildingData(buildingType);
       if (!baseBuildingData) {
         logger.warn(`Building type "${buildingType}" not found in buildings.json`);
         return;
@@ -83,6 +89,13 @@ export class ProduceBuildingSystem extends System {
       const civilization = this.world.getComponent(cityEntity, Components.CivilizationComponent);
       const civId = civilization?.civId || DEFAULT_CIVILIZATION_ID;
 
+      // Check the civilization has the tech the building requires
+      const missingTech = getMissingTechReason(this.gameData, this.researchSystem.getResearch(civId), baseBuildingData.requiredTech);
+      if (missingTech) {
+        logger.warn(`Cannot produce ${buildingType}: ${missingTech}`);
+        return;
+      }
+
       // Check if we have enough production
       const availableProduction = this.civilizationProductionSystem.getProduction(civId);
       if (availableProduction < productionCost) {
@@ -106,7 +119,7 @@ export class ProduceBuildingSystem extends System {
         transform.tx,
         transform.ty,
         cityEntity,
-        this.gameScene,
+        this.gameData,
       );
 
       if (cityCenterCheck.canBuild) {
@@ -119,10 +132,11 @@ export class ProduceBuildingSystem extends System {
 
         const building = BuildingFactory.createBuilding(
           this.world,
+          this.mapData,
           buildingType,
           { tx: transform.tx, ty: transform.ty },
           cityEntity,
-          this.gameScene,
+          this.gameData,
           this.gameState.isMultiplayer, // Skip population changes in multiplayer - server is authoritative
         );
         if (building) {
@@ -145,7 +159,7 @@ export class ProduceBuildingSystem extends System {
             tile.tx,
             tile.ty,
             cityEntity,
-            this.gameScene,
+            this.gameData,
           );
 
           if (check.canBuild) {
@@ -158,10 +172,11 @@ export class ProduceBuildingSystem extends System {
 
             const building = BuildingFactory.createBuilding(
               this.world,
+              this.mapData,
               buildingType,
               tile,
               cityEntity,
-              this.gameScene,
+              this.gameData,
               this.gameState.isMultiplayer, // Skip population changes in multiplayer - server is authoritative
             );
             if (building) {
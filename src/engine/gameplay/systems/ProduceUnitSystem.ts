@@ -1,53 +1,56 @@
-import { System, Entity } from '@engine/ecs';
+import { System } from '@engine/ecs';
 import { IntentQueue, isIntent } from '@/state/IntentQueue';
 import { GameState } from '@/state/GameState';
 import * as Components from '../components';
-import { UnitsData, UnitFactory } from '@/utils/unitFactory';
+import { UnitFactory } from '@/utils/unitFactory';
+import { GameDataProvider } from '../gameData';
 import { logger } from '@/utils/logger';
 import { CivilizationProductionSystem } from './CivilizationProductionSystem';
+import { ResearchSystem } from './ResearchSystem';
+import { getMissingTechReason } from '../research';
 import { CivilizationRegistry } from '@engine/civilization/Civilization';
-import { UnitSprite } from '@platform/phaser/sprites/UnitSprite';
 import { DEFAULT_CIVILIZATION_ID } from '@config/game';
-import Phaser from 'phaser';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Handles unit production requests from cities.
  * Spends production immediately and creates units right away.
  * Units created this turn cannot act until the next turn.
+ * Units that require a tech can only be produced once the civilization has researched it.
  */
 export class ProduceUnitSystem extends System {
   private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
-  private gameScene: Phaser.Scene;
+  private events: EventBus;
+  private gameData: GameDataProvider;
   private gameState: GameState;
   private civilizationProductionSystem: CivilizationProductionSystem;
   private civilizationRegistry: CivilizationRegistry;
-  private unitSprites: Map<Entity, UnitSprite>;
+  private researchSystem: ResearchSystem;
   private unitFactory: UnitFactory | null = null;
 
   constructor(
     intents: IntentQueue,
-    events: Phaser.Events.EventEmitter,
-    gameScene: Phaser.Scene,
+    events: EventBus,
+    gameData: GameDataProvider,
     gameState: GameState,
     civilizationProductionSystem: CivilizationProductionSystem,
     civilizationRegistry: CivilizationRegistry,
-    unitSprites: Map<Entity, UnitSprite>,
+    researchSystem: ResearchSystem,
   ) {
     super();
     this.intents = intents;
     this.events = events;
-    this.gameScene = gameScene;
+    this.gameData = gameData;
     this.gameState = gameState;
     this.civilizationProductionSystem = civilizationProductionSystem;
     this.civilizationRegistry = civilizationRegistry;
-    this.unitSprites = unitSprites;
+    this.researchSystem = researchSystem;
   }
 
   private getUnitFactory(): UnitFactory {
     if (!this.unitFactory) {
       // Create UnitFactory lazily once world is available
-      this.unitFactory = new UnitFactory(this.world, this.gameScene, this.civilizationRegistry, this.unitSprites);
+      this.unitFactory = new UnitFactory(this.world, this.gameData, this.civilizationRegistry);
     }
     return this.unitFactory;
   }
@@ -83,8 +86,7 @@ export class ProduceUnitSystem extends System {
 
     // Get base unit data to get production cost
     try {
-      const unitsData = this.gameScene.cache.json.get('units') as UnitsData;
-      const baseUnitData = unitsData[unitType];
+      const baseUnitData = this.gameData.getUnitData(unitType);
       if (!baseUnitData) {
         logger.warn(`Unit type "${unitType}" not found in units.json`);
         return;
@@ -96,6 +98,13 @@ export class ProduceUnitSystem extends System {
       const civilization = this.world.getComponent(cityEntity, Components.CivilizationComponent);
       const civId = civilization?.civId || DEFAULT_CIVILIZATION_ID;
 
+      // Check the civilization has the tech the unit requires
+      const missingTech = getMissingTechReason(this.gameData, this.researchSystem.getResearch(civId), baseUnitData.requiredTech);
+      if (missingTech) {
+        logger.warn(`Cannot produce ${unitType}: ${missingTech}`);
+        return;
+      }
+
       // Check if we have enough production
       const availableProduction = this.civilizationProductionSystem.getProduction(civId);
       if (availableProduction < productionCost) {
@@ -1,62 +1,62 @@
-import { System, Entity } from '@engine/ecs';
-import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { System, Entity, TurnPhaseSlot } from '@engine/ecs';
+import { GameState } from '@/state/GameState';
 import * as Components from '../components';
 import { CivilizationRegistry } from '@engine/civilization/Civilization';
 import { UnitFactory } from '@/utils/unitFactory';
 import { BuildingFactory } from '@/utils/buildingFactory';
 import { CityBorders } from '@/utils/cityBorders';
 import { MapData } from '@engine/map/MapData';
-import { UnitSprite } from '@platform/phaser/sprites/UnitSprite';
+import { GameDataProvider } from '../gameData';
 import { DEFAULT_CIVILIZATION_ID } from '@config/game';
 import { logger } from '@/utils/logger';
 import { CivilizationProductionSystem } from './CivilizationProductionSystem';
-import Phaser from 'phaser';
+import { advanceProductionQueue } from '../economy';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
- * Handles city production.
+ * Handles city production (production phase, after the income phase filled the civilization stockpile).
  * Cities use civilization-level production to complete items in their queue.
+ * In multiplayer, the server runs the same rules (economy.ts) and produced units come via state sync.
  */
 export class ProductionSystem extends System {
-  private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'production-queues', phase: 'production', order: 10 }];
+
+  private events: EventBus;
   private unitFactory: UnitFactory | null = null;
-  private gameScene: Phaser.Scene;
+  private gameData: GameDataProvider;
+  private gameState: GameState;
   private mapData: MapData;
   private civilizationProductionSystem: CivilizationProductionSystem;
   private civilizationRegistry: CivilizationRegistry;
-  private unitSprites: Map<Entity, UnitSprite>;
 
   constructor(
-    intents: IntentQueue,
-    events: Phaser.Events.EventEmitter,
-    gameScene: Phaser.Scene,
+    events: EventBus,
+    gameData: GameDataProvider,
+    gameState: GameState,
     civilizationRegistry: CivilizationRegistry,
-    unitSprites: Map<Entity, UnitSprite>,
     mapData: MapData,
     civilizationProductionSystem: CivilizationProductionSystem,
   ) {
     super();
-    this.intents = intents;
     this.events = events;
-    this.gameScene = gameScene;
+    this.gameData = gameData;
+    this.gameState = gameState;
     this.mapData = mapData;
     this.civilizationProductionSystem = civilizationProductionSystem;
     this.civilizationRegistry = civilizationRegistry;
-    this.unitSprites = unitSprites;
   }
 
   private getUnitFactory(): UnitFactory {
     if (!this.unitFactory) {
       // Create UnitFactory lazily once world is available
-      this.unitFactory = new UnitFactory(this.world, this.gameScene, this.civilizationRegistry, this.unitSprites);
+      this.unitFactory = new UnitFactory(this.world, this.gameData, this.civilizationRegistry);
     }
     return this.unitFactory;
   }
 
-  update(_dt: number): void {
-    // Process production at the start of each turn
-    const turnBegan = this.intents.peek(isIntent('TurnBegan'));
-    if (!turnBegan) return;
+  runTurnPhase(): void {
+    // In multiplayer, skip - the server is authoritative
+    if (this.gameState.isMultiplayer) return;
 
     // Process all cities with production queues
     const cities = this.world.view(
@@ -80,20 +80,12 @@ export class ProductionSystem extends System {
       // Use production from civilization-level stockpile
       // Production is accumulated from cities and starting production by CivilizationProductionSystem
       const availableProduction = this.civilizationProductionSystem.getProduction(civId);
-      const neededProduction = currentItem.cost - queue.currentProgress;
-      const productionToUse = Math.min(availableProduction, neededProduction);
-      
-      queue.currentProgress += productionToUse;
-      this.civilizationProductionSystem.spendProduction(civId, productionToUse);
-
-      // Check if current item is complete
-      if (queue.currentProgress >= currentItem.cost) {
-        // Complete the item
-        this.completeProduction(cityEntity, currentItem);
-        
-        // Remove completed item from queue
-        queue.dequeue();
-        queue.currentProgress = 0;
+      const { spent, completed } = advanceProductionQueue(queue, availableProduction);
+      this.civilizationProductionSystem.spendProduction(civId, spent);
+
+      // Check if current item is complete (it has been removed from the queue)
+      if (completed) {
+        this.completeProduction(cityEntity, completed);
 
         // If there's a next item, start working on it
         const nextItem = queue.getCurrent();
@@ -142,16 +134,17 @@ export class ProductionSystem extends System {
       transform.tx,
       transform.ty,
       cityEntity,
-      this.gameScene,
+      this.gameData,
     );
 
     if (cityCenterCheck.canBuild) {
       const building = BuildingFactory.createBuilding(
         this.world,
+        this.mapData,
         buildingType,
         { tx: transform.tx, ty: transform.ty },
         cityEntity,
-        this.gameScene,
+        this.gameData,
         false, // ProductionSystem is for single-player queue completion, population changes allowed
       );
       if (building) {
@@ -170,16 +163,17 @@ export class ProductionSystem extends System {
         tile.tx,
         tile.ty,
         cityEntity,
-        this.gameScene,
+        this.gameData,
       );
 
       if (check.canBuild) {
         const building = BuildingFactory.createBuilding(
           this.world,
+          this.mapData,
           buildingType,
           tile,
           cityEntity,
-          this.gameScene,
+          this.gameData,
           false, // ProductionSystem is for single-player queue completion, population changes allowed
         );
         if (building) {
@@ -0,0 +1,130 @@
+import { System, TurnPhaseSlot } from '@engine/ecs';
+import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { GameState } from '@/state/GameState';
+import * as Components from '../components';
+import { GameDataProvider } from '../gameData';
+import { ResearchState, advanceResearch, createResearchState, hasTech, setResearch } from '../research';
+import { logger } from '@/utils/logger';
+import { EventBus, TechResearchedEvent } from '@engine/events/EventBus';
+
+/**
+ * Manages civilization-level research.
+ * Handles SetResearch intents, and puts the science of all a civilization's cities into its current tech
+ * each turn (income phase, after CivilizationProductionSystem).
+ * In multiplayer, the server runs the same rules (research.ts) and research comes via state sync.
+ */
+export class ResearchSystem extends System {
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'research', phase: 'income', order: 40 }];
+
+  private intents: IntentQueue;
+  private events: EventBus;
+  private gameData: GameDataProvider;
+  private gameState: GameState;
+
+  // Track civilization research by civId
+  private civilizationResearch: Map<string, ResearchState> = new Map();
+
+  constructor(intents: IntentQueue, events: EventBus, gameData: GameDataProvider, gameState: GameState) {
+    super();
+    this.intents = intents;
+    this.events = events;
+    this.gameData = gameData;
+    this.gameState = gameState;
+  }
+
+  /**
+   * Gets the research of a civilization (nothing researched if it hasn't started).
+   */
+  public getResearch(civId: string): ResearchState {
+    let research = this.civilizationResearch.get(civId);
+    if (!research) {
+      research = createResearchState();
+      this.civilizationResearch.set(civId, research);
+    }
+    return research;
+  }
+
+  /**
+   * Gets the research of every civilization, by civId (e.g. for saving).
+   */
+  public getAllResearch(): Record<string, ResearchState> {
+    return Object.fromEntries(
+      Array.from(this.civilizationResearch, ([civId, research]) => [civId, structuredClone(research)]),
+    );
+  }
+
+  /**
+   * Replaces a civilization's research (e.g. with the server's in multiplayer, or from a save).
+   */
+  public setResearch(civId: string, research: ResearchState): void {
+    this.civilizationResearch.set(civId, structuredClone(research));
+  }
+
+  /**
+   * Whether a civilization has researched a tech (no tech is always had).
+   */
+  public hasTech(civId: string, techId: string | undefined): boolean {
+    return hasTech(this.getResearch(civId), techId);
+  }
+
+  update(_dt: number): void {
+    const intent = this.intents.pop(isIntent('SetResearch'));
+    if (!intent) return;
+
+    // In multiplayer, research is picked for the local player; in single-player for the current player
+    const playerId = this.gameState.isMultiplayer ? this.gameState.localPlayerId : this.gameState.currentPlayerId;
+    const civId = this.getPlayerCivId(playerId);
+    if (!civId) {
+      logger.warn(`SetResearch intent received for player ${playerId} without a civilization`);
+      return;
+    }
+
+    try {
+      setResearch(this.gameData, this.getResearch(civId), intent.payload.techId);
+    } catch (error) {
+      logger.warn(`Cannot research ${intent.payload.techId}: ${(error as Error).message}`);
+      return;
+    }
+
+    this.events.emit('ui-update');
+  }
+
+  runTurnPhase(): void {
+    // In multiplayer, skip - the server is authoritative
+    if (this.gameState.isMultiplayer) {
+      return;
+    }
+
+    // Collect the science of every city by civilization
+    const scienceByCiv = new Map<string, number>();
+    for (const cityEntity of this.world.view(Components.City, Components.Resources, Components.CivilizationComponent)) {
+      const resources = this.world.getComponent(cityEntity, Components.Resources)!;
+      const civ = this.world.getComponent(cityEntity, Components.CivilizationComponent)!;
+      scienceByCiv.set(civ.civId, (scienceByCiv.get(civ.civId) ?? 0) + resources.science);
+      resources.science = 0;
+    }
+
+    for (const [civId, science] of scienceByCiv) {
+      const completed = advanceResearch(this.gameData, this.getResearch(civId), science);
+      if (completed) {
+        logger.info(`${civId} researched ${completed}`);
+        const event: TechResearchedEvent = { civId, techId: completed };
+        this.events.emit('tech-researched', event);
+      }
+    }
+
+    this.events.emit('ui-update');
+  }
+
+  /**
+   * The civilization of a player's cities or units
+   */
+  private getPlayerCivId(playerId: number): string | null {
+    for (const entity of this.world.view(Components.Owner, Components.CivilizationComponent)) {
+      if (this.world.getComponent(entity, Components.Owner)!.playerId === playerId) {
+        return this.world.getComponent(entity, Components.CivilizationComponent)!.civId;
+      }
+    }
+    return null;
+  }
+}
@@ -1,24 +1,29 @@
-import { System } from '@engine/ecs';
+import { System, TurnPhaseSlot } from '@engine/ecs';
 import { GameState } from '@/state/GameState';
-import { Intent, IntentQueue, isIntent } from '@/state/IntentQueue';
-import { Unit, NewlyPurchased } from '../components';
-import Phaser from 'phaser';
+import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { City, NewlyPurchased, Owner, Unit } from '../components';
+import { restoreUnitForTurn } from '../economy';
+import { EventBus } from '@engine/events/EventBus';
 
 /**
  * Manages the game's turn cycle.
- * When an `EndTurn` intent is received, it increments the turn counter
- * and restores movement points for all units.
- * Also removes NewlyPurchased component so units can act on the next turn.
+ * When an `EndTurn` intent is received in single-player, the turn passes to the next player in
+ * GameState.players (skipping those without cities or units left, e.g. to the computer players - see AISystem).
+ * After the last one it increments the turn counter and runs the turn transition (see TurnPipeline).
+ * In the upkeep phase it restores movement points for all units and removes NewlyPurchased so units
+ * can act on the new turn.
  */
 export class TurnSystem extends System {
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'unit-upkeep', phase: 'upkeep', order: 10 }];
+
   private intents: IntentQueue;
   private gameState: GameState;
-  private events: Phaser.Events.EventEmitter;
+  private events: EventBus;
 
   constructor(
     intents: IntentQueue,
     gameState: GameState,
-    events: Phaser.Events.EventEmitter,
+    events: EventBus,
   ) {
     super();
     this.intents = intents;
@@ -32,28 +37,53 @@ export class TurnSystem extends System {
     if (endTurnIntent) {
       // In multiplayer, don't do anything locally - wait for server to tell us
       // The server is authoritative for turn advancement and MP restoration
-      if (!this.gameState.isMultiplayer) {
+      // Once the game is over (see VictorySystem) there are no more turns
+      if (!this.gameState.isMultiplayer && !this.gameState.result) {
         // Single-player mode: handle turn advancement locally
-        this.gameState.turn++;
-
-        // Restore MP for all units
-        const units = this.world.view(Unit);
-        for (const entity of units) {
-          const unit = this.world.getComponent(entity, Unit)!;
-          unit.mp = unit.maxMp;
-        }
-
-        // Remove NewlyPurchased component from all units so they can act next turn
-        const newlyPurchasedUnits = this.world.view(NewlyPurchased);
-        for (const entity of newlyPurchasedUnits) {
-          this.world.removeComponent(entity, NewlyPurchased);
+        const players = this.getPlayersInGame();
+        const next = players.indexOf(this.gameState.currentPlayerId) + 1;
+        if (next > 0 && next < players.length) {
+          this.gameState.currentPlayerId = players[next];
+        } else {
+          // Everyone has played - the first player starts the new turn
+          this.gameState.currentPlayerId = players[0] ?? this.gameState.currentPlayerId;
+          this.gameState.turn++;
+          this.world.advanceTurn(this.gameState.turn);
         }
-
-        // Signal that a new turn has begun
-        this.intents.push({ type: 'TurnBegan' });
         this.events.emit('ui-update');
       }
-      // In multiplayer, all of this is handled by RestGameClient.applyStateUpdate when turn advances
+      // In multiplayer, NetworkSyncManager runs the transition when the server advances the turn
+    }
+  }
+
+  runTurnPhase(): void {
+    // In multiplayer, units come back restored via state sync
+    if (this.gameState.isMultiplayer) {
+      return;
+    }
+
+    // Restore MP for all units
+    const units = this.world.view(Unit);
+    for (const entity of units) {
+      restoreUnitForTurn(this.world.getComponent(entity, Unit)!);
     }
+
+    // Remove NewlyPurchased component from all units so they can act this turn
+    const newlyPurchasedUnits = this.world.view(NewlyPurchased);
+    for (const entity of newlyPurchasedUnits) {
+      this.world.removeComponent(entity, NewlyPurchased);
+    }
+  }
+
+  /**
+   * Players who still have cities or units, in turn order
+   */
+  private getPlayersInGame(): number[] {
+    const owners = new Set(
+      [...this.world.view(City, Owner), ...this.world.view(Unit, Owner)].map(
+        entity => this.world.getComponent(entity, Owner)!.playerId,
+      ),
+    );
+    return this.gameState.players.map(player => player.playerId).filter(playerId => owners.has(playerId));
   }
 }
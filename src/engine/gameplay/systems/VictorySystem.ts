@@ -0,0 +1,66 @@
+import { System, TurnPhase, TurnPhaseSlot } from '@engine/ecs';
+import { GameState } from '@/state/GameState';
+import * as Components from '../components';
+import { VictoryWorld, checkVictory } from '../victory';
+import { logger } from '@/utils/logger';
+import { EventBus } from '@engine/events/EventBus';
+import { ResearchSystem } from './ResearchSystem';
+
+/**
+ * Checks the game's victory conditions (GameState.victory) after each turn
+ * (end-of-turn phase, once the turn's cities, units and research are settled).
+ * When one is met the result goes into GameState.result and `game-over` is emitted.
+ * In multiplayer, skip - the server checks them and the result comes with the session.
+ */
+export class VictorySystem extends System {
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'victory', phase: 'endOfTurn', order: 20 }];
+
+  private events: EventBus;
+  private gameState: GameState;
+  private research: ResearchSystem;
+
+  constructor(events: EventBus, gameState: GameState, research: ResearchSystem) {
+    super();
+    this.events = events;
+    this.gameState = gameState;
+    this.research = research;
+  }
+
+  runTurnPhase(_phase: TurnPhase, turn: number): void {
+    if (this.gameState.isMultiplayer || this.gameState.result) {
+      return;
+    }
+
+    const result = checkVictory(this.gameState.victory, turn, this.getVictoryWorld());
+    if (!result) {
+      return;
+    }
+
+    logger.info(`Game over on turn ${turn}: ${result.condition} victory for player ${result.winnerId ?? 'nobody'}`);
+    this.gameState.result = result;
+    this.events.emit('game-over', result);
+    this.events.emit('ui-update');
+  }
+
+  /**
+   * The world as the victory rules see it
+   */
+  private getVictoryWorld(): VictoryWorld {
+    const ownerOf = (entity: number) => this.world.getComponent(entity, Components.Owner)!.playerId;
+    return {
+      players: this.gameState.players,
+      cities: this.world.view(Components.City, Components.Owner).map(entity => {
+        const city = this.world.getComponent(entity, Components.City)!;
+        return { ownerId: ownerOf(entity), population: city.population, capitalOf: city.capitalOf };
+      }),
+      units: this.world.view(Components.Unit, Components.Owner).map(entity => ({ ownerId: ownerOf(entity) })),
+      buildings: this.world.view(Components.Building, Components.Owner).map(entity => ({ ownerId: ownerOf(entity) })),
+      techs: Object.fromEntries(
+        this.gameState.players.map(({ playerId, civId }) => [
+          playerId,
+          this.research.getResearch(civId).researched.length,
+        ]),
+      ),
+    };
+  }
+}
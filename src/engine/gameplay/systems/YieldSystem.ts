@@ -1,40 +1,36 @@
-import { System } from '@engine/ecs';
-import { IntentQueue, isIntent } from '@/state/IntentQueue';
+import { System, TurnPhaseSlot } from '@engine/ecs';
 import { GameState } from '@/state/GameState';
 import * as Components from '../components';
 import { MapData } from '@engine/map/MapData';
-import { RESOURCES } from '@config/game';
-import { logger } from '@/utils/logger';
-import Phaser from 'phaser';
+import { calculateCityTurnYields } from '../economy';
+import { EventBus } from '@engine/events/EventBus';
+import { CivilizationRegistry } from '@engine/civilization/Civilization';
 
 /**
- * Collects yields from tiles around cities.
+ * Collects yields from tiles around cities at the start of each turn (income phase, before building yields).
  * Each population point can work one tile within the city's range.
- * Yields are added to the city's resource stockpile.
+ * Yields are added to the city's resource stockpile; the city center adds its civilization's cityYields.food.
+ * In multiplayer, the server runs the same rules (economy.ts) and yields come via state sync.
  */
 export class YieldSystem extends System {
-  private intents: IntentQueue;
-  private events: Phaser.Events.EventEmitter;
+  public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'tile-yields', phase: 'income', order: 10 }];
+
+  private events: EventBus;
   private mapData: MapData;
   private gameState: GameState;
-  private lastProcessedTurn: number = -1;
+  private civilizationRegistry: CivilizationRegistry;
 
-  constructor(intents: IntentQueue, events: Phaser.Events.EventEmitter, mapData: MapData, gameState: GameState) {
+  constructor(events: EventBus, mapData: MapData, gameState: GameState, civilizationRegistry: CivilizationRegistry) {
     super();
-    this.intents = intents;
     this.events = events;
     this.mapData = mapData;
     this.gameState = gameState;
+    this.civilizationRegistry = civilizationRegistry;
   }
 
-  update(_dt: number): void {
-    const turnBegan = this.intents.peek(isIntent('TurnBegan'));
-    if (!turnBegan) {
-      this.lastProcessedTurn = -1;
-      return;
-    }
-
-    if (this.lastProcessedTurn === this.gameState.turn) {
+  runTurnPhase(): void {
+    // In multiplayer, skip - the server is authoritative
+    if (this.gameState.isMultiplayer) {
       return;
     }
 
@@ -45,99 +41,15 @@ export class YieldSystem extends System {
       const city = this.world.getComponent(cityEntity, Components.City)!;
       const transform = this.world.getComponent(cityEntity, Components.TransformTile)!;
       const resources = this.world.getComponent(cityEntity, Components.Resources)!;
+      const civ = this.world.getComponent(cityEntity, Components.CivilizationComponent);
+      const baseFood = civ && this.civilizationRegistry.get(civ.civId)?.cityYields?.food;
 
-      // Calculate yields from worked tiles
-      const yields = this.calculateYields(city, transform);
-      
-      // Add base city yields
-      yields.production += RESOURCES.CITY_BASE_PRODUCTION;
-      yields.gold += RESOURCES.CITY_BASE_GOLD;
-      
-      // Each citizen contributes Production Points per turn
-      yields.production += city.population * RESOURCES.PRODUCTION_PER_CITIZEN;
+      // Worked tiles, base city yields and production from each citizen
+      const yields = calculateCityTurnYields(this.mapData, { position: transform, population: city.population, baseFood });
 
-      resources.add(yields.production, yields.gold);
+      resources.add(yields.production, yields.gold, yields.food, yields.science);
     }
 
-    this.lastProcessedTurn = this.gameState.turn;
-
     this.events.emit('ui-update');
   }
-
-  /**
-   * Calculates yields from tiles that the city can work.
-   * Each population point can work one tile within the city's range.
-   */
-  private calculateYields(city: Components.City, transform: Components.TransformTile): {
-    production: number;
-    gold: number;
-  } {
-    const yields = { production: 0, gold: 0 };
-    const workableTiles = this.getWorkableTiles(city, transform);
-    
-    // Sort tiles by total yield (production + gold) descending
-    // This simulates the city working the best tiles first
-    const sortedTiles = workableTiles.sort((a, b) => {
-      const aTotal = a.yields.production + a.yields.gold;
-      const bTotal = b.yields.production + b.yields.gold;
-      return bTotal - aTotal;
-    });
-
-    // Work the best tiles up to population limit
-    const tilesToWork = Math.min(city.population, sortedTiles.length);
-    for (let i = 0; i < tilesToWork; i++) {
-      const tile = sortedTiles[i];
-      yields.production += tile.yields.production;
-      yields.gold += tile.yields.gold;
-    }
-
-    return yields;
-  }
-
-  /**
-   * Gets all tiles that the city can potentially work.
-   * This includes all tiles within the city's sight range (population).
-   */
-  private getWorkableTiles(
-    city: Components.City,
-    transform: Components.TransformTile,
-  ): Array<{ tx: number; ty: number; yields: { production: number; gold: number } }> {
-    const workableTiles: Array<{
-      tx: number;
-      ty: number;
-      yields: { production: number; gold: number };
-    }> = [];
-    const sightRange = city.getSightRange();
-    const dimensions = this.mapData.getDimensions();
-
-    // Check all tiles within sight range
-    for (let dx = -sightRange; dx <= sightRange; dx++) {
-      for (let dy = -sightRange; dy <= sightRange; dy++) {
-        // Use Chebyshev distance (square radius)
-        if (Math.max(Math.abs(dx), Math.abs(dy)) > sightRange) continue;
-
-        const tx = transform.tx + dx;
-        const ty = transform.ty + dy;
-
-        // Check bounds
-        if (tx < 0 || tx >= dimensions.width || ty < 0 || ty >= dimensions.height) continue;
-
-        // Get terrain yields
-        const terrain = this.mapData.getTerrainAt(tx, ty);
-        if (!terrain || !terrain.yields) continue;
-
-        workableTiles.push({
-          tx,
-          ty,
-          yields: {
-            production: terrain.yields.prod || 0,
-            gold: terrain.yields.gold || 0,
-          },
-        });
-      }
-    }
-
-    return workableTiles;
-  }
 }
-
@@ -1,5 +1,7 @@
+export * from './AISystem';
 export * from './BuildBuildingSystem';
 export * from './BuildingYieldSystem';
+export * from './CaptureCitySystem';
 export * from './CityGrowthSystem';
 export * from './CivilizationProductionSystem';
 export * from './CombatSystem';
@@ -12,6 +14,8 @@ export * from './ProduceBuildingSystem';
 export * from './ProduceUnitSystem';
 export * from './ProductionSystem';
 export * from './RenderSyncSystem';
+export * from './ResearchSystem';
 export * from './SelectionSystem';
 export * from './TurnSystem';
+export * from './VictorySystem';
 export * from './YieldSystem';
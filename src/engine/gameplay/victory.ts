@@ -0,0 +1,162 @@
+import type { GameResult, PlayerStanding, VictoryCondition, VictorySettings } from '@shared/types';
+import { VICTORY } from '@config/game';
+
+/**
+ * Victory rules, shared by the client's VictorySystem (single-player) and the server's turn processing.
+ *
+ * Like economy.ts this works on plain data: the players of a game with their cities, units, buildings
+ * and researched techs. After each turn the game's victory conditions are checked in order
+ * (domination, elimination, then score); the first one met ends the game.
+ *
+ * A player's capital is the first city they founded (City.capitalOf). It can be captured but not
+ * razed, so it's always known who still holds theirs.
+ */
+
+export type { GameResult, PlayerStanding, VictoryCondition, VictorySettings };
+
+/**
+ * Every victory condition, in the order they're checked
+ */
+export const VICTORY_CONDITIONS: readonly VictoryCondition[] = ['domination', 'elimination', 'score'];
+
+/**
+ * A game as the victory rules see it
+ */
+export interface VictoryWorld {
+  players: Array<{ playerId: number; civId: string }>; // Everyone who started the game, eliminated or not
+  cities: Array<{ ownerId: number; population: number; capitalOf: number | null }>;
+  units: Array<{ ownerId: number }>;
+  buildings: Array<{ ownerId: number }>;
+  techs: Record<number, number>; // Number of techs researched, by player
+}
+
+/**
+ * Victory settings with every condition and the default turn limit, unless given otherwise
+ */
+export function createVictorySettings(settings: Partial<VictorySettings> = {}): VictorySettings {
+  return { conditions: [...VICTORY_CONDITIONS], turnLimit: VICTORY.DEFAULT_TURN_LIMIT, ...settings };
+}
+
+/**
+ * Whether data (e.g. from a request) is usable victory settings: at least one known condition,
+ * each once, and a whole turn limit of at least 1
+ */
+export function isVictorySettings(value: unknown): value is VictorySettings {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { conditions, turnLimit } = value as Record<string, unknown>;
+  return (
+    Array.isArray(conditions) &&
+    conditions.length > 0 &&
+    new Set(conditions).size === conditions.length &&
+    conditions.every(condition => VICTORY_CONDITIONS.includes(condition)) &&
+    Number.isInteger(turnLimit) &&
+    (turnLimit as number) >= 1
+  );
+}
+
+/**
+ * Whether a player is out of the game: no cities and no units left
+ */
+export function isEliminated(world: VictoryWorld, playerId: number): boolean {
+  return !world.cities.some(city => city.ownerId === playerId) && !world.units.some(unit => unit.ownerId === playerId);
+}
+
+/**
+ * What a player's civilization is worth (see VICTORY.SCORE_*)
+ */
+export function getScore(world: VictoryWorld, playerId: number): number {
+  const cities = world.cities.filter(city => city.ownerId === playerId);
+  const population = cities.reduce((total, city) => total + city.population, 0);
+  const buildings = world.buildings.filter(building => building.ownerId === playerId).length;
+  return (
+    cities.length * VICTORY.SCORE_PER_CITY +
+    population * VICTORY.SCORE_PER_POPULATION +
+    buildings * VICTORY.SCORE_PER_BUILDING +
+    (world.techs[playerId] ?? 0) * VICTORY.SCORE_PER_TECH
+  );
+}
+
+/**
+ * Every player's score, best first; eliminated players come last
+ */
+export function getStandings(world: VictoryWorld): PlayerStanding[] {
+  return world.players
+    .map(({ playerId, civId }) => ({
+      playerId,
+      civId,
+      score: getScore(world, playerId),
+      eliminated: isEliminated(world, playerId),
+    }))
+    .sort((a, b) => Number(a.eliminated) - Number(b.eliminated) || b.score - a.score);
+}
+
+/**
+ * Whether a player still holds the capital they founded
+ */
+export function holdsCapital(world: VictoryWorld, playerId: number): boolean {
+  return world.cities.some(city => city.capitalOf === playerId && city.ownerId === playerId);
+}
+
+/**
+ * Checks whether a city may be razed when it's captured - capitals can't be
+ */
+export function canRazeCity(city: { capitalOf: number | null }): { canRaze: boolean; reason?: string } {
+  if (city.capitalOf !== null) {
+    return { canRaze: false, reason: "Capitals can't be razed" };
+  }
+  return { canRaze: true };
+}
+
+/**
+ * Checks a game's victory conditions after a turn.
+ * Returns how the game ended, or null if it goes on.
+ * @param turn The turn that is about to start
+ */
+export function checkVictory(settings: VictorySettings, turn: number, world: VictoryWorld): GameResult | null {
+  // A game needs an opponent to be won
+  if (world.players.length < 2) {
+    return null;
+  }
+
+  const standings = getStandings(world);
+  const end = (condition: VictoryCondition, winnerId: number | null): GameResult => ({
+    winnerId,
+    condition,
+    turn,
+    standings,
+  });
+
+  for (const condition of VICTORY_CONDITIONS) {
+    if (!settings.conditions.includes(condition)) continue;
+
+    if (condition === 'domination') {
+      const winnerId = findDominationWinner(world);
+      if (winnerId !== null) return end(condition, winnerId);
+    } else if (condition === 'elimination') {
+      const remaining = standings.filter(standing => !standing.eliminated);
+      if (remaining.length === 1) return end(condition, remaining[0].playerId);
+    } else if (turn > settings.turnLimit) {
+      // Score: the turn limit has been played - the best score wins, unless it's shared
+      const [best, second] = standings;
+      const tied = second && !second.eliminated && second.score === best.score;
+      return end(condition, best.eliminated || tied ? null : best.playerId);
+    }
+  }
+  return null;
+}
+
+/**
+ * The last player holding their own capital, once every other player still in the game has
+ * founded a capital and lost it
+ */
+function findDominationWinner(world: VictoryWorld): number | null {
+  const remaining = world.players.map(p => p.playerId).filter(playerId => !isEliminated(world, playerId));
+  const holding = remaining.filter(playerId => holdsCapital(world, playerId));
+  if (holding.length !== 1) {
+    return null;
+  }
+  const others = remaining.filter(playerId => playerId !== holding[0]);
+  return others.every(playerId => world.cities.some(city => city.capitalOf === playerId)) ? holding[0] : null;
+}
@@ -68,6 +68,30 @@ export class FogOfWar {
     return state.visible[idx] ?? false;
   }
 
+  /**
+   * The players that have fog state
+   */
+  public getPlayerIds(): number[] {
+    return Array.from(this.playerFogStates.keys());
+  }
+
+  /**
+   * Gets a copy of the tiles a player has ever seen (indexed by ty * width + tx), e.g. for saving
+   */
+  public getRevealed(playerId: number): boolean[] {
+    return [...this.getPlayerFogState(playerId).revealed];
+  }
+
+  /**
+   * Restores the tiles a player has ever seen, e.g. from a save
+   */
+  public setRevealed(playerId: number, revealed: boolean[]) {
+    const state = this.getPlayerFogState(playerId);
+    for (let i = 0; i < state.revealed.length; i++) {
+      state.revealed[i] = revealed[i] ?? false;
+    }
+  }
+
   /**
    * Gets newly visible tiles for a player
    */
@@ -0,0 +1,276 @@
+import { TilePoint } from '@engine/math/iso';
+import { SeededRNG } from '@engine/math/rng';
+import { getNeighbors, manhattanDistance } from '@engine/math/grid';
+import { MapData } from './MapData';
+import { TerrainRegistry } from './Terrain';
+
+/**
+ * Parameters for procedural map generation.
+ */
+export interface MapGenerationOptions {
+  width: number;
+  height: number;
+  landRatio: number; // Fraction of tiles that are land (0..1)
+  continents: number; // Number of separate landmass centers
+  mountainRanges: number; // Number of mountain ridges
+  forestDensity: number; // Fraction of flat land covered by forest (0..1)
+  startCount: number; // Number of start tiles to pick
+}
+
+/**
+ * A generated map in the same shape as `public/data/map.json`,
+ * plus the start tiles picked for each player.
+ */
+export interface GeneratedMap {
+  seed: number;
+  width: number;
+  height: number;
+  start: TilePoint;
+  starts: TilePoint[]; // Start tiles in player order - all reachable from each other
+  tiles: string[];
+}
+
+export const DEFAULT_MAP_GENERATION_OPTIONS: MapGenerationOptions = {
+  width: 50,
+  height: 50,
+  landRatio: 0.6,
+  continents: 2,
+  mountainRanges: 3,
+  forestDensity: 0.3,
+  startCount: 1,
+};
+
+// Terrain ids from terrains.json
+const WATER = 'water';
+const PLAINS = 'plains';
+const FOREST = 'forest';
+const HILLS = 'hills';
+const MOUNTAINS = 'mountains';
+const PASSABLE = new Set([PLAINS, FOREST, HILLS]);
+
+/**
+ * 2D value noise on a seeded lattice, summed over a few octaves (fractal noise).
+ */
+class FractalNoise {
+  private lattice: number[];
+  private readonly size = 256;
+
+  constructor(rng: SeededRNG) {
+    this.lattice = Array.from({ length: this.size * this.size }, () => rng.nextFloat());
+  }
+
+  /**
+   * Returns a value in 0..1 for the given point; `scale` is the feature size in tiles.
+   */
+  public sample(x: number, y: number, scale: number, octaves = 4): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1 / scale;
+    let max = 0;
+    for (let i = 0; i < octaves; i++) {
+      total += this.valueAt(x * frequency, y * frequency) * amplitude;
+      max += amplitude;
+      amplitude /= 2;
+      frequency *= 2;
+    }
+    return total / max;
+  }
+
+  private valueAt(x: number, y: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = smoothstep(x - x0);
+    const fy = smoothstep(y - y0);
+    const top = lerp(this.latticeAt(x0, y0), this.latticeAt(x0 + 1, y0), fx);
+    const bottom = lerp(this.latticeAt(x0, y0 + 1), this.latticeAt(x0 + 1, y0 + 1), fx);
+    return lerp(top, bottom, fy);
+  }
+
+  private latticeAt(x: number, y: number): number {
+    const wrap = (v: number) => ((v % this.size) + this.size) % this.size;
+    return this.lattice[wrap(y) * this.size + wrap(x)];
+  }
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/**
+ * The value below which `fraction` of the values fall.
+ */
+function quantile(values: number[], fraction: number): number {
+  if (values.length === 0) return Infinity;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(fraction * sorted.length)));
+  return sorted[index];
+}
+
+/**
+ * Generates the terrain layout for a map. The same seed and options always produce the same map.
+ *
+ * Elevation comes from fractal noise biased towards the continent centers; the land/water line
+ * is placed so exactly `landRatio` of the tiles are land. Mountain ridges are random walks over
+ * land, and forests grow where the (independent) moisture noise is highest.
+ */
+export function generateMapLayout(
+  seed: number,
+  options: Partial<MapGenerationOptions> = {},
+): GeneratedMap {
+  const opts = { ...DEFAULT_MAP_GENERATION_OPTIONS, ...options };
+  const { width, height } = opts;
+  const rng = new SeededRNG(seed);
+  const elevationNoise = new FractalNoise(rng);
+  const moistureNoise = new FractalNoise(rng);
+  const index = (tx: number, ty: number) => ty * width + tx;
+
+  // --- Elevation: continent falloff blended with noise ---
+  const continentCount = Math.max(1, Math.floor(opts.continents));
+  const centers: TilePoint[] = [];
+  for (let i = 0; i < continentCount; i++) {
+    centers.push({
+      tx: rng.nextInt(Math.floor(width * 0.2), Math.ceil(width * 0.8) - 1),
+      ty: rng.nextInt(Math.floor(height * 0.2), Math.ceil(height * 0.8) - 1),
+    });
+  }
+  const continentRadius = Math.max(width, height) / (1 + Math.sqrt(continentCount));
+  const featureScale = Math.max(4, Math.min(width, height) / 4);
+
+  const elevation: number[] = [];
+  for (let ty = 0; ty < height; ty++) {
+    for (let tx = 0; tx < width; tx++) {
+      const nearest = Math.min(...centers.map(c => Math.hypot(c.tx - tx, c.ty - ty)));
+      const falloff = Math.max(0, 1 - nearest / continentRadius);
+      elevation.push(falloff * 0.6 + elevationNoise.sample(tx, ty, featureScale) * 0.4);
+    }
+  }
+
+  const seaLevel = quantile(elevation, 1 - Math.min(1, Math.max(0, opts.landRatio)));
+  const tiles: string[] = elevation.map(e => (e >= seaLevel ? PLAINS : WATER));
+
+  // --- Hills on the highest land ---
+  const landElevations = elevation.filter((_, i) => tiles[i] !== WATER);
+  const hillLine = quantile(landElevations, 0.85);
+  elevation.forEach((e, i) => {
+    if (tiles[i] !== WATER && e >= hillLine) tiles[i] = HILLS;
+  });
+
+  // --- Mountain ridges: random walks over land, flanked by hills ---
+  const landTiles = tiles.map((t, i) => (t !== WATER ? i : -1)).filter(i => i >= 0);
+  const ridgeLength = Math.max(3, Math.floor((width + height) / 6));
+  for (let r = 0; r < Math.floor(opts.mountainRanges) && landTiles.length > 0; r++) {
+    const startIndex = landTiles[rng.nextInt(0, landTiles.length - 1)];
+    let x = startIndex % width;
+    let y = Math.floor(startIndex / width);
+    let angle = rng.nextFloat() * Math.PI * 2;
+    for (let step = 0; step < ridgeLength; step++) {
+      const tx = Math.round(x);
+      const ty = Math.round(y);
+      if (tx < 0 || ty < 0 || tx >= width || ty >= height || tiles[index(tx, ty)] === WATER) break;
+      tiles[index(tx, ty)] = MOUNTAINS;
+      for (const n of getNeighbors(tx, ty, { width, height })) {
+        if (tiles[index(n.tx, n.ty)] === PLAINS) tiles[index(n.tx, n.ty)] = HILLS;
+      }
+      angle += (rng.nextFloat() - 0.5) * 0.8;
+      x += Math.cos(angle);
+      y += Math.sin(angle);
+    }
+  }
+
+  // --- Forests where moisture is highest ---
+  const moisture = tiles.map((_, i) => moistureNoise.sample(i % width, Math.floor(i / width), featureScale));
+  const flatMoisture = moisture.filter((_, i) => tiles[i] === PLAINS);
+  const forestLine = quantile(flatMoisture, 1 - Math.min(1, Math.max(0, opts.forestDensity)));
+  moisture.forEach((m, i) => {
+    if (tiles[i] === PLAINS && opts.forestDensity > 0 && m >= forestLine) tiles[i] = FOREST;
+  });
+
+  const starts = pickStartTiles(tiles, width, height, Math.max(1, Math.floor(opts.startCount)));
+  return { seed, width, height, start: starts[0], starts, tiles };
+}
+
+/**
+ * Generates a map and wraps it in `MapData`. Throws if the registry lacks one of the terrain ids.
+ */
+export function generateMap(
+  seed: number,
+  terrainRegistry: TerrainRegistry,
+  options: Partial<MapGenerationOptions> = {},
+): MapData {
+  for (const id of [WATER, PLAINS, FOREST, HILLS, MOUNTAINS]) {
+    terrainRegistry.mustGet(id);
+  }
+  const layout = generateMapLayout(seed, options);
+  return new MapData(layout.width, layout.height, layout.start, layout.tiles, terrainRegistry);
+}
+
+/**
+ * Picks start tiles on the largest connected passable region, so every start can reach the others.
+ * The first is the flat tile nearest the region's center; each next one is the flat tile farthest
+ * from those already picked. Earlier picks don't depend on `count`.
+ */
+function pickStartTiles(tiles: string[], width: number, height: number, count: number): TilePoint[] {
+  const region = largestPassableRegion(tiles, width, height);
+  if (region.length === 0) {
+    // No land at all - fall back to the center so callers always get a start tile
+    return Array.from({ length: count }, () => ({ tx: Math.floor(width / 2), ty: Math.floor(height / 2) }));
+  }
+
+  const flat = region.filter(p => tiles[p.ty * width + p.tx] === PLAINS);
+  const candidates = flat.length >= count ? flat : region;
+  const centroid = {
+    tx: region.reduce((sum, p) => sum + p.tx, 0) / region.length,
+    ty: region.reduce((sum, p) => sum + p.ty, 0) / region.length,
+  };
+
+  let first = candidates[0];
+  for (const candidate of candidates) {
+    if (manhattanDistance(candidate, centroid) < manhattanDistance(first, centroid)) first = candidate;
+  }
+
+  const starts: TilePoint[] = [first];
+  while (starts.length < count) {
+    let best = candidates[0];
+    let bestDistance = -1;
+    for (const candidate of candidates) {
+      const distance = Math.min(...starts.map(s => manhattanDistance(s, candidate)));
+      if (distance > bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    starts.push(best);
+  }
+  return starts;
+}
+
+function largestPassableRegion(tiles: string[], width: number, height: number): TilePoint[] {
+  const visited = new Set<number>();
+  let largest: TilePoint[] = [];
+
+  for (let i = 0; i < tiles.length; i++) {
+    if (visited.has(i) || !PASSABLE.has(tiles[i])) continue;
+
+    const region: TilePoint[] = [];
+    const stack = [i];
+    visited.add(i);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const tile = { tx: current % width, ty: Math.floor(current / width) };
+      region.push(tile);
+      for (const n of getNeighbors(tile.tx, tile.ty, { width, height })) {
+        const ni = n.ty * width + n.tx;
+        if (!visited.has(ni) && PASSABLE.has(tiles[ni])) {
+          visited.add(ni);
+          stack.push(ni);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+}
@@ -4,8 +4,7 @@
  * sequence of random numbers for a given seed.
  *
  * This implementation uses the Mulberry32 algorithm, which is simple and fast.
- *
- * TODO: This is a placeholder for future map generation features.
+ * Used by the procedural map generator (see map/MapGenerator.ts) and combat (see createActionRng).
  */
 export class SeededRNG {
   private seed: number;
@@ -33,3 +32,18 @@ export class SeededRNG {
     return Math.floor(this.nextFloat() * (max - min + 1)) + min;
   }
 }
+
+/**
+ * Creates the random stream of one action in a game.
+ * Every action gets its own stream, derived from the game's seed and the action's sequence number,
+ * so anyone replaying the same action (server, clients, tests) draws the same numbers - in any order.
+ * @param gameSeed - The game's seed
+ * @param actionSeq - The action's sequence number within the game
+ */
+export function createActionRng(gameSeed: number, actionSeq: number): SeededRNG {
+  // Mix the two into one 32-bit seed (murmur3 finalizer) so neighbouring actions get unrelated streams
+  let h = (gameSeed ^ Math.imul(actionSeq, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return new SeededRNG((h ^ (h >>> 16)) >>> 0);
+}
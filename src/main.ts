@@ -5,6 +5,7 @@ import { CivilizationSelectionScene } from '@platform/phaser/CivilizationSelecti
 import { MultiplayerMenuScene } from '@platform/phaser/MultiplayerMenuScene';
 import { CreateGameScene } from '@platform/phaser/CreateGameScene';
 import { JoinGameScene } from '@platform/phaser/JoinGameScene';
+import { LoadGameScene } from '@platform/phaser/LoadGameScene';
 import { GameScene } from '@platform/phaser/GameScene';
 import { mountHud } from '@/ui/mount';
 
@@ -20,6 +21,7 @@ const config: Phaser.Types.Core.GameConfig = {
     MultiplayerMenuScene,
     CreateGameScene,
     JoinGameScene,
+    LoadGameScene,
     GameScene,
   ],
   scale: {
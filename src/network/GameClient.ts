@@ -10,8 +10,9 @@ import { GameSession, PlayerConnection, ActionResponse, GameStateUpdate, Network
 export interface IGameClient {
   /**
    * Initialize the client and connect to a game session
+   * Network clients authenticate with the player token issued on create/join
    */
-  initialize(sessionId: string, playerId: number): Promise<void>;
+  initialize(sessionId: string, playerId: number, token?: string): Promise<void>;
 
   /**
    * Submit an action/intent to the game
@@ -47,12 +48,17 @@ export interface IGameClient {
   isMyTurn(): boolean;
 
   /**
-   * Start polling for updates (for network clients)
+   * Refresh the session info from the server (network clients - e.g. turn status after ending a turn)
+   */
+  fetchSession?(): Promise<void>;
+
+  /**
+   * Start receiving updates (for network clients - polled or pushed by the server)
    */
   startPolling?(callback: (update: GameStateUpdate) => void): void;
 
   /**
-   * Stop polling for updates
+   * Stop receiving updates
    */
   stopPolling?(): void;
 
@@ -1,16 +1,22 @@
 import { IGameClient } from './GameClient';
 import { LocalGameClient } from './LocalGameClient';
 import { RestGameClient } from './RestGameClient';
+import { WebSocketGameClient } from './WebSocketGameClient';
 import { NetworkConfig } from './types';
 
 /**
  * Factory to create the appropriate game client based on configuration
+ * - local: single player, no server
+ * - rest: HTTP actions, polling for updates
+ * - websocket: HTTP actions, updates pushed over a WebSocket (polls while the socket is down)
  */
 export function createGameClient(
-  mode: 'local' | 'rest',
+  mode: 'local' | 'rest' | 'websocket',
   config?: NetworkConfig,
 ): IGameClient {
   switch (mode) {
+    case 'websocket':
+      return new WebSocketGameClient(config);
     case 'rest':
       return new RestGameClient(config);
     case 'local':
@@ -1,3 +1,18 @@
+/**
+ * A request that got an error response
+ * body is the parsed JSON error body (e.g. { error, code } from the game server), if there was one
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body: { error?: string; code?: string } = {},
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
 /**
  * Simple HTTP client utility for REST API calls
  * Centralizes error handling and request formatting
@@ -40,7 +55,7 @@ export class HttpClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: response.statusText }));
-      throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+      throw new HttpError(error.error || `HTTP ${response.status}: ${response.statusText}`, response.status, error);
     }
 
     return response.json();
@@ -1,6 +1,19 @@
-import type { Intent } from '@shared/types';
+import type { ActionErrorCode, ActionResponse, Intent } from '@shared/types';
+import { getIntentEntityIds, isMalformedIntentError, validateIntent, type IntentSchemaContext } from '@shared/intentSchema';
+import { World, isLocalEntityId } from '@engine/ecs';
 import { IntentQueue } from '@/state/IntentQueue';
 import { IGameClient } from './GameClient';
+import { PendingAction, PendingActionJournal, RollbackResult } from './PendingActionJournal';
+
+/**
+ * An action the server rejected after it was applied locally
+ */
+export interface RejectedAction {
+  intent: Intent;
+  error: string;
+  code?: ActionErrorCode;
+  rollback: RollbackResult; // What was undone locally
+}
 
 /**
  * A network-aware wrapper around IntentQueue that sends actions to the server
@@ -8,6 +21,10 @@ import { IGameClient } from './GameClient';
  */
 export class NetworkIntentQueue extends IntentQueue {
   private gameClient: IGameClient | null = null;
+  private schemaContext: IntentSchemaContext = {};
+  private journal: PendingActionJournal | null = null;
+  private rejectionListeners: Array<(rejected: RejectedAction) => void> = [];
+  private confirmationListeners: Array<(intent: Intent) => void> = [];
 
   /**
    * Set the game client to use for network operations
@@ -16,6 +33,41 @@ export class NetworkIntentQueue extends IntentQueue {
     this.gameClient = client;
   }
 
+  /**
+   * Set the world actions are applied to locally, so rejected ones can be rolled back
+   */
+  setWorld(world: World): void {
+    this.journal = new PendingActionJournal(world);
+  }
+
+  /**
+   * Listen for actions the server rejected (after they were rolled back locally)
+   */
+  onActionRejected(listener: (rejected: RejectedAction) => void): void {
+    this.rejectionListeners.push(listener);
+  }
+
+  /**
+   * Listen for actions the server accepted
+   */
+  onActionConfirmed(listener: (intent: Intent) => void): void {
+    this.confirmationListeners.push(listener);
+  }
+
+  /**
+   * Whether an action the server hasn't answered yet refers to an entity (its local result stands until then)
+   */
+  hasPendingAction(entity: number): boolean {
+    return this.journal?.isPending(entity) ?? false;
+  }
+
+  /**
+   * Set what intents are validated against before they're sent (map size, unit and building types)
+   */
+  setSchemaContext(context: IntentSchemaContext): void {
+    this.schemaContext = context;
+  }
+
   /**
    * Push an intent to the queue.
    * If in multiplayer mode, this will also send it to the server.
@@ -34,153 +86,103 @@ export class NetworkIntentQueue extends IntentQueue {
       // In sequential mode, isMyTurn() will handle validation
     }
 
-    // Always add to local queue for immediate UI feedback
-    this.queue.push(intent);
-
     // If we have a game client and it's a network game, send to server
     if (this.gameClient && this.gameClient.getSession()?.status === 'active') {
       // Check if it's the player's turn (skip for local-only intents)
       const isLocalOnlyIntent = intent.type === 'SelectEntity' || 
                                 intent.type === 'EnterMoveMode' || 
-                                intent.type === 'CancelMoveMode' ||
-                                intent.type === 'TurnBegan';
+                                intent.type === 'CancelMoveMode';
 
       if (!isLocalOnlyIntent && this.gameClient.isMyTurn()) {
-        // Translate entity IDs for multiplayer (local -> server)
-        const translatedIntent = this.translateEntityIds(intent);
+        // Don't send (or apply locally) an intent the server would reject as malformed
+        // Entity IDs need no translation - multiplayer worlds use the server's IDs
+        const validation = validateIntent(intent, this.schemaContext);
+        if (!validation.valid) {
+          console.error(`[NetworkIntentQueue] Malformed ${intent.type} intent not sent (${validation.code}): ${validation.error}`);
+          return;
+        }
+        const unconfirmed = this.getLocalEntityIds(intent);
+        if (unconfirmed.length > 0) {
+          console.warn(`[NetworkIntentQueue] ${intent.type} not sent: entities ${unconfirmed.join(', ')} aren't confirmed by the server yet`);
+          return;
+        }
+
+        // Add to local queue for immediate UI feedback, remembering what it changes in case it's rejected
+        const pending = this.journal?.record(intent);
+        this.queue.push(intent);
         
-        // Submit action asynchronously (fire and forget for now)
-        this.gameClient.submitAction(translatedIntent).then(response => {
-          if (!response.success) {
-            console.warn('Action rejected by server:', response.error);
-            // Remove from local queue if server rejected it
-            this.removeIntent(intent);
-            
-            // For BuildBuilding, refund production if it was spent optimistically
-            // Note: In multiplayer, BuildBuildingSystem now skips optimistic spending,
-            // but we keep this here as a safety net for any edge cases
-            if (intent.type === 'BuildBuilding' && this.gameClient) {
-              // Production refund would be handled by BuildBuildingSystem if needed
-              // This is mainly for logging/debugging
-              console.warn(`BuildBuilding rejected by server, production should be refunded if spent`);
+        // Submit action asynchronously - the local result stands until the server answers
+        // A submission that fails without an answer (e.g. the client throws) is undone like a rejection
+        this.gameClient
+          .submitAction(intent)
+          .catch((error): ActionResponse => {
+            console.error('Failed to submit action:', error);
+            return { success: false, error: error instanceof Error ? error.message : 'Network error' };
+          })
+          .then(response => {
+            if (!response.success) {
+              if (isMalformedIntentError(response.code)) {
+                // The client and server disagree on the schema (or the game data) - a bug, not a player mistake
+                console.error(`Malformed action rejected by server (${response.code}):`, response.error);
+              } else {
+                console.warn('Action rejected by server:', response.error);
+              }
+              this.reject(intent, pending, response.error || 'Action rejected', response.code);
+              return;
             }
-          } else if (intent.type === 'EndTurn' && response.success) {
-            // After successfully ending turn, refresh session to update UI
-            // The polling will handle this, but we can also trigger it manually
-            if (this.gameClient && 'fetchSession' in this.gameClient) {
-              (this.gameClient as any).fetchSession?.();
+
+            if (pending) {
+              this.journal!.confirm(pending);
+            }
+            this.confirmationListeners.forEach(listener => listener(intent));
+            if (intent.type === 'Attack' && response.combat) {
+              // Show the attack as the server resolved it
+              this.pushFromServer({ ...intent, result: response.combat });
             }
-          }
-        });
+            if (intent.type === 'EndTurn') {
+              // After successfully ending turn, refresh session to update UI
+              // The polling will handle this, but we can also trigger it manually
+              this.gameClient?.fetchSession?.().catch(error => {
+                console.warn('Failed to refresh session after ending turn:', error);
+              });
+            }
+          })
+          .catch(error => {
+            console.error(`[NetworkIntentQueue] Failed to handle the answer to ${intent.type}:`, error);
+          });
+        return;
       }
     }
+
+    // Local-only intents, other players' turns and single-player games are only queued locally
+    this.queue.push(intent);
   }
 
   /**
-   * Translate local entity IDs to server entity IDs for multiplayer
+   * Queue an action the server already applied, to apply it locally without sending it back
    */
-  private translateEntityIds(intent: Intent): Intent {
-    // Get entity ID mapping from game client if available
-    const gameClient = this.gameClient as any;
-    const entityIdMap = gameClient?.entityIdMap;
-    
-    if (!entityIdMap || !(entityIdMap instanceof Map)) {
-      // No mapping available, return as-is
-      console.warn('[NetworkIntentQueue] No entityIdMap available for translation');
-      return intent;
-    }
-    
-    // Translate entity IDs based on intent type
-    switch (intent.type) {
-      case 'MoveTo':
-        const localEntityId = intent.payload.entity;
-        const serverEntityId = entityIdMap.get(localEntityId);
-        if (serverEntityId === undefined) {
-          console.warn(`[NetworkIntentQueue] No server entity ID mapping found for local entity ${localEntityId}`);
-          // Don't send the intent if we can't translate it
-          return intent;
-        }
-        // Log the translation for debugging
-        const connection = gameClient?.getConnection();
-        console.log(`[NetworkIntentQueue] Translating MoveTo: local entity ${localEntityId} -> server entity ${serverEntityId} for player ${connection?.playerId}`);
-        return {
-          ...intent,
-          payload: {
-            ...intent.payload,
-            entity: serverEntityId,
-          },
-        };
-      case 'FoundCity': {
-        const serverFoundCityEntityId = entityIdMap.get(intent.payload.entity);
-        if (serverFoundCityEntityId !== undefined) {
-          return {
-            ...intent,
-            payload: {
-              ...intent.payload,
-              entity: serverFoundCityEntityId,
-            },
-          };
-        }
-        break;
-      }
-      case 'Attack': {
-        const serverAttackerId = entityIdMap.get(intent.payload.attacker);
-        const serverTargetId = entityIdMap.get(intent.payload.target);
-        if (serverAttackerId !== undefined && serverTargetId !== undefined) {
-          return {
-            ...intent,
-            payload: {
-              ...intent.payload,
-              attacker: serverAttackerId,
-              target: serverTargetId,
-            },
-          };
-        }
-        break;
-      }
-      case 'BuildBuilding': {
-        const serverBuildCityEntityId = entityIdMap.get(intent.payload.cityEntity);
-        if (serverBuildCityEntityId !== undefined) {
-          return {
-            ...intent,
-            payload: {
-              ...intent.payload,
-              cityEntity: serverBuildCityEntityId,
-            },
-          };
-        }
-        break;
-      }
-      case 'ProduceBuilding': {
-        const serverProduceCityEntityId = entityIdMap.get(intent.payload.cityEntity);
-        if (serverProduceCityEntityId !== undefined) {
-          return {
-            ...intent,
-            payload: {
-              ...intent.payload,
-              cityEntity: serverProduceCityEntityId,
-            },
-          };
-        }
-        break;
-      }
-      case 'ProduceUnit': {
-        const serverProduceUnitCityEntityId = entityIdMap.get(intent.payload.cityEntity);
-        if (serverProduceUnitCityEntityId !== undefined) {
-          return {
-            ...intent,
-            payload: {
-              ...intent.payload,
-              cityEntity: serverProduceUnitCityEntityId,
-            },
-          };
-        }
-        break;
-      }
-      // Other intents don't need translation
-    }
-    
-    return intent;
+  pushFromServer(intent: Intent): void {
+    this.queue.push(intent);
+  }
+
+  /**
+   * Remove an action the server didn't accept from the local queue, undo it if it was already applied,
+   * and tell the listeners
+   */
+  private reject(intent: Intent, pending: PendingAction | undefined, error: string, code?: ActionErrorCode): void {
+    this.removeIntent(intent);
+    const rollback = pending ? this.journal!.rollback(pending) : { restored: [], removed: [], replayed: [] };
+    // Later actions undone with it were applied before anything still queued, so they go first
+    this.queue.unshift(...rollback.replayed);
+    const rejected = { intent, error, code, rollback };
+    this.rejectionListeners.forEach(listener => listener(rejected));
+  }
+
+  /**
+   * Entity IDs in an intent that only exist on this client (created ahead of the server)
+   */
+  private getLocalEntityIds(intent: Intent): number[] {
+    return getIntentEntityIds(intent).filter(isLocalEntityId);
   }
 
   /**
@@ -191,6 +193,8 @@ export class NetworkIntentQueue extends IntentQueue {
     if (index !== -1) {
       const intent = this.queue[index] as T;
       this.queue.splice(index, 1);
+      // The caller applies it now - entities it creates belong to its pending action
+      this.journal?.markApplying(intent);
       return intent;
     }
     return undefined;
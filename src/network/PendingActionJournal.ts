@@ -0,0 +1,178 @@
+import type { Intent } from '@shared/types';
+import { getIntentEntityIds } from '@shared/intentSchema';
+import { Component, Entity, World, isLocalEntityId } from '@engine/ecs';
+
+/**
+ * An entity's components as they were before an action was applied locally
+ */
+interface EntitySnapshot {
+  entity: Entity;
+  components: Component[];
+}
+
+/**
+ * An action sent to the server and applied locally ahead of its answer
+ */
+export interface PendingAction {
+  intent: Intent;
+  status: 'pending' | 'confirmed';
+  applied: boolean; // Whether a system has popped and applied it yet
+  snapshots: EntitySnapshot[]; // The entities the intent refers to, before it was applied
+  created: Entity[]; // Local entities created while it was applied (e.g. a founded city)
+}
+
+/**
+ * What rolling back an action changed in the world
+ */
+export interface RollbackResult {
+  restored: Entity[]; // Entities put back as they were before the action
+  removed: Entity[]; // Entities the action (or a later one undone with it) created locally, now destroyed
+  replayed: Intent[]; // Later pending actions undone with it, to apply again locally - the server may still accept them
+}
+
+/**
+ * Journal of the actions the client applied ahead of the server (client-side prediction)
+ * Each action keeps a snapshot of the entities it refers to, taken when it was sent. Systems apply
+ * intents when they pop them from the queue, so local entities created between popping an action and
+ * popping the next intent are the action's. Confirmed actions are dropped; rejected ones are rolled back,
+ * together with the later pending actions applied on top of them, which are then applied again.
+ */
+export class PendingActionJournal {
+  private world: World;
+  private actions: PendingAction[] = []; // Oldest first
+  private applying: { action: PendingAction; firstEntity: Entity } | null = null;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /**
+   * Snapshot the entities an intent refers to, before it's applied
+   */
+  record(intent: Intent): PendingAction {
+    const action: PendingAction = { intent, status: 'pending', applied: false, snapshots: this.snapshot(intent), created: [] };
+    this.actions.push(action);
+    return action;
+  }
+
+  /**
+   * Note that a system popped an intent and is about to apply it
+   */
+  markApplying(intent: Intent): void {
+    this.finishApplying();
+    const action = this.actions.find(a => a.intent === intent && a.status === 'pending');
+    if (action) {
+      action.applied = true;
+      this.applying = { action, firstEntity: this.world.peekNextEntityId() };
+    }
+  }
+
+  /**
+   * The server accepted an action - it can no longer be rolled back
+   */
+  confirm(action: PendingAction): void {
+    this.finishApplying();
+    action.status = 'confirmed';
+    this.actions = this.actions.filter(a => a.status === 'pending');
+  }
+
+  /**
+   * The server rejected an action - restore the entities it changed and destroy those it created
+   * Later pending actions on the same entities are undone with it (newest first, so every entity ends up
+   * as it was before the rejected action) and returned to be applied again
+   */
+  rollback(action: PendingAction): RollbackResult {
+    this.finishApplying();
+    const index = this.actions.indexOf(action);
+    this.actions = this.actions.filter(a => a !== action);
+
+    // Later actions that touch its entities (or entities those touch) were predicted on top of it
+    const touched = new Set(this.getTouchedEntities(action));
+    const later = this.actions.slice(Math.max(0, index)).filter(a => {
+      const entities = this.getTouchedEntities(a);
+      if (!entities.some(entity => touched.has(entity))) return false;
+      entities.forEach(entity => touched.add(entity));
+      return true;
+    });
+    const undone = later.filter(a => a.applied);
+
+    const removed = new Set<Entity>();
+    const restored = new Set<Entity>();
+    for (const undo of [...[...undone].reverse(), action]) {
+      for (const entity of undo.created) {
+        if (this.world.hasEntity(entity)) {
+          this.world.destroyEntity(entity);
+          removed.add(entity);
+        }
+      }
+      for (const { entity, components } of undo.snapshots) {
+        if (this.world.hasEntity(entity)) {
+          this.world.destroyEntity(entity);
+        }
+        // Only server entities are sent (and snapshotted), so the ID can be taken again
+        this.world.createEntityWithId(entity);
+        components.forEach(component => this.world.addComponent(entity, this.cloneComponent(component)));
+        restored.add(entity);
+      }
+    }
+
+    // The later actions start over from the restored entities (those still queued are applied as usual)
+    for (const next of later) {
+      next.snapshots = this.snapshot(next.intent);
+      next.created = [];
+      next.applied = false;
+    }
+
+    return {
+      restored: [...restored],
+      removed: [...removed],
+      replayed: undone.map(a => a.intent),
+    };
+  }
+
+  /**
+   * Actions the server hasn't answered yet, oldest first
+   */
+  getPending(): readonly PendingAction[] {
+    return this.actions.filter(a => a.status === 'pending');
+  }
+
+  /**
+   * Whether an action the server hasn't answered yet refers to or created an entity
+   */
+  isPending(entity: Entity): boolean {
+    return this.getPending().some(action => this.getTouchedEntities(action).includes(entity));
+  }
+
+  /**
+   * Copies of the server entities an intent refers to, as they are now
+   */
+  private snapshot(intent: Intent): EntitySnapshot[] {
+    return getIntentEntityIds(intent)
+      .filter(entity => !isLocalEntityId(entity) && this.world.hasEntity(entity))
+      .map(entity => ({ entity, components: this.world.getComponents(entity).map(c => this.cloneComponent(c)) }));
+  }
+
+  /**
+   * The entities an action refers to or created
+   */
+  private getTouchedEntities(action: PendingAction): Entity[] {
+    return [...getIntentEntityIds(action.intent), ...action.created];
+  }
+
+  private finishApplying(): void {
+    if (!this.applying) return;
+    const { action, firstEntity } = this.applying;
+    for (let entity = firstEntity; entity < this.world.peekNextEntityId(); entity++) {
+      if (this.world.hasEntity(entity)) {
+        action.created.push(entity);
+      }
+    }
+    this.applying = null;
+  }
+
+  private cloneComponent(component: Component): Component {
+    const { registry } = this.world;
+    return registry.deserialize(registry.getIdOf(component), registry.serialize(component));
+  }
+}
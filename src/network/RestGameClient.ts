@@ -6,11 +6,12 @@ import {
   GameSession,
   PlayerConnection,
   ActionResponse,
+  ActionErrorCode,
   GameStateUpdate,
-  NetworkConfig,
   SerializedGameState,
 } from '@shared/types';
-import { HttpClient } from './HttpClient';
+import { NetworkConfig } from './types';
+import { HttpClient, HttpError } from './HttpClient';
 import * as Components from '@engine/gameplay/components';
 
 /**
@@ -18,15 +19,17 @@ import * as Components from '@engine/gameplay/components';
  * Sends actions via HTTP POST and polls for state updates
  */
 export class RestGameClient implements IGameClient {
-  private connection: PlayerConnection | null = null;
-  private session: GameSession | null = null;
-  private config: NetworkConfig;
+  protected connection: PlayerConnection | null = null;
+  protected session: GameSession | null = null;
+  protected config: NetworkConfig;
   private pollingInterval: number | null = null;
-  private lastUpdateTimestamp: string = '';
+  protected lastSeq: number | null = null; // Sequence number of the latest action received
+  protected lastVersion: number | null = null; // Entity state version the client's entities are at
   private httpClient: HttpClient;
 
   constructor(config: NetworkConfig = {}) {
     this.config = {
+      ...config,
       apiBaseUrl: config.apiBaseUrl || 'http://localhost:3000/api',
       pollInterval: config.pollInterval || 2000, // Poll every 2 seconds
       enablePolling: config.enablePolling !== false,
@@ -34,12 +37,18 @@ export class RestGameClient implements IGameClient {
     this.httpClient = new HttpClient(this.config.apiBaseUrl!);
   }
 
-  async initialize(sessionId: string, playerId: number): Promise<void> {
+  async initialize(sessionId: string, playerId: number, token?: string): Promise<void> {
     this.connection = {
       playerId,
       sessionId,
+      token,
     };
 
+    // The server identifies the player by the token issued on create/join
+    if (token) {
+      this.httpClient.setDefaultHeader('Authorization', `Bearer ${token}`);
+    }
+
     // Fetch initial session state
     await this.fetchSession();
   }
@@ -48,13 +57,10 @@ export class RestGameClient implements IGameClient {
     if (!this.connection) throw new Error('Not connected');
 
     try {
-      if (this.connection.token) {
-        this.httpClient.setDefaultHeader('Authorization', `Bearer ${this.connection.token}`);
-      }
       const sessionData = await this.httpClient.get<GameSession>(`/games/${this.connection.sessionId}`);
       this.session = sessionData;
       
-      // Don't update lastUpdateTimestamp here - it should only be updated when we get state updates
+      // Don't update lastSeq here - it should only be updated when we get state updates
       // Updating it here can cause us to miss turn advancements or get duplicate updates
     } catch (error) {
       console.error('Failed to fetch session:', error);
@@ -82,10 +88,7 @@ export class RestGameClient implements IGameClient {
     try {
       const response = await this.httpClient.post<ActionResponse>(
         `/games/${this.connection.sessionId}/actions`,
-        {
-          playerId: this.connection.playerId,
-          intent,
-        },
+        { intent },
       );
       
       // After successfully ending turn, refresh session info immediately
@@ -104,6 +107,7 @@ export class RestGameClient implements IGameClient {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Network error',
+        code: error instanceof HttpError ? (error.body.code as ActionErrorCode | undefined) : undefined,
       };
     }
   }
@@ -113,14 +117,19 @@ export class RestGameClient implements IGameClient {
 
     try {
       let url = `/games/${this.connection.sessionId}/state`;
-      if (!includeFullState && this.lastUpdateTimestamp) {
-        url += `?since=${this.lastUpdateTimestamp}`;
+      if (!includeFullState && this.lastSeq !== null) {
+        url += `?afterSeq=${this.lastSeq}`;
+        // Without a version the server sends the full state
+        if (this.lastVersion !== null) {
+          url += `&afterVersion=${this.lastVersion}`;
+        }
       } else if (includeFullState) {
         url += '?fullState=true';
       }
       
       const update = await this.httpClient.get<GameStateUpdate>(url);
-      this.lastUpdateTimestamp = update.timestamp;
+      this.lastSeq = update.seq;
+      this.lastVersion = update.version;
       return update;
     } catch (error) {
       // 304 Not Modified is expected when there are no updates
@@ -163,9 +172,9 @@ export class RestGameClient implements IGameClient {
       }
     }
 
-    // If we have full state, apply it (this happens on initial load or when state needs to be synced)
-    if (update.fullState) {
-      // This is handled by GameScene.syncEntitiesFromServer now
+    // If we have full state or a delta, apply it (full state on initial load or when state needs to be synced)
+    if (update.fullState || update.delta) {
+      // This is handled by NetworkSyncManager now
     }
 
     // Apply actions from the update
@@ -235,6 +244,18 @@ export class RestGameClient implements IGameClient {
     if (!this.config.enablePolling) return;
 
     this.stopPolling(); // Clear any existing polling
+    this.startPollingTimer(callback);
+  }
+
+  stopPolling(): void {
+    this.stopPollingTimer();
+  }
+
+  /**
+   * Poll the server for state updates and session info every pollInterval
+   */
+  protected startPollingTimer(callback: (update: GameStateUpdate) => void): void {
+    this.stopPollingTimer();
 
     // Poll more frequently to see new players/units quickly
     const pollInterval = this.config.pollInterval || 1000; // Default 1 second
@@ -256,7 +277,7 @@ export class RestGameClient implements IGameClient {
     }, pollInterval);
   }
 
-  stopPolling(): void {
+  protected stopPollingTimer(): void {
     if (this.pollingInterval !== null) {
       clearInterval(this.pollingInterval);
       this.pollingInterval = null;
@@ -0,0 +1,177 @@
+import type { GameEvent, GameStateUpdate } from '@shared/types';
+import { RestGameClient } from './RestGameClient';
+import { NetworkConfig } from './types';
+
+const MAX_RECONNECT_DELAY = 30000; // Cap for the reconnect backoff (ms)
+
+/**
+ * WebSocket game client for multiplayer
+ * Sends actions via HTTP POST like RestGameClient, but receives updates pushed by the server
+ * While the socket is down it falls back to polling, and stops polling once it reconnects
+ */
+export class WebSocketGameClient extends RestGameClient {
+  private socket: WebSocket | null = null;
+  private updateCallback: ((update: GameStateUpdate) => void) | null = null;
+  private reconnectTimeout: number | null = null;
+  private reconnectAttempts = 0;
+
+  constructor(config: NetworkConfig = {}) {
+    super({
+      ...config,
+      reconnectDelay: config.reconnectDelay || 1000,
+    });
+  }
+
+  /**
+   * Subscribe to pushed updates (polling is only used while the socket is down)
+   */
+  startPolling(callback: (update: GameStateUpdate) => void): void {
+    this.stopPolling(); // Close any existing subscription
+    this.updateCallback = callback;
+    this.connect();
+  }
+
+  stopPolling(): void {
+    this.updateCallback = null;
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.stopPollingTimer();
+  }
+
+  /**
+   * Whether updates currently arrive over the socket (false while polling)
+   */
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  private connect(): void {
+    if (!this.connection || !this.updateCallback) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.getEventsUrl());
+    } catch (error) {
+      console.warn('Failed to open game event socket:', error);
+      this.handleSocketClosed();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      // The server sends the current session and entities on connect, so polling can stop
+      this.reconnectAttempts = 0;
+      this.stopPollingTimer();
+    };
+
+    socket.onmessage = (message: MessageEvent) => {
+      try {
+        this.handleEvent(JSON.parse(message.data) as GameEvent);
+      } catch (error) {
+        console.error('Failed to handle game event:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      // Ignore sockets we closed ourselves or already replaced
+      if (this.socket === socket) {
+        this.socket = null;
+        this.handleSocketClosed();
+      }
+    };
+  }
+
+  /**
+   * Keep updates flowing by polling, and try to reconnect with exponential backoff
+   */
+  private handleSocketClosed(): void {
+    if (!this.updateCallback) return;
+
+    if (this.config.enablePolling) {
+      this.startPollingTimer(this.updateCallback);
+    }
+
+    const delay = Math.min(this.config.reconnectDelay! * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  private handleEvent(event: GameEvent): void {
+    switch (event.type) {
+      case 'sessionUpdated':
+        this.session = event.session;
+        break;
+      case 'turnAdvanced':
+        if (this.session) {
+          this.session.currentTurn = event.turn;
+          this.session.currentPlayerId = event.currentPlayerId;
+        }
+        break;
+      case 'entitiesChanged':
+        // A delta only applies on top of the version it was computed from - if we missed one, resync
+        if (event.delta && event.delta.fromVersion !== this.lastVersion) {
+          void this.resync();
+          return;
+        }
+        this.lastVersion = event.version;
+        this.lastSeq = Math.max(this.lastSeq ?? 0, event.seq);
+        break;
+      case 'action':
+        // Polling (if the socket drops) continues after the last action we know of
+        this.lastSeq = Math.max(this.lastSeq ?? 0, event.seq);
+        break;
+    }
+
+    if (this.updateCallback && this.session) {
+      this.updateCallback(this.toStateUpdate(event));
+    }
+  }
+
+  /**
+   * Fetch the full state when pushed deltas can't be applied
+   */
+  private async resync(): Promise<void> {
+    const update = await this.getStateUpdate(true);
+    if (update && this.updateCallback) {
+      this.updateCallback(update);
+    }
+  }
+
+  /**
+   * Convert a pushed event to the update shape polling produces
+   */
+  private toStateUpdate(event: GameEvent): GameStateUpdate {
+    return {
+      sessionId: event.sessionId,
+      turn: this.session!.currentTurn,
+      currentPlayerId: this.session!.currentPlayerId,
+      actions: event.type === 'action' ? [event.intent] : [],
+      seq: this.lastSeq ?? 0,
+      version: this.lastVersion ?? 0,
+      fullState: event.type === 'entitiesChanged' ? event.fullState : undefined,
+      delta: event.type === 'entitiesChanged' ? event.delta : undefined,
+      timestamp: event.type === 'sessionUpdated' ? event.session.updatedAt : event.timestamp,
+    };
+  }
+
+  private getEventsUrl(): string {
+    const { sessionId, token } = this.connection!;
+    let base = this.config.wsBaseUrl || this.config.apiBaseUrl!.replace(/^http/, 'ws');
+    if (base.startsWith('/')) {
+      // Relative API URL - the server is the page's origin
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      base = `${protocol}//${window.location.host}${base}`;
+    }
+    return `${base}/games/${encodeURIComponent(sessionId)}/events?token=${encodeURIComponent(token || '')}`;
+  }
+}
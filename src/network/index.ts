@@ -1,6 +1,7 @@
 export * from './GameClient';
 export * from './LocalGameClient';
 export * from './RestGameClient';
+export * from './WebSocketGameClient';
 export * from './GameClientFactory';
 export * from './types';
 
@@ -2,12 +2,16 @@
 export type {
   Intent,
   GameSession,
+  GameMap,
   PlayerInfo,
   PlayerConnection,
   ActionResponse,
+  ActionErrorCode,
   SerializedGameState,
   SerializedEntity,
   GameStateUpdate,
+  SyncedEntity,
+  EntityDelta,
   CreateGameRequest,
   CreateGameResponse,
   JoinGameRequest,
@@ -22,5 +26,7 @@ export interface NetworkConfig {
   apiBaseUrl?: string;
   pollInterval?: number; // How often to poll for updates (ms)
   enablePolling?: boolean;
+  wsBaseUrl?: string; // WebSocket base URL (defaults to apiBaseUrl with ws:// or wss://)
+  reconnectDelay?: number; // Initial delay before reconnecting a dropped socket (ms)
 }
 
@@ -1,5 +1,8 @@
 import Phaser from 'phaser';
 import { CivilizationRegistry } from '@engine/civilization/Civilization';
+import { AI_DIFFICULTIES, AIDifficulty } from '@engine/ai/AIController';
+import { AI } from '@config/game';
+import { VictorySettingsPicker } from './ui/VictorySettingsPicker';
 
 /**
  * Scene for selecting a civilization before starting a new game.
@@ -7,6 +10,7 @@ import { CivilizationRegistry } from '@engine/civilization/Civilization';
 export interface BotConfig {
   civId: string;
   playerId: number;
+  difficulty: AIDifficulty;
 }
 
 export class CivilizationSelectionScene extends Phaser.Scene {
@@ -108,6 +112,20 @@ export class CivilizationSelectionScene extends Phaser.Scene {
           botListContainer.add(colorIndicator);
         }
 
+        // Difficulty: click to cycle through them
+        const difficultyText = this.add.text(60, botY, bot.difficulty, {
+          fontSize: '16px',
+          color: '#fbbf24',
+          fontFamily: 'Arial',
+        });
+        difficultyText.setOrigin(0.5, 0.5);
+        difficultyText.setInteractive({ useHandCursor: true });
+        difficultyText.on('pointerdown', () => {
+          bot.difficulty = AI_DIFFICULTIES[(AI_DIFFICULTIES.indexOf(bot.difficulty) + 1) % AI_DIFFICULTIES.length];
+          difficultyText.setText(bot.difficulty);
+        });
+        botListContainer.add(difficultyText);
+
         // Remove button
         const removeButton = this.add.rectangle(150, botY, 30, 20, 0xff4444, 0.8);
         removeButton.setStrokeStyle(1, 0xffffff);
@@ -251,6 +269,9 @@ export class CivilizationSelectionScene extends Phaser.Scene {
       });
     });
 
+    // How the game can be won
+    const getVictorySettings = VictorySettingsPicker.create(this, width - 160, 150);
+
     // Start game handler
     startButton.on('pointerdown', () => {
       if (this.selectedCivId) {
@@ -259,6 +280,7 @@ export class CivilizationSelectionScene extends Phaser.Scene {
           selectedCivId: this.selectedCivId,
           bots: this.bots,
           multiplayer: this.isMultiplayer,
+          victory: getVictorySettings(),
         });
       }
     });
@@ -367,6 +389,7 @@ export class CivilizationSelectionScene extends Phaser.Scene {
         this.bots.push({
           civId: civ.id,
           playerId: this.nextPlayerId++,
+          difficulty: AI.DEFAULT_DIFFICULTY,
         });
         
         // Close modal
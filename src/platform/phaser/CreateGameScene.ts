@@ -1,6 +1,8 @@
 import Phaser from 'phaser';
 import { CivilizationRegistry } from '@engine/civilization/Civilization';
 import { RestGameClient } from '@/network/RestGameClient';
+import { VictorySettings } from '@engine/gameplay/victory';
+import { VictorySettingsPicker } from './ui/VictorySettingsPicker';
 
 /**
  * Scene for creating a new multiplayer game
@@ -10,6 +12,7 @@ export class CreateGameScene extends Phaser.Scene {
   private gameName: string = '';
   private apiBaseUrl: string = 'http://localhost:3000/api';
   private statusText: Phaser.GameObjects.Text | null = null;
+  private getVictorySettings: (() => VictorySettings) | null = null;
 
   constructor() {
     super('CreateGameScene');
@@ -141,6 +144,9 @@ export class CreateGameScene extends Phaser.Scene {
       });
     });
 
+    // How the game can be won
+    this.getVictorySettings = VictorySettingsPicker.create(this, width - 160, 150);
+
     // Status text
     this.statusText = this.add.text(width / 2, height - 150, '', {
       fontSize: '18px',
@@ -218,10 +224,6 @@ export class CreateGameScene extends Phaser.Scene {
   private updateCreateButton: () => void = () => {};
 
   private async createGame() {
-    // Get map dimensions from cache (same map file used by GameScene)
-    const mapJson = this.cache.json.get('map');
-    const mapWidth = mapJson?.width || 20;
-    const mapHeight = mapJson?.height || 12;
     if (!this.selectedCivId || !this.gameName.trim()) return;
 
     if (this.statusText) {
@@ -240,8 +242,7 @@ export class CreateGameScene extends Phaser.Scene {
           name: this.gameName,
           playerName: 'Player',
           civilizationId: this.selectedCivId,
-          mapWidth,
-          mapHeight,
+          victory: this.getVictorySettings?.(),
         }),
       });
 
@@ -262,8 +263,10 @@ export class CreateGameScene extends Phaser.Scene {
           multiplayer: true,
           sessionId: gameData.sessionId,
           playerId: gameData.playerId,
+          token: gameData.token,
           selectedCivId: this.selectedCivId,
           apiBaseUrl: this.apiBaseUrl,
+          map: gameData.map,
         });
       }, 1500);
     } catch (error) {
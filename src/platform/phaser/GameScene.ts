@@ -2,15 +2,17 @@ import Phaser from 'phaser';
 import { World, Entity } from '@engine/ecs';
 import { GameState } from '@/state/GameState';
 import { IntentQueue } from '@/state/IntentQueue';
-import { NetworkIntentQueue } from '@/network/NetworkIntentQueue';
+import { NetworkIntentQueue, RejectedAction } from '@/network/NetworkIntentQueue';
 import { IGameClient, createGameClient } from '@/network';
-import { GameStateUpdate } from '@/network/types';
+import { GameMap, GameStateUpdate } from '@/network/types';
 import { MapData } from '@engine/map/MapData';
 import { TerrainRegistry } from '@engine/map/Terrain';
 import { FogOfWar } from '@engine/map/FogOfWar';
 import { CivilizationRegistry, getCitySpriteKey } from '@engine/civilization/Civilization';
-import { UnitFactory } from '@/utils/unitFactory';
-import { DEFAULT_CIVILIZATION_ID } from '@config/game';
+import { GameDataProvider, JsonGameData } from '@engine/gameplay/gameData';
+import { VictorySettings } from '@engine/gameplay/victory';
+import { AIController, AIDifficulty } from '@engine/ai/AIController';
+import { AI, AUTOSAVE_INTERVAL_TURNS, AUTOSAVE_SLOT, DEFAULT_CIVILIZATION_ID } from '@config/game';
 import * as Systems from '@engine/gameplay/systems';
 import * as Components from '@engine/gameplay/components';
 import { PointerInput } from './input/PointerInput';
@@ -20,9 +22,12 @@ import { CitySprite } from './sprites/CitySprite';
 import { stableSort } from './depthSort';
 import { EntityRenderer } from './renderers/EntityRenderer';
 import { FogRenderer } from './renderers/FogRenderer';
+import { CombatRenderer } from './renderers/CombatRenderer';
 import { NetworkSyncManager } from './managers/NetworkSyncManager';
 import { CameraController } from './managers/CameraController';
 import { EntityFactory } from './factories/EntityFactory';
+import { SaveGameData, createSaveGame, restoreSaveGame } from '@/state/SaveGame';
+import { SaveGameStorage, exportSaveFile } from '@/state/SaveGameStorage';
 import {
   CAMERA_SCROLL_SPEED,
   CAMERA_ZOOM,
@@ -34,7 +39,6 @@ import {
   FOG_ALPHA_REVEALED,
   FOG_ALPHA_UNREVEALED,
 } from '@config/game';
-import { tileToWorld } from '@engine/math/iso';
 import { chebyshevDistance } from '@engine/math/grid';
 
 /**
@@ -46,26 +50,31 @@ export class GameScene extends Phaser.Scene {
   private gameState!: GameState;
   private intentQueue!: NetworkIntentQueue;
   private gameClient!: IGameClient;
-  // Map local entity IDs to server entity IDs for multiplayer sync
-  private entityIdMap = new Map<number, number>(); // localEntityId -> serverEntityId
-  private serverEntityIdMap = new Map<number, number>(); // serverEntityId -> localEntityId
   public mapData!: MapData; // Made public for HUD access
+  private gameMap!: GameMap; // The map mapData was built from (kept in saves)
   private fogOfWar!: FogOfWar;
   private civilizationRegistry!: CivilizationRegistry;
+  public gameData!: GameDataProvider; // Made public for the HUD (tech names and costs)
 
   private tileSprites = new Map<Entity, IsoTileSprite>();
   private unitsContainer!: Phaser.GameObjects.Container;
   private pathPreview!: Phaser.GameObjects.Graphics;
   public civilizationProductionSystem!: Systems.CivilizationProductionSystem; // Made public for ProductionSystem access
+  public researchSystem!: Systems.ResearchSystem; // Made public for the HUD's research picker
   
   // Refactored managers and renderers
   private entityRenderer!: EntityRenderer;
   private fogRenderer!: FogRenderer;
+  private combatRenderer!: CombatRenderer;
   private networkSyncManager!: NetworkSyncManager;
   private cameraController!: CameraController;
   private entityFactory!: EntityFactory;
+
+  // Single-player save games
+  private saveStorage = new SaveGameStorage();
+  private lastAutosaveTurn = 0;
   
-  // Expose sprites for systems that need them
+  // Expose sprites for input hit-testing (PointerInput)
   public get unitSprites() {
     return this.entityRenderer.unitSprites;
   }
@@ -80,11 +89,15 @@ export class GameScene extends Phaser.Scene {
 
   async create(data?: { 
     selectedCivId?: string; 
-    bots?: Array<{ civId: string; playerId: number }>;
+    bots?: Array<{ civId: string; playerId: number; difficulty?: AIDifficulty }>;
     multiplayer?: boolean;
     sessionId?: string;
     playerId?: number;
+    token?: string; // Multiplayer: player token issued by the server on create/join
     apiBaseUrl?: string;
+    map?: GameMap; // Multiplayer: the session's map from the server
+    saveGame?: SaveGameData; // Single player: a saved game to continue
+    victory?: VictorySettings; // Single player: how the game can be won (every way if not given)
   }) {
     // --- Initialization ---
     await this.initializeState(
@@ -92,22 +105,34 @@ export class GameScene extends Phaser.Scene {
       data?.sessionId,
       data?.playerId || 0,
       data?.apiBaseUrl,
+      data?.token,
     );
-    this.initializeMap(); // Must be called before requesting initial state (needed for civilizationRegistry)
+    this.initializeMap(data?.map ?? data?.saveGame?.map); // Must be called before requesting initial state (needed for civilizationRegistry)
+
+    // Intents sent to the server are checked against the same map and game data it uses
+    this.intentQueue.setSchemaContext({
+      mapWidth: this.mapData.width,
+      mapHeight: this.mapData.height,
+      unitTypes: new Set(this.gameData.getUnitTypes()),
+      buildingTypes: new Set(this.gameData.getBuildingTypes()),
+      techTypes: new Set(this.gameData.getTechTypes()),
+    });
     
     // Initialize units container (needed for both single and multiplayer)
     this.unitsContainer = this.add.container(0, 0);
     this.pathPreview = this.add.graphics();
     this.unitsContainer.add(this.pathPreview);
     
-    // Initialize refactored managers and renderers BEFORE systems (systems need unitSprites)
+    // Renderers react to the systems' engine events, so they are set up before the systems
     this.entityRenderer = new EntityRenderer(
       this,
       this.ecsWorld,
       this.civilizationRegistry,
       this.mapData,
       this.pathPreview,
+      this.game.events,
     );
+    this.combatRenderer = new CombatRenderer(this, this.game.events);
     
     // Create empty tileSprites map for FogRenderer (will be populated later)
     this.tileSprites = new Map<Entity, IsoTileSprite>();
@@ -122,11 +147,15 @@ export class GameScene extends Phaser.Scene {
     this.fogRenderer.initialize();
     
     this.networkSyncManager = new NetworkSyncManager(
+      this,
       this.ecsWorld,
       this.gameState,
       this.intentQueue,
       this.entityRenderer.unitSprites,
+      this.civilizationRegistry,
+      this.gameData,
     );
+    this.intentQueue.onActionRejected(rejected => this.handleActionRejected(rejected));
     
     this.cameraController = new CameraController(this);
     this.cameraController.initialize();
@@ -136,10 +165,10 @@ export class GameScene extends Phaser.Scene {
       this.ecsWorld,
       this.mapData,
       this.civilizationRegistry,
-      this.entityRenderer.unitSprites,
+      this.gameData,
     );
     
-    // Now initialize systems (they need entityRenderer to be ready)
+    // Now initialize systems
     this.initializeSystems();
     
     this.initializeInput();
@@ -155,6 +184,11 @@ export class GameScene extends Phaser.Scene {
     }
 
     // --- World Creation ---
+    // A saved game is restored before tile entities are created, so their IDs don't clash with the saved ones
+    if (data?.saveGame) {
+      this.loadSaveGame(data.saveGame);
+    }
+
     // Create tile entities and update tileSprites map
     const newTileSprites = this.entityFactory.createTileEntities();
     // Merge new tiles into existing map (in case it was already initialized)
@@ -166,7 +200,7 @@ export class GameScene extends Phaser.Scene {
       // In multiplayer, wait for initial state sync from server
       // The server will send full state with all entities
       // We'll create units when we receive the first state update
-    } else {
+    } else if (!data?.saveGame) {
       // Single player: create units locally
       const allPlayers: Array<{ playerId: number; civId: string }> = [{
         playerId: 0,
@@ -179,9 +213,15 @@ export class GameScene extends Phaser.Scene {
             playerId: bot.playerId,
             civId: bot.civId,
           });
+          this.gameState.ai[bot.playerId] = bot.difficulty ?? AI.DEFAULT_DIFFICULTY;
         });
       }
       
+      this.gameState.players = allPlayers;
+      if (data?.victory) {
+        this.gameState.victory = data.victory;
+      }
+
       // Generate starting positions for all players at once
       await this.entityFactory.createUnitsForAllPlayers(allPlayers);
     }
@@ -196,8 +236,20 @@ export class GameScene extends Phaser.Scene {
       }
     }
 
-    // Initial fog computation
-    this.intentQueue.push({ type: 'TurnBegan' });
+    // Start the first turn (income, production, ...)
+    // Not for a loaded game - its current turn's transition ran before it was saved
+    if (!data?.saveGame) {
+      this.ecsWorld.advanceTurn(this.gameState.turn);
+    }
+
+    this.game.events.on('save-game', this.handleSaveGame, this);
+    this.game.events.on('export-game', this.handleExportGame, this);
+    this.events.once('shutdown', () => {
+      this.game.events.off('save-game', this.handleSaveGame, this);
+      this.game.events.off('export-game', this.handleExportGame, this);
+      this.entityRenderer.destroy();
+      this.combatRenderer.destroy();
+    });
 
     // --- UI Notification ---
     // Notify React UI that the game is ready
@@ -224,6 +276,7 @@ export class GameScene extends Phaser.Scene {
     // --- Phaser-specific Updates ---
     this.entityRenderer.update(this.gameState.selectedEntity);
     this.fogRenderer.update();
+    this.autosave();
 
     // Depth sort units after all position updates
     const unitSpriteList = Array.from(this.entityRenderer.unitSprites.values());
@@ -237,6 +290,7 @@ export class GameScene extends Phaser.Scene {
     sessionId?: string,
     playerId: number = 0,
     apiBaseUrl?: string,
+    token?: string,
   ) {
     this.ecsWorld = new World();
     this.gameState = new GameState();
@@ -246,10 +300,11 @@ export class GameScene extends Phaser.Scene {
 
     // Create appropriate game client
     if (multiplayer && sessionId) {
-      this.gameClient = createGameClient('rest', { apiBaseUrl });
-      await this.gameClient.initialize(sessionId, playerId);
+      this.gameClient = createGameClient('websocket', { apiBaseUrl });
+      await this.gameClient.initialize(sessionId, playerId, token);
       
-      // Start polling for updates (initial state will be requested after map init)
+      // Subscribe to server updates - pushed over a WebSocket, polled while it's down
+      // (initial state will be requested after map init)
       if (this.gameClient.startPolling) {
         this.gameClient.startPolling((update) => {
           this.handleStateUpdate(update);
@@ -286,6 +341,15 @@ export class GameScene extends Phaser.Scene {
               allPlayersEnded: session.allPlayersEnded,
               isSequentialMode: session.isSequentialMode,
             });
+
+            // The server checks the victory conditions - it decides when the game is over
+            if (session.victory) {
+              this.gameState.victory = session.victory;
+            }
+            if (session.status === 'finished' && session.result && !this.gameState.result) {
+              this.gameState.result = session.result;
+              this.game.events.emit('game-over', session.result);
+            }
           }
         }, 1500); // Poll every 1.5 seconds (faster to catch new players)
       }
@@ -297,275 +361,124 @@ export class GameScene extends Phaser.Scene {
     // Create network-aware intent queue
     this.intentQueue = new NetworkIntentQueue();
     this.intentQueue.setGameClient(this.gameClient);
-    
-    // Expose entity ID mapping to game client for intent translation
-    if (this.gameClient && 'entityIdMap' in this.gameClient) {
-      (this.gameClient as any).entityIdMap = this.entityIdMap;
-    }
+    this.intentQueue.setWorld(this.ecsWorld);
   }
 
   /**
    * Handle state updates from the server (for multiplayer games)
    */
   private handleStateUpdate(update: GameStateUpdate): void {
-    // If we have full state, sync entities first (this happens on initial load)
-    if (update.fullState) {
-      this.syncEntitiesFromServer(update.fullState);
+    // The server runs the turn economy - mirror its production stockpile and research
+    const production = update.fullState?.production ?? update.delta?.production;
+    const localPlayer = this.gameClient.getSession()?.players.find(p => p.id === this.gameState.localPlayerId);
+    if (production !== undefined && localPlayer && this.civilizationProductionSystem) {
+      this.civilizationProductionSystem.setProduction(localPlayer.civilizationId, production);
+    }
+    const research = update.fullState?.research ?? update.delta?.research;
+    if (research && localPlayer && this.researchSystem) {
+      this.researchSystem.setResearch(localPlayer.civilizationId, research);
     }
 
-    // Use NetworkSyncManager for state update handling
+    // NetworkSyncManager applies the entities and actions
     this.networkSyncManager.handleStateUpdate(update, this.gameClient, this.game.events);
   }
 
   /**
-   * Synchronize entities from server state
+   * Undo an action the server rejected (multiplayer) and tell the player why
    */
-  private syncEntitiesFromServer(fullState: {
-    entities: Array<{
-      id: number;
-      ownerId: number;
-      civId: string;
-      type: string;
-      position: { tx: number; ty: number };
-      data: Record<string, unknown>;
-    }>;
-  }): void {
-    // Only sync in multiplayer mode
-    if (!this.gameState.isMultiplayer) return;
-
-    // Ensure civilization registry is initialized (it should be from initializeMap)
-    if (!this.civilizationRegistry) {
-      console.error('[GameScene] civilizationRegistry not initialized yet!');
-      return;
+  private async handleActionRejected(rejected: RejectedAction): Promise<void> {
+    this.networkSyncManager.applyRollback(rejected.rollback);
+    this.game.events.emit('action-rejected', { message: rejected.error });
+    this.game.events.emit('ui-update');
+
+    // The rollback only restores entities - take the server's state for the rest (e.g. production spent on a purchase)
+    try {
+      const update = await (this.gameClient as any).getStateUpdate(true);
+      if (update) {
+        this.handleStateUpdate(update);
+      }
+    } catch (error) {
+      console.error('[GameScene] Failed to resync after a rejected action:', error);
     }
+  }
 
-    // Ensure units container exists
-    if (!this.unitsContainer) {
-      this.unitsContainer = this.add.container(0, 0);
-      this.pathPreview = this.add.graphics();
-      this.unitsContainer.add(this.pathPreview);
+  /**
+   * Restore a saved single-player game into the (still empty) world
+   */
+  private loadSaveGame(save: SaveGameData): void {
+    restoreSaveGame(save, { world: this.ecsWorld, gameState: this.gameState, fogOfWar: this.fogOfWar });
+    for (const [civId, production] of Object.entries(save.production)) {
+      this.civilizationProductionSystem.setProduction(civId, production);
+    }
+    for (const [civId, research] of Object.entries(save.research)) {
+      this.researchSystem.setResearch(civId, research);
     }
 
-    const unitFactory = new UnitFactory(
-      this.ecsWorld,
-      this,
-      this.civilizationRegistry,
-      this.entityRenderer.unitSprites,
-    );
-    
-    // Store reference to unitsContainer in unitFactory if it has a method to set it
-    // (UnitFactory adds sprites directly to scene, which should work, but let's verify)
-
-    // Track which entities we've synced
-    const syncedEntityIds = new Set<number>();
-
-    fullState.entities.forEach((serverEntity) => {
-      if (serverEntity.type === 'unit') {
-        syncedEntityIds.add(serverEntity.id);
+    this.lastAutosaveTurn = this.gameState.turn;
+  }
 
-        // First, try to find existing entity by server entity ID mapping (most reliable)
-        let existingEntity = this.serverEntityIdMap.get(serverEntity.id);
-        
-        // If not found by ID mapping, try to find by owner and position
-        // IMPORTANT: Only match if owner matches exactly to prevent cross-player mix-ups
-        if (!existingEntity) {
-          existingEntity = Array.from(this.ecsWorld.view(Components.Unit, Components.Owner)).find(
-            (e) => {
-              const owner = this.ecsWorld.getComponent(e, Components.Owner);
-              const transform = this.ecsWorld.getComponent(e, Components.TransformTile);
-              // Match by owner (MUST match exactly) and exact position (or very close - within 1 tile)
-              // Also check that this entity isn't already mapped to a different server entity
-              if (owner?.playerId === serverEntity.ownerId && transform) {
-                const currentMappedId = this.entityIdMap.get(e);
-                // If already mapped to a different server entity, don't remap it
-                if (currentMappedId !== undefined && currentMappedId !== serverEntity.id) {
-                  return false;
-                }
-                const dx = Math.abs(transform.tx - serverEntity.position.tx);
-                const dy = Math.abs(transform.ty - serverEntity.position.ty);
-                return dx <= 1 && dy <= 1;
-              }
-              return false;
-            }
-          );
-        }
-
-        if (!existingEntity) {
-          // Create new entity from server state
-          const unitType = (serverEntity.data.unitType as string) || 'settler';
-          const entity = unitFactory.createUnit(
-            unitType,
-            serverEntity.position,
-            serverEntity.ownerId,
-            serverEntity.civId,
-          );
-          
-          // Entity is a number, so we need to check for null/undefined, not truthiness (entity 0 is valid!)
-          if (entity !== null && entity !== undefined && typeof entity === 'number') {
-            // Update entity data from server
-            const unit = this.ecsWorld.getComponent(entity, Components.Unit);
-            if (unit) {
-              unit.mp = (serverEntity.data.mp as number) ?? unit.mp;
-              unit.maxMp = (serverEntity.data.maxMp as number) ?? unit.maxMp;
-              unit.health = (serverEntity.data.health as number) ?? unit.health;
-              unit.maxHealth = (serverEntity.data.maxHealth as number) ?? unit.maxHealth;
-            }
-            
-            // If this is the local player's unit, center camera on it
-            const transform = this.ecsWorld.getComponent(entity, Components.TransformTile);
-            if (serverEntity.ownerId === this.gameState.localPlayerId && transform) {
-              const worldPos = tileToWorld(transform);
-              this.cameras.main.centerOn(worldPos.x, worldPos.y);
-            }
-            
-            // Store server entity ID mapping for this local entity
-            // Verify ownership before mapping to prevent cross-player mix-ups
-            const owner = this.ecsWorld.getComponent(entity, Components.Owner);
-            if (owner && owner.playerId === serverEntity.ownerId) {
-              this.entityIdMap.set(entity, serverEntity.id);
-              this.serverEntityIdMap.set(serverEntity.id, entity);
-              console.log(`[GameScene] Mapped local entity ${entity} (player ${owner.playerId}) to server entity ${serverEntity.id} (player ${serverEntity.ownerId})`);
-            } else {
-              console.error(`[GameScene] Ownership mismatch when creating entity mapping: local entity ${entity} owner ${owner?.playerId} vs server entity ${serverEntity.id} owner ${serverEntity.ownerId}`);
-            }
-          } else {
-            console.error(`[GameScene] Failed to create entity for player ${serverEntity.ownerId}`);
-          }
-        } else {
-          // Update existing entity position and data from server
-          const transform = this.ecsWorld.getComponent(existingEntity, Components.TransformTile);
-          const unit = this.ecsWorld.getComponent(existingEntity, Components.Unit);
-          const owner = this.ecsWorld.getComponent(existingEntity, Components.Owner);
-          
-          // Update entity ID mapping (in case it wasn't set before)
-          // IMPORTANT: Verify ownership matches before updating mapping to prevent cross-player entity ID mix-ups
-          if (owner && owner.playerId === serverEntity.ownerId) {
-            const currentMappedId = this.entityIdMap.get(existingEntity);
-            if (currentMappedId !== serverEntity.id) {
-              // Remove old mapping if it exists
-              if (currentMappedId !== undefined) {
-                this.serverEntityIdMap.delete(currentMappedId);
-              }
-              this.entityIdMap.set(existingEntity, serverEntity.id);
-              this.serverEntityIdMap.set(serverEntity.id, existingEntity);
-            }
-          } else if (owner && owner.playerId !== serverEntity.ownerId) {
-            // Ownership mismatch - this shouldn't happen, but log it
-            console.warn(`[GameScene] Ownership mismatch when syncing entity: local owner ${owner.playerId} vs server owner ${serverEntity.ownerId}`);
-          }
-          
-          // Only update if it's not the local player's unit (server is authoritative)
-          // OR if it's another player's unit (always sync)
-          if (owner && owner.playerId !== this.gameState.localPlayerId) {
-            if (transform) {
-              transform.tx = serverEntity.position.tx;
-              transform.ty = serverEntity.position.ty;
-              const worldPos = tileToWorld(serverEntity.position);
-              const screenPos = this.ecsWorld.getComponent(existingEntity, Components.ScreenPos);
-              if (screenPos) {
-                screenPos.x = worldPos.x;
-                screenPos.y = worldPos.y;
-              }
-              // Update sprite position
-              const sprite = this.entityRenderer.unitSprites.get(existingEntity);
-              if (sprite) {
-                sprite.setPosition(worldPos.x, worldPos.y);
-              }
-            }
-            
-            if (unit) {
-              unit.mp = (serverEntity.data.mp as number) ?? unit.mp;
-              unit.maxMp = (serverEntity.data.maxMp as number) ?? unit.maxMp;
-              unit.health = (serverEntity.data.health as number) ?? unit.health;
-              unit.maxHealth = (serverEntity.data.maxHealth as number) ?? unit.maxHealth;
-            }
-          }
-        }
-      }
+  private createSaveGame(): SaveGameData {
+    return createSaveGame({
+      world: this.ecsWorld,
+      gameState: this.gameState,
+      fogOfWar: this.fogOfWar,
+      map: this.gameMap,
+      production: this.civilizationProductionSystem.getAllProduction(),
+      research: this.researchSystem.getAllResearch(),
     });
+  }
 
-    // Remove entities that don't exist on server (for all players, to prevent duplicates)
-    const localUnits = Array.from(this.ecsWorld.view(Components.Unit, Components.Owner));
-    
-    for (const entity of localUnits) {
-      const owner = this.ecsWorld.getComponent(entity, Components.Owner);
-      if (!owner) continue;
-      
-      // Check if this entity exists on server
-      // First check by server entity ID mapping (most reliable)
-      const serverEntityId = this.entityIdMap.get(entity);
-      const existsByMapping = serverEntityId !== undefined && syncedEntityIds.has(serverEntityId);
-      
-      // Also check by position and owner (fallback)
-      const transform = this.ecsWorld.getComponent(entity, Components.TransformTile);
-      let existsByPosition = false;
-      if (transform) {
-        const matchingServerEntity = fullState.entities.find(
-          e => e.type === 'unit' &&
-               e.ownerId === owner.playerId &&
-               Math.abs(e.position.tx - transform.tx) <= 1 &&
-               Math.abs(e.position.ty - transform.ty) <= 1
-        );
-        if (matchingServerEntity) {
-          existsByPosition = true;
-          // Update mapping if it wasn't set
-          if (!serverEntityId) {
-            this.entityIdMap.set(entity, matchingServerEntity.id);
-            this.serverEntityIdMap.set(matchingServerEntity.id, entity);
-          }
-        }
-      }
-      
-      // If entity doesn't exist on server (by either method), remove it
-      // This prevents duplicates, especially for the local player
-      if (!existsByMapping && !existsByPosition) {
-        // Remove entity and sprite
-        const sprite = this.entityRenderer.unitSprites.get(entity);
-        if (sprite) {
-          sprite.destroy();
-          this.entityRenderer.unitSprites.delete(entity);
-        }
-        // Clean up entity ID mappings
-        if (serverEntityId !== undefined) {
-          this.entityIdMap.delete(entity);
-          this.serverEntityIdMap.delete(serverEntityId);
-        }
-        this.ecsWorld.destroyEntity(entity);
-      }
+  /**
+   * Save a single-player game to a named slot in browser storage
+   */
+  private handleSaveGame(data: { slot: string }): void {
+    if (this.gameState.isMultiplayer) return;
+    try {
+      this.saveStorage.save(data.slot, this.createSaveGame());
+      this.game.events.emit('game-saved', { message: `Game saved to "${data.slot}"` });
+    } catch (error) {
+      // e.g. the storage quota is exceeded
+      console.error('[GameScene] Failed to save game:', error);
+      this.game.events.emit('save-failed', { message: `Could not save game: ${error instanceof Error ? error.message : error}` });
     }
-    
-    // Also check for duplicate server entities (same server ID mapped to multiple local entities)
-    for (const [serverId, localEntity] of this.serverEntityIdMap.entries()) {
-      if (syncedEntityIds.has(serverId)) {
-        // Check if there are other local entities mapped to the same server ID
-        const duplicates = localUnits.filter(e => {
-          const mappedId = this.entityIdMap.get(e);
-          return mappedId === serverId && e !== localEntity;
-        });
-        
-        if (duplicates.length > 0) {
-          for (const duplicate of duplicates) {
-            const sprite = this.entityRenderer.unitSprites.get(duplicate);
-            if (sprite) {
-              sprite.destroy();
-              this.entityRenderer.unitSprites.delete(duplicate);
-            }
-            this.entityIdMap.delete(duplicate);
-            this.ecsWorld.destroyEntity(duplicate);
-          }
-        }
-      }
+  }
+
+  /**
+   * Download the single-player game as a JSON file
+   */
+  private handleExportGame(): void {
+    if (this.gameState.isMultiplayer) return;
+    exportSaveFile(this.createSaveGame(), `polyempire-turn-${this.gameState.turn}`);
+  }
+
+  /**
+   * Autosave single-player games every AUTOSAVE_INTERVAL_TURNS turns
+   */
+  private autosave(): void {
+    const { turn, isMultiplayer } = this.gameState;
+    if (isMultiplayer || turn === this.lastAutosaveTurn || turn % AUTOSAVE_INTERVAL_TURNS !== 0) {
+      return;
     }
+    this.lastAutosaveTurn = turn;
+    this.handleSaveGame({ slot: AUTOSAVE_SLOT });
   }
 
-  private initializeMap() {
+  private initializeMap(map?: GameMap) {
     const terrainData = this.cache.json.get('terrains');
     const terrainRegistry = new TerrainRegistry(terrainData);
 
     const civilizationData = this.cache.json.get('civilizations');
     this.civilizationRegistry = new CivilizationRegistry(civilizationData);
 
-    const mapJson = this.cache.json.get('map');
+    this.gameData = new JsonGameData(
+      this.cache.json.get('units'),
+      this.cache.json.get('buildings'),
+      this.cache.json.get('techs'),
+    );
+
+    // Multiplayer sessions play on the server's map and loaded games on their saved one; new single-player games use the bundled one
+    const mapJson: GameMap = map ?? this.cache.json.get('map');
+    this.gameMap = mapJson;
     this.mapData = new MapData(
       mapJson.width,
       mapJson.height,
@@ -591,61 +504,66 @@ export class GameScene extends Phaser.Scene {
       new Systems.TurnSystem(this.intentQueue, this.gameState, this.game.events),
     );
     this.ecsWorld.addSystem(new Systems.SelectionSystem(this.intentQueue, this.gameState, this.game.events));
-    this.ecsWorld.addSystem(new Systems.CityGrowthSystem(this.gameState)); // Checks if cities can level up based on population
-    // Yield and production systems must run before FogSystem (which consumes TurnBegan)
-    this.ecsWorld.addSystem(
-      new Systems.YieldSystem(this.intentQueue, this.game.events, this.mapData, this.gameState),
-    );
-    this.ecsWorld.addSystem(new Systems.BuildingYieldSystem(
-      this.intentQueue,
-      this.game.events,
-      this.gameState,
-    ));
+    // Turn processing runs in turn phases (see TurnPipeline), not in the order systems are added
+    this.ecsWorld.addSystem(new Systems.CityGrowthSystem(this.gameState)); // Feeds cities, grows or starves them and levels them up
+    this.ecsWorld.addSystem(new Systems.YieldSystem(this.game.events, this.mapData, this.gameState, this.civilizationRegistry));
+    this.ecsWorld.addSystem(new Systems.BuildingYieldSystem(this.game.events, this.gameState));
     this.civilizationProductionSystem = new Systems.CivilizationProductionSystem(
-      this.intentQueue,
       this.game.events,
       this.civilizationRegistry,
       this.gameState,
     );
     this.ecsWorld.addSystem(this.civilizationProductionSystem);
+    this.researchSystem = new Systems.ResearchSystem(this.intentQueue, this.game.events, this.gameData, this.gameState);
+    this.ecsWorld.addSystem(this.researchSystem);
     this.ecsWorld.addSystem(new Systems.MoveModeSystem(this.intentQueue, this.gameState, this.game.events));
     this.ecsWorld.addSystem(new Systems.PathRequestSystem(this.intentQueue, this.mapData, this.fogOfWar, this.gameState, this.game.events));
     this.ecsWorld.addSystem(new Systems.MovementSystem(this.mapData));
-    this.ecsWorld.addSystem(new Systems.FogSystem(this.fogOfWar, this.intentQueue, this.gameState));
+    this.ecsWorld.addSystem(new Systems.FogSystem(this.fogOfWar));
+    this.ecsWorld.addSystem(new Systems.VictorySystem(this.game.events, this.gameState, this.researchSystem));
     this.ecsWorld.addSystem(new Systems.FoundCitySystem(this.intentQueue, this.gameState, this.game.events));
-    this.ecsWorld.addSystem(new Systems.CombatSystem(this.intentQueue, this.game.events, this));
+    this.ecsWorld.addSystem(new Systems.CombatSystem(this.intentQueue, this.game.events, this.gameState));
+    this.ecsWorld.addSystem(new Systems.CaptureCitySystem(this.intentQueue, this.game.events, this.gameState));
     this.ecsWorld.addSystem(new Systems.ProductionSystem(
-      this.intentQueue,
       this.game.events,
-      this,
+      this.gameData,
+      this.gameState,
       this.civilizationRegistry,
-      this.unitSprites,
       this.mapData,
       this.civilizationProductionSystem,
     ));
     this.ecsWorld.addSystem(new Systems.ProduceUnitSystem(
       this.intentQueue,
       this.game.events,
-      this,
+      this.gameData,
       this.gameState,
       this.civilizationProductionSystem,
       this.civilizationRegistry,
-      this.unitSprites,
+      this.researchSystem,
     ));
     this.ecsWorld.addSystem(new Systems.ProduceBuildingSystem(
       this.intentQueue,
       this.game.events,
-      this,
+      this.gameData,
       this.gameState,
       this.civilizationProductionSystem,
       this.mapData,
+      this.researchSystem,
     ));
     this.ecsWorld.addSystem(new Systems.BuildBuildingSystem(
       this.intentQueue,
       this.game.events,
-      this,
+      this.gameData,
       this.gameState,
       this.civilizationProductionSystem,
+      this.mapData,
+      this.researchSystem,
+    ));
+    // Computer players' actions are applied by the systems above, on the next frame
+    this.ecsWorld.addSystem(new Systems.AISystem(
+      this.intentQueue,
+      this.gameState,
+      new AIController(this.mapData, this.gameData, this.civilizationProductionSystem, this.researchSystem),
     ));
     this.ecsWorld.addSystem(new Systems.RenderSyncSystem()); // Must be last logic system
   }
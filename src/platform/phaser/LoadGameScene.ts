@@ -0,0 +1,147 @@
+import Phaser from 'phaser';
+import { SaveGameData } from '@/state/SaveGame';
+import { SaveGameStorage, importSaveFile } from '@/state/SaveGameStorage';
+
+/**
+ * Scene for loading a saved single-player game - from a save slot or an exported file
+ */
+export class LoadGameScene extends Phaser.Scene {
+  private storage = new SaveGameStorage();
+  private statusText: Phaser.GameObjects.Text | null = null;
+
+  constructor() {
+    super('LoadGameScene');
+  }
+
+  create() {
+    const { width, height } = this.cameras.main;
+
+    // Title
+    const title = this.add.text(width / 2, 80, 'Load Game', {
+      fontSize: '48px',
+      color: '#ffffff',
+      fontFamily: 'Arial',
+    });
+    title.setOrigin(0.5, 0.5);
+
+    // Save slots, most recent first
+    const slots = this.storage.list();
+    const slotWidth = 400;
+    const slotHeight = 50;
+    const slotSpacing = 60;
+    const startY = 170;
+
+    if (slots.length === 0) {
+      const emptyText = this.add.text(width / 2, startY, 'No saved games', {
+        fontSize: '20px',
+        color: '#888888',
+        fontFamily: 'Arial',
+      });
+      emptyText.setOrigin(0.5, 0.5);
+    }
+
+    slots.forEach((slot, index) => {
+      const y = startY + index * slotSpacing;
+      const savedAt = new Date(slot.savedAt).toLocaleString();
+
+      const slotBg = this.add.rectangle(width / 2, y, slotWidth, slotHeight, 0x4a4a4a, 0.8);
+      slotBg.setStrokeStyle(2, 0xffffff);
+      slotBg.setInteractive({ useHandCursor: true });
+      slotBg.on('pointerdown', () => this.loadSlot(slot.slot));
+      slotBg.on('pointerover', () => slotBg.setFillStyle(0x5a5a5a, 0.9));
+      slotBg.on('pointerout', () => slotBg.setFillStyle(0x4a4a4a, 0.8));
+
+      const slotText = this.add.text(width / 2 - slotWidth / 2 + 15, y, `${slot.slot} - Turn ${slot.turn} (${savedAt})`, {
+        fontSize: '18px',
+        color: '#ffffff',
+        fontFamily: 'Arial',
+      });
+      slotText.setOrigin(0, 0.5);
+
+      // Delete button
+      const deleteButton = this.add.text(width / 2 + slotWidth / 2 + 20, y, '✕', {
+        fontSize: '24px',
+        color: '#ff6666',
+        fontFamily: 'Arial',
+      });
+      deleteButton.setOrigin(0, 0.5);
+      deleteButton.setInteractive({ useHandCursor: true });
+      deleteButton.on('pointerdown', () => {
+        if (confirm(`Delete save "${slot.slot}"?`)) {
+          this.storage.delete(slot.slot);
+          this.scene.restart();
+        }
+      });
+    });
+
+    // Import from file button
+    const importY = startY + Math.max(slots.length, 1) * slotSpacing + 30;
+    const importButton = this.add.rectangle(width / 2, importY, 250, 50, 0x4a4a4a, 0.8);
+    importButton.setStrokeStyle(2, 0xffffff);
+    importButton.setInteractive({ useHandCursor: true });
+    const importButtonText = this.add.text(width / 2, importY, 'Import from File', {
+      fontSize: '22px',
+      color: '#ffffff',
+      fontFamily: 'Arial',
+    });
+    importButtonText.setOrigin(0.5, 0.5);
+    importButton.on('pointerdown', () => this.importFile());
+    importButton.on('pointerover', () => importButton.setFillStyle(0x5a5a5a, 0.9));
+    importButton.on('pointerout', () => importButton.setFillStyle(0x4a4a4a, 0.8));
+
+    // Status text
+    this.statusText = this.add.text(width / 2, importY + 50, '', {
+      fontSize: '18px',
+      color: '#ff0000',
+      fontFamily: 'Arial',
+    });
+    this.statusText.setOrigin(0.5, 0.5);
+
+    // Back button
+    const backButton = this.add.text(50, height - 50, '← Back', {
+      fontSize: '24px',
+      color: '#ffffff',
+      fontFamily: 'Arial',
+    });
+    backButton.setInteractive({ useHandCursor: true });
+    backButton.on('pointerdown', () => {
+      this.scene.start('StartScene');
+    });
+    backButton.on('pointerover', () => {
+      backButton.setColor('#aaaaaa');
+    });
+    backButton.on('pointerout', () => {
+      backButton.setColor('#ffffff');
+    });
+  }
+
+  private loadSlot(slot: string) {
+    try {
+      this.startGame(this.storage.load(slot));
+    } catch (error) {
+      console.error('Failed to load save:', error);
+      this.statusText?.setText(`Error: ${error instanceof Error ? error.message : 'Failed to load save'}`);
+    }
+  }
+
+  private importFile() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        this.startGame(await importSaveFile(file));
+      } catch (error) {
+        console.error('Failed to import save:', error);
+        this.statusText?.setText(`Error: ${error instanceof Error ? error.message : 'Failed to import save'}`);
+      }
+    };
+    input.click();
+  }
+
+  private startGame(saveGame: SaveGameData) {
+    this.scene.start('GameScene', { saveGame });
+  }
+}
@@ -1,7 +1,7 @@
 import Phaser from 'phaser';
 
 /**
- * The start screen scene with a "New Game" button.
+ * The start screen scene with "New Game" and "Load Game" buttons.
  */
 export class StartScene extends Phaser.Scene {
   constructor() {
@@ -37,10 +37,22 @@ export class StartScene extends Phaser.Scene {
       },
     );
 
+    // Load Game button (always shown - the load screen can also import a save file)
+    this.createMenuButton(
+      width / 2,
+      startY + buttonSpacing,
+      buttonWidth,
+      buttonHeight,
+      'Load Game',
+      () => {
+        this.scene.start('LoadGameScene');
+      },
+    );
+
     // Multiplayer button
     const multiplayerButton = this.createMenuButton(
       width / 2,
-      startY + buttonSpacing,
+      startY + buttonSpacing * 2,
       buttonWidth,
       buttonHeight,
       'Multiplayer',
@@ -2,10 +2,10 @@ import Phaser from 'phaser';
 import { World, Entity } from '@engine/ecs';
 import { MapData } from '@engine/map/MapData';
 import { CivilizationRegistry } from '@engine/civilization/Civilization';
+import { GameDataProvider } from '@engine/gameplay/gameData';
 import { UnitFactory } from '@/utils/unitFactory';
 import { IsoTileSprite } from '../sprites/IsoTileSprite';
 import * as Components from '@engine/gameplay/components';
-import { UnitSprite } from '../sprites/UnitSprite';
 
 /**
  * Handles creation of game entities (tiles, units, etc.)
@@ -15,20 +15,20 @@ export class EntityFactory {
   private ecsWorld: World;
   private mapData: MapData;
   private civilizationRegistry: CivilizationRegistry;
-  private unitSprites: Map<Entity, UnitSprite>;
+  private gameData: GameDataProvider;
 
   constructor(
     scene: Phaser.Scene,
     ecsWorld: World,
     mapData: MapData,
     civilizationRegistry: CivilizationRegistry,
-    unitSprites: Map<Entity, UnitSprite>,
+    gameData: GameDataProvider,
   ) {
     this.scene = scene;
     this.ecsWorld = ecsWorld;
     this.mapData = mapData;
     this.civilizationRegistry = civilizationRegistry;
-    this.unitSprites = unitSprites;
+    this.gameData = gameData;
   }
 
   /**
@@ -58,12 +58,7 @@ export class EntityFactory {
    * Creates units for all players with properly spaced starting positions
    */
   async createUnitsForAllPlayers(players: Array<{ playerId: number; civId: string }>): Promise<void> {
-    const unitFactory = new UnitFactory(
-      this.ecsWorld,
-      this.scene,
-      this.civilizationRegistry,
-      this.unitSprites,
-    );
+    const unitFactory = new UnitFactory(this.ecsWorld, this.gameData, this.civilizationRegistry);
 
     // Generate starting positions for all players at once
     const { generateStartingPositions } = await import('@/utils/startingPositions');
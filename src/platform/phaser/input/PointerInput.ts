@@ -6,6 +6,8 @@ import Phaser from 'phaser';
 import * as Components from '@engine/gameplay/components';
 import { Unit, City, TransformTile, ScreenPos } from '@engine/gameplay/components';
 import { CityBorders } from '@/utils/cityBorders';
+import { CityCombat } from '@/utils/cityCombat';
+import { areAdjacent } from '@engine/gameplay/combat';
 
 /**
  * Handles pointer input from Phaser and translates it into game intents.
@@ -110,6 +112,11 @@ export class PointerInput {
       }
     }
 
+    // An enemy city next to the selected unit: attack it, or offer to take it once it has no health left
+    if (selectedEntity !== null && clickedUnit === null && clickedCity !== null && this.handleCityTarget(selectedEntity, clickedCity)) {
+      return;
+    }
+
     // Prioritize units over cities if both are at the same location
     const clickedEntity = clickedUnit ?? clickedCity;
 
@@ -192,6 +199,38 @@ export class PointerInput {
   };
 
 
+  /**
+   * Attacks an enemy city with the selected unit, or offers to capture or raze it once it has no health left
+   * (the HUD shows the choice). Returns whether the click was used.
+   */
+  private handleCityTarget(selectedEntity: Entity, cityEntity: Entity): boolean {
+    const selectedUnit = this.world.getComponent(selectedEntity, Unit);
+    const selectedPos = this.world.getComponent(selectedEntity, Components.TransformTile);
+    const selectedOwner = this.world.getComponent(selectedEntity, Components.Owner);
+    const city = CityCombat.getStats(this.world, cityEntity);
+    const cityPos = this.world.getComponent(cityEntity, Components.TransformTile);
+    const cityOwner = this.world.getComponent(cityEntity, Components.Owner);
+
+    if (
+      !selectedUnit?.canAttack ||
+      !selectedPos ||
+      !selectedOwner ||
+      !city ||
+      !cityPos ||
+      cityOwner?.playerId === selectedOwner.playerId ||
+      !areAdjacent(selectedPos, cityPos)
+    ) {
+      return false;
+    }
+
+    if (city.health > 0) {
+      this.intents.push({ type: 'Attack', payload: { attacker: selectedEntity, target: cityEntity } });
+    } else {
+      this.scene.game.events.emit('offer-city-capture', { unit: selectedEntity, city: cityEntity });
+    }
+    return true;
+  }
+
   /**
    * Finds the first unit entity located at a given tile coordinate.
    * @returns The entity ID of the unit, or null if no unit is found.
@@ -1,52 +1,69 @@
 import Phaser from 'phaser';
-import { World, Entity } from '@engine/ecs';
+import { World, Entity, isLocalEntityId } from '@engine/ecs';
 import { GameState } from '@/state/GameState';
 import { NetworkIntentQueue } from '@/network/NetworkIntentQueue';
-import { GameStateUpdate } from '@/network/types';
+import { RollbackResult } from '@/network/PendingActionJournal';
+import { EntityDelta, GameStateUpdate, SyncedEntity } from '@/network/types';
 import * as Components from '@engine/gameplay/components';
-import { tileToWorld } from '@engine/math/iso';
+import { TilePoint, tileToWorld } from '@engine/math/iso';
+import { CivilizationRegistry } from '@engine/civilization/Civilization';
+import { GameDataProvider } from '@engine/gameplay/gameData';
+import { UnitFactory } from '@/utils/unitFactory';
+import { BuildingFactory } from '@/utils/buildingFactory';
 import { UnitSprite } from '../sprites/UnitSprite';
 
 /**
  * Handles network synchronization between client and server
+ * Applies the server's entity state to the ECS world: the full state on first load, deltas after that
  */
 export class NetworkSyncManager {
+  private scene: Phaser.Scene;
   private ecsWorld: World;
   private gameState: GameState;
   private intentQueue: NetworkIntentQueue;
-  private entityIdMap = new Map<number, number>(); // localEntityId -> serverEntityId
-  private serverEntityIdMap = new Map<number, number>(); // serverEntityId -> localEntityId
   private unitSprites: Map<Entity, UnitSprite>;
+  private gameData: GameDataProvider;
+  private unitFactory: UnitFactory;
+  private deferredUnits = new Map<Entity, SyncedEntity>(); // Server state of units with unanswered actions
 
   constructor(
+    scene: Phaser.Scene,
     ecsWorld: World,
     gameState: GameState,
     intentQueue: NetworkIntentQueue,
     unitSprites: Map<Entity, UnitSprite>,
+    civilizationRegistry: CivilizationRegistry,
+    gameData: GameDataProvider,
   ) {
+    this.scene = scene;
     this.ecsWorld = ecsWorld;
     this.gameState = gameState;
     this.intentQueue = intentQueue;
     this.unitSprites = unitSprites;
+    this.gameData = gameData;
+    this.unitFactory = new UnitFactory(ecsWorld, gameData, civilizationRegistry);
+    this.intentQueue.onActionConfirmed(() => this.applyDeferredUnits());
   }
 
   /**
    * Handle state updates from the server
    */
   handleStateUpdate(update: GameStateUpdate, gameClient: any, events: Phaser.Events.EventEmitter): void {
-    // If we have full state, sync entities first (this happens on initial load)
+    // Sync entities first: the full state on initial load, the changes since the last update after that
     if (update.fullState) {
       this.syncEntitiesFromServer(update.fullState);
+    } else if (update.delta) {
+      this.applyEntityDelta(update.delta);
     }
 
     // Apply the state update using the game client
-    // This will update turn, currentPlayerId, and trigger TurnBegan if turn advanced
+    // This will update turn and currentPlayerId
     const previousTurn = this.gameState.turn;
     gameClient.applyStateUpdate(update, this.ecsWorld, this.gameState);
 
-    // If turn advanced in multiplayer, trigger TurnBegan intent for systems
+    // If turn advanced in multiplayer, run the turn transition (systems skip what the server already did)
     if (this.gameState.isMultiplayer && update.turn > previousTurn) {
-      this.intentQueue.push({ type: 'TurnBegan' });
+      this.ecsWorld.advanceTurn(update.turn);
       events.emit('ui-update');
     }
 
@@ -57,54 +74,54 @@ export class NetworkSyncManager {
         return;
       }
 
-      // Skip BuildBuilding actions from other players - buildings come via full state sync
-      // BuildBuilding intents from server are informational and buildings should already exist in state
-      if (intent.type === 'BuildBuilding' && this.gameState.isMultiplayer) {
-        // Buildings from other players should come through full state sync, not intent queue
+      // Skip BuildBuilding/ProduceUnit/ProduceBuilding actions from the server - the server creates
+      // the units and buildings, and they come via state sync
+      const createsEntities = intent.type === 'BuildBuilding' || intent.type === 'ProduceUnit' || intent.type === 'ProduceBuilding';
+      if (createsEntities && this.gameState.isMultiplayer) {
+        // New units and buildings should come through state sync, not intent queue
         // This prevents duplicate processing and ensures server is authoritative
         return;
       }
 
       // For MoveTo actions from other players, apply them directly to update positions
       if (intent.type === 'MoveTo' && this.gameState.isMultiplayer) {
-        const serverEntityId = intent.payload.entity;
-        const localEntityId = this.serverEntityIdMap.get(serverEntityId);
-        
-        if (localEntityId !== undefined) {
-          const transform = this.ecsWorld.getComponent(localEntityId, Components.TransformTile);
-          const unit = this.ecsWorld.getComponent(localEntityId, Components.Unit);
+        // Server entities have the same ID on the client (see syncEntitiesFromServer)
+        const entity = intent.payload.entity;
+
+        if (this.ecsWorld.hasEntity(entity)) {
+          const transform = this.ecsWorld.getComponent(entity, Components.TransformTile);
+          const unit = this.ecsWorld.getComponent(entity, Components.Unit);
           
-          if (transform && unit) {
-            // Update position directly (server is authoritative)
-            transform.tx = intent.payload.target.tx;
-            transform.ty = intent.payload.target.ty;
+          // Show where the server left the unit - it may have stopped short of an occupied tile,
+          // which a local replay of the path wouldn't know about. Without a result the next
+          // state sync brings the position
+          if (transform && unit && intent.result) {
+            const { position, mp, path } = intent.result;
+            transform.tx = position.tx;
+            transform.ty = position.ty;
             
             // Update sprite position
-            const worldPos = tileToWorld(intent.payload.target);
-            const sprite = this.unitSprites.get(localEntityId);
+            const worldPos = tileToWorld(position);
+            const sprite = this.unitSprites.get(entity);
             if (sprite) {
               sprite.setPosition(worldPos.x, worldPos.y);
             }
             
             // Update screen position
-            const screenPos = this.ecsWorld.getComponent(localEntityId, Components.ScreenPos);
+            const screenPos = this.ecsWorld.getComponent(entity, Components.ScreenPos);
             if (screenPos) {
               screenPos.x = worldPos.x;
               screenPos.y = worldPos.y;
             }
             
-            // Deduct MP (server already did this, but sync it)
-            if (unit.mp > 0) {
-              unit.mp = Math.max(0, unit.mp - 1);
-            }
-            
-            // Clear any existing path (server has moved the unit)
-            unit.path = [];
+            unit.mp = mp;
+            // The rest of the path continues next turn
+            unit.path = path.map(step => ({ ...step }));
           }
         }
       } else {
-        // For other actions, add to intent queue
-        this.intentQueue.push(intent);
+        // For other actions, add to intent queue (they're already applied on the server - don't send them back)
+        this.intentQueue.pushFromServer(intent);
       }
     });
 
@@ -112,58 +129,296 @@ export class NetworkSyncManager {
   }
 
   /**
-   * Sync entities from server full state
-   * Note: The full sync logic is complex and remains in GameScene for now
-   * This method provides access to entity ID maps
+   * Synchronize entities from the server's full state (first load, or when the client asked for it)
+   * Server entities are created with their server IDs (see World.createEntityWithId), so intents and
+   * server actions refer to the same entities on both sides. Entities this client created ahead of the
+   * server (purchases, founded cities) have local IDs and are replaced by the server's once it has them.
    */
-  syncEntitiesFromServer(fullState: {
-    entities: Array<{
-      id: number;
-      ownerId: number;
-      civId: string;
-      type: string;
-      position: { tx: number; ty: number };
-      data: Record<string, unknown>;
-    }>;
-  }): void {
-    // This is a placeholder - the full sync logic remains in GameScene
-    // because it needs access to UnitFactory, civilizationRegistry, cameras, etc.
-    // The actual syncEntitiesFromServer method in GameScene will use the maps from this manager
+  syncEntitiesFromServer(fullState: NonNullable<GameStateUpdate['fullState']>): void {
+    // Only sync in multiplayer mode
+    if (!this.gameState.isMultiplayer) return;
+
+    for (const serverEntity of [...fullState.entities, ...(fullState.knownCities ?? [])]) {
+      this.upsertFromServer(serverEntity);
+    }
+
+    // Remove units that don't exist on server (or that this player can no longer see)
+    // Cities and buildings that aren't in the state are kept - they may just be out of sight
+    const serverUnitIds = new Set(fullState.entities.filter(e => e.type === 'unit').map(e => e.id));
+    for (const entity of this.ecsWorld.view(Components.Unit)) {
+      if (!serverUnitIds.has(entity)) {
+        this.removeEntity(entity);
+      }
+    }
+  }
+
+  /**
+   * Apply the entity changes the server sent since the client's last state version
+   */
+  applyEntityDelta(delta: EntityDelta): void {
+    if (!this.gameState.isMultiplayer) return;
+
+    for (const serverEntity of [...delta.created, ...delta.updated]) {
+      this.upsertFromServer(serverEntity);
+    }
+    for (const entity of delta.deleted) {
+      if (this.ecsWorld.hasEntity(entity)) {
+        this.removeEntity(entity);
+      }
+    }
+  }
+
+  /**
+   * Bring sprites and selection in line with a rolled-back action (see PendingActionJournal)
+   * The EntityRenderer removes the sprites of removed units and gives restored units new ones
+   */
+  applyRollback(rollback: RollbackResult): void {
+    for (const entity of rollback.removed) {
+      if (this.gameState.selectedEntity === entity) {
+        this.gameState.selectedEntity = null;
+        this.gameState.moveMode = false;
+      }
+    }
+    for (const entity of rollback.restored) {
+      const sprite = this.unitSprites.get(entity);
+      if (sprite) {
+        const worldPos = tileToWorld(this.ecsWorld.getComponent(entity, Components.TransformTile)!);
+        sprite.setPosition(worldPos.x, worldPos.y);
+      }
+    }
+  }
+
+  /**
+   * Create a server entity on the client, or bring the existing one up to date
+   */
+  private upsertFromServer(serverEntity: SyncedEntity): void {
+    // A settler that founded a city keeps its ID - the unit makes way for the city
+    if (this.ecsWorld.hasEntity(serverEntity.id) && this.getKind(serverEntity.id) !== serverEntity.type) {
+      this.removeEntity(serverEntity.id);
+    }
+
+    switch (serverEntity.type) {
+      case 'unit':
+        this.upsertUnitFromServer(serverEntity);
+        break;
+      case 'city':
+      case 'building':
+        this.upsertCityOrBuildingFromServer(serverEntity);
+        break;
+    }
+  }
+
+  private upsertUnitFromServer(serverEntity: SyncedEntity): void {
+    if (this.ecsWorld.hasEntity(serverEntity.id)) {
+      // The local result of an action the server hasn't answered yet stands until it does
+      if (this.intentQueue.hasPendingAction(serverEntity.id)) {
+        this.deferredUnits.set(serverEntity.id, serverEntity);
+      } else {
+        this.deferredUnits.delete(serverEntity.id);
+        this.updateUnitFromServer(serverEntity.id, serverEntity);
+      }
+      return;
+    }
+
+    // Replace a unit this client created ahead of the server (e.g. a purchase) with the server's
+    const pending = this.findLocalCopy(Components.Unit, serverEntity);
+    if (pending !== undefined) {
+      this.removeEntity(pending);
+    }
+
+    const unitType = (serverEntity.data.unitType as string) || 'settler';
+    const entity = this.unitFactory.createUnit(
+      unitType,
+      serverEntity.position,
+      serverEntity.ownerId,
+      serverEntity.civId,
+      serverEntity.id,
+    );
+    if (entity === null) {
+      console.error(`[NetworkSyncManager] Failed to create entity ${serverEntity.id} for player ${serverEntity.ownerId}`);
+      return;
+    }
+    this.updateUnitFromServer(entity, serverEntity);
+
+    // Center the camera on the local player's units when they first appear
+    if (serverEntity.ownerId === this.gameState.localPlayerId && pending === undefined) {
+      const worldPos = tileToWorld(serverEntity.position);
+      this.scene.cameras.main.centerOn(worldPos.x, worldPos.y);
+    }
+  }
+
+  private upsertCityOrBuildingFromServer(serverEntity: SyncedEntity): void {
+    const isCity = serverEntity.type === 'city';
+
+    if (!this.ecsWorld.hasEntity(serverEntity.id)) {
+      // Replace the city or building this client created ahead of the server
+      const pending = this.findLocalCopy(isCity ? Components.City : Components.Building, serverEntity);
+      if (pending !== undefined) {
+        this.ecsWorld.destroyEntity(pending);
+        if (this.gameState.selectedEntity === pending) {
+          this.gameState.selectedEntity = serverEntity.id;
+        }
+      }
+      if (isCity) {
+        this.createCityFromServer(serverEntity);
+      } else if (!this.createBuildingFromServer(serverEntity)) {
+        return;
+      }
+    }
+
+    // The server is authoritative for city growth, combat damage and who holds a city (it can be captured)
+    const city = this.ecsWorld.getComponent(serverEntity.id, Components.City);
+    if (city) {
+      city.population = (serverEntity.data.population as number | undefined) ?? city.population;
+      city.level = (serverEntity.data.level as number) || city.level;
+      city.damage = (serverEntity.data.damage as number) || 0;
+      city.capitalOf = (serverEntity.data.capitalOf as number | null | undefined) ?? null;
+    }
+    const owner = this.ecsWorld.getComponent(serverEntity.id, Components.Owner);
+    if (owner) {
+      owner.playerId = serverEntity.ownerId;
+    }
+    const civilization = this.ecsWorld.getComponent(serverEntity.id, Components.CivilizationComponent);
+    if (civilization) {
+      civilization.civId = serverEntity.civId;
+    }
+    // ...and for what the city has stockpiled and is producing
+    const resources = this.ecsWorld.getComponent(serverEntity.id, Components.Resources);
+    if (resources) {
+      resources.food = (serverEntity.data.food as number | undefined) ?? resources.food;
+      resources.production = (serverEntity.data.production as number | undefined) ?? resources.production;
+      resources.gold = (serverEntity.data.gold as number | undefined) ?? resources.gold;
+    }
+    const productionQueue = this.ecsWorld.getComponent(serverEntity.id, Components.ProductionQueue);
+    const queue = serverEntity.data.productionQueue as Components.ProductionItem[] | undefined;
+    if (productionQueue && queue) {
+      productionQueue.queue = queue.map(item => ({ ...item }));
+      productionQueue.currentProgress = (serverEntity.data.productionProgress as number | undefined) ?? 0;
+    }
   }
 
   /**
-   * Map a local entity ID to a server entity ID
+   * Apply the server's state of units whose actions the server answered since it arrived
    */
-  mapEntity(localEntityId: Entity, serverEntityId: number): void {
-    this.entityIdMap.set(localEntityId, serverEntityId);
-    this.serverEntityIdMap.set(serverEntityId, localEntityId);
+  private applyDeferredUnits(): void {
+    for (const [entity, serverEntity] of this.deferredUnits) {
+      if (this.intentQueue.hasPendingAction(entity)) continue;
+      this.deferredUnits.delete(entity);
+      if (this.getKind(entity) === 'unit') {
+        this.updateUnitFromServer(entity, serverEntity);
+      }
+    }
   }
 
   /**
-   * Get server entity ID for a local entity
+   * What a client entity is, in the server's terms
    */
-  getServerEntityId(localEntityId: Entity): number | undefined {
-    return this.entityIdMap.get(localEntityId);
+  private getKind(entity: Entity): string | undefined {
+    if (this.ecsWorld.getComponent(entity, Components.Unit)) return 'unit';
+    if (this.ecsWorld.getComponent(entity, Components.City)) return 'city';
+    if (this.ecsWorld.getComponent(entity, Components.Building)) return 'building';
+    return undefined;
   }
 
   /**
-   * Get local entity ID for a server entity
+   * Find an entity this client created ahead of the server (local ID) for a server entity:
+   * same kind, same owner, same tile
    */
-  getLocalEntityId(serverEntityId: number): Entity | undefined {
-    return this.serverEntityIdMap.get(serverEntityId);
+  private findLocalCopy(
+    component: typeof Components.Unit | typeof Components.City | typeof Components.Building,
+    serverEntity: { ownerId: number; position: { tx: number; ty: number } },
+  ): Entity | undefined {
+    return this.ecsWorld.view(component, Components.Owner, Components.TransformTile).find(e => {
+      const owner = this.ecsWorld.getComponent(e, Components.Owner)!;
+      const transform = this.ecsWorld.getComponent(e, Components.TransformTile)!;
+      return isLocalEntityId(e) &&
+        owner.playerId === serverEntity.ownerId &&
+        transform.tx === serverEntity.position.tx &&
+        transform.ty === serverEntity.position.ty;
+    });
+  }
+
+  private updateUnitFromServer(entity: Entity, serverEntity: SyncedEntity): void {
+    const transform = this.ecsWorld.getComponent(entity, Components.TransformTile);
+    if (transform) {
+      transform.tx = serverEntity.position.tx;
+      transform.ty = serverEntity.position.ty;
+      const worldPos = tileToWorld(serverEntity.position);
+      const screenPos = this.ecsWorld.getComponent(entity, Components.ScreenPos);
+      if (screenPos) {
+        screenPos.x = worldPos.x;
+        screenPos.y = worldPos.y;
+      }
+      // Update sprite position
+      this.unitSprites.get(entity)?.setPosition(worldPos.x, worldPos.y);
+    }
+
+    const unit = this.ecsWorld.getComponent(entity, Components.Unit);
+    if (unit) {
+      unit.mp = (serverEntity.data.mp as number) ?? unit.mp;
+      unit.maxMp = (serverEntity.data.maxMp as number) ?? unit.maxMp;
+      unit.health = (serverEntity.data.health as number) ?? unit.health;
+      unit.maxHealth = (serverEntity.data.maxHealth as number) ?? unit.maxHealth;
+      // Multi-turn moves continue along the server's path
+      unit.path = ((serverEntity.data.path as TilePoint[] | undefined) ?? unit.path).map(step => ({ ...step }));
+    }
   }
 
   /**
-   * Get entity ID maps (for exposing to game client)
+   * Remove an entity and its unit sprite (city and building sprites go with their entities)
    */
-  getEntityIdMaps(): {
-    entityIdMap: Map<number, number>;
-    serverEntityIdMap: Map<number, number>;
-  } {
-    return {
-      entityIdMap: this.entityIdMap,
-      serverEntityIdMap: this.serverEntityIdMap,
-    };
+  private removeEntity(entity: Entity): void {
+    this.deferredUnits.delete(entity);
+    const sprite = this.unitSprites.get(entity);
+    if (sprite) {
+      sprite.destroy();
+      this.unitSprites.delete(entity);
+    }
+    this.ecsWorld.destroyEntity(entity);
+    if (this.gameState.selectedEntity === entity) {
+      this.gameState.selectedEntity = null;
+      this.gameState.moveMode = false;
+    }
+  }
+
+  private createCityFromServer(serverEntity: SyncedEntity): Entity {
+    const city = this.ecsWorld.createEntityWithId(serverEntity.id);
+    this.ecsWorld.addComponent(city, new Components.TransformTile(serverEntity.position.tx, serverEntity.position.ty));
+    this.ecsWorld.addComponent(city, new Components.City(
+      (serverEntity.data.population as number) || 1,
+      (serverEntity.data.level as number) || 1,
+      (serverEntity.data.damage as number) || 0,
+      (serverEntity.data.capitalOf as number | null | undefined) ?? null,
+    ));
+    this.ecsWorld.addComponent(city, new Components.Owner(serverEntity.ownerId));
+    this.ecsWorld.addComponent(city, new Components.Resources(0, 0, (serverEntity.data.food as number) || 0));
+    this.ecsWorld.addComponent(city, new Components.ProductionQueue());
+    this.ecsWorld.addComponent(city, new Components.CivilizationComponent(serverEntity.civId));
+    this.ecsWorld.addComponent(city, new Components.Selectable());
+    const worldPos = tileToWorld(serverEntity.position);
+    this.ecsWorld.addComponent(city, new Components.ScreenPos(worldPos.x, worldPos.y));
+    return city;
   }
-}
 
+  private createBuildingFromServer(serverEntity: SyncedEntity): Entity | null {
+    const buildingType = serverEntity.data.buildingType as string;
+    const buildingData = BuildingFactory.getBuildingData(this.gameData, buildingType);
+    if (!buildingData) {
+      console.warn(`[NetworkSyncManager] Unknown building type "${buildingType}" from server`);
+      return null;
+    }
+
+    const building = this.ecsWorld.createEntityWithId(serverEntity.id);
+    this.ecsWorld.addComponent(building, new Components.TransformTile(serverEntity.position.tx, serverEntity.position.ty));
+    this.ecsWorld.addComponent(building, new Components.Building(
+      buildingType,
+      buildingData.yields || {},
+      buildingData.cityBonus || {},
+    ));
+    this.ecsWorld.addComponent(building, new Components.Owner(serverEntity.ownerId));
+    this.ecsWorld.addComponent(building, new Components.CivilizationComponent(serverEntity.civId));
+    const worldPos = tileToWorld(serverEntity.position);
+    this.ecsWorld.addComponent(building, new Components.ScreenPos(worldPos.x, worldPos.y));
+    return building;
+  }
+}
@@ -0,0 +1,72 @@
+import Phaser from 'phaser';
+import { Entity } from '@engine/ecs';
+import { CityDamagedEvent, EventBus, UnitDamagedEvent } from '@engine/events/EventBus';
+import { tileToWorld } from '@engine/math/iso';
+import { COMBAT } from '@config/game';
+
+/**
+ * Shows combat feedback (damage numbers) for the CombatSystem's engine events
+ */
+export class CombatRenderer {
+  private scene: Phaser.Scene;
+  private events: EventBus;
+  private damageNumbers = new Map<Entity, Phaser.GameObjects.Text>();
+
+  constructor(scene: Phaser.Scene, events: EventBus) {
+    this.scene = scene;
+    this.events = events;
+    this.events.on('unit-damaged', this.showDamageNumber, this);
+    this.events.on('city-damaged', this.showDamageNumber, this);
+  }
+
+  destroy(): void {
+    this.events.off('unit-damaged', this.showDamageNumber, this);
+    this.events.off('city-damaged', this.showDamageNumber, this);
+    this.damageNumbers.forEach(text => text.destroy());
+    this.damageNumbers.clear();
+  }
+
+  /**
+   * Shows a damage number above the unit or city briefly.
+   */
+  private showDamageNumber({ entity, damage, position }: UnitDamagedEvent | CityDamagedEvent): void {
+    // Positioned from the tile - the unit's sprite may be gone by the time this shows (a killing blow)
+    const worldPos = tileToWorld(position);
+
+    // Remove existing damage number if any
+    this.damageNumbers.get(entity)?.destroy();
+
+    // Create damage number text
+    const damageText = this.scene.add.text(
+      worldPos.x,
+      worldPos.y + COMBAT.DAMAGE_NUMBER_OFFSET_Y,
+      `-${damage}`,
+      {
+        fontSize: COMBAT.DAMAGE_NUMBER_FONT_SIZE,
+        color: `#${COMBAT.DAMAGE_NUMBER_COLOR.toString(16).padStart(6, '0')}`,
+        fontFamily: 'Arial',
+        stroke: '#000000',
+        strokeThickness: 3,
+      },
+    );
+    damageText.setOrigin(0.5, 0.5);
+    damageText.setDepth(worldPos.y + 1000); // Above everything
+
+    this.damageNumbers.set(entity, damageText);
+
+    // Animate and remove after duration
+    this.scene.tweens.add({
+      targets: damageText,
+      y: damageText.y - 30,
+      alpha: 0,
+      duration: COMBAT.DAMAGE_NUMBER_DURATION,
+      ease: 'Power2',
+      onComplete: () => {
+        damageText.destroy();
+        if (this.damageNumbers.get(entity) === damageText) {
+          this.damageNumbers.delete(entity);
+        }
+      },
+    });
+  }
+}
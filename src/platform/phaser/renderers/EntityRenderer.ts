@@ -1,9 +1,10 @@
 import Phaser from 'phaser';
 import { World, Entity } from '@engine/ecs';
+import { EventBus, UnitDestroyedEvent } from '@engine/events/EventBus';
 import * as Components from '@engine/gameplay/components';
 import { UnitSprite } from '../sprites/UnitSprite';
 import { CitySprite } from '../sprites/CitySprite';
-import { CivilizationRegistry, getCitySpriteKey } from '@engine/civilization/Civilization';
+import { CivilizationRegistry, getCitySpriteKey, getUnitSpriteKey } from '@engine/civilization/Civilization';
 import { tileToWorld } from '@engine/math/iso';
 import { chebyshevDistance } from '@engine/math/grid';
 import { TILE_H, TILE_W, SELECTION_COLOR, PATH_COLOR } from '@config/game';
@@ -11,15 +12,19 @@ import { MapData } from '@engine/map/MapData';
 
 /**
  * Handles rendering and updating of entity sprites (units, cities, buildings, borders)
+ * Sprites are created for entities that don't have one yet, however the entities were created
+ * (produced, synced from the server, loaded, rolled back), and removed with their entities.
  */
 export class EntityRenderer {
   private scene: Phaser.Scene;
   private ecsWorld: World;
+  private events: EventBus;
   private civilizationRegistry: CivilizationRegistry;
   private mapData: MapData;
   
   public unitSprites = new Map<Entity, UnitSprite>();
   public citySprites = new Map<Entity, CitySprite>();
+  private citySpriteCivs = new Map<Entity, string | undefined>(); // Civilization each city sprite was drawn for
   private buildingSprites = new Map<Entity, Phaser.GameObjects.Graphics>();
   private cityBorders = new Map<Entity, Phaser.GameObjects.Graphics>();
   private pathPreview!: Phaser.GameObjects.Graphics;
@@ -30,12 +35,20 @@ export class EntityRenderer {
     civilizationRegistry: CivilizationRegistry,
     mapData: MapData,
     pathPreview: Phaser.GameObjects.Graphics,
+    events: EventBus,
   ) {
     this.scene = scene;
     this.ecsWorld = ecsWorld;
     this.civilizationRegistry = civilizationRegistry;
     this.mapData = mapData;
     this.pathPreview = pathPreview;
+    this.events = events;
+    // Removed right away rather than on the next update, so a killed unit doesn't linger for a frame
+    this.events.on('unit-destroyed', this.handleUnitDestroyed, this);
+  }
+
+  destroy(): void {
+    this.events.off('unit-destroyed', this.handleUnitDestroyed, this);
   }
 
   update(selectedEntityId: Entity | null): void {
@@ -49,17 +62,16 @@ export class EntityRenderer {
   private updateUnitSprites(): void {
     // Clean up sprites for entities that no longer exist
     const currentEntities = new Set(this.ecsWorld.view(Components.Unit, Components.TransformTile));
-    for (const [entity, sprite] of this.unitSprites.entries()) {
+    for (const entity of this.unitSprites.keys()) {
       if (!currentEntities.has(entity)) {
         // Entity was destroyed, remove its sprite
-        sprite.destroy();
-        this.unitSprites.delete(entity);
+        this.removeUnitSprite(entity);
       }
     }
 
-    // Update sprites for existing entities
+    // Update or create sprites for existing entities
     for (const entity of currentEntities) {
-      const sprite = this.unitSprites.get(entity);
+      const sprite = this.unitSprites.get(entity) ?? this.createUnitSprite(entity);
       const transform = this.ecsWorld.getComponent(entity, Components.TransformTile)!;
       const screenPos = this.ecsWorld.getComponent(entity, Components.ScreenPos);
       
@@ -92,6 +104,35 @@ export class EntityRenderer {
     }
   }
 
+  private createUnitSprite(entity: Entity): UnitSprite | undefined {
+    const transform = this.ecsWorld.getComponent(entity, Components.TransformTile)!;
+    const civilization = this.ecsWorld.getComponent(entity, Components.CivilizationComponent);
+    const civ = civilization ? this.civilizationRegistry.get(civilization.civId) : undefined;
+    const unitSpriteKey = getUnitSpriteKey('unit', civ?.sprites);
+    const worldPos = tileToWorld(transform);
+    try {
+      const unitSprite = new UnitSprite(this.scene, worldPos.x, worldPos.y, unitSpriteKey);
+      this.scene.add.existing(unitSprite);
+      this.unitSprites.set(entity, unitSprite);
+      return unitSprite;
+    } catch (error) {
+      console.error(`[EntityRenderer] Error creating sprite for unit ${entity}:`, error);
+      return undefined;
+    }
+  }
+
+  private removeUnitSprite(entity: Entity): void {
+    const sprite = this.unitSprites.get(entity);
+    if (sprite) {
+      sprite.destroy();
+      this.unitSprites.delete(entity);
+    }
+  }
+
+  private handleUnitDestroyed({ entity }: UnitDestroyedEvent): void {
+    this.removeUnitSprite(entity);
+  }
+
   private updateCitySprites(): void {
     // Clean up sprites for cities that no longer exist
     const currentCities = new Set(this.ecsWorld.view(Components.City, Components.TransformTile));
@@ -100,6 +141,7 @@ export class EntityRenderer {
         // City was destroyed, remove its sprite
         sprite.destroy();
         this.citySprites.delete(entity);
+        this.citySpriteCivs.delete(entity);
       }
     }
 
@@ -109,7 +151,12 @@ export class EntityRenderer {
       const screenPos = this.ecsWorld.getComponent(cityEntity, Components.ScreenPos);
       const civilization = this.ecsWorld.getComponent(cityEntity, Components.CivilizationComponent);
       
+      // A captured city is redrawn for its new civilization
       let citySprite = this.citySprites.get(cityEntity);
+      if (citySprite && this.citySpriteCivs.get(cityEntity) !== civilization?.civId) {
+        citySprite.destroy();
+        citySprite = undefined;
+      }
       if (!citySprite) {
         // Get civilization-specific city sprite if available
         const civ = civilization ? this.civilizationRegistry.get(civilization.civId) : undefined;
@@ -120,6 +167,7 @@ export class EntityRenderer {
         citySprite = new CitySprite(this.scene, worldPos.x, worldPos.y, citySpriteKey);
         this.scene.add.existing(citySprite);
         this.citySprites.set(cityEntity, citySprite);
+        this.citySpriteCivs.set(cityEntity, civilization?.civId);
       } else {
         // Update existing sprite position
         const targetWorldPos = tileToWorld(transform);
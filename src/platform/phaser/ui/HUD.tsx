@@ -7,9 +7,15 @@ import * as Components from '@engine/gameplay/components';
 import { MapData } from '@engine/map/MapData';
 import { Terrain } from '@engine/map/Terrain';
 import { CityYieldsCalculator, CityYields } from '@/utils/cityYields';
+import { CityCombat } from '@/utils/cityCombat';
 import { DEFAULT_CIVILIZATION_ID } from '@config/game';
 import { TileContextMenu } from './TileContextMenu';
-import { BuildingsData } from '@/utils/buildingFactory';
+import { BuildingsData, GameDataProvider } from '@engine/gameplay/gameData';
+import { getFoodGrowthThreshold } from '@engine/gameplay/economy';
+import { ResearchState, getAvailableTechs, getMissingTechReason } from '@engine/gameplay/research';
+import { ResearchSystem } from '@engine/gameplay/systems';
+import { CivilizationRegistry } from '@engine/civilization/Civilization';
+import { GameResult, VictoryCondition } from '@engine/gameplay/victory';
 
 interface HUDProps {
   game: Phaser.Game;
@@ -128,6 +134,78 @@ const yieldValueStyle: React.CSSProperties = {
   fontWeight: '600',
 };
 
+/**
+ * Formats a per-turn food surplus with its sign (food can go negative, unlike the other yields)
+ */
+const formatFoodSurplus = (food: number): string => `${food >= 0 ? '+' : ''}${food.toFixed(1)}`;
+
+const progressBarStyle: React.CSSProperties = {
+  height: '6px',
+  marginTop: '4px',
+  backgroundColor: '#333',
+  borderRadius: '3px',
+  overflow: 'hidden',
+};
+
+const progressFillStyle: React.CSSProperties = {
+  height: '100%',
+  backgroundColor: '#60a5fa',
+};
+
+const gameOverOverlayStyle: React.CSSProperties = {
+  position: 'absolute',
+  inset: '0',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  pointerEvents: 'all',
+  zIndex: 1002,
+};
+
+const gameOverPanelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '12px',
+  minWidth: '360px',
+  color: 'white',
+  backgroundColor: 'rgba(0, 0, 0, 0.9)',
+  padding: '25px 30px',
+  borderRadius: '8px',
+  border: '1px solid #444',
+  fontFamily: 'sans-serif',
+  fontSize: '14px',
+};
+
+const VICTORY_DESCRIPTIONS: Record<VictoryCondition, string> = {
+  domination: 'the last capital standing',
+  elimination: 'the last civilization standing',
+  score: 'the best score at the turn limit',
+};
+
+const TOAST_DURATION = 4000; // How long a toast stays up (ms)
+
+const toastStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '70px',
+  left: '50%',
+  transform: 'translateX(-50%)',
+  backgroundColor: 'rgba(120, 20, 20, 0.9)',
+  color: 'white',
+  padding: '10px 20px',
+  borderRadius: '5px',
+  border: '1px solid #c53030',
+  fontFamily: 'sans-serif',
+  fontSize: '14px',
+  pointerEvents: 'none',
+  zIndex: 1001,
+};
+
+const savedToastStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(20, 90, 40, 0.9)',
+  border: '1px solid #2f855a',
+};
+
 export const HUD: React.FC<HUDProps> = ({ game }) => {
   const [intentQueue, setIntentQueue] = useState<IntentQueue | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
@@ -157,11 +235,70 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
     cityEntity: Entity;
   } | null>(null);
   
+  // --- Enemy city the selected unit can take or raze (offered by PointerInput) ---
+  const [captureOffer, setCaptureOffer] = useState<{ unit: Entity; city: Entity } | null>(null);
+
+  useEffect(() => {
+    const handleOfferCityCapture = (data: { unit: Entity; city: Entity }) => setCaptureOffer(data);
+    game.events.on('offer-city-capture', handleOfferCityCapture);
+    return () => {
+      game.events.off('offer-city-capture', handleOfferCityCapture);
+    };
+  }, [game]);
+
+  // --- How the game ended (see VictorySystem, or the server in multiplayer) ---
+  const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const [resultDismissed, setResultDismissed] = useState(false);
+
+  useEffect(() => {
+    const handleGameOver = (result: GameResult) => {
+      setGameResult(result);
+      setResultDismissed(false);
+    };
+    game.events.on('game-over', handleGameOver);
+    return () => {
+      game.events.off('game-over', handleGameOver);
+    };
+  }, [game]);
+
+  const handleReturnToMenu = () => {
+    setGameResult(null);
+    setGameState(null);
+    game.scene.getScene('GameScene')?.scene.start('StartScene');
+  };
+
+  // --- Toast for actions the server rejected and save games ---
+  const [toast, setToast] = useState<{ message: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    let timeout: number | undefined;
+    const showToast = (message: string, isError: boolean) => {
+      setToast({ message, isError });
+      window.clearTimeout(timeout);
+      timeout = window.setTimeout(() => setToast(null), TOAST_DURATION);
+    };
+    const handleActionRejected = (data: { message: string }) => showToast(data.message, true);
+    const handleGameSaved = (data: { message: string }) => showToast(data.message, false);
+    game.events.on('action-rejected', handleActionRejected);
+    game.events.on('save-failed', handleActionRejected);
+    game.events.on('game-saved', handleGameSaved);
+    return () => {
+      game.events.off('action-rejected', handleActionRejected);
+      game.events.off('save-failed', handleActionRejected);
+      game.events.off('game-saved', handleGameSaved);
+      window.clearTimeout(timeout);
+    };
+  }, [game]);
+
   // --- Civilization Total Yields ---
-  const [totalYields, setTotalYields] = useState<CityYields>({ production: 0, gold: 0 });
+  const [totalYields, setTotalYields] = useState<CityYields>({ food: 0, production: 0, gold: 0, science: 0 });
   const [availableProduction, setAvailableProduction] = useState<number>(0);
   const [startingProductionPerTurn, setStartingProductionPerTurn] = useState<number>(0);
 
+  // --- Research of the current player's civilization ---
+  const [research, setResearch] = useState<ResearchState | null>(null);
+  const [gameData, setGameData] = useState<GameDataProvider | null>(null);
+
   useEffect(() => {
     const handleGameReady = (data: {
       intentQueue: IntentQueue;
@@ -171,6 +308,9 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
       setIntentQueue(data.intentQueue);
       setGameState(data.gameState);
       setEcsWorld(data.ecsWorld);
+      // A loaded game may already be over
+      setGameResult(data.gameState.result);
+      setResultDismissed(false);
     };
 
     const forceUpdate = () => setTick(tick => tick + 1);
@@ -273,7 +413,8 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
         
         // Calculate per-turn yields for selected city
         if (city && transform && ecsWorld) {
-          const yields = CityYieldsCalculator.calculateYields(ecsWorld, map, selectedEntity);
+          const civRegistry = (gameScene as { civilizationRegistry?: CivilizationRegistry }).civilizationRegistry;
+          const yields = CityYieldsCalculator.calculateYields(ecsWorld, map, selectedEntity, civRegistry);
           setSelectedCityYields(yields);
         } else {
           setSelectedCityYields(null);
@@ -305,7 +446,12 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
       const gameScene = game.scene.getScene('GameScene');
       if (gameScene && 'mapData' in gameScene) {
         const map = (gameScene as { mapData: MapData }).mapData;
-        const total = CityYieldsCalculator.calculateTotalYields(ecsWorld, map, gameState.currentPlayerId);
+        const total = CityYieldsCalculator.calculateTotalYields(
+          ecsWorld,
+          map,
+          gameState.currentPlayerId,
+          (gameScene as { civilizationRegistry?: CivilizationRegistry }).civilizationRegistry,
+        );
         setTotalYields(total);
         
         // Get available production from CivilizationProductionSystem
@@ -343,6 +489,13 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
           const civ = civRegistry.get(playerCivId);
           const startingProd = civ?.startingProduction || 0;
           setStartingProductionPerTurn(startingProd);
+
+          // Get research from ResearchSystem for the same civilization
+          if ('researchSystem' in gameScene && 'gameData' in gameScene) {
+            const researchSystem = (gameScene as { researchSystem: ResearchSystem }).researchSystem;
+            setResearch(researchSystem.getResearch(playerCivId));
+            setGameData((gameScene as { gameData: GameDataProvider }).gameData);
+          }
         }
       }
     }
@@ -355,9 +508,24 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
       return;
     }
     // In sequential mode, isMyTurn() will handle validation
+    // In single player, don't end a computer player's turn for them
+    if (gameState && !gameState.isMultiplayer && !gameState.isMyTurn()) {
+      return;
+    }
     intentQueue?.push({ type: 'EndTurn' });
   };
 
+  const handleSaveGame = () => {
+    const slot = prompt('Save name:', 'Quicksave');
+    if (slot?.trim()) {
+      game.events.emit('save-game', { slot: slot.trim() });
+    }
+  };
+
+  const handleExportGame = () => {
+    game.events.emit('export-game');
+  };
+
   const handleMove = () => {
     intentQueue?.push({ type: 'EnterMoveMode' });
   };
@@ -372,6 +540,17 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
     }
   };
 
+  const handleSetResearch = (techId: string) => {
+    intentQueue?.push({ type: 'SetResearch', payload: { techId } });
+  };
+
+  const handleCaptureCity = (raze: boolean) => {
+    if (captureOffer) {
+      intentQueue?.push({ type: 'CaptureCity', payload: { ...captureOffer, raze } });
+    }
+    setCaptureOffer(null);
+  };
+
   const handleProduceUnit = (unitType: string) => {
     if (gameState?.selectedEntity !== null) {
       intentQueue?.push({
@@ -388,9 +567,73 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
 
   const isMoveMode = gameState.moveMode;
   const hasSelection = gameState.selectedEntity !== null;
+  // Multiplayer: not our turn, or already ended. Single player: the computer players are taking theirs (see AISystem)
+  const endTurnDisabled = gameState.isMultiplayer
+    ? (sessionInfo?.isSequentialMode && gameState.currentPlayerId !== gameState.localPlayerId) ||
+      (!sessionInfo?.isSequentialMode && sessionInfo?.playersEndedTurn?.includes(gameState.localPlayerId) === true)
+    : !gameState.isMyTurn();
 
   return (
     <>
+      {toast && (
+        <div style={toast.isError ? toastStyle : { ...toastStyle, ...savedToastStyle }}>{toast.message}</div>
+      )}
+
+      {/* Victory / Defeat Screen */}
+      {gameResult && !resultDismissed && (() => {
+        const gameScene = game.scene.getScene('GameScene');
+        const civRegistry = (gameScene as { civilizationRegistry?: CivilizationRegistry } | null)?.civilizationRegistry;
+        const title =
+          gameResult.winnerId === null
+            ? 'Game Over'
+            : gameResult.winnerId === gameState.localPlayerId
+              ? 'Victory!'
+              : 'Defeat';
+        return (
+          <div style={gameOverOverlayStyle}>
+            <div style={gameOverPanelStyle}>
+              <div style={{ fontSize: '28px', fontWeight: 'bold', textAlign: 'center' }}>{title}</div>
+              <div style={{ color: '#aaa', textAlign: 'center' }}>
+                {gameResult.winnerId === null
+                  ? `Nobody has ${VICTORY_DESCRIPTIONS[gameResult.condition]}`
+                  : `${civRegistry?.get(gameResult.standings.find(s => s.playerId === gameResult.winnerId)?.civId ?? '')?.name ?? `Player ${gameResult.winnerId}`} won with ${VICTORY_DESCRIPTIONS[gameResult.condition]}`}
+                {` (turn ${gameResult.turn})`}
+              </div>
+              <div style={panelStyle}>
+                <strong>Final Standings:</strong>
+                {gameResult.standings.map((standing, index) => (
+                  <div
+                    key={standing.playerId}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      marginTop: '5px',
+                      color: standing.eliminated ? '#888' : 'white',
+                      fontWeight: standing.playerId === gameState.localPlayerId ? 'bold' : 'normal',
+                    }}
+                  >
+                    <span>
+                      {index + 1}. {civRegistry?.get(standing.civId)?.name ?? standing.civId}
+                      {standing.playerId === gameState.localPlayerId && ' (You)'}
+                      {standing.eliminated && ' - eliminated'}
+                    </span>
+                    <span>{standing.score}</span>
+                  </div>
+                ))}
+              </div>
+              <div style={{ display: 'flex', gap: '10px' }}>
+                <button style={{ ...buttonStyle, flex: 1 }} onClick={() => setResultDismissed(true)}>
+                  View Map
+                </button>
+                <button style={{ ...buttonStyle, flex: 1 }} onClick={handleReturnToMenu}>
+                  Main Menu
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Top Bar - Civilization Total Yields */}
       <div style={topBarStyle}>
         <div
@@ -428,6 +671,10 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
             </span>
           </div>
         )}
+        <div style={yieldItemStyle}>
+          <span style={yieldLabelStyle}>Food:</span>
+          <span style={yieldValueStyle}>{formatFoodSurplus(totalYields.food)}</span>
+        </div>
         <div style={yieldItemStyle}>
           <span style={yieldLabelStyle}>Production:</span>
           <span style={yieldValueStyle}>+{(totalYields.production + startingProductionPerTurn).toFixed(1)}</span>
@@ -436,6 +683,10 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
           <span style={yieldLabelStyle}>Gold:</span>
           <span style={yieldValueStyle}>+{totalYields.gold.toFixed(1)}</span>
         </div>
+        <div style={yieldItemStyle}>
+          <span style={yieldLabelStyle}>Science:</span>
+          <span style={yieldValueStyle}>+{totalYields.science.toFixed(1)}</span>
+        </div>
         <div style={yieldItemStyle}>
           <span style={yieldLabelStyle}>Available Production:</span>
           <span style={yieldValueStyle}>{availableProduction.toFixed(0)}</span>
@@ -494,24 +745,75 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
         <button 
           style={{
             ...buttonStyle,
-            opacity: (gameState.isMultiplayer && 
-              ((sessionInfo?.isSequentialMode && gameState.currentPlayerId !== gameState.localPlayerId) ||
-               (!sessionInfo?.isSequentialMode && sessionInfo?.playersEndedTurn?.includes(gameState.localPlayerId)))) ? 0.5 : 1,
-            cursor: (gameState.isMultiplayer && 
-              ((sessionInfo?.isSequentialMode && gameState.currentPlayerId !== gameState.localPlayerId) ||
-               (!sessionInfo?.isSequentialMode && sessionInfo?.playersEndedTurn?.includes(gameState.localPlayerId)))) ? 'not-allowed' : 'pointer'
+            opacity: endTurnDisabled ? 0.5 : 1,
+            cursor: endTurnDisabled ? 'not-allowed' : 'pointer'
           }}
           onClick={handleEndTurn}
-          disabled={gameState.isMultiplayer && 
-            ((sessionInfo?.isSequentialMode && gameState.currentPlayerId !== gameState.localPlayerId) ||
-             (!sessionInfo?.isSequentialMode && sessionInfo?.playersEndedTurn?.includes(gameState.localPlayerId) === true))}
+          disabled={endTurnDisabled}
         >
           {gameState.isMultiplayer && sessionInfo?.isSequentialMode 
             ? (gameState.currentPlayerId === gameState.localPlayerId ? 'End Turn' : 'Not Your Turn')
             : (gameState.isMultiplayer && sessionInfo?.playersEndedTurn?.includes(gameState.localPlayerId) 
               ? 'Turn Ended' 
-              : 'End Turn')}
+              : (gameState.isMyTurn() ? 'End Turn' : "Computer Players' Turn"))}
         </button>
+        {!gameState.isMultiplayer && (
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <button style={{ ...buttonStyle, flex: 1 }} onClick={handleSaveGame}>
+              Save Game
+            </button>
+            <button style={{ ...buttonStyle, flex: 1 }} onClick={handleExportGame} title="Download the game as a JSON file">
+              Export
+            </button>
+          </div>
+        )}
+
+        {research && gameData && (() => {
+          const currentTech = research.current ? gameData.getTechData(research.current) : undefined;
+          const availableTechs = getAvailableTechs(gameData, research).filter(techId => techId !== research.current);
+          return (
+            <div style={panelStyle}>
+              <strong>Research:</strong>
+              {currentTech ? (
+                <div style={{ marginTop: '5px' }}>
+                  <div>{currentTech.name}</div>
+                  <div style={{ fontSize: '11px', color: '#aaa' }}>
+                    {Math.min(research.progress, currentTech.cost).toFixed(0)}/{currentTech.cost} science
+                  </div>
+                  <div style={progressBarStyle}>
+                    <div
+                      style={{
+                        ...progressFillStyle,
+                        width: `${Math.min(100, (research.progress / currentTech.cost) * 100)}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div style={{ fontStyle: 'italic', color: '#aaa' }}>
+                  Nothing - pick a tech ({research.progress.toFixed(0)} science banked)
+                </div>
+              )}
+              {availableTechs.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', marginTop: '5px' }}>
+                  {availableTechs.map(techId => {
+                    const tech = gameData.getTechData(techId)!;
+                    return (
+                      <button
+                        key={techId}
+                        style={{ ...buttonStyle, fontSize: '12px', padding: '5px 10px' }}
+                        onClick={() => handleSetResearch(techId)}
+                        title={tech.description || tech.name}
+                      >
+                        {tech.name} ({tech.cost})
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })()}
 
         {selectedUnit && (
           <div style={panelStyle}>
@@ -536,10 +838,21 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
           <div style={panelStyle}>
             <h4>Selected City</h4>
             <div>Population: {selectedCity.population}</div>
+            {ecsWorld && gameState.selectedEntity !== null && (() => {
+              const stats = CityCombat.getStats(ecsWorld, gameState.selectedEntity);
+              return stats && (
+                <div>
+                  Health: {stats.health} / {stats.maxHealth} (Defense: {stats.defense})
+                </div>
+              );
+            })()}
             
             {selectedCityResources && (
               <div style={{ marginTop: '10px' }}>
                 <strong>Resources:</strong>
+                <div>
+                  Food: {selectedCityResources.food.toFixed(1)} / {getFoodGrowthThreshold(selectedCity.population)}
+                </div>
                 <div>Production: {selectedCityResources.production.toFixed(1)}</div>
                 <div>Gold: {selectedCityResources.gold.toFixed(1)}</div>
               </div>
@@ -548,8 +861,13 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
             {selectedCityYields && (
               <div style={{ marginTop: '10px' }}>
                 <strong>Per Turn:</strong>
+                <div>
+                  Food: {formatFoodSurplus(selectedCityYields.food)}
+                  {selectedCityYields.food < 0 && ' (starving)'}
+                </div>
                 <div>Production: +{selectedCityYields.production.toFixed(1)}</div>
                 <div>Gold: +{selectedCityYields.gold.toFixed(1)}</div>
+                <div>Science: +{selectedCityYields.science.toFixed(1)}</div>
               </div>
             )}
 
@@ -671,6 +989,22 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
               )}
             </>
           )}
+          {selectedUnit && captureOffer?.unit === gameState.selectedEntity && (
+            <>
+              <button style={commandButtonStyle} onClick={() => handleCaptureCity(false)}>
+                Capture City
+              </button>
+              {/* Capitals can't be razed */}
+              {ecsWorld && CityCombat.getState(ecsWorld, captureOffer.city)?.capitalOf === null && (
+                <button style={commandButtonStyle} onClick={() => handleCaptureCity(true)}>
+                  Raze City
+                </button>
+              )}
+              <button style={commandButtonActiveStyle} onClick={() => setCaptureOffer(null)}>
+                Leave It
+              </button>
+            </>
+          )}
           {/* Future: Add commands for tiles, buildings, etc. */}
         </div>
       )}
@@ -696,6 +1030,9 @@ export const HUD: React.FC<HUDProps> = ({ game }) => {
               intentQueue={intentQueue}
               buildingsData={buildingsData}
               mapData={mapData}
+              getMissingTechReason={requiredTech =>
+                research && gameData ? getMissingTechReason(gameData, research, requiredTech) : null
+              }
               onClose={() => setContextMenu(null)}
             />
           );
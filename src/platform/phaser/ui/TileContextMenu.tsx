@@ -1,7 +1,7 @@
 import React from 'react';
 import { IntentQueue } from '@/state/IntentQueue';
 import { Entity } from '@engine/ecs';
-import { BuildingsData } from '@/utils/buildingFactory';
+import { BuildingsData } from '@engine/gameplay/gameData';
 import { MapData } from '@engine/map/MapData';
 
 interface TileContextMenuProps {
@@ -13,6 +13,7 @@ interface TileContextMenuProps {
   intentQueue: IntentQueue;
   buildingsData: BuildingsData;
   mapData: MapData;
+  getMissingTechReason: (requiredTech: string | undefined) => string | null; // Why a building is still locked
   onClose: () => void;
 }
 
@@ -82,6 +83,7 @@ export const TileContextMenu: React.FC<TileContextMenuProps> = ({
   intentQueue,
   buildingsData,
   mapData,
+  getMissingTechReason,
   onClose,
 }) => {
   const [hoveredItem, setHoveredItem] = React.useState<string | null>(null);
@@ -163,13 +165,20 @@ export const TileContextMenu: React.FC<TileContextMenuProps> = ({
       <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
         {availableBuildings.map(([buildingType, building]) => {
           const isHovered = hoveredItem === buildingType;
+          const lockedReason = getMissingTechReason(building.requiredTech);
           return (
             <div
               key={buildingType}
-              style={isHovered ? { ...menuItemStyle, ...menuItemHoverStyle } : menuItemStyle}
+              style={
+                lockedReason
+                  ? disabledMenuItemStyle
+                  : isHovered
+                    ? { ...menuItemStyle, ...menuItemHoverStyle }
+                    : menuItemStyle
+              }
               onMouseEnter={() => setHoveredItem(buildingType)}
               onMouseLeave={() => setHoveredItem(null)}
-              onClick={() => handleBuildBuilding(buildingType)}
+              onClick={() => !lockedReason && handleBuildBuilding(buildingType)}
               title={building.description || building.name}
             >
               <div style={{ fontWeight: 'bold' }}>{building.name}</div>
@@ -177,6 +186,7 @@ export const TileContextMenu: React.FC<TileContextMenuProps> = ({
                 Cost: {building.productionCost} production
                 {building.population && ` • +${building.population} population`}
               </div>
+              {lockedReason && <div style={{ fontSize: '12px', color: '#f87171', marginTop: '2px' }}>{lockedReason}</div>}
             </div>
           );
         })}
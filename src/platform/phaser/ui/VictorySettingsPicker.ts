@@ -0,0 +1,55 @@
+import Phaser from 'phaser';
+import { VICTORY } from '@config/game';
+import { VICTORY_CONDITIONS, VictoryCondition, VictorySettings, createVictorySettings } from '@engine/gameplay/victory';
+import { ButtonBuilder } from './ButtonBuilder';
+
+const CONDITION_NAMES: Record<VictoryCondition, string> = {
+  domination: 'Domination',
+  elimination: 'Elimination',
+  score: 'Score',
+};
+
+/**
+ * Lets the player choose how a new game can be won, for the game creation scenes
+ */
+export class VictorySettingsPicker {
+  /**
+   * Adds the victory condition toggles and the turn limit choice, in a column starting at (x, y)
+   * @returns Gets the settings as chosen
+   */
+  static create(scene: Phaser.Scene, x: number, y: number): () => VictorySettings {
+    const settings = createVictorySettings();
+
+    const title = scene.add.text(x, y, 'Victory Conditions', {
+      fontSize: '24px',
+      color: '#ffffff',
+      fontFamily: 'Arial',
+    });
+    title.setOrigin(0.5, 0.5);
+
+    VICTORY_CONDITIONS.forEach((condition, index) => {
+      const label = () => `${settings.conditions.includes(condition) ? '☑' : '☐'} ${CONDITION_NAMES[condition]}`;
+      const toggle = ButtonBuilder.createTextButton(scene, x, y + 40 + index * 35, label(), () => {
+        if (!settings.conditions.includes(condition)) {
+          settings.conditions.push(condition);
+        } else if (settings.conditions.length > 1) {
+          // A game needs at least one way to be won
+          settings.conditions = settings.conditions.filter(c => c !== condition);
+        }
+        toggle.setText(label());
+      }, 20);
+      toggle.setOrigin(0.5, 0.5);
+    });
+
+    // Turn limit for score victory: cycles through the offered choices
+    const turnLimitLabel = () => `Turn Limit: ${settings.turnLimit}`;
+    const turnLimit = ButtonBuilder.createTextButton(scene, x, y + 40 + VICTORY_CONDITIONS.length * 35, turnLimitLabel(), () => {
+      const choices = VICTORY.TURN_LIMIT_CHOICES;
+      settings.turnLimit = choices[(choices.indexOf(settings.turnLimit) + 1) % choices.length];
+      turnLimit.setText(turnLimitLabel());
+    }, 20);
+    turnLimit.setOrigin(0.5, 0.5);
+
+    return () => structuredClone(settings);
+  }
+}
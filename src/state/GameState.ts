@@ -1,4 +1,6 @@
 import { Entity } from '@engine/ecs';
+import { GameResult, VictorySettings, createVictorySettings } from '@engine/gameplay/victory';
+import type { AIDifficulty } from '@engine/ai/AIController';
 
 /**
  * Holds the global state of the game that doesn't belong in the ECS.
@@ -15,7 +17,7 @@ export class GameState {
   
   /**
    * The ID of the player(s) who can currently take actions.
-   * In single-player, this is always 0 (the human player).
+   * In single-player, players take their turns in the order of `players` (see TurnSystem).
    * In multiplayer, this would change based on turn order or be an array for simultaneous turns.
    */
   public currentPlayerId: number = 0;
@@ -35,6 +37,38 @@ export class GameState {
    * Whether the game is in multiplayer mode
    */
   public isMultiplayer: boolean = false;
+
+  /**
+   * Seed of the game's random streams (see createActionRng) - combat rolls come from it.
+   * In multiplayer the server rolls with its own seed and sends the results.
+   */
+  public seed: number = Math.floor(Math.random() * 0x7fffffff);
+
+  /**
+   * Sequence number of the last action that drew random numbers (single player)
+   */
+  public actionSeq: number = 0;
+
+  /**
+   * Everyone who started the game and their civilization, eliminated or not (single player)
+   */
+  public players: Array<{ playerId: number; civId: string }> = [];
+
+  /**
+   * Players run by the computer and their difficulty, by player ID (single player) - see AISystem
+   */
+  public ai: Record<number, AIDifficulty> = {};
+
+  /**
+   * How the game can be won, chosen when it was created.
+   * In multiplayer the server checks them and sends the result.
+   */
+  public victory: VictorySettings = createVictorySettings();
+
+  /**
+   * How the game ended, once it's over
+   */
+  public result: GameResult | null = null;
   
   /**
    * Checks if a player ID is the current active player.
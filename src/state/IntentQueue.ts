@@ -1,5 +1,6 @@
 import { Entity } from '@engine/ecs';
 import { TilePoint } from '@engine/math/iso';
+import type { CombatResult } from '@shared/types';
 
 // --- Define Intent Payloads ---
 
@@ -59,13 +60,17 @@ export interface BuildBuildingIntent {
 export interface AttackIntent {
   type: 'Attack';
   payload: { attacker: Entity; target: Entity };
+  result?: CombatResult; // Resolved by the server (multiplayer) - applied as is
 }
 
-/**
- * An internal event triggered by the TurnSystem.
- */
-export interface TurnBeganIntent {
-  type: 'TurnBegan';
+export interface SetResearchIntent {
+  type: 'SetResearch';
+  payload: { techId: string };
+}
+
+export interface CaptureCityIntent {
+  type: 'CaptureCity';
+  payload: { unit: Entity; city: Entity; raze: boolean };
 }
 
 // --- Union Type for All Intents ---
@@ -81,7 +86,8 @@ export type Intent =
   | ProduceBuildingIntent
   | BuildBuildingIntent
   | AttackIntent
-  | TurnBeganIntent;
+  | SetResearchIntent
+  | CaptureCityIntent;
 
 // --- Type Guard for checking intent types ---
 
@@ -0,0 +1,165 @@
+import { SerializedWorldEntity, World, deserializeWorld, serializeWorld } from '@engine/ecs';
+import * as Components from '@engine/gameplay/components';
+import { FogOfWar } from '@engine/map/FogOfWar';
+import { ResearchState } from '@engine/gameplay/research';
+import { GameResult, VictorySettings } from '@engine/gameplay/victory';
+import { AIDifficulty } from '@engine/ai/AIController';
+import { GameMap } from '@/network/types';
+import { GameState } from './GameState';
+
+/**
+ * Version of the save format written by this build.
+ * Bump it when SaveGameData changes, and add a migration from the previous version.
+ */
+export const SAVE_FORMAT_VERSION = 1;
+
+/**
+ * Gameplay components kept in saves, by registered id (see components.ts).
+ * Tiles are rebuilt from the map, ScreenPos by RenderSyncSystem, and selection isn't saved.
+ */
+const SAVED_COMPONENTS = [
+  'TransformTile',
+  'Unit',
+  'UnitType',
+  'NewlyPurchased',
+  'Selectable',
+  'Owner',
+  'CivilizationComponent',
+  'City',
+  'Resources',
+  'CivilizationResources',
+  'Building',
+  'ProductionQueue',
+];
+
+/**
+ * A saved single-player game
+ */
+export interface SaveGameData {
+  formatVersion: number; // SAVE_FORMAT_VERSION of the build that wrote it
+  savedAt: string; // ISO timestamp
+  map: GameMap;
+  gameState: {
+    turn: number;
+    currentPlayerId: number;
+    localPlayerId: number;
+    seed: number; // Combat keeps rolling from the same streams after a load
+    actionSeq: number;
+    players: Array<{ playerId: number; civId: string }>; // Everyone who started the game
+    ai: Record<number, AIDifficulty>; // Computer players' difficulty, by player ID
+    victory: VictorySettings;
+    result: GameResult | null;
+  };
+  entities: SerializedWorldEntity[];
+  fog: Array<{ playerId: number; revealed: number[] }>; // Indices (ty * width + tx) of revealed tiles
+  production: Record<string, number>; // Civilization production stockpiles, by civId
+  research: Record<string, ResearchState>; // Civilization research, by civId
+}
+
+/**
+ * Everything a save is made from
+ */
+export interface SaveGameSources {
+  world: World;
+  gameState: GameState;
+  fogOfWar: FogOfWar;
+  map: GameMap;
+  production: Record<string, number>;
+  research: Record<string, ResearchState>;
+}
+
+/**
+ * A save of any format version
+ */
+type VersionedSave = { formatVersion: number } & Record<string, unknown>;
+
+/**
+ * Upgrades a save from the version it's indexed by to the next one
+ * (e.g. MIGRATIONS[1] turns a version 1 save into a version 2 save).
+ */
+const MIGRATIONS: Record<number, (save: VersionedSave) => Record<string, unknown>> = {};
+
+/**
+ * Captures the state of a single-player game
+ */
+export function createSaveGame({ world, gameState, fogOfWar, map, production, research }: SaveGameSources): SaveGameData {
+  return {
+    formatVersion: SAVE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    map: structuredClone(map),
+    gameState: {
+      turn: gameState.turn,
+      currentPlayerId: gameState.currentPlayerId,
+      localPlayerId: gameState.localPlayerId,
+      seed: gameState.seed,
+      actionSeq: gameState.actionSeq,
+      players: structuredClone(gameState.players),
+      ai: { ...gameState.ai },
+      victory: structuredClone(gameState.victory),
+      result: structuredClone(gameState.result),
+    },
+    entities: serializeWorld(world, SAVED_COMPONENTS, entity => !world.hasComponent(entity, Components.Tile)),
+    fog: fogOfWar.getPlayerIds().map(playerId => ({
+      playerId,
+      revealed: fogOfWar.getRevealed(playerId).flatMap((revealed, index) => (revealed ? [index] : [])),
+    })),
+    production: { ...production },
+    research: structuredClone(research),
+  };
+}
+
+/**
+ * Restores a saved game into a fresh world, game state and fog of war.
+ * Production stockpiles and research are left to the caller (see SaveGameData.production and .research).
+ */
+export function restoreSaveGame(
+  save: SaveGameData,
+  { world, gameState, fogOfWar }: Pick<SaveGameSources, 'world' | 'gameState' | 'fogOfWar'>,
+): void {
+  deserializeWorld(world, save.entities);
+
+  gameState.turn = save.gameState.turn;
+  gameState.currentPlayerId = save.gameState.currentPlayerId;
+  gameState.localPlayerId = save.gameState.localPlayerId;
+  gameState.seed = save.gameState.seed;
+  gameState.actionSeq = save.gameState.actionSeq;
+  gameState.players = structuredClone(save.gameState.players);
+  gameState.ai = { ...save.gameState.ai };
+  gameState.victory = structuredClone(save.gameState.victory);
+  gameState.result = structuredClone(save.gameState.result);
+  gameState.selectedEntity = null;
+  gameState.moveMode = false;
+
+  for (const { playerId, revealed } of save.fog) {
+    const tiles = new Array(fogOfWar.width * fogOfWar.height).fill(false);
+    revealed.forEach(index => (tiles[index] = true));
+    fogOfWar.setRevealed(playerId, tiles);
+  }
+}
+
+/**
+ * Checks a parsed save and upgrades it to the current format
+ * @throws If it isn't a save, or was written by a newer build
+ */
+export function migrateSave(data: unknown): SaveGameData {
+  if (!data || typeof data !== 'object' || typeof (data as VersionedSave).formatVersion !== 'number') {
+    throw new Error('Not a save game (missing format version)');
+  }
+
+  let save = data as VersionedSave;
+  if (save.formatVersion > SAVE_FORMAT_VERSION) {
+    throw new Error(`Save format ${save.formatVersion} is newer than this version of the game supports (${SAVE_FORMAT_VERSION})`);
+  }
+  while (save.formatVersion < SAVE_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[save.formatVersion];
+    if (!migrate) {
+      throw new Error(`Save format ${save.formatVersion} can't be migrated`);
+    }
+    save = { ...migrate(save), formatVersion: save.formatVersion + 1 };
+  }
+
+  if (!save.map || !save.gameState || !Array.isArray(save.entities) || !Array.isArray(save.fog) || !save.production || !save.research) {
+    throw new Error('Save game is incomplete');
+  }
+  return save as unknown as SaveGameData;
+}
@@ -0,0 +1,83 @@
+import { SaveGameData, migrateSave } from './SaveGame';
+
+const SAVE_KEY_PREFIX = 'polyempire.save.';
+
+/**
+ * A save slot as listed on the load screen
+ */
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: string;
+  turn: number;
+}
+
+/**
+ * Named save slots in browser storage (localStorage by default)
+ */
+export class SaveGameStorage {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  /**
+   * Lists the save slots, most recent first. Slots that can't be read are left out.
+   */
+  list(): SaveSlotInfo[] {
+    const slots: SaveSlotInfo[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key?.startsWith(SAVE_KEY_PREFIX)) continue;
+
+      const slot = key.slice(SAVE_KEY_PREFIX.length);
+      try {
+        const save = this.load(slot);
+        slots.push({ slot, savedAt: save.savedAt, turn: save.gameState.turn });
+      } catch (error) {
+        console.warn(`[SaveGameStorage] Skipping unreadable save "${slot}":`, error);
+      }
+    }
+    return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /**
+   * Writes a save to a slot, replacing what was there
+   */
+  save(slot: string, save: SaveGameData): void {
+    this.storage.setItem(SAVE_KEY_PREFIX + slot, JSON.stringify(save));
+  }
+
+  /**
+   * Reads the save in a slot, migrated to the current format
+   * @throws If the slot is empty or doesn't hold a readable save
+   */
+  load(slot: string): SaveGameData {
+    const json = this.storage.getItem(SAVE_KEY_PREFIX + slot);
+    if (json === null) {
+      throw new Error(`No save game in slot "${slot}"`);
+    }
+    return migrateSave(JSON.parse(json));
+  }
+
+  delete(slot: string): void {
+    this.storage.removeItem(SAVE_KEY_PREFIX + slot);
+  }
+}
+
+/**
+ * Downloads a save as a JSON file
+ */
+export function exportSaveFile(save: SaveGameData, fileName: string): void {
+  const blob = new Blob([JSON.stringify(save)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.json') ? fileName : `${fileName}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a save from a JSON file (e.g. one picked with a file input)
+ * @throws If the file doesn't hold a readable save
+ */
+export async function importSaveFile(file: File): Promise<SaveGameData> {
+  return migrateSave(JSON.parse(await file.text()));
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '@engine/ecs';
+import { AIController, AIDifficulty } from '@engine/ai/AIController';
+import { City, Owner, TransformTile, Unit } from '@engine/gameplay/components';
+import {
+  AISystem,
+  CivilizationProductionSystem,
+  FoundCitySystem,
+  ResearchSystem,
+  TurnSystem,
+} from '@engine/gameplay/systems';
+import { GameState } from '@/state/GameState';
+import { Intent, IntentQueue } from '@/state/IntentQueue';
+import { UnitFactory } from '@/utils/unitFactory';
+import { addCity, civilizationRegistry, createPlainsMap, createTestWorld, gameData } from './helpers/world';
+import unitsData from '../../public/data/units.json';
+
+describe('AIController', () => {
+  const mapData = createPlainsMap(8, 8);
+  const greeks = { playerId: 1, civId: 'greeks' };
+
+  let world: World;
+  let gameState: GameState;
+  let production: CivilizationProductionSystem;
+  let controller: AIController;
+  let unitFactory: UnitFactory;
+  let turn: number;
+
+  // Everything the computer player decides to do in a new turn, without applying any of it
+  const planTurn = (difficulty: AIDifficulty = 'normal'): Intent[] => {
+    const intents: Intent[] = [];
+    turn++;
+    for (let i = 0; i < 50; i++) {
+      const intent = controller.nextIntent(world, greeks, turn, difficulty);
+      if (intent.type === 'EndTurn') break;
+      intents.push(intent);
+    }
+    return intents;
+  };
+
+  beforeEach(() => {
+    const setup = createTestWorld();
+    ({ world, gameState, unitFactory } = setup);
+    const { events, intents } = setup;
+    production = new CivilizationProductionSystem(events, civilizationRegistry, gameState);
+    const research = new ResearchSystem(intents, events, gameData, gameState);
+    world.addSystem(production);
+    world.addSystem(research);
+    controller = new AIController(mapData, gameData, production, research);
+    turn = 0;
+  });
+
+  it('should pick research and found its first city where its settler stands', () => {
+    const settler = unitFactory.createUnit('settler', { tx: 4, ty: 4 }, 1, 'greeks')!;
+
+    expect(planTurn().slice(0, 2)).toEqual([
+      { type: 'SetResearch', payload: { techId: 'agriculture' } },
+      { type: 'FoundCity', payload: { entity: settler } },
+    ]);
+  });
+
+  it('should save up for a military unit to defend a city without one', () => {
+    const city = addCity(world, { tx: 4, ty: 4 }, 1, 'greeks');
+    production.setProduction('greeks', unitsData.scout.productionCost - 1);
+
+    expect(planTurn().filter(intent => intent.type === 'ProduceUnit')).toEqual([]);
+
+    production.setProduction('greeks', unitsData.scout.productionCost);
+    expect(planTurn().filter(intent => intent.type === 'ProduceUnit')).toEqual([
+      { type: 'ProduceUnit', payload: { cityEntity: city, unitType: 'scout' } },
+    ]);
+  });
+
+  it('should only attack a neighbour it is strong enough for at its difficulty', () => {
+    addCity(world, { tx: 0, ty: 0 }, 1, 'greeks');
+    const scout = unitFactory.createUnit('scout', { tx: 5, ty: 5 }, 1, 'greeks')!;
+    addCity(world, { tx: 7, ty: 7 }, 0, 'romans');
+    const enemy = unitFactory.createUnit('scout', { tx: 6, ty: 5 }, 0, 'romans')!;
+    const enemyUnit = world.getComponent(enemy, Unit)!;
+    enemyUnit.health = enemyUnit.maxHealth * 0.6;
+
+    const attack = { type: 'Attack', payload: { attacker: scout, target: enemy } };
+    expect(planTurn('normal')).toContainEqual(attack);
+    expect(planTurn('easy')).not.toContainEqual(attack);
+  });
+
+  it('should capture a beaten enemy city next to its unit', () => {
+    const scout = unitFactory.createUnit('scout', { tx: 5, ty: 5 }, 1, 'greeks')!;
+    const city = addCity(world, { tx: 6, ty: 5 }, 0, 'romans', { damage: 1000 });
+
+    expect(planTurn()).toContainEqual({ type: 'CaptureCity', payload: { unit: scout, city, raze: false } });
+  });
+});
+
+describe('AISystem', () => {
+  const mapData = createPlainsMap(8, 8);
+
+  let world: World;
+  let intents: IntentQueue;
+  let gameState: GameState;
+
+  beforeEach(() => {
+    const setup = createTestWorld();
+    ({ world, intents, gameState } = setup);
+    const { events, unitFactory } = setup;
+    gameState.players = [
+      { playerId: 0, civId: 'romans' },
+      { playerId: 1, civId: 'greeks' },
+    ];
+    gameState.ai = { 1: 'normal' };
+
+    const production = new CivilizationProductionSystem(events, civilizationRegistry, gameState);
+    const research = new ResearchSystem(intents, events, gameData, gameState);
+    world.addSystem(production);
+    world.addSystem(research);
+    world.addSystem(new FoundCitySystem(intents, gameState, events));
+    world.addSystem(new TurnSystem(intents, gameState, events));
+    world.addSystem(new AISystem(intents, gameState, new AIController(mapData, gameData, production, research)));
+
+    unitFactory.createUnit('scout', { tx: 0, ty: 0 }, 0, 'romans');
+    unitFactory.createUnit('settler', { tx: 5, ty: 5 }, 1, 'greeks');
+  });
+
+  it("should play the computer player's turn after the human's and start the next turn", () => {
+    intents.push({ type: 'EndTurn' });
+    world.update(16);
+    expect(gameState).toMatchObject({ turn: 1, currentPlayerId: 1 });
+
+    for (let frame = 0; frame < 20 && gameState.turn === 1; frame++) {
+      world.update(16);
+    }
+
+    expect(gameState).toMatchObject({ turn: 2, currentPlayerId: 0 });
+    const [city] = world.view(City);
+    expect(world.getComponent(city, Owner)!.playerId).toBe(1);
+    expect(world.getComponent(city, TransformTile)).toMatchObject({ tx: 5, ty: 5 });
+  });
+
+  it("should wait while it is the human player's turn", () => {
+    for (let frame = 0; frame < 5; frame++) {
+      world.update(16);
+    }
+
+    expect(gameState).toMatchObject({ turn: 1, currentPlayerId: 0 });
+    expect(world.view(City)).toHaveLength(0);
+  });
+});
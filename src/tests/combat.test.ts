@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '@engine/ecs';
+import { CityCapturedEvent, EngineEventBus, UnitDamagedEvent } from '@engine/events/EventBus';
+import { Building, City, CivilizationComponent, Owner, TransformTile, Unit } from '@engine/gameplay/components';
+import { CaptureCitySystem, CombatSystem } from '@engine/gameplay/systems';
+import {
+  areAdjacent,
+  canCaptureCity,
+  getCityCombatStats,
+  getCityHealth,
+  resolveCityCombat,
+  resolveCombat,
+} from '@engine/gameplay/combat';
+import { createActionRng } from '@engine/math/rng';
+import { GameState } from '@/state/GameState';
+import { IntentQueue } from '@/state/IntentQueue';
+import { UnitFactory } from '@/utils/unitFactory';
+import { COMBAT } from '@config/game';
+import { addCity, createTestWorld } from './helpers/world';
+
+describe('resolveCombat', () => {
+  const attacker = { attack: 10 };
+  const defender = { defense: 5, health: 100 };
+
+  it('should give the same result for the same seed and action sequence', () => {
+    const first = resolveCombat(attacker, defender, createActionRng(1234, 7));
+    const second = resolveCombat(attacker, defender, createActionRng(1234, 7));
+
+    expect(second).toEqual(first);
+  });
+
+  it('should roll a different stream for each action', () => {
+    const first = createActionRng(1234, 1);
+    const second = createActionRng(1234, 2);
+
+    expect([first.nextFloat(), first.nextFloat()]).not.toEqual([second.nextFloat(), second.nextFloat()]);
+  });
+
+  it('should keep damage within the variance of the defense-reduced attack', () => {
+    // 10 * (1 - 5 / 15) = 6.67
+    for (let seq = 1; seq <= 50; seq++) {
+      const { damage, defenderHealth } = resolveCombat(attacker, defender, createActionRng(99, seq));
+      expect(damage).toBeGreaterThanOrEqual(Math.round(6.67 * (1 - COMBAT.DAMAGE_VARIANCE)));
+      expect(damage).toBeLessThanOrEqual(Math.round(6.67 * (1 + COMBAT.DAMAGE_VARIANCE)));
+      expect(defenderHealth).toBe(100 - damage);
+    }
+  });
+
+  it('should always deal the minimum damage and destroy defenders it brings to 0', () => {
+    expect(resolveCombat({ attack: 0 }, { defense: 0, health: 5 }, createActionRng(1, 1)).damage).toBe(COMBAT.MIN_DAMAGE);
+
+    const result = resolveCombat({ attack: 50 }, { defense: 1, health: 3 }, createActionRng(1, 1));
+    expect(result).toMatchObject({ defenderHealth: 0, defenderDestroyed: true });
+  });
+
+  it('should only treat 4-way neighbors as adjacent', () => {
+    expect(areAdjacent({ tx: 2, ty: 2 }, { tx: 2, ty: 3 })).toBe(true);
+    expect(areAdjacent({ tx: 2, ty: 2 }, { tx: 3, ty: 3 })).toBe(false);
+    expect(areAdjacent({ tx: 2, ty: 2 }, { tx: 2, ty: 2 })).toBe(false);
+  });
+});
+
+describe('City combat rules', () => {
+  const city = { ownerId: 1, position: { tx: 3, ty: 3 }, population: 2, buildings: 1, damage: 0 };
+  const unit = { ownerId: 0, canAttack: true, mp: 1, position: { tx: 3, ty: 2 } };
+
+  it('should scale city health and defense with population and buildings', () => {
+    const stats = getCityCombatStats(city);
+
+    expect(stats.maxHealth).toBe(
+      COMBAT.CITY_BASE_HEALTH + 2 * COMBAT.CITY_HEALTH_PER_POPULATION + COMBAT.CITY_HEALTH_PER_BUILDING,
+    );
+    expect(stats.defense).toBe(
+      COMBAT.CITY_BASE_DEFENSE + 2 * COMBAT.CITY_DEFENSE_PER_POPULATION + COMBAT.CITY_DEFENSE_PER_BUILDING,
+    );
+    expect(getCityHealth({ ...city, damage: 5 })).toBe(stats.maxHealth - 5);
+    expect(getCityHealth({ ...city, damage: 1000 })).toBe(0);
+  });
+
+  it('should leave a city at 0 health instead of destroying it', () => {
+    // One health left
+    const damaged = { ...city, damage: getCityCombatStats(city).maxHealth - 1 };
+    const result = resolveCityCombat({ attack: 100 }, damaged, createActionRng(1, 1));
+
+    expect(result).toEqual({ damage: 1, defenderHealth: 0, defenderDestroyed: false });
+  });
+
+  it('should only let a melee unit next to a city without health capture it', () => {
+    const beaten = { ...city, damage: getCityCombatStats(city).maxHealth };
+
+    expect(canCaptureCity(unit, beaten)).toEqual({ canCapture: true });
+    expect(canCaptureCity(unit, city).reason).toBe('The city still has health left');
+    expect(canCaptureCity({ ...unit, canAttack: false }, beaten).reason).toBe('Only melee units can capture cities');
+    expect(canCaptureCity({ ...unit, mp: 0 }, beaten).reason).toBe('The unit has no movement left');
+    expect(canCaptureCity({ ...unit, position: { tx: 1, ty: 1 } }, beaten).reason).toBe(
+      'The city is not next to the unit',
+    );
+  });
+});
+
+describe('CombatSystem', () => {
+  let world: World;
+  let events: EngineEventBus;
+  let intents: IntentQueue;
+  let gameState: GameState;
+  let unitFactory: UnitFactory;
+
+  const setUp = () => {
+    ({ world, events, intents, gameState, unitFactory } = createTestWorld());
+    world.addSystem(new CombatSystem(intents, events, gameState));
+  };
+
+  beforeEach(setUp);
+
+  const attackOnce = (seed: number) => {
+    gameState.seed = seed;
+    gameState.actionSeq = 0;
+    const attacker = unitFactory.createUnit('scout', { tx: 1, ty: 1 }, 0, 'romans')!;
+    const target = unitFactory.createUnit('scout', { tx: 2, ty: 1 }, 1, 'greeks')!;
+    intents.push({ type: 'Attack', payload: { attacker, target } });
+    world.update(16);
+    return world.getComponent(target, Unit)!.health;
+  };
+
+  it('should replay the same fight for the same game seed', () => {
+    const health = attackOnce(2024);
+    setUp();
+
+    expect(attackOnce(2024)).toBe(health);
+    expect(gameState.actionSeq).toBe(1);
+  });
+
+  it('should apply a result resolved by the server as-is', () => {
+    gameState.isMultiplayer = true;
+    const attacker = unitFactory.createUnit('scout', { tx: 1, ty: 1 }, 0, 'romans')!;
+    const target = unitFactory.createUnit('scout', { tx: 2, ty: 1 }, 1, 'greeks')!;
+    const damaged: UnitDamagedEvent[] = [];
+    events.on('unit-damaged', (event: UnitDamagedEvent) => damaged.push(event));
+
+    // Not resolved yet - the server decides
+    intents.push({ type: 'Attack', payload: { attacker, target } });
+    world.update(16);
+    expect(damaged).toHaveLength(0);
+
+    const result = { damage: 7, defenderHealth: 13, defenderDestroyed: false };
+    intents.push({ type: 'Attack', payload: { attacker, target }, result });
+    world.update(16);
+
+    expect(damaged).toEqual([{ entity: target, damage: 7, position: { tx: 2, ty: 1 } }]);
+    expect(world.getComponent(target, Unit)!.health).toBe(13);
+    expect(gameState.actionSeq).toBe(0);
+  });
+});
+
+describe('CaptureCitySystem', () => {
+  let world: World;
+  let events: EngineEventBus;
+  let intents: IntentQueue;
+  let gameState: GameState;
+  let unit: number;
+  let city: number;
+  let building: number;
+
+  beforeEach(() => {
+    const setup = createTestWorld();
+    ({ world, events, intents, gameState } = setup);
+    world.addSystem(new CaptureCitySystem(intents, events, gameState));
+    unit = setup.unitFactory.createUnit('scout', { tx: 2, ty: 3 }, 0, 'romans')!;
+
+    city = addCity(world, { tx: 3, ty: 3 }, 1, 'greeks', { damage: 1000 });
+
+    building = world.createEntity();
+    world.addComponent(building, new TransformTile(4, 3));
+    world.addComponent(building, new Building('farm'));
+    world.addComponent(building, new Owner(1));
+    world.addComponent(building, new CivilizationComponent('greeks'));
+  });
+
+  it('should hand the city and its buildings to the attacker', () => {
+    const captured: CityCapturedEvent[] = [];
+    events.on('city-captured', (event: CityCapturedEvent) => captured.push(event));
+
+    intents.push({ type: 'CaptureCity', payload: { unit, city, raze: false } });
+    world.update(16);
+
+    expect(captured).toEqual([{ entity: city, previousOwnerId: 1, newOwnerId: 0, razed: false }]);
+    for (const entity of [city, building]) {
+      expect(world.getComponent(entity, Owner)!.playerId).toBe(0);
+      expect(world.getComponent(entity, CivilizationComponent)!.civId).toBe('romans');
+    }
+    expect(world.getComponent(city, City)!.damage).toBe(0);
+    expect(world.getComponent(unit, TransformTile)).toMatchObject({ tx: 3, ty: 3 });
+    expect(world.getComponent(unit, Unit)!.mp).toBe(0);
+  });
+
+  it('should destroy a razed city with its buildings', () => {
+    intents.push({ type: 'CaptureCity', payload: { unit, city, raze: true } });
+    world.update(16);
+
+    expect(world.view(City)).toHaveLength(0);
+    expect(world.view(Building)).toHaveLength(0);
+  });
+
+  it('should not take a city with health left', () => {
+    world.getComponent(city, City)!.damage = 0;
+
+    intents.push({ type: 'CaptureCity', payload: { unit, city, raze: false } });
+    world.update(16);
+
+    expect(world.getComponent(city, Owner)!.playerId).toBe(1);
+    expect(world.getComponent(unit, TransformTile)).toMatchObject({ tx: 2, ty: 3 });
+  });
+});
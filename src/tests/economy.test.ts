@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceProductionQueue,
+  applyCityGrowth,
+  applyFoodGrowth,
+  calculateCityTurnYields,
+  canPlaceBuilding,
+  findBuildingPlacement,
+  getFoodGrowthThreshold,
+  processTurnEconomy,
+  type EconomyCity,
+} from '@engine/gameplay/economy';
+import { City, ProductionItem, ProductionQueue, Resources } from '@engine/gameplay/components';
+import { JsonGameData } from '@engine/gameplay/gameData';
+import { createResearchState } from '@engine/gameplay/research';
+import {
+  BuildingYieldSystem,
+  CityGrowthSystem,
+  CivilizationProductionSystem,
+  ProductionSystem,
+  ResearchSystem,
+  YieldSystem,
+} from '@engine/gameplay/systems';
+import { MapData } from '@engine/map/MapData';
+import { TerrainRegistry } from '@engine/map/Terrain';
+import { RESOURCES } from '@config/game';
+import { addCity, civilizationRegistry, createTestWorld, gameData } from './helpers/world';
+import terrainData from '../../public/data/terrains.json';
+import techsData from '../../public/data/techs.json';
+
+describe('Turn Economy', () => {
+  const terrainRegistry = new TerrainRegistry(terrainData as any);
+
+  // 5x5 plains with a forest in the top-left corner
+  const tiles = new Array(25).fill('plains');
+  tiles[0] = 'forest';
+  const map = new MapData(5, 5, { tx: 2, ty: 2 }, tiles, terrainRegistry);
+
+  const makeCity = (overrides: Partial<EconomyCity> = {}): EconomyCity => ({
+    ownerId: 1,
+    civId: 'romans',
+    position: { tx: 2, ty: 2 },
+    population: 1,
+    level: 1,
+    resources: { food: 0, production: 0, gold: 0, science: 0 },
+    productionQueue: { queue: [], currentProgress: 0 },
+    ...overrides,
+  });
+
+  it('should work the best tiles and add production per citizen', () => {
+    const city = makeCity({ position: { tx: 1, ty: 1 }, population: 1 });
+    const yields = calculateCityTurnYields(map, city);
+
+    // The forest (2 prod) beats plains (1 prod)
+    expect(yields.production).toBe(2 + RESOURCES.CITY_BASE_PRODUCTION + RESOURCES.PRODUCTION_PER_CITIZEN);
+  });
+
+  it('should grow food on worked tiles and the city center', () => {
+    const city = makeCity({ population: 1, baseFood: 3 });
+
+    // One worked plains tile (2 food) plus the civilization's city center food
+    expect(calculateCityTurnYields(map, city).food).toBe(2 + 3);
+    expect(calculateCityTurnYields(map, makeCity()).food).toBe(2 + RESOURCES.CITY_BASE_FOOD);
+  });
+
+  it('should add a citizen once the food stockpile reaches the growth threshold, keeping the rest', () => {
+    const city = { population: 2 };
+    const eaten = 2 * RESOURCES.FOOD_PER_CITIZEN;
+    const resources = { food: getFoodGrowthThreshold(2) + eaten + 3 };
+
+    expect(applyFoodGrowth(city, resources)).toBe(1);
+    expect(city.population).toBe(3);
+    expect(resources.food).toBe(3);
+    expect(getFoodGrowthThreshold(3)).toBeGreaterThan(getFoodGrowthThreshold(2));
+  });
+
+  it('should starve a citizen when the citizens eat more food than the city has', () => {
+    const city = { population: 3 };
+    const resources = { food: 1 };
+
+    expect(applyFoodGrowth(city, resources)).toBe(-1);
+    expect(city).toEqual({ population: 2 });
+    expect(resources.food).toBe(0);
+
+    // The last citizen never starves
+    const hamlet = { population: 1 };
+    expect(applyFoodGrowth(hamlet, { food: 0 })).toBe(0);
+    expect(hamlet.population).toBe(1);
+  });
+
+  it('should complete a queued item once enough production is put in', () => {
+    const settler: ProductionItem = { type: 'unit', name: 'settler', cost: 10 };
+    const queue = { queue: [settler], currentProgress: 4 };
+
+    expect(advanceProductionQueue(queue, 3)).toEqual({ spent: 3, completed: null });
+    expect(queue.currentProgress).toBe(7);
+
+    expect(advanceProductionQueue(queue, 20)).toEqual({ spent: 3, completed: settler });
+    expect(queue).toEqual({ queue: [], currentProgress: 0 });
+  });
+
+  it('should level a city up as far as its population allows', () => {
+    const city = { population: 6, level: 1 };
+
+    expect(applyCityGrowth(city)).toBe(2);
+    expect(city.level).toBe(3);
+  });
+
+  it('should place buildings on the city tile first, then on free tiles in its borders', () => {
+    const city = makeCity();
+
+    expect(findBuildingPlacement(map, [city], city, [])).toEqual({ tx: 2, ty: 2 });
+    expect(findBuildingPlacement(map, [city], city, [{ position: { tx: 2, ty: 2 } }])).toEqual({ tx: 1, ty: 1 });
+    expect(findBuildingPlacement(map, [city], city, [], ['forest'])).toBeNull();
+  });
+
+  it('should only allow buildings on free tiles in the city\'s own borders', () => {
+    const city = makeCity({ position: { tx: 1, ty: 1 } });
+    const neighbour = makeCity({ position: { tx: 4, ty: 4 } });
+    const cities = [city, neighbour];
+
+    expect(canPlaceBuilding(map, cities, city, [], { tx: 0, ty: 0 }, ['forest'])).toEqual({ canBuild: true });
+    expect(canPlaceBuilding(map, cities, city, [], { tx: 1, ty: 0 }, ['forest']).canBuild).toBe(false);
+    expect(canPlaceBuilding(map, cities, city, [], { tx: 4, ty: 4 }).reason).toBe('Tile is not within city borders');
+    expect(canPlaceBuilding(map, cities, city, [{ position: { tx: 1, ty: 1 } }], { tx: 1, ty: 1 }).reason).toBe(
+      'Tile already has a building',
+    );
+  });
+
+  it('should collect city production into the owner stockpile and spend it on the queue', () => {
+    const city = makeCity({
+      productionQueue: { queue: [{ type: 'unit', name: 'scout', cost: 30 }], currentProgress: 0 },
+    });
+    const unit = { ownerId: 1, civId: 'romans', mp: 0, maxMp: 2, newlyPurchased: true };
+    const stockpiles = new Map([[1, 25]]);
+    const research = new Map([[1, { ...createResearchState(), current: 'agriculture' }]]);
+    const completed: string[] = [];
+
+    processTurnEconomy(
+      map,
+      { cities: [city], buildings: [{ position: { tx: 2, ty: 3 }, yields: { production: 1 } }], units: [unit], stockpiles, research },
+      {
+        startingProduction: () => 5,
+        gameData: new JsonGameData({}, {}, techsData),
+        onProductionComplete: (_city, item) => completed.push(item.name),
+      },
+    );
+
+    // 25 + 5 starting + (1 worked plains + 2 per citizen + 1 building) = 34, minus the scout's 30
+    expect(stockpiles.get(1)).toBe(4);
+    expect(completed).toEqual(['scout']);
+    expect(city.resources.production).toBe(0);
+    // Each citizen's science goes to the owner's research
+    expect(research.get(1)).toMatchObject({ current: 'agriculture', progress: RESOURCES.SCIENCE_PER_CITIZEN });
+    expect(city.resources.science).toBe(0);
+    expect(unit).toMatchObject({ mp: 2, newlyPurchased: false });
+  });
+
+  it("should leave a city the way the client's turn systems do", () => {
+    // One citizen short of level 2, with enough food to grow this turn
+    const food = getFoodGrowthThreshold(2) + 2 * RESOURCES.FOOD_PER_CITIZEN;
+    const queued: ProductionItem = { type: 'building', name: 'granary', cost: 1000 };
+
+    // Client: the systems' turn phases on a world
+    const { world, events, intents, gameState } = createTestWorld();
+    const production = new CivilizationProductionSystem(events, civilizationRegistry, gameState);
+    world.addSystem(new YieldSystem(events, map, gameState, civilizationRegistry));
+    world.addSystem(new BuildingYieldSystem(events, gameState));
+    world.addSystem(production);
+    world.addSystem(new ResearchSystem(intents, events, gameData, gameState));
+    world.addSystem(new ProductionSystem(events, gameData, gameState, civilizationRegistry, map, production));
+    world.addSystem(new CityGrowthSystem(gameState));
+    const cityEntity = addCity(world, { tx: 2, ty: 2 }, 1, 'romans', { population: 2 });
+    world.addComponent(cityEntity, new Resources(0, 0, food, 0));
+    world.addComponent(cityEntity, new ProductionQueue([{ ...queued }], 0));
+    production.setProduction('romans', 10);
+
+    world.advanceTurn(2);
+
+    // Server: processTurnEconomy on the same city
+    const city = makeCity({
+      population: 2,
+      baseFood: civilizationRegistry.get('romans')?.cityYields?.food,
+      resources: { food, production: 0, gold: 0, science: 0 },
+      productionQueue: { queue: [{ ...queued }], currentProgress: 0 },
+    });
+    const stockpiles = new Map([[1, 10]]);
+    processTurnEconomy(
+      map,
+      { cities: [city], buildings: [], units: [], stockpiles, research: new Map() },
+      {
+        startingProduction: civId => civilizationRegistry.get(civId)?.startingProduction || 0,
+        gameData,
+        onProductionComplete: () => {},
+      },
+    );
+
+    const clientCity = world.getComponent(cityEntity, City)!;
+    const clientResources = world.getComponent(cityEntity, Resources)!;
+    expect({ population: city.population, level: city.level }).toEqual({ population: 3, level: 2 });
+    expect({ population: clientCity.population, level: clientCity.level }).toEqual({
+      population: city.population,
+      level: city.level,
+    });
+    expect({ ...clientResources }).toEqual(city.resources);
+    expect(world.getComponent(cityEntity, ProductionQueue)!.currentProgress).toBe(city.productionQueue.currentProgress);
+    expect(production.getProduction('romans')).toBe(stockpiles.get(1));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World, Entity } from '@engine/ecs';
+import { EngineEventBus, UnitDamagedEvent, UnitDestroyedEvent } from '@engine/events/EventBus';
+import { NewlyPurchased, TransformTile, Unit } from '@engine/gameplay/components';
+import { CivilizationProductionSystem, CombatSystem, ProduceUnitSystem, ResearchSystem } from '@engine/gameplay/systems';
+import { GameState } from '@/state/GameState';
+import { IntentQueue } from '@/state/IntentQueue';
+import { UnitFactory } from '@/utils/unitFactory';
+import { addCity, civilizationRegistry, createTestWorld, gameData } from './helpers/world';
+import unitsData from '../../public/data/units.json';
+
+describe('EngineEventBus', () => {
+  it('should call listeners in the order they were added, with their context', () => {
+    const bus = new EngineEventBus();
+    const calls: string[] = [];
+    const listener = { name: 'second', record(this: { name: string }, n: number) { calls.push(`${this.name}:${n}`); } };
+
+    bus.on('tick', (n: number) => calls.push(`first:${n}`));
+    bus.on('tick', listener.record, listener);
+
+    expect(bus.emit('tick', 1)).toBe(true);
+    bus.off('tick', listener.record, listener);
+    bus.emit('tick', 2);
+
+    expect(calls).toEqual(['first:1', 'second:1', 'first:2']);
+    expect(bus.emit('nobody-listens')).toBe(false);
+  });
+});
+
+describe('Headless engine', () => {
+  let world: World;
+  let events: EngineEventBus;
+  let intents: IntentQueue;
+  let gameState: GameState;
+  let unitFactory: UnitFactory;
+
+  beforeEach(() => {
+    ({ world, events, intents, gameState, unitFactory } = createTestWorld());
+  });
+
+  it('should buy a unit from a city without a renderer', () => {
+    const production = new CivilizationProductionSystem(events, civilizationRegistry, gameState);
+    const research = new ResearchSystem(intents, events, gameData, gameState);
+    world.addSystem(production);
+    world.addSystem(research);
+    world.addSystem(new ProduceUnitSystem(intents, events, gameData, gameState, production, civilizationRegistry, research));
+
+    const city = addCity(world, { tx: 2, ty: 2 }, 0, 'romans');
+    production.setProduction('romans', 40);
+
+    intents.push({ type: 'ProduceUnit', payload: { cityEntity: city, unitType: 'scout' } });
+    world.update(16);
+
+    const [scout] = world.view(Unit);
+    expect(world.getComponent(scout, TransformTile)).toMatchObject({ tx: 2, ty: 2 });
+    expect(world.getComponent(scout, NewlyPurchased)).toBeDefined();
+    expect(production.getProduction('romans')).toBe(40 - unitsData.scout.productionCost);
+  });
+
+  it('should announce combat damage and deaths on the event bus', () => {
+    world.addSystem(new CombatSystem(intents, events, gameState));
+    const attacker = unitFactory.createUnit('scout', { tx: 1, ty: 1 }, 0, 'romans')!;
+    const target = unitFactory.createUnit('scout', { tx: 2, ty: 1 }, 1, 'greeks')!;
+    world.getComponent(target, Unit)!.health = 1;
+    gameState.selectedEntity = target;
+
+    const damaged: UnitDamagedEvent[] = [];
+    const destroyed: Entity[] = [];
+    events.on('unit-damaged', (event: UnitDamagedEvent) => damaged.push(event));
+    events.on('unit-destroyed', ({ entity }: UnitDestroyedEvent) => {
+      // Still in the world while listeners run
+      expect(world.hasEntity(entity)).toBe(true);
+      destroyed.push(entity);
+    });
+
+    intents.push({ type: 'Attack', payload: { attacker, target } });
+    world.update(16);
+
+    expect(damaged).toHaveLength(1);
+    expect(damaged[0]).toMatchObject({ entity: target, position: { tx: 2, ty: 1 } });
+    expect(damaged[0].damage).toBeGreaterThan(0);
+    expect(destroyed).toEqual([target]);
+    expect(world.hasEntity(target)).toBe(false);
+    expect(gameState.selectedEntity).toBeNull();
+  });
+});
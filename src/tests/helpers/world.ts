@@ -0,0 +1,76 @@
+import { Entity, World } from '@engine/ecs';
+import { EngineEventBus } from '@engine/events/EventBus';
+import { City, CivilizationComponent, Owner, TransformTile } from '@engine/gameplay/components';
+import { GameDataProvider, JsonGameData } from '@engine/gameplay/gameData';
+import { CivilizationRegistry } from '@engine/civilization/Civilization';
+import { MapData } from '@engine/map/MapData';
+import { TerrainRegistry } from '@engine/map/Terrain';
+import { TilePoint } from '@engine/math/iso';
+import { GameState } from '@/state/GameState';
+import { IntentQueue } from '@/state/IntentQueue';
+import { UnitFactory } from '@/utils/unitFactory';
+import unitsData from '../../../public/data/units.json';
+import buildingsData from '../../../public/data/buildings.json';
+import techsData from '../../../public/data/techs.json';
+import civilizationData from '../../../public/data/civilizations.json';
+import terrainData from '../../../public/data/terrains.json';
+
+/**
+ * The game's units, buildings and techs
+ */
+export const gameData = new JsonGameData(unitsData, buildingsData, techsData);
+
+export const civilizationRegistry = new CivilizationRegistry(civilizationData as any);
+
+/**
+ * A world without systems and what systems are built from - add the systems a test needs
+ */
+export interface TestWorld {
+  world: World;
+  events: EngineEventBus;
+  intents: IntentQueue;
+  gameState: GameState;
+  unitFactory: UnitFactory;
+}
+
+export function createTestWorld(data: GameDataProvider = gameData): TestWorld {
+  const world = new World();
+  return {
+    world,
+    events: new EngineEventBus(),
+    intents: new IntentQueue(),
+    gameState: new GameState(),
+    unitFactory: new UnitFactory(world, data, civilizationRegistry),
+  };
+}
+
+/**
+ * Adds a city (population 1, level 1, undamaged unless given otherwise)
+ */
+export function addCity(
+  world: World,
+  position: TilePoint,
+  playerId: number,
+  civId: string,
+  { population = 1, level = 1, damage = 0, capitalOf = null }: Partial<City> = {},
+): Entity {
+  const city = world.createEntity();
+  world.addComponent(city, new TransformTile(position.tx, position.ty));
+  world.addComponent(city, new City(population, level, damage, capitalOf));
+  world.addComponent(city, new Owner(playerId));
+  world.addComponent(city, new CivilizationComponent(civId));
+  return city;
+}
+
+/**
+ * A map of plains only
+ */
+export function createPlainsMap(width: number, height: number): MapData {
+  return new MapData(
+    width,
+    height,
+    { tx: 0, ty: 0 },
+    new Array(width * height).fill('plains'),
+    new TerrainRegistry(terrainData as any),
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { isMalformedIntentError, validateIntent, type IntentSchemaContext } from '@shared/intentSchema';
+import unitsData from '../../public/data/units.json';
+import buildingsData from '../../public/data/buildings.json';
+import techsData from '../../public/data/techs.json';
+
+describe('Intent Schema', () => {
+  const context: IntentSchemaContext = {
+    mapWidth: 10,
+    mapHeight: 8,
+    unitTypes: new Set(Object.keys(unitsData)),
+    buildingTypes: new Set(Object.keys(buildingsData)),
+    techTypes: new Set(Object.keys(techsData)),
+  };
+
+  it('should accept well-formed intents of every kind', () => {
+    expect(validateIntent({ type: 'SelectEntity', payload: { entity: null } }, context)).toEqual({ valid: true });
+    expect(validateIntent({ type: 'MoveTo', payload: { entity: 0, target: { tx: 9, ty: 7 } } }, context).valid).toBe(true);
+    expect(validateIntent({ type: 'EndTurn' }, context).valid).toBe(true);
+    expect(validateIntent({ type: 'Attack', payload: { attacker: 1, target: 2 } }, context).valid).toBe(true);
+    expect(validateIntent({ type: 'CaptureCity', payload: { unit: 1, city: 2, raze: false } }, context).valid).toBe(true);
+    expect(
+      validateIntent({ type: 'BuildBuilding', payload: { cityEntity: 3, buildingType: 'granary', tx: 1, ty: 2 } }, context)
+        .valid,
+    ).toBe(true);
+  });
+
+  it('should reject unknown intent types and missing fields', () => {
+    expect(validateIntent({ type: 'Teleport' }, context)).toMatchObject({ valid: false, code: 'UNKNOWN_INTENT_TYPE' });
+    expect(validateIntent({}, context)).toMatchObject({ valid: false, code: 'INVALID_PAYLOAD' });
+    expect(validateIntent({ type: 'Attack', payload: { attacker: 1 } }, context)).toMatchObject({
+      valid: false,
+      code: 'INVALID_PAYLOAD',
+    });
+    expect(validateIntent({ type: 'FoundCity', payload: { entity: 1.5 } }, context)).toMatchObject({
+      valid: false,
+      code: 'INVALID_PAYLOAD',
+    });
+    expect(validateIntent({ type: 'CaptureCity', payload: { unit: 1, city: 2, raze: 'yes' } }, context)).toMatchObject({
+      valid: false,
+      code: 'INVALID_PAYLOAD',
+    });
+  });
+
+  it('should reject non-integer and out-of-map coordinates', () => {
+    const moveTo = (tx: number, ty: number) => ({ type: 'MoveTo', payload: { entity: 1, target: { tx, ty } } });
+
+    expect(validateIntent(moveTo(1.5, 2), context)).toMatchObject({ valid: false, code: 'INVALID_COORDINATES' });
+    expect(validateIntent(moveTo(10, 2), context)).toMatchObject({ valid: false, code: 'OUT_OF_MAP' });
+    expect(validateIntent(moveTo(2, -1), context)).toMatchObject({ valid: false, code: 'OUT_OF_MAP' });
+    // Without map dimensions only negative coordinates are out of the map
+    expect(validateIntent(moveTo(100, 2)).valid).toBe(true);
+  });
+
+  it('should reject unknown unit and building types and techs', () => {
+    expect(
+      validateIntent({ type: 'ProduceUnit', payload: { cityEntity: 1, unitType: 'dragon' } }, context),
+    ).toMatchObject({ valid: false, code: 'UNKNOWN_UNIT_TYPE' });
+    expect(
+      validateIntent({ type: 'ProduceBuilding', payload: { cityEntity: 1, buildingType: 'castle' } }, context),
+    ).toMatchObject({ valid: false, code: 'UNKNOWN_BUILDING_TYPE' });
+    expect(validateIntent({ type: 'SetResearch', payload: { techId: 'writing' } }, context).valid).toBe(true);
+    expect(validateIntent({ type: 'SetResearch', payload: { techId: 'alchemy' } }, context)).toMatchObject({
+      valid: false,
+      code: 'UNKNOWN_TECH',
+    });
+  });
+
+  it('should tell malformed requests from rule violations', () => {
+    expect(isMalformedIntentError('OUT_OF_MAP')).toBe(true);
+    expect(isMalformedIntentError('RULE_VIOLATION')).toBe(false);
+    expect(isMalformedIntentError(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { generateMap, generateMapLayout } from '@engine/map/MapGenerator';
+import { MapData } from '@engine/map/MapData';
+import { TerrainRegistry } from '@engine/map/Terrain';
+import { findPath } from '@engine/pathfinding/astar';
+import terrainData from '../../public/data/terrains.json';
+
+describe('Map Generator', () => {
+  const terrainRegistry = new TerrainRegistry(terrainData as any);
+
+  it('should produce the same map for the same seed and options', () => {
+    const options = { width: 40, height: 30, continents: 3, startCount: 4 };
+    const a = generateMapLayout(42, options);
+    const b = generateMapLayout(42, options);
+
+    expect(a).toEqual(b);
+  });
+
+  it('should produce different maps for different seeds', () => {
+    const a = generateMapLayout(1, { width: 30, height: 30 });
+    const b = generateMapLayout(2, { width: 30, height: 30 });
+
+    expect(a.tiles).not.toEqual(b.tiles);
+  });
+
+  it('should only use terrain ids from terrains.json', () => {
+    const layout = generateMapLayout(7, { width: 30, height: 20 });
+
+    expect(layout.tiles).toHaveLength(30 * 20);
+    for (const id of new Set(layout.tiles)) {
+      expect(terrainRegistry.get(id)).toBeDefined();
+    }
+  });
+
+  it('should respect the land/water ratio', () => {
+    const layout = generateMapLayout(99, { width: 40, height: 40, landRatio: 0.4 });
+    const water = layout.tiles.filter(t => t === 'water').length;
+
+    expect(water / layout.tiles.length).toBeCloseTo(0.6, 1);
+  });
+
+  it('should place start tiles that can all reach each other', () => {
+    for (const seed of [3, 17, 256, 9001]) {
+      const layout = generateMapLayout(seed, { width: 40, height: 30, continents: 3, startCount: 4 });
+      const mapData = new MapData(layout.width, layout.height, layout.start, layout.tiles, terrainRegistry);
+
+      expect(layout.starts).toHaveLength(4);
+      for (const start of layout.starts) {
+        expect(mapData.mustGetTerrainAt(start.tx, start.ty).blocked).toBe(false);
+      }
+      for (let i = 1; i < layout.starts.length; i++) {
+        expect(findPath(layout.starts[0], layout.starts[i], mapData)).not.toBeNull();
+      }
+    }
+  });
+
+  it('should keep earlier start tiles when more are requested', () => {
+    const two = generateMapLayout(5, { width: 30, height: 30, startCount: 2 });
+    const four = generateMapLayout(5, { width: 30, height: 30, startCount: 4 });
+
+    expect(four.starts.slice(0, 2)).toEqual(two.starts);
+  });
+
+  it('should build MapData with the generated start tile', () => {
+    const mapData = generateMap(11, terrainRegistry, { width: 20, height: 12 });
+    const layout = generateMapLayout(11, { width: 20, height: 12 });
+
+    expect(mapData.getDimensions()).toEqual({ width: 20, height: 12 });
+    expect(mapData.startPos).toEqual(layout.start);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import type { ActionResponse, GameSession, Intent } from '@shared/types';
+import { World } from '@engine/ecs';
+import { Owner, TransformTile, Unit } from '@engine/gameplay/components';
+import { IGameClient } from '@/network/GameClient';
+import { NetworkIntentQueue, RejectedAction } from '@/network/NetworkIntentQueue';
+import { isIntent } from '@/state/IntentQueue';
+
+describe('NetworkIntentQueue', () => {
+  let world: World;
+  let queue: NetworkIntentQueue;
+  let client: IGameClient;
+  let submitAction: Mock<[Intent], Promise<ActionResponse>>;
+  let settler: number;
+
+  beforeEach(() => {
+    world = new World();
+    settler = world.createEntityWithId(5);
+    world.addComponent(settler, new TransformTile(2, 3));
+    world.addComponent(settler, new Unit(2, 2, 2, 100, 100, 0, 1, false));
+    world.addComponent(settler, new Owner(1));
+
+    submitAction = vi.fn<[Intent], Promise<ActionResponse>>();
+    const session = { status: 'active', isSequentialMode: false, playersEndedTurn: [] } as unknown as GameSession;
+    client = {
+      initialize: vi.fn(),
+      submitAction,
+      getStateUpdate: vi.fn(),
+      applyStateUpdate: vi.fn(),
+      getConnection: () => ({ sessionId: 's1', playerId: 1 }),
+      getSession: () => session,
+      isMyTurn: () => true,
+      fetchSession: vi.fn(async () => {}),
+      disconnect: vi.fn(),
+    };
+
+    queue = new NetworkIntentQueue();
+    queue.setGameClient(client);
+    queue.setWorld(world);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Send a move and apply it locally, as the movement systems would
+   */
+  const moveSettler = () => {
+    const intent: Intent = { type: 'MoveTo', payload: { entity: settler, target: { tx: 4, ty: 3 } } };
+    queue.push(intent);
+    queue.pop(isIntent('MoveTo'));
+    world.getComponent(settler, TransformTile)!.tx = 4;
+    return intent;
+  };
+
+  it('should undo an action whose submission failed and tell the listeners', async () => {
+    submitAction.mockRejectedValueOnce(new Error('Connection reset'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const rejections: RejectedAction[] = [];
+    queue.onActionRejected(rejected => rejections.push(rejected));
+
+    const intent = moveSettler();
+    await vi.waitFor(() => expect(rejections).toHaveLength(1));
+
+    expect(rejections[0]).toMatchObject({ intent, error: 'Connection reset', rollback: { restored: [settler] } });
+    expect(world.getComponent(settler, TransformTile)).toEqual(new TransformTile(2, 3));
+    expect(queue.hasPendingAction(settler)).toBe(false);
+  });
+
+  it('should undo an action the server rejected', async () => {
+    submitAction.mockResolvedValueOnce({ success: false, error: 'Not your unit', code: 'RULE_VIOLATION' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rejected = vi.fn();
+    queue.onActionRejected(rejected);
+
+    moveSettler();
+    await vi.waitFor(() => expect(rejected).toHaveBeenCalled());
+
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ error: 'Not your unit', code: 'RULE_VIOLATION' }));
+    expect(world.getComponent(settler, TransformTile)).toEqual(new TransformTile(2, 3));
+  });
+
+  it('should keep an accepted action and refresh the session after ending the turn', async () => {
+    submitAction.mockResolvedValue({ success: true });
+    const confirmed = vi.fn();
+    queue.onActionConfirmed(confirmed);
+
+    const move = moveSettler();
+    expect(queue.hasPendingAction(settler)).toBe(true);
+    queue.push({ type: 'EndTurn' });
+    await vi.waitFor(() => expect(confirmed).toHaveBeenCalledTimes(2));
+
+    expect(confirmed).toHaveBeenNthCalledWith(1, move);
+    expect(queue.hasPendingAction(settler)).toBe(false);
+    expect(world.getComponent(settler, TransformTile)).toEqual(new TransformTile(4, 3));
+    await vi.waitFor(() => expect(client.fetchSession).toHaveBeenCalledTimes(1));
+  });
+});
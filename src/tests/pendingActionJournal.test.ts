@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '@engine/ecs';
+import { City, Owner, TransformTile, Unit } from '@engine/gameplay/components';
+import { PendingActionJournal } from '@/network/PendingActionJournal';
+
+describe('PendingActionJournal', () => {
+  let world: World;
+  let journal: PendingActionJournal;
+  let settler: number;
+
+  beforeEach(() => {
+    world = new World();
+    journal = new PendingActionJournal(world);
+    settler = world.createEntityWithId(5);
+    world.addComponent(settler, new TransformTile(2, 3));
+    world.addComponent(settler, new Unit(2, 2, 2, 100, 100, 0, 1, false));
+    world.addComponent(settler, new Owner(1));
+  });
+
+  it('should restore the components an action changed', () => {
+    const intent = { type: 'MoveTo' as const, payload: { entity: settler, target: { tx: 4, ty: 3 } } };
+    const pending = journal.record(intent);
+
+    // Applied locally ahead of the server
+    journal.markApplying(intent);
+    world.getComponent(settler, TransformTile)!.tx = 4;
+    world.getComponent(settler, Unit)!.mp = 0;
+
+    expect(journal.rollback(pending)).toEqual({ restored: [settler], removed: [], replayed: [] });
+    expect(world.getComponent(settler, TransformTile)).toEqual(new TransformTile(2, 3));
+    expect(world.getComponent(settler, Unit)!.mp).toBe(2);
+    expect(journal.getPending()).toHaveLength(0);
+  });
+
+  it('should bring back destroyed entities and remove the ones the action created', () => {
+    const intent = { type: 'FoundCity' as const, payload: { entity: settler } };
+    const pending = journal.record(intent);
+
+    journal.markApplying(intent);
+    const city = world.createEntity();
+    world.addComponent(city, new City(1, 1));
+    world.destroyEntity(settler);
+
+    expect(journal.rollback(pending)).toEqual({ restored: [settler], removed: [city], replayed: [] });
+    expect(world.hasEntity(city)).toBe(false);
+    expect(world.getComponent(settler, Unit)).toBeInstanceOf(Unit);
+    expect(world.getComponent(settler, Owner)!.playerId).toBe(1);
+  });
+
+  it('should only attribute entities created before the next intent is applied', () => {
+    const found = { type: 'FoundCity' as const, payload: { entity: settler } };
+    const pending = journal.record(found);
+
+    journal.markApplying(found);
+    const city = world.createEntity();
+    journal.markApplying({ type: 'EndTurn' });
+    const unrelated = world.createEntity();
+
+    expect(journal.rollback(pending).removed).toEqual([city]);
+    expect(world.hasEntity(unrelated)).toBe(true);
+  });
+
+  it('should undo and replay later actions on the same entity when only an earlier one is rejected', () => {
+    const scout = world.createEntityWithId(6);
+    world.addComponent(scout, new TransformTile(0, 0));
+    const move = { type: 'MoveTo' as const, payload: { entity: settler, target: { tx: 4, ty: 3 } } };
+    const found = { type: 'FoundCity' as const, payload: { entity: settler } };
+    const scoutMove = { type: 'MoveTo' as const, payload: { entity: scout, target: { tx: 1, ty: 0 } } };
+    const rejected = journal.record(move);
+    journal.markApplying(move);
+    world.getComponent(settler, TransformTile)!.tx = 4;
+    journal.record(found);
+    journal.markApplying(found);
+    const city = world.createEntity();
+    world.destroyEntity(settler);
+    journal.record(scoutMove);
+    journal.markApplying(scoutMove);
+    world.getComponent(scout, TransformTile)!.tx = 1;
+
+    expect(journal.rollback(rejected)).toEqual({ restored: [settler], removed: [city], replayed: [found] });
+    expect(world.getComponent(settler, TransformTile)).toEqual(new TransformTile(2, 3));
+    expect(world.getComponent(scout, TransformTile)).toEqual(new TransformTile(1, 0));
+    expect(journal.getPending().map(a => a.intent)).toEqual([found, scoutMove]);
+
+    // Founding the city again from where the settler is now, then having it rejected too
+    journal.markApplying(found);
+    const refounded = world.createEntity();
+    world.destroyEntity(settler);
+    expect(journal.rollback(journal.getPending()[0])).toEqual({ restored: [settler], removed: [refounded], replayed: [] });
+    expect(world.getComponent(settler, TransformTile)).toEqual(new TransformTile(2, 3));
+  });
+
+  it('should drop confirmed actions', () => {
+    const intent = { type: 'MoveTo' as const, payload: { entity: settler, target: { tx: 4, ty: 3 } } };
+    const first = journal.record(intent);
+    journal.record({ type: 'FoundCity', payload: { entity: settler } });
+
+    journal.confirm(first);
+
+    expect(journal.getPending().map(a => a.intent.type)).toEqual(['FoundCity']);
+  });
+
+  it('should tell which entities unanswered actions refer to', () => {
+    const intent = { type: 'MoveTo' as const, payload: { entity: settler, target: { tx: 4, ty: 3 } } };
+    const pending = journal.record(intent);
+
+    expect(journal.isPending(settler)).toBe(true);
+    expect(journal.isPending(settler + 1)).toBe(false);
+
+    journal.confirm(pending);
+
+    expect(journal.isPending(settler)).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '@engine/ecs';
+import { EngineEventBus, TechResearchedEvent } from '@engine/events/EventBus';
+import { Resources, Unit } from '@engine/gameplay/components';
+import { JsonGameData } from '@engine/gameplay/gameData';
+import {
+  advanceResearch,
+  canResearch,
+  createResearchState,
+  getAvailableTechs,
+  getMissingTechReason,
+  setResearch,
+} from '@engine/gameplay/research';
+import { CivilizationProductionSystem, ProduceUnitSystem, ResearchSystem } from '@engine/gameplay/systems';
+import { GameState } from '@/state/GameState';
+import { IntentQueue } from '@/state/IntentQueue';
+import { addCity, civilizationRegistry, createTestWorld, gameData } from './helpers/world';
+import unitsData from '../../public/data/units.json';
+import buildingsData from '../../public/data/buildings.json';
+import techsData from '../../public/data/techs.json';
+
+describe('Research rules', () => {
+  it('should only offer techs whose prerequisites are researched', () => {
+    const research = createResearchState();
+
+    expect(getAvailableTechs(gameData, research)).toEqual(['agriculture', 'mining', 'carpentry']);
+    expect(canResearch(gameData, research, 'bronzeWorking')).toEqual({
+      canResearch: false,
+      reason: 'Bronze Working requires Mining',
+    });
+
+    research.researched.push('mining');
+    expect(getAvailableTechs(gameData, research)).toEqual(['agriculture', 'carpentry', 'bronzeWorking']);
+    expect(canResearch(gameData, research, 'mining').reason).toBe('Mining is already researched');
+  });
+
+  it('should complete the current tech and keep the science beyond its cost', () => {
+    const research = createResearchState();
+    setResearch(gameData, research, 'mining');
+
+    expect(advanceResearch(gameData, research, 15)).toBeNull();
+    expect(advanceResearch(gameData, research, 8)).toBe('mining');
+    expect(research).toEqual({ current: null, progress: 3, researched: ['mining'] });
+  });
+
+  it('should bank science while nothing is being researched', () => {
+    const research = createResearchState();
+
+    expect(advanceResearch(gameData, research, 25)).toBeNull();
+    setResearch(gameData, research, 'agriculture');
+    expect(advanceResearch(gameData, research, 0)).toBe('agriculture');
+    expect(() => setResearch(gameData, research, 'engineering')).toThrow('Engineering requires Carpentry, Bronze Working');
+  });
+
+  it('should explain what a locked building needs', () => {
+    const research = createResearchState();
+
+    expect(getMissingTechReason(gameData, research, gameData.getBuildingData('library')?.requiredTech)).toBe(
+      'Requires Writing',
+    );
+    expect(getMissingTechReason(gameData, research, undefined)).toBeNull();
+  });
+});
+
+describe('ResearchSystem', () => {
+  // A scout that needs Bronze Working, to check units are locked too
+  const lockedScoutData = new JsonGameData(
+    { ...unitsData, scout: { ...unitsData.scout, requiredTech: 'bronzeWorking' } },
+    buildingsData,
+    techsData,
+  );
+
+  let world: World;
+  let events: EngineEventBus;
+  let intents: IntentQueue;
+  let gameState: GameState;
+  let research: ResearchSystem;
+  let production: CivilizationProductionSystem;
+  let city: number;
+
+  beforeEach(() => {
+    ({ world, events, intents, gameState } = createTestWorld(lockedScoutData));
+    research = new ResearchSystem(intents, events, lockedScoutData, gameState);
+    production = new CivilizationProductionSystem(events, civilizationRegistry, gameState);
+    world.addSystem(production);
+    world.addSystem(research);
+    world.addSystem(new ProduceUnitSystem(intents, events, lockedScoutData, gameState, production, civilizationRegistry, research));
+
+    city = addCity(world, { tx: 2, ty: 2 }, 0, 'romans');
+    world.addComponent(city, new Resources(0, 0, 0, 12));
+  });
+
+  it('should put city science into the tech picked by the current player', () => {
+    const researched: TechResearchedEvent[] = [];
+    events.on('tech-researched', (event: TechResearchedEvent) => researched.push(event));
+
+    intents.push({ type: 'SetResearch', payload: { techId: 'mining' } });
+    world.update(16);
+    research.runTurnPhase();
+
+    expect(research.getResearch('romans')).toEqual({ current: 'mining', progress: 12, researched: [] });
+    expect(world.getComponent(city, Resources)!.science).toBe(0);
+
+    world.getComponent(city, Resources)!.science = 8;
+    research.runTurnPhase();
+    expect(researched).toEqual([{ civId: 'romans', techId: 'mining' }]);
+    expect(research.hasTech('romans', 'mining')).toBe(true);
+  });
+
+  it('should not produce units before their tech is researched', () => {
+    production.setProduction('romans', 100);
+
+    intents.push({ type: 'ProduceUnit', payload: { cityEntity: city, unitType: 'scout' } });
+    world.update(16);
+    expect(world.view(Unit)).toHaveLength(0);
+
+    research.setResearch('romans', { current: null, progress: 0, researched: ['mining', 'bronzeWorking'] });
+    intents.push({ type: 'ProduceUnit', payload: { cityEntity: city, unitType: 'scout' } });
+    world.update(16);
+    expect(world.view(Unit)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '@engine/ecs';
+import { City, Owner, ProductionQueue, Tile, TransformTile } from '@engine/gameplay/components';
+import { FogOfWar } from '@engine/map/FogOfWar';
+import { MapData } from '@engine/map/MapData';
+import { TerrainRegistry } from '@engine/map/Terrain';
+import { GameState } from '@/state/GameState';
+import { SAVE_FORMAT_VERSION, SaveGameData, createSaveGame, migrateSave, restoreSaveGame } from '@/state/SaveGame';
+import terrainData from '../../public/data/terrains.json';
+
+describe('Save games', () => {
+  const gameMap = { width: 4, height: 3, start: { tx: 1, ty: 1 }, tiles: new Array(12).fill('plains') };
+  const makeFog = () =>
+    new FogOfWar(new MapData(4, 3, gameMap.start, gameMap.tiles, new TerrainRegistry(terrainData as any)));
+
+  let world: World;
+  let gameState: GameState;
+  let fogOfWar: FogOfWar;
+  let city: number;
+
+  beforeEach(() => {
+    world = new World();
+    gameState = new GameState();
+    fogOfWar = makeFog();
+
+    const tile = world.createEntity();
+    world.addComponent(tile, new TransformTile(0, 0));
+    world.addComponent(tile, new Tile('plains'));
+
+    city = world.createEntity();
+    world.addComponent(city, new TransformTile(1, 1));
+    world.addComponent(city, new City(3, 2));
+    world.addComponent(city, new ProductionQueue([{ type: 'unit', name: 'scout', cost: 10 }], 4));
+    world.addComponent(city, new Owner(0));
+
+    gameState.turn = 7;
+    fogOfWar.recompute(0, [{ pos: { tx: 0, ty: 0 }, sight: 1 }]);
+  });
+
+  it('should restore entities with their IDs and working components', () => {
+    const save = createSaveGame({ world, gameState, fogOfWar, map: gameMap, production: { romans: 25 }, research: {} });
+    const loaded = { world: new World(), gameState: new GameState(), fogOfWar: makeFog() };
+
+    restoreSaveGame(JSON.parse(JSON.stringify(save)), loaded);
+
+    const restoredCity = loaded.world.getComponent(city, City)!;
+    expect(restoredCity).toBeInstanceOf(City);
+    expect(restoredCity.getSightRange()).toBe(3);
+    expect(loaded.world.getComponent(city, ProductionQueue)!.getCurrent()).toEqual({ type: 'unit', name: 'scout', cost: 10 });
+    expect(loaded.gameState.turn).toBe(7);
+    expect(save.production).toEqual({ romans: 25 });
+  });
+
+  it('should leave tiles out and not reuse saved IDs for new entities', () => {
+    const save = createSaveGame({ world, gameState, fogOfWar, map: gameMap, production: {}, research: {} });
+    const loaded = new World();
+
+    restoreSaveGame(save, { world: loaded, gameState: new GameState(), fogOfWar: makeFog() });
+
+    expect(save.entities.map(e => e.id)).toEqual([city]);
+    expect(loaded.createEntity()).toBe(city + 1);
+  });
+
+  it('should restore the tiles each player revealed', () => {
+    const save = createSaveGame({ world, gameState, fogOfWar, map: gameMap, production: {}, research: {} });
+    const loadedFog = makeFog();
+
+    restoreSaveGame(save, { world: new World(), gameState: new GameState(), fogOfWar: loadedFog });
+
+    expect(loadedFog.getRevealed(0)).toEqual(fogOfWar.getRevealed(0));
+    expect(loadedFog.isRevealed(3, 2, 0)).toBe(false);
+  });
+
+  it('should reject saves from newer versions and data that is not a save', () => {
+    const save = createSaveGame({ world, gameState, fogOfWar, map: gameMap, production: {}, research: {} });
+
+    expect(migrateSave(save)).toEqual(save);
+    expect(() => migrateSave({ ...save, formatVersion: SAVE_FORMAT_VERSION + 1 })).toThrow('newer');
+    expect(() => migrateSave({ entities: [] })).toThrow('Not a save game');
+    expect(() => migrateSave({ formatVersion: SAVE_FORMAT_VERSION } as Partial<SaveGameData>)).toThrow('incomplete');
+  });
+
+  it('should reject unknown component types', () => {
+    const save = createSaveGame({ world, gameState, fogOfWar, map: gameMap, production: {}, research: {} });
+    save.entities[0].components.Spaceship = {};
+
+    expect(() => restoreSaveGame(save, { world: new World(), gameState: new GameState(), fogOfWar: makeFog() }))
+      .toThrow('Unknown component type "Spaceship"');
+  });
+});
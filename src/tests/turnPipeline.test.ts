@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { System, TurnPhase, TurnPhaseSlot, TurnPipeline, World } from '@engine/ecs';
+
+describe('TurnPipeline', () => {
+  const step = (log: string[], phase: TurnPhase, order: number, id = `${phase}-${order}`) => ({
+    id,
+    phase,
+    order,
+    run: (turn: number) => log.push(`${id}@${turn}`),
+  });
+
+  it('should run phases in order, and steps by their declared order within a phase', () => {
+    const log: string[] = [];
+    const pipeline = new TurnPipeline();
+    // Registered out of order on purpose
+    pipeline.register(step(log, 'endOfTurn', 10));
+    pipeline.register(step(log, 'upkeep', 10));
+    pipeline.register(step(log, 'income', 30));
+    pipeline.register(step(log, 'growth', 10));
+    pipeline.register(step(log, 'production', 10));
+    pipeline.register(step(log, 'income', 10));
+
+    pipeline.run(2);
+
+    expect(log).toEqual([
+      'income-10@2',
+      'income-30@2',
+      'production-10@2',
+      'growth-10@2',
+      'upkeep-10@2',
+      'endOfTurn-10@2',
+    ]);
+  });
+
+  it('should run each transition exactly once', () => {
+    const log: string[] = [];
+    const pipeline = new TurnPipeline();
+    pipeline.register(step(log, 'income', 10));
+
+    expect(pipeline.run(1)).toBe(true);
+    expect(pipeline.run(1)).toBe(false);
+    expect(pipeline.run(2)).toBe(true);
+    expect(pipeline.run(1)).toBe(false);
+
+    expect(log).toEqual(['income-10@1', 'income-10@2']);
+  });
+
+  it('should reject two steps with the same order in a phase', () => {
+    const pipeline = new TurnPipeline();
+    pipeline.register(step([], 'income', 10, 'tile-yields'));
+
+    expect(() => pipeline.register(step([], 'income', 10, 'building-yields'))).toThrow(
+      'building-yields and tile-yields both run at order 10 of the income phase',
+    );
+    expect(() => pipeline.register(step([], 'production', 10))).not.toThrow();
+  });
+
+  it('should reject a step registered twice in a phase', () => {
+    const pipeline = new TurnPipeline();
+    pipeline.register(step([], 'income', 10, 'tile-yields'));
+
+    expect(() => pipeline.register(step([], 'income', 20, 'tile-yields'))).toThrow(
+      'tile-yields is already registered in the income phase',
+    );
+  });
+
+  it('should register the phases systems declare when they are added to a world', () => {
+    const log: string[] = [];
+    class IncomeSystem extends System {
+      public readonly turnPhases: readonly TurnPhaseSlot[] = [{ id: 'income', phase: 'income', order: 10 }];
+      runTurnPhase(phase: TurnPhase, turn: number): void {
+        log.push(`income:${phase}@${turn}`);
+      }
+    }
+    class CleanupSystem extends System {
+      public readonly turnPhases: readonly TurnPhaseSlot[] = [
+        { id: 'cleanup', phase: 'upkeep', order: 10 },
+        { id: 'cleanup', phase: 'endOfTurn', order: 10 },
+      ];
+      runTurnPhase(phase: TurnPhase, turn: number): void {
+        log.push(`cleanup:${phase}@${turn}`);
+      }
+    }
+
+    const world = new World();
+    // Added in the opposite order of their phases
+    world.addSystem(new CleanupSystem());
+    world.addSystem(new IncomeSystem());
+    world.update(16);
+    world.advanceTurn(3);
+    world.advanceTurn(3);
+
+    expect(log).toEqual(['income:income@3', 'cleanup:upkeep@3', 'cleanup:endOfTurn@3']);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '@engine/ecs';
+import { EngineEventBus } from '@engine/events/EventBus';
+import { Owner } from '@engine/gameplay/components';
+import { CaptureCitySystem, ResearchSystem, VictorySystem } from '@engine/gameplay/systems';
+import {
+  GameResult,
+  VictoryWorld,
+  checkVictory,
+  createVictorySettings,
+  getStandings,
+  isVictorySettings,
+} from '@engine/gameplay/victory';
+import { GameState } from '@/state/GameState';
+import { IntentQueue } from '@/state/IntentQueue';
+import { addCity, createTestWorld, gameData } from './helpers/world';
+
+describe('Victory rules', () => {
+  let world: VictoryWorld;
+
+  beforeEach(() => {
+    world = {
+      players: [
+        { playerId: 0, civId: 'romans' },
+        { playerId: 1, civId: 'greeks' },
+        { playerId: 2, civId: 'egyptians' },
+      ],
+      cities: [
+        { ownerId: 0, population: 2, capitalOf: 0 },
+        { ownerId: 1, population: 1, capitalOf: 1 },
+        { ownerId: 2, population: 1, capitalOf: 2 },
+      ],
+      units: [{ ownerId: 0 }, { ownerId: 1 }],
+      buildings: [{ ownerId: 0 }],
+      techs: { 0: 1 },
+    };
+  });
+
+  it('should go on while more than one player holds their capital', () => {
+    expect(checkVictory(createVictorySettings(), 5, world)).toBeNull();
+  });
+
+  it('should give domination to the last player holding their own capital', () => {
+    world.cities[1].ownerId = 0;
+    world.cities[2].ownerId = 0;
+
+    const result = checkVictory(createVictorySettings(), 5, world);
+
+    expect(result).toMatchObject({ winnerId: 0, condition: 'domination', turn: 5 });
+    expect(result!.standings.map(standing => [standing.playerId, standing.eliminated])).toEqual([
+      [0, false],
+      [1, false],
+      [2, true],
+    ]);
+  });
+
+  it('should not give domination while a remaining player has never founded a capital', () => {
+    world.cities = [world.cities[0]];
+
+    expect(checkVictory(createVictorySettings({ conditions: ['domination'] }), 5, world)).toBeNull();
+    expect(checkVictory(createVictorySettings(), 5, world)).toBeNull();
+  });
+
+  it('should give elimination to the only player left', () => {
+    world.cities = [world.cities[0], { ...world.cities[1], ownerId: 0 }];
+    world.units = [{ ownerId: 0 }];
+    const settings = createVictorySettings({ conditions: ['elimination'] });
+
+    expect(checkVictory(settings, 5, world)).toMatchObject({ winnerId: 0, condition: 'elimination' });
+  });
+
+  it('should give score to the best player once the turn limit has been played', () => {
+    const settings = createVictorySettings({ conditions: ['score'], turnLimit: 10 });
+
+    expect(checkVictory(settings, 10, world)).toBeNull();
+    expect(checkVictory(settings, 11, world)).toMatchObject({ winnerId: 0, condition: 'score', turn: 11 });
+    expect(getStandings(world).map(standing => standing.score)).toEqual([23, 13, 13]);
+  });
+
+  it('should end a tied score game without a winner', () => {
+    world.cities[0].population = 1;
+    world.buildings = [];
+    world.techs = {};
+
+    expect(checkVictory(createVictorySettings({ conditions: ['score'], turnLimit: 10 }), 11, world)).toMatchObject({
+      winnerId: null,
+      condition: 'score',
+    });
+  });
+
+  it('should need an opponent to end the game', () => {
+    world.players = [world.players[0]];
+
+    expect(checkVictory(createVictorySettings({ turnLimit: 1 }), 5, world)).toBeNull();
+  });
+
+  it('should only accept known conditions and a whole turn limit', () => {
+    expect(isVictorySettings({ conditions: ['score'], turnLimit: 100 })).toBe(true);
+    expect(isVictorySettings({ conditions: [], turnLimit: 100 })).toBe(false);
+    expect(isVictorySettings({ conditions: ['score', 'score'], turnLimit: 100 })).toBe(false);
+    expect(isVictorySettings({ conditions: ['diplomacy'], turnLimit: 100 })).toBe(false);
+    expect(isVictorySettings({ conditions: ['score'], turnLimit: 1.5 })).toBe(false);
+  });
+});
+
+describe('VictorySystem', () => {
+  let world: World;
+  let events: EngineEventBus;
+  let intents: IntentQueue;
+  let gameState: GameState;
+  let victory: VictorySystem;
+  let unit: number;
+  let capital: number;
+
+  beforeEach(() => {
+    const setup = createTestWorld();
+    ({ world, events, intents, gameState } = setup);
+    const { unitFactory } = setup;
+    gameState.players = [
+      { playerId: 0, civId: 'romans' },
+      { playerId: 1, civId: 'greeks' },
+    ];
+    const research = new ResearchSystem(intents, events, gameData, gameState);
+    victory = new VictorySystem(events, gameState, research);
+    world.addSystem(research);
+    world.addSystem(new CaptureCitySystem(intents, events, gameState));
+    world.addSystem(victory);
+    unit = unitFactory.createUnit('scout', { tx: 2, ty: 3 }, 0, 'romans')!;
+    unitFactory.createUnit('scout', { tx: 8, ty: 8 }, 1, 'greeks');
+
+    addCity(world, { tx: 0, ty: 0 }, 0, 'romans', { capitalOf: 0 });
+    capital = addCity(world, { tx: 3, ty: 3 }, 1, 'greeks', { damage: 1000, capitalOf: 1 });
+  });
+
+  it('should end the game when the last enemy capital is captured', () => {
+    const results: GameResult[] = [];
+    events.on('game-over', (result: GameResult) => results.push(result));
+
+    victory.runTurnPhase('endOfTurn', 2);
+    expect(results).toHaveLength(0);
+
+    intents.push({ type: 'CaptureCity', payload: { unit, city: capital, raze: false } });
+    world.update(16);
+    victory.runTurnPhase('endOfTurn', 3);
+
+    expect(results).toHaveLength(1);
+    expect(gameState.result).toMatchObject({ winnerId: 0, condition: 'domination', turn: 3 });
+  });
+
+  it('should not let a capital be razed', () => {
+    intents.push({ type: 'CaptureCity', payload: { unit, city: capital, raze: true } });
+    world.update(16);
+
+    expect(world.getComponent(capital, Owner)!.playerId).toBe(1);
+  });
+
+  it('should leave multiplayer games to the server', () => {
+    gameState.isMultiplayer = true;
+    world.getComponent(capital, Owner)!.playerId = 0;
+
+    victory.runTurnPhase('endOfTurn', 3);
+
+    expect(gameState.result).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import type { GameEvent, GameSession, GameStateUpdate } from '@shared/types';
+import { WebSocketGameClient } from '@/network/WebSocketGameClient';
+
+/**
+ * Stands in for the browser WebSocket - tests open, message and close it by hand
+ */
+class FakeSocket {
+  static readonly OPEN = 1;
+  static instances: FakeSocket[] = [];
+
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  open(): void {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(event: GameEvent): void {
+    this.onmessage?.({ data: JSON.stringify(event) });
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+describe('WebSocketGameClient', () => {
+  const session: GameSession = {
+    id: 's1',
+    name: 'Test',
+    players: [],
+    currentTurn: 1,
+    currentPlayerId: 1,
+    status: 'active',
+    createdAt: 'a',
+    updatedAt: 'a',
+  };
+  const fullUpdate: GameStateUpdate = {
+    sessionId: 's1',
+    turn: 1,
+    currentPlayerId: 1,
+    actions: [],
+    seq: 4,
+    version: 9,
+    fullState: { entities: [] },
+    timestamp: 'b',
+  };
+
+  let fetchMock: Mock<[string], Promise<unknown>>;
+  let client: WebSocketGameClient;
+  let callback: ReturnType<typeof vi.fn>;
+
+  const requestedPaths = () => fetchMock.mock.calls.map(([url]) => url.replace('http://test/api', ''));
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    FakeSocket.instances = [];
+    fetchMock = vi.fn(async (url: string): Promise<unknown> => {
+      const body = url.includes('/state') ? fullUpdate : session;
+      return { ok: true, status: 200, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('WebSocket', FakeSocket);
+    vi.stubGlobal('window', globalThis);
+
+    client = new WebSocketGameClient({ apiBaseUrl: 'http://test/api', pollInterval: 1000, reconnectDelay: 500 });
+    await client.initialize('s1', 1, 'token-1');
+    callback = vi.fn();
+    client.startPolling(callback);
+    fetchMock.mockClear();
+  });
+
+  afterEach(() => {
+    client.stopPolling();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const entitiesChanged = (version: number, fromVersion?: number): GameEvent => ({
+    type: 'entitiesChanged',
+    sessionId: 's1',
+    seq: 1,
+    version,
+    fullState: fromVersion === undefined ? { entities: [] } : undefined,
+    delta: fromVersion === undefined ? undefined : { fromVersion, created: [], updated: [], deleted: [] },
+    timestamp: 'a',
+  });
+
+  it('should connect with the player token and pass on pushed updates', () => {
+    const [socket] = FakeSocket.instances;
+    expect(socket.url).toBe('ws://test/api/games/s1/events?token=token-1');
+    socket.open();
+
+    socket.receive({ type: 'sessionUpdated', sessionId: 's1', session });
+    socket.receive(entitiesChanged(3));
+    socket.receive(entitiesChanged(4, 3));
+
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ version: 4, delta: expect.anything() }));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fetch the full state when a delta skips a version', async () => {
+    const [socket] = FakeSocket.instances;
+    socket.open();
+    socket.receive({ type: 'sessionUpdated', sessionId: 's1', session });
+    socket.receive(entitiesChanged(3));
+    callback.mockClear();
+
+    socket.receive(entitiesChanged(6, 5));
+    await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+
+    expect(requestedPaths()).toEqual(['/games/s1/state?fullState=true']);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(fullUpdate);
+  });
+
+  it('should poll while the socket is down and stop once it reconnects', async () => {
+    const [socket] = FakeSocket.instances;
+    socket.open();
+    socket.receive({ type: 'sessionUpdated', sessionId: 's1', session });
+    socket.receive(entitiesChanged(3));
+
+    socket.close();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(requestedPaths()).toContain('/games/s1/state?afterSeq=1&afterVersion=3');
+    expect(client.isConnected()).toBe(false);
+
+    // The first reconnect came after reconnectDelay
+    expect(FakeSocket.instances).toHaveLength(2);
+    FakeSocket.instances[1].open();
+    fetchMock.mockClear();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(client.isConnected()).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
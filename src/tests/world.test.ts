@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ComponentRegistry,
+  World,
+  LOCAL_ENTITY_ID_START,
+  deserializeWorld,
+  isLocalEntityId,
+  serializeWorld,
+} from '@engine/ecs';
+
+describe('World entity IDs', () => {
+  it('should assign its own IDs from the local range', () => {
+    const world = new World();
+    const first = world.createEntity();
+
+    expect(first).toBe(LOCAL_ENTITY_ID_START);
+    expect(world.createEntity()).toBe(LOCAL_ENTITY_ID_START + 1);
+    expect(isLocalEntityId(first)).toBe(true);
+  });
+
+  it('should create entities with externally assigned IDs alongside local ones', () => {
+    const world = new World();
+    const local = world.createEntity();
+
+    expect(world.createEntityWithId(0)).toBe(0);
+    expect(world.createEntityWithId(42)).toBe(42);
+    expect(isLocalEntityId(42)).toBe(false);
+    expect(world.view()).toEqual([local, 0, 42]);
+  });
+
+  it('should reject external IDs that are taken or in the local range', () => {
+    const world = new World();
+    world.createEntityWithId(7);
+
+    expect(() => world.createEntityWithId(7)).toThrow('already exists');
+    expect(() => world.createEntityWithId(LOCAL_ENTITY_ID_START)).toThrow('Invalid external entity ID');
+    expect(() => world.createEntityWithId(-1)).toThrow('Invalid external entity ID');
+  });
+
+  it('should allow an external ID to be reused once its entity is destroyed', () => {
+    const world = new World();
+    world.createEntityWithId(3);
+    world.destroyEntity(3);
+
+    expect(world.hasEntity(3)).toBe(false);
+    expect(world.createEntityWithId(3)).toBe(3);
+  });
+});
+
+describe('Component registry', () => {
+  class Health {
+    constructor(public hp: number = 10) {}
+    isDead(): boolean {
+      return this.hp <= 0;
+    }
+  }
+
+  it('should store components under their registered id, not their class name', () => {
+    // Minification can give unrelated classes the same name
+    const First = class Tag {};
+    const Second = class Tag {};
+    const registry = new ComponentRegistry();
+    registry.register(First, { id: 'first' });
+    registry.register(Second, { id: 'second' });
+
+    const world = new World(registry);
+    const entity = world.createEntity();
+    world.addComponent(entity, new First());
+
+    expect(world.hasComponent(entity, First)).toBe(true);
+    expect(world.hasComponent(entity, Second)).toBe(false);
+  });
+
+  it('should fail loudly on duplicate and missing registrations', () => {
+    const registry = new ComponentRegistry();
+    registry.register(Health, { id: 'health' });
+
+    expect(() => registry.register(class Other {}, { id: 'health' })).toThrow('already registered');
+    expect(() => registry.register(Health, { id: 'hp' })).toThrow('already registered');
+    expect(() => new World(registry).addComponent(0, new (class Unknown {})())).toThrow("isn't registered");
+  });
+
+  it('should rebuild components with their methods, or with a custom hook', () => {
+    const registry = new ComponentRegistry();
+    registry.register(Health, {
+      id: 'health',
+      serialize: health => ({ hp: Math.max(health.hp, 0) }),
+      deserialize: data => new Health(data.hp as number),
+    });
+
+    const data = registry.serialize(new Health(-5));
+    const restored = registry.deserialize('health', data) as Health;
+
+    expect(data).toEqual({ hp: 0 });
+    expect(restored).toBeInstanceOf(Health);
+    expect(restored.isDead()).toBe(true);
+    expect(() => registry.deserialize('mana', {})).toThrow('Unknown component type "mana"');
+  });
+
+  it("should save and load a world with a component type's custom hooks", () => {
+    // A Set doesn't survive JSON, so the hooks store it as an array
+    class Explored {
+      constructor(public tiles = new Set<number>()) {}
+    }
+    const registry = new ComponentRegistry();
+    registry.register(Health, { id: 'health' });
+    registry.register(Explored, {
+      id: 'explored',
+      serialize: explored => ({ tiles: [...explored.tiles] }),
+      deserialize: data => new Explored(new Set(data.tiles as number[])),
+    });
+    const world = new World(registry);
+    const entity = world.createEntityWithId(3);
+    world.addComponent(entity, new Health(4));
+    world.addComponent(entity, new Explored(new Set([1, 5])));
+
+    const saved = JSON.parse(JSON.stringify(serializeWorld(world, ['health', 'explored'])));
+    const loaded = new World(registry);
+    deserializeWorld(loaded, saved);
+
+    expect(saved).toEqual([{ id: 3, components: { health: { hp: 4 }, explored: { tiles: [1, 5] } } }]);
+    expect(loaded.getComponent(entity, Explored)!.tiles).toEqual(new Set([1, 5]));
+    expect(loaded.getComponent(entity, Health)!.isDead()).toBe(false);
+  });
+});
@@ -2,50 +2,24 @@ import { World, Entity } from '@engine/ecs';
 import * as Components from '@engine/gameplay/components';
 import { MapData } from '@engine/map/MapData';
 import { tileToWorld } from '@engine/math/iso';
+import { BuildingData, GameDataProvider } from '@engine/gameplay/gameData';
 import { CityBorders } from './cityBorders';
 import { logger } from './logger';
-import Phaser from 'phaser';
-
-/**
- * Building data structure from buildings.json
- */
-export interface BuildingData {
-  name: string;
-  productionCost: number;
-  yields?: { food?: number; production?: number; gold?: number };
-  cityBonus?: { populationGrowth?: number };
-  population?: number; // Population this building adds to the city
-  terrainRequirements?: string[]; // Array of terrain types this building can be built on
-  description?: string;
-}
-
-/**
- * Buildings data structure from cache
- */
-export interface BuildingsData {
-  [buildingType: string]: BuildingData;
-}
 
 /**
  * Centralized utility for building operations.
  */
 export class BuildingFactory {
   /**
-   * Gets building data from cache with proper typing.
+   * Gets the data of a building type.
    */
-  static getBuildingData(gameScene: Phaser.Scene, buildingType: string): BuildingData | null {
-    try {
-      const buildingsData = gameScene.cache.json.get('buildings') as BuildingsData;
-      const buildingData = buildingsData[buildingType];
-      if (!buildingData) {
-        logger.warn(`Building type "${buildingType}" not found in buildings.json`);
-        return null;
-      }
-      return buildingData;
-    } catch (error) {
-      logger.error(`Failed to get building data for "${buildingType}":`, error);
+  static getBuildingData(gameData: GameDataProvider, buildingType: string): BuildingData | null {
+    const buildingData = gameData.getBuildingData(buildingType);
+    if (!buildingData) {
+      logger.warn(`Building type "${buildingType}" not found in buildings.json`);
       return null;
     }
+    return buildingData;
   }
 
   /**
@@ -58,7 +32,7 @@ export class BuildingFactory {
     tx: number,
     ty: number,
     cityEntity: Entity,
-    gameScene: Phaser.Scene,
+    gameData: GameDataProvider,
   ): { canBuild: boolean; reason?: string } {
     // Check if tile is within city borders
     const owningCity = CityBorders.getOwningCity(world, mapData, tx, ty);
@@ -76,7 +50,7 @@ export class BuildingFactory {
     }
 
     // Get building data
-    const buildingData = this.getBuildingData(gameScene, buildingType);
+    const buildingData = this.getBuildingData(gameData, buildingType);
     if (!buildingData) {
       return { canBuild: false, reason: 'Building type not found' };
     }
@@ -101,19 +75,19 @@ export class BuildingFactory {
    */
   static createBuilding(
     world: World,
+    mapData: MapData,
     buildingType: string,
     position: { tx: number; ty: number },
     cityEntity: Entity,
-    gameScene: Phaser.Scene,
+    gameData: GameDataProvider,
     skipPopulationChange: boolean = false,
   ): Entity | null {
-    const buildingData = this.getBuildingData(gameScene, buildingType);
+    const buildingData = this.getBuildingData(gameData, buildingType);
     if (!buildingData) {
       return null;
     }
 
     // Check if we can build here
-    const mapData = (gameScene as any).mapData as MapData;
     const canBuild = this.canBuildOnTile(
       world,
       mapData,
@@ -121,7 +95,7 @@ export class BuildingFactory {
       position.tx,
       position.ty,
       cityEntity,
-      gameScene,
+      gameData,
     );
 
     if (!canBuild.canBuild) {
@@ -0,0 +1,65 @@
+import { World, Entity } from '@engine/ecs';
+import * as Components from '@engine/gameplay/components';
+import { TilePoint } from '@engine/math/iso';
+import { DefendingCity, findCityBuildings, getCityCombatStats, getCityHealth } from '@engine/gameplay/combat';
+
+/**
+ * A city as the shared combat rules (combat.ts) see it
+ */
+export interface CityCombatState extends DefendingCity {
+  ownerId: number;
+  position: TilePoint;
+  capitalOf: number | null;
+}
+
+/**
+ * Reads cities from the world for the shared combat rules.
+ */
+export class CityCombat {
+  /**
+   * Gets a city's combat state (null if the entity isn't an owned city).
+   */
+  static getState(world: World, cityEntity: Entity): CityCombatState | null {
+    const city = world.getComponent(cityEntity, Components.City);
+    const transform = world.getComponent(cityEntity, Components.TransformTile);
+    const owner = world.getComponent(cityEntity, Components.Owner);
+    if (!city || !transform || !owner) return null;
+
+    return {
+      ownerId: owner.playerId,
+      position: { tx: transform.tx, ty: transform.ty },
+      population: city.population,
+      buildings: this.getBuildings(world, cityEntity).length,
+      damage: city.damage,
+      capitalOf: city.capitalOf,
+    };
+  }
+
+  /**
+   * Gets a city's health and defense for display (null if the entity isn't an owned city).
+   */
+  static getStats(world: World, cityEntity: Entity): { health: number; maxHealth: number; defense: number } | null {
+    const state = this.getState(world, cityEntity);
+    if (!state) return null;
+    return { health: getCityHealth(state), ...getCityCombatStats(state) };
+  }
+
+  /**
+   * Gets the building entities that belong to a city (see findCityBuildings).
+   */
+  static getBuildings(world: World, cityEntity: Entity): Entity[] {
+    const cities = world.view(Components.City, Components.TransformTile).map(entity => ({
+      entity,
+      position: world.getComponent(entity, Components.TransformTile)!,
+      population: world.getComponent(entity, Components.City)!.population,
+    }));
+    const city = cities.find(c => c.entity === cityEntity);
+    if (!city) return [];
+
+    const buildings = world.view(Components.Building, Components.TransformTile).map(entity => ({
+      entity,
+      position: world.getComponent(entity, Components.TransformTile)!,
+    }));
+    return findCityBuildings(cities, city, buildings).map(building => building.entity);
+  }
+}
@@ -2,6 +2,8 @@ import { World, Entity } from '@engine/ecs';
 import * as Components from '@engine/gameplay/components';
 import { MapData } from '@engine/map/MapData';
 import { RESOURCES } from '@config/game';
+import { calculateWorkedTileYields } from '@engine/gameplay/economy';
+import { CivilizationRegistry } from '@engine/civilization/Civilization';
 import { CityBorders } from './cityBorders';
 
 /**
@@ -9,8 +11,10 @@ import { CityBorders } from './cityBorders';
  * Includes yields from worked tiles, base city yields, and building bonuses.
  */
 export interface CityYields {
+  food: number; // Surplus after the citizens eat - negative when the city is starving
   production: number;
   gold: number;
+  science: number;
 }
 
 export class CityYieldsCalculator {
@@ -21,106 +25,41 @@ export class CityYieldsCalculator {
     world: World,
     mapData: MapData,
     cityEntity: Entity,
+    civilizationRegistry?: CivilizationRegistry,
   ): CityYields | null {
     const city = world.getComponent(cityEntity, Components.City);
     const transform = world.getComponent(cityEntity, Components.TransformTile);
     
     if (!city || !transform) return null;
 
-    const yields: CityYields = { production: 0, gold: 0 };
+    const yields: CityYields = { food: 0, production: 0, gold: 0, science: 0 };
 
     // 1. Calculate yields from worked tiles
-    const tileYields = this.calculateTileYields(city, transform, mapData);
+    const tileYields = calculateWorkedTileYields(mapData, { position: transform, population: city.population });
+    yields.food += tileYields.food;
     yields.production += tileYields.production;
     yields.gold += tileYields.gold;
 
     // 2. Add base city yields
+    const civ = world.getComponent(cityEntity, Components.CivilizationComponent);
+    yields.food += (civ && civilizationRegistry?.get(civ.civId)?.cityYields?.food) ?? RESOURCES.CITY_BASE_FOOD;
     yields.production += RESOURCES.CITY_BASE_PRODUCTION;
     yields.gold += RESOURCES.CITY_BASE_GOLD;
+    yields.science += city.population * RESOURCES.SCIENCE_PER_CITIZEN;
 
     // 3. Add building yields
     const buildingYields = this.calculateBuildingYields(world, mapData, cityEntity);
+    yields.food += buildingYields.food;
     yields.production += buildingYields.production;
     yields.gold += buildingYields.gold;
+    yields.science += buildingYields.science;
 
-    return yields;
-  }
-
-  /**
-   * Calculates yields from tiles that the city works.
-   */
-  private static calculateTileYields(
-    city: Components.City,
-    transform: Components.TransformTile,
-    mapData: MapData,
-  ): CityYields {
-    const yields: CityYields = { production: 0, gold: 0 };
-    const workableTiles = this.getWorkableTiles(city, transform, mapData);
-    
-    // Sort tiles by total yield (production + gold) descending
-    const sortedTiles = workableTiles.sort((a, b) => {
-      const aTotal = a.yields.production + a.yields.gold;
-      const bTotal = b.yields.production + b.yields.gold;
-      return bTotal - aTotal;
-    });
-
-    // Work the best tiles up to population limit
-    const tilesToWork = Math.min(city.population, sortedTiles.length);
-    for (let i = 0; i < tilesToWork; i++) {
-      const tile = sortedTiles[i];
-      yields.production += tile.yields.production;
-      yields.gold += tile.yields.gold;
-    }
+    // 4. Citizens eat
+    yields.food -= city.population * RESOURCES.FOOD_PER_CITIZEN;
 
     return yields;
   }
 
-  /**
-   * Gets all tiles that the city can potentially work.
-   */
-  private static getWorkableTiles(
-    city: Components.City,
-    transform: Components.TransformTile,
-    mapData: MapData,
-  ): Array<{ tx: number; ty: number; yields: CityYields }> {
-    const workableTiles: Array<{
-      tx: number;
-      ty: number;
-      yields: CityYields;
-    }> = [];
-    const sightRange = city.getSightRange();
-    const dimensions = mapData.getDimensions();
-
-    // Check all tiles within sight range
-    for (let dx = -sightRange; dx <= sightRange; dx++) {
-      for (let dy = -sightRange; dy <= sightRange; dy++) {
-        // Use Chebyshev distance (square radius)
-        if (Math.max(Math.abs(dx), Math.abs(dy)) > sightRange) continue;
-
-        const tx = transform.tx + dx;
-        const ty = transform.ty + dy;
-
-        // Check bounds
-        if (tx < 0 || tx >= dimensions.width || ty < 0 || ty >= dimensions.height) continue;
-
-        // Get terrain yields
-        const terrain = mapData.getTerrainAt(tx, ty);
-        if (!terrain || !terrain.yields) continue;
-
-        workableTiles.push({
-          tx,
-          ty,
-          yields: {
-            production: terrain.yields.prod || 0,
-            gold: terrain.yields.gold || 0,
-          },
-        });
-      }
-    }
-
-    return workableTiles;
-  }
-
   /**
    * Calculates yields from buildings owned by the city.
    */
@@ -129,7 +68,7 @@ export class CityYieldsCalculator {
     mapData: MapData,
     cityEntity: Entity,
   ): CityYields {
-    const yields: CityYields = { production: 0, gold: 0 };
+    const yields: CityYields = { food: 0, production: 0, gold: 0, science: 0 };
     
     // Get all buildings
     const buildings = world.view(Components.Building, Components.TransformTile);
@@ -146,8 +85,10 @@ export class CityYieldsCalculator {
       // Check if building is within this city's borders
       const tileKey = `${buildingPos.tx},${buildingPos.ty}`;
       if (cityTileSet.has(tileKey)) {
+        if (building.yields.food) yields.food += building.yields.food;
         if (building.yields.production) yields.production += building.yields.production;
         if (building.yields.gold) yields.gold += building.yields.gold;
+        if (building.yields.science) yields.science += building.yields.science;
       }
     }
     
@@ -161,8 +102,9 @@ export class CityYieldsCalculator {
     world: World,
     mapData: MapData,
     playerId: number = 0,
+    civilizationRegistry?: CivilizationRegistry,
   ): CityYields {
-    const totalYields: CityYields = { production: 0, gold: 0 };
+    const totalYields: CityYields = { food: 0, production: 0, gold: 0, science: 0 };
 
     // Get all cities owned by this player
     const cities = world.view(Components.City, Components.TransformTile, Components.Owner);
@@ -171,10 +113,12 @@ export class CityYieldsCalculator {
       const owner = world.getComponent(cityEntity, Components.Owner);
       if (!owner || owner.playerId !== playerId) continue;
 
-      const cityYields = this.calculateYields(world, mapData, cityEntity);
+      const cityYields = this.calculateYields(world, mapData, cityEntity, civilizationRegistry);
       if (cityYields) {
+        totalYields.food += cityYields.food;
         totalYields.production += cityYields.production;
         totalYields.gold += cityYields.gold;
+        totalYields.science += cityYields.science;
       }
     }
 
@@ -1,6 +1,5 @@
 import { TilePoint } from '@engine/math/iso';
 import { MapData } from '@engine/map/MapData';
-import { Terrain } from '@engine/map/Terrain';
 
 /**
  * Configuration for starting position generation
@@ -39,9 +38,9 @@ function isValidStartingPosition(
     return false;
   }
 
-  // Check terrain - avoid water and impassable terrain
+  // Check terrain - avoid water and impassable terrain (both are blocked)
   const terrain = mapData.getTerrainAt(tx, ty);
-  if (!terrain || terrain.isWater || !terrain.isPassable) {
+  if (!terrain || terrain.blocked || terrain.moveCost < 0) {
     return false;
   }
 
@@ -69,7 +68,7 @@ function getTerrainScore(tx: number, ty: number, mapData: MapData): number {
     return 3;
   }
   // Accept other passable terrain
-  if (terrain.isPassable && !terrain.isWater) {
+  if (!terrain.blocked && terrain.moveCost >= 0) {
     return 1;
   }
   return -1;
@@ -78,11 +77,13 @@ function getTerrainScore(tx: number, ty: number, mapData: MapData): number {
 /**
  * Generate random starting positions for multiple players
  * Ensures minimum distance between players while keeping positions random
+ * Pass a seeded `random` (e.g. SeededRNG.nextFloat) to get reproducible positions
  */
 export function generateStartingPositions(
   numPlayers: number,
   mapData: MapData,
   config: Partial<StartingPositionConfig> = {},
+  random: () => number = Math.random,
 ): TilePoint[] {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
   const positions: TilePoint[] = [];
@@ -119,7 +120,7 @@ export function generateStartingPositions(
           0,
           Math.max(10, Math.floor(candidates.length * 0.3)),
         );
-        const randomIndex = Math.floor(Math.random() * topCandidates.length);
+        const randomIndex = Math.floor(random() * topCandidates.length);
         position = topCandidates[randomIndex].pos;
       }
     }
@@ -127,8 +128,8 @@ export function generateStartingPositions(
     // If we didn't find a position yet, try random placement
     if (!position) {
       while (attempts < finalConfig.maxAttempts && !position) {
-        const tx = Math.floor(Math.random() * (width - 4)) + 2;
-        const ty = Math.floor(Math.random() * (height - 4)) + 2;
+        const tx = Math.floor(random() * (width - 4)) + 2;
+        const ty = Math.floor(random() * (height - 4)) + 2;
 
         if (isValidStartingPosition(tx, ty, mapData, positions, finalConfig.minDistance)) {
           position = { tx, ty };
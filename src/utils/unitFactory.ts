@@ -1,71 +1,44 @@
 import { World, Entity } from '@engine/ecs';
 import * as Components from '@engine/gameplay/components';
-import { mergeUnitData, getUnitSpriteKey, CivilizationRegistry } from '@engine/civilization/Civilization';
+import { mergeUnitData, CivilizationRegistry } from '@engine/civilization/Civilization';
+import { GameDataProvider, UnitData } from '@engine/gameplay/gameData';
 import { tileToWorld } from '@engine/math/iso';
-import { UnitSprite } from '@platform/phaser/sprites/UnitSprite';
-import Phaser from 'phaser';
 import { logger } from './logger';
 
-/**
- * Unit data structure from units.json
- */
-export interface UnitData {
-  name: string;
-  mp: number;
-  sightRange: number;
-  health: number;
-  maxHealth: number;
-  attack: number;
-  defense: number;
-  canAttack: boolean;
-  productionCost?: number;
-}
-
-/**
- * Units data structure from cache
- */
-export interface UnitsData {
-  [unitType: string]: UnitData;
-}
-
 /**
  * Centralized utility for creating units.
  * Eliminates code duplication between ProductionSystem and GameScene.
+ * Only creates entities - the platform's renderer gives them sprites.
  */
 export class UnitFactory {
   constructor(
     private world: World,
-    private gameScene: Phaser.Scene,
+    private gameData: GameDataProvider,
     private civilizationRegistry: CivilizationRegistry,
-    private unitSprites: Map<Entity, UnitSprite>,
   ) {}
 
   /**
-   * Gets unit data from cache with proper typing.
+   * Gets the base data of a unit type (without civilization overrides).
    */
   getUnitData(unitType: string): UnitData | null {
-    try {
-      const unitsData = this.gameScene.cache.json.get('units') as UnitsData;
-      const unitData = unitsData[unitType];
-      if (!unitData) {
-        logger.warn(`Unit type "${unitType}" not found in units.json`);
-        return null;
-      }
-      return unitData;
-    } catch (error) {
-      logger.error(`Failed to get unit data for "${unitType}":`, error);
+    const unitData = this.gameData.getUnitData(unitType);
+    if (!unitData) {
+      logger.warn(`Unit type "${unitType}" not found in units.json`);
       return null;
     }
+    return unitData;
   }
 
   /**
    * Creates a unit entity at the specified position.
+   * @param entityId - Externally assigned ID (the server's, in multiplayer); a local ID is used if omitted
    */
   createUnit(
     unitType: string,
     position: { tx: number; ty: number },
     ownerId: number,
     civId: string = 'romans',
+    entityId?: Entity,
   ): Entity | null {
     // Get base unit data
     const baseUnitData = this.getUnitData(unitType);
@@ -82,11 +55,8 @@ export class UnitFactory {
     const unitOverride = civ?.units?.[unitType];
     const mergedUnitData = mergeUnitData(baseUnitData, unitOverride);
 
-    // Get sprite key with civilization override
-    const unitSpriteKey = getUnitSpriteKey('unit', civ?.sprites);
-
     // Create the unit entity
-    const unit = this.world.createEntity();
+    const unit = entityId === undefined ? this.world.createEntity() : this.world.createEntityWithId(entityId);
     this.world.addComponent(unit, new Components.TransformTile(position.tx, position.ty));
     this.world.addComponent(unit, new Components.Unit(
       mergedUnitData.mp,
@@ -107,19 +77,7 @@ export class UnitFactory {
     const worldPos = tileToWorld(position);
     this.world.addComponent(unit, new Components.ScreenPos(worldPos.x, worldPos.y));
 
-    // Create unit sprite
-    try {
-      const unitSprite = new UnitSprite(this.gameScene, worldPos.x, worldPos.y, unitSpriteKey);
-      this.gameScene.add.existing(unitSprite);
-      this.unitSprites.set(unit, unitSprite);
-      logger.debug(`Unit ${unitType} created at (${position.tx}, ${position.ty})`);
-      return unit;
-    } catch (error) {
-      console.error(`[UnitFactory.createUnit] Error creating sprite:`, error);
-      // Clean up entity if sprite creation failed
-      this.world.destroyEntity(unit);
-      return null;
-    }
+    logger.debug(`Unit ${unitType} created at (${position.tx}, ${position.ty})`);
+    return unit;
   }
 }
-